@@ -1,16 +1,30 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { ControlPanel } from './components/ControlPanel';
 import { Workspace } from './components/Workspace';
 import { performInitialAnalysis, getAgentResponse, getAutonomousDirective, decomposeMission } from './services/geminiService';
 import { getMonitorAgentAnalysis } from './services/monitorService';
-import { MindMapData, ChatMessage, MindMapNode, MindMapLink, VirtualFileSystem, VectorStore, TerminalLine, AnalysisAspect, MonitorAnalysis, SystemLogEntry, Commit, ApiCallLog, Tab, MissionTask, SystemStatus } from './types';
+import { MindMapData, MindMapEdit, ChatMessage, MindMapNode, MindMapLink, VirtualFileSystem, VectorStore, TerminalLine, AnalysisAspect, MonitorAnalysis, SystemLogEntry, Repository, ApiCallLog, Tab, MissionTask, SystemStatus, LLMProviderId, SessionState, WorkspaceSummary, AutosaveStatus, MemoryDraft, HistoryEntry, HistorySnapshot, UndoHistory } from './types';
 import { ANALYSIS_DEPARTMENTS } from './constants';
 import { executeTool } from './tools/executor';
+import { previewToolCall } from './tools/preview';
+import { runTerminalCommand, AGENT_PROMPT_PREFIX } from './tools/terminal';
 import { FunctionCall } from '@google/genai';
 import { UploadModal } from './components/UploadModal';
+import { NodePinChange } from './components/MindMap';
+import { ToolApprovalQueue } from './components/ToolApprovalQueue';
 import { apiMonitorService } from './services/apiMonitorService';
 import { auditLogService } from './services/auditLogService';
+import { loadStoredProviderId, setActiveProviderId, getProvider } from './services/llmProvider';
+import { serializeSessionBundle, parseSessionBundle, isSessionBundle, createEmptySessionState, SESSION_FILE_EXTENSION } from './services/sessionService';
+import { storageService } from './services/storageService';
+import { memoryService } from './services/memoryService';
+import { toolApprovalService } from './services/toolApprovalService';
+import { exportFilesZip, exportGitRepositoryZip, importFiles, readPickedFiles, readZipFiles } from './services/archiveService';
+import { ZipEntry } from './utils/zip';
+import { createUndoHistory, recordChange, undo, redo, travelTo } from './utils/undoHistory';
+import { applyMindMapEdit, describeMindMapEdit } from './utils/mindMapEditing';
+import { createRepository, commitChanges, checkout, revertCommit, restoreFile, restoreMindMap, discardChanges, createBranch, deleteBranch, mergeRevision, abortMerge, stageAll, stagePaths, stageFileContent, unstagePaths, getStagedChanges, AGENT_AUTHOR, USER_AUTHOR } from './services/versionControlService';
 
 const initialMonitorAnalysis: MonitorAnalysis = {
   overallAssessment: "The persona agent exhibits exceptional performance in terms of persona cohesion and systematic knowledge acquisition. Its reasoning and actions are highly consistent with its defined profile as a hyper-intelligent, systems-thinking analyst. The agent demonstrates a sophisticated, logical process for identifying knowledge gaps and utilizing tools to fill them. However, its current operational loop is confined to knowledge acquisition and organization. The primary opportunity for growth lies in transitioning from this analytical phase to a generative one, where it actively applies its comprehensive knowledge to create novel artifacts and predictive models, thereby fully realizing its persona's core motivations.",
@@ -39,6 +53,8 @@ const initialMonitorAnalysis: MonitorAnalysis = {
 };
 
 
+const AUTOSAVE_DELAY_MS = 1000;
+
 const App: React.FC = () => {
   const [personaDescription, setPersonaDescription] = useState<string>('');
   const [mindMapData, setMindMapData] = useState<MindMapData>({ nodes: [], links: [] });
@@ -62,13 +78,16 @@ const App: React.FC = () => {
   const [monitorAnalysis, setMonitorAnalysis] = useState<MonitorAnalysis | null>(initialMonitorAnalysis);
 
   // --- Source Control State ---
-  const [committedVFS, setCommittedVFS] = useState<VirtualFileSystem>({});
-  const [commitLog, setCommitLog] = useState<Commit[]>([]);
+  const [repository, setRepository] = useState<Repository>(createRepository);
+
+  // --- Undo History State ---
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(createUndoHistory);
 
   // --- Global Model State ---
   const [selectedGlobalModel, setSelectedGlobalModel] = useState<string>(() => {
     return localStorage.getItem('selectedGlobalModel') || 'gemini-2.5-flash';
   });
+  const [selectedProvider, setSelectedProvider] = useState<LLMProviderId>(loadStoredProviderId);
   const [auditLogChunkSize, setAuditLogChunkSize] = useState<number>(51200);
   
   // --- API Monitor State ---
@@ -79,39 +98,152 @@ const App: React.FC = () => {
   const [fileToAutoOpen, setFileToAutoOpen] = useState<string | null>(null);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
 
-  // Load chat history from local storage on initial render
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>(() => {
-      try {
-          const savedChat = localStorage.getItem('personaChatHistory');
-          if (savedChat) {
-              const parsedChat = JSON.parse(savedChat);
-              // Basic validation
-              if (Array.isArray(parsedChat) && parsedChat.every(item => 'sender' in item && 'text' in item)) {
-                  return parsedChat;
-              }
-          }
-      } catch (error) {
-          console.error("Failed to load chat history from local storage:", error);
-      }
-      return []; // Return empty array if nothing is saved or parsing fails
-  });
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+
+  // --- Workspace Persistence State ---
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus>('idle');
+  // Another tab has the active workspace open; saving here would overwrite its work.
+  const [isWorkspaceReadOnly, setIsWorkspaceReadOnly] = useState<boolean>(false);
 
 
   const isProcessing = systemStatus !== 'IDLE';
+  const consolidatedMemoryCount = useMemo(() => vectorStore.filter(m => m.consolidatedFrom).length, [vectorStore]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const sessionInputRef = useRef<HTMLInputElement>(null);
+  // The latest mind map and VFS, for recording history from callbacks that don't otherwise depend on them.
+  const currentSnapshotRef = useRef<HistorySnapshot>({ mindMap: mindMapData, vfs: virtualFileSystem });
+  currentSnapshotRef.current = { mindMap: mindMapData, vfs: virtualFileSystem };
+
+  const recordHistory = useCallback((entry: Omit<HistoryEntry, 'id' | 'timestamp'>) => {
+    setUndoHistory(history => recordChange(history, entry));
+  }, []);
+
+  // Source control actions from the Source Control panel; the agent runs the same operations as tools.
+  const applySourceControlAction = useCallback((action: string, details: object, operation: () => { repository?: Repository; vfs?: VirtualFileSystem; mindMap?: MindMapData }) => {
+    try {
+      const result = operation();
+      if (result.repository) setRepository(result.repository);
+      if (result.vfs) setVirtualFileSystem(result.vfs);
+      if (result.mindMap) setMindMapData(result.mindMap);
+      if (result.vfs || result.mindMap) {
+        const before = currentSnapshotRef.current;
+        recordHistory({
+          label: `Source control: ${action.toLowerCase().replace(/_/g, ' ')}`,
+          source: 'user',
+          before,
+          after: { mindMap: result.mindMap ?? before.mindMap, vfs: result.vfs ?? before.vfs },
+        });
+      }
+      auditLogService.logEvent('USER_INTERACTION', { action, details });
+    } catch (err) {
+      setError(`Source control: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [recordHistory]);
 
-    const handleCommit = useCallback((message: string) => {
+  const handleCommit = useCallback((message: string) => {
     if (!message.trim()) return;
-    const newCommit: Commit = {
-      id: `commit-${Date.now()}`,
-      message,
-      timestamp: new Date().toISOString(),
+    applySourceControlAction('COMMIT', { message }, () => {
+      // A merge stages its conflicted files as resolved; otherwise, with nothing staged, every change is committed.
+      const staged = repository.merge ? stagePaths(repository, virtualFileSystem, repository.merge.conflicts)
+        : getStagedChanges(repository).length > 0 ? repository : stageAll(repository, virtualFileSystem);
+      return commitChanges(staged, virtualFileSystem, mindMapData, message, USER_AUTHOR);
+    });
+  }, [applySourceControlAction, repository, virtualFileSystem, mindMapData]);
+
+  const handleStage = useCallback((paths: string[]) => {
+    applySourceControlAction('STAGE', { paths }, () => ({ repository: stagePaths(repository, virtualFileSystem, paths) }));
+  }, [applySourceControlAction, repository, virtualFileSystem]);
+
+  const handleStageFileContent = useCallback((path: string, content: string) => {
+    applySourceControlAction('STAGE_HUNK', { path }, () => ({ repository: stageFileContent(repository, path, content) }));
+  }, [applySourceControlAction, repository]);
+
+  const handleUnstage = useCallback((paths: string[]) => {
+    applySourceControlAction('UNSTAGE', { paths }, () => ({ repository: unstagePaths(repository, paths) }));
+  }, [applySourceControlAction, repository]);
+
+  const handleDiscardChanges = useCallback((path: string) => {
+    applySourceControlAction('DISCARD_CHANGES', { path }, () => ({ vfs: discardChanges(repository, virtualFileSystem, path) }));
+  }, [applySourceControlAction, repository, virtualFileSystem]);
+
+  const handleCreateBranch = useCallback((name: string) => {
+    applySourceControlAction('CREATE_BRANCH', { name }, () => ({ repository: createBranch(repository, name, 'HEAD', true) }));
+  }, [applySourceControlAction, repository]);
+
+  const handleDeleteBranch = useCallback((name: string, force: boolean) => {
+    applySourceControlAction('DELETE_BRANCH', { name, force }, () => ({ repository: deleteBranch(repository, name, force) }));
+  }, [applySourceControlAction, repository]);
+
+  const handleMerge = useCallback((revision: string) => {
+    applySourceControlAction('MERGE', { revision }, () => mergeRevision(repository, virtualFileSystem, mindMapData, revision, USER_AUTHOR));
+  }, [applySourceControlAction, repository, virtualFileSystem, mindMapData]);
+
+  const handleAbortMerge = useCallback(() => {
+    applySourceControlAction('ABORT_MERGE', {}, () => abortMerge(repository));
+  }, [applySourceControlAction, repository]);
+
+  const handleOpenFileInIDE = useCallback((path: string) => {
+    setActiveTab('IDE');
+    setFileToAutoOpen(path.replace(/^\//, ''));
+  }, []);
+
+  const handleCheckout = useCallback((revision: string, discardChanges: boolean) => {
+    applySourceControlAction('CHECKOUT', { revision, discardChanges }, () => checkout(repository, virtualFileSystem, revision, { discardChanges }));
+  }, [applySourceControlAction, repository, virtualFileSystem]);
+
+  const handleRevertCommit = useCallback((revision: string) => {
+    applySourceControlAction('REVERT_COMMIT', { revision }, () => revertCommit(repository, virtualFileSystem, mindMapData, revision, USER_AUTHOR));
+  }, [applySourceControlAction, repository, virtualFileSystem, mindMapData]);
+
+  const handleRestoreMindMap = useCallback((revision: string) => {
+    applySourceControlAction('RESTORE_MIND_MAP', { revision }, () => restoreMindMap(repository, revision));
+  }, [applySourceControlAction, repository]);
+
+  // Pinned positions are part of the mind map, so they are saved with the session and recorded in commits.
+  // Like direct edits below, pins wait for the agent's turn to end, which would otherwise overwrite them.
+  const handlePinMindMapNodes = useCallback((changes: NodePinChange[]) => {
+    if (changes.length === 0 || isProcessing) return;
+    const positions = new Map(changes.map(change => [change.nodeId, change.position]));
+    const before = currentSnapshotRef.current;
+    const mindMap: MindMapData = {
+      ...before.mindMap,
+      nodes: before.mindMap.nodes.map(node => {
+        if (!positions.has(node.id)) return node;
+        const position = positions.get(node.id);
+        return { ...node, fx: position ? Math.round(position.x) : null, fy: position ? Math.round(position.y) : null };
+      }),
     };
-    setCommitLog(prev => [newCommit, ...prev]);
-    const newCommittedVFS = JSON.parse(JSON.stringify(virtualFileSystem));
-    setCommittedVFS(newCommittedVFS);
-    auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'COMMIT_VFS', details: { message, commitId: newCommit.id, vfs: newCommittedVFS } });
-  }, [virtualFileSystem]);
+    setMindMapData(mindMap);
+    const node = before.mindMap.nodes.find(n => n.id === changes[0].nodeId);
+    const label = changes.length > 1
+      ? `Unpin ${changes.length} nodes`
+      : `${changes[0].position ? 'Pin' : 'Unpin'} "${node?.name ?? changes[0].nodeId}"`;
+    recordHistory({ label, source: 'user', before, after: { ...before, mindMap } });
+    auditLogService.logEvent('USER_INTERACTION', { action: 'PIN_MIND_MAP_NODES', details: { changes } });
+  }, [recordHistory, isProcessing]);
+
+  // Direct corrections from the Knowledge tab; the agent's own edits go through its tools instead.
+  // A running turn works on its own copy of the map and writes it back at the end, so edits wait until it is done.
+  const handleEditMindMap = useCallback((edit: MindMapEdit) => {
+    if (isProcessing) return;
+    const before = currentSnapshotRef.current;
+    try {
+      const { mindMap, createdNodeId } = applyMindMapEdit(before.mindMap, edit);
+      setMindMapData(mindMap);
+      if (createdNodeId) setSelectedNodeId(createdNodeId);
+      else setSelectedNodeId(id => (id && mindMap.nodes.some(node => node.id === id) ? id : null));
+      recordHistory({ label: describeMindMapEdit(before.mindMap, edit), source: 'user', before, after: { ...before, mindMap } });
+      auditLogService.logEvent('USER_INTERACTION', { action: `MIND_MAP_${edit.type}`, details: { edit, createdNodeId } });
+    } catch (err) {
+      setError(`Mind map: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [recordHistory, isProcessing]);
+
+  const handleRestoreFile = useCallback((path: string, revision: string) => {
+    applySourceControlAction('RESTORE_FILE', { path, revision }, () => restoreFile(repository, virtualFileSystem, path, revision));
+  }, [applySourceControlAction, repository, virtualFileSystem]);
 
   const handleReset = useCallback(() => {
     auditLogService.logEvent('SYSTEM_EVENT', { event: 'RESET_APPLICATION' });
@@ -128,8 +260,8 @@ const App: React.FC = () => {
     setMonitorAnalysis(initialMonitorAnalysis);
     setSystemLog([]);
     setUploadedMindMap(null);
-    setCommittedVFS({});
-    setCommitLog([]);
+    setRepository(createRepository());
+    setUndoHistory(createUndoHistory());
     setApiCallLogs([]);
     setMissionStatement('');
     setMissionTasks([]);
@@ -137,7 +269,7 @@ const App: React.FC = () => {
     setActiveTab('MIND_MAP'); // Reset active tab
     setFileToAutoOpen(null); // Reset file to open
     setSelectedNodeId(null);
-    localStorage.removeItem('personaChatHistory');
+    toolApprovalService.denyAll();
     auditLogService.clear();
   }, []);
   
@@ -163,7 +295,7 @@ const App: React.FC = () => {
     setChatHistory(currentChatHistory);
     
     if(source === 'terminal') {
-      setTerminalHistory(prev => [...prev, { type: 'input', text: message }]);
+      setTerminalHistory(prev => [...prev, { type: 'input', text: `${AGENT_PROMPT_PREFIX} ${message}` }]);
     }
     
     let currentLogEntry: SystemLogEntry | null = null;
@@ -180,7 +312,21 @@ const App: React.FC = () => {
     setError(null);
     let tempMindMap = mindMapData;
     let tempVFS = virtualFileSystem;
+    let tempRepository = repository;
     let tempMissionTasks = missionTasks;
+    let tempVectorStore = vectorStore;
+    const turnReplies: string[] = [];
+    // The whole turn is one undo step; this is the state it last applied.
+    const turnStart: HistorySnapshot = { mindMap: mindMapData, vfs: virtualFileSystem };
+    let turnApplied = turnStart;
+    const turnTools: string[] = [];
+
+    const rememberDrafts = async (drafts: MemoryDraft[]) => {
+        const newMemories = await memoryService.createMemories(drafts);
+        if (newMemories.length === 0) return;
+        tempVectorStore = [...tempVectorStore, ...newMemories];
+        setVectorStore(tempVectorStore);
+    };
 
     try {
         let toolResponses: { toolResponse: { id: string, name: string, response: any }}[] = [];
@@ -192,6 +338,7 @@ const App: React.FC = () => {
             if (agentResponse.text) {
                 const personaMessage: ChatMessage = { sender: 'persona', text: agentResponse.text };
                 setChatHistory(prev => [...prev, personaMessage]);
+                turnReplies.push(agentResponse.text);
                 if (currentLogEntry) currentLogEntry.finding = agentResponse.text;
             }
 
@@ -209,14 +356,36 @@ const App: React.FC = () => {
               currentChatHistory = [...currentChatHistory, { sender: 'persona', type: 'thought', text: thoughtText }];
               setChatHistory(currentChatHistory);
 
+              // Gated tools wait here for a human; in autonomous mode nobody may be watching, so they time out as denied.
+              const approval = await toolApprovalService.requestApproval(
+                toolCall.name ?? '',
+                (toolCall.args ?? {}) as Record<string, unknown>,
+                previewToolCall(toolCall, tempMindMap, tempVFS, tempRepository)
+              );
+              if (!approval.approved) {
+                const denial = approval.reason === 'policy'
+                    ? `The tool '${toolCall.name}' is disabled by the user's approval policy.`
+                    : approval.reason === 'timeout'
+                        ? `The call to '${toolCall.name}' was not approved in time and was denied.`
+                        : `The user denied the call to '${toolCall.name}'.`;
+                currentChatHistory = [...currentChatHistory, { sender: 'persona', type: 'thought', text: `[Denied: ${denial}]` }];
+                setChatHistory(currentChatHistory);
+                toolResponses.push({
+                    toolResponse: { id: toolCall.id ?? '', name: toolCall.name ?? '', response: { result: `${denial} Nothing was changed. Do not retry this call; continue without it or ask the user.` }},
+                });
+                continue;
+              }
+              if (toolCall.name) turnTools.push(toolCall.name);
+
               const toolExecutionResult = await executeTool(
                 selectedGlobalModel,
                 toolCall,
                 tempMindMap,
                 tempVFS,
-                vectorStore,
+                tempVectorStore,
                 personaDescription,
-                currentChatHistory // Pass chat history for context
+                currentChatHistory, // Pass chat history for context
+                tempRepository
               );
               
                if (toolExecutionResult.generatedImage) {
@@ -244,8 +413,13 @@ const App: React.FC = () => {
                   setActiveTab('IDE');
                   setFileToAutoOpen(toolExecutionResult.filePathHandled);
               }
-              if (toolExecutionResult.commitMessage) {
-                  handleCommit(toolExecutionResult.commitMessage);
+              if (toolExecutionResult.newRepository) tempRepository = toolExecutionResult.newRepository;
+              if (toolExecutionResult.recalledMemoryIds) {
+                  tempVectorStore = memoryService.markAccessed(tempVectorStore, toolExecutionResult.recalledMemoryIds);
+                  setVectorStore(tempVectorStore);
+              }
+              if (toolExecutionResult.memories) {
+                  await rememberDrafts(toolExecutionResult.memories);
               }
               if (toolExecutionResult.taskStatusUpdate) {
                   const { taskId, status } = toolExecutionResult.taskStatusUpdate;
@@ -264,17 +438,29 @@ const App: React.FC = () => {
             
             setMindMapData(tempMindMap);
             setVirtualFileSystem(tempVFS);
+            setRepository(tempRepository);
             setMissionTasks(tempMissionTasks);
+            turnApplied = { mindMap: tempMindMap, vfs: tempVFS };
             
             if (i === 9) {
                  const finalResponse = await getAgentResponse(selectedGlobalModel, tempMindMap, currentChatHistory, toolResponses);
                  if (finalResponse.text) {
                     const personaMessage: ChatMessage = { sender: 'persona', text: finalResponse.text };
                     setChatHistory(prev => [...prev, personaMessage]);
+                    turnReplies.push(finalResponse.text);
                     if (currentLogEntry) currentLogEntry.finding = finalResponse.text;
                  }
             }
         }
+
+        // Remember the exchange itself, not just what the tools produced.
+        if (turnReplies.length > 0) {
+            await rememberDrafts([{
+                text: `${source === 'system' ? 'Directive' : 'User'}: ${message}\n\nPersona: ${turnReplies.join('\n\n')}`,
+                source: source === 'system' ? 'system' : 'chat',
+                sourceDetail: source,
+            }]);
+        }
     } catch(err) {
       console.error('Error in agent response:', err);
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
@@ -284,11 +470,72 @@ const App: React.FC = () => {
       if (currentLogEntry) {
         setSystemLog(prev => [...prev, currentLogEntry!]);
       }
+      recordHistory({
+        label: `${source === 'system' ? 'Directive' : 'Agent turn'}: ${message.length > 80 ? `${message.substring(0, 80)}…` : message}`,
+        source: 'agent',
+        tools: Array.from(new Set(turnTools)),
+        before: turnStart,
+        after: turnApplied,
+      });
       setSystemStatus('IDLE');
     }
-}, [mindMapData, chatHistory, isProcessing, virtualFileSystem, vectorStore, personaDescription, selectedGlobalModel, handleCommit, missionTasks]);
+}, [mindMapData, chatHistory, isProcessing, virtualFileSystem, repository, vectorStore, personaDescription, selectedGlobalModel, missionTasks, recordHistory]);
 
 
+  // Commands typed into the Terminal run locally against the VFS; only prefixed input reaches the agent.
+  const handleTerminalCommand = useCallback(async (input: string) => {
+    if (isProcessing) return;
+    if (input.startsWith(AGENT_PROMPT_PREFIX)) {
+        const request = input.slice(AGENT_PROMPT_PREFIX.length).trim();
+        if (request) handleSendMessage(request, 'terminal');
+        return;
+    }
+
+    auditLogService.logEvent('USER_INTERACTION', { action: 'TERMINAL_COMMAND', details: { command: input } });
+    if (input === 'clear') {
+        setTerminalHistory([]);
+        return;
+    }
+    setTerminalHistory(prev => [...prev, { type: 'input', text: input }]);
+    try {
+        const { terminalOutput, newVFS, newMindMap } = await runTerminalCommand(input, virtualFileSystem, mindMapData);
+        if (newVFS) setVirtualFileSystem(newVFS);
+        if (newMindMap) setMindMapData(newMindMap);
+        recordHistory({
+          label: `Terminal: ${input}`,
+          source: 'user',
+          before: { mindMap: mindMapData, vfs: virtualFileSystem },
+          after: { mindMap: newMindMap ?? mindMapData, vfs: newVFS ?? virtualFileSystem },
+        });
+        setTerminalHistory(prev => [...prev, ...terminalOutput]);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setTerminalHistory(prev => [...prev, { type: 'error', text: errorMessage }]);
+    }
+  }, [isProcessing, handleSendMessage, virtualFileSystem, mindMapData, recordHistory]);
+
+  // Stepping back also stops autonomous mode, so the agent doesn't immediately redo what was undone.
+  const applyHistoryStep = useCallback((action: string, step: { history: UndoHistory; snapshot: HistorySnapshot; entry?: HistoryEntry } | null) => {
+    if (!step || isProcessing) return;
+    setUndoHistory(step.history);
+    setMindMapData(step.snapshot.mindMap);
+    setVirtualFileSystem(step.snapshot.vfs);
+    setIsAutonomous(false);
+    auditLogService.logEvent('USER_INTERACTION', { action, details: { entry: step.entry?.label, remaining: step.history.past.length } });
+  }, [isProcessing]);
+
+  const handleUndo = useCallback(() => {
+    applyHistoryStep('UNDO', undo(undoHistory, currentSnapshotRef.current));
+  }, [applyHistoryStep, undoHistory]);
+
+  const handleRedo = useCallback(() => {
+    applyHistoryStep('REDO', redo(undoHistory, currentSnapshotRef.current));
+  }, [applyHistoryStep, undoHistory]);
+
+  const handleTravelTo = useCallback((entryId: string | null) => {
+    applyHistoryStep('RESTORE_HISTORY_ENTRY', travelTo(undoHistory, currentSnapshotRef.current, entryId));
+  }, [applyHistoryStep, undoHistory]);
+
   const runAutonomousCycle = useCallback(async () => {
     if (systemStatus !== 'IDLE') return; // Do not run if another process is active
     
@@ -418,15 +665,7 @@ const App: React.FC = () => {
 
             // Finalize creation process
             setCurrentTask('Analysis complete. Agent is now autonomous.');
-            const initialCommit: Commit = {
-              id: `commit-${Date.now()}`,
-              message: "Initial commit: Mind map generation complete.",
-              timestamp: new Date().toISOString(),
-            };
-            const newCommittedVFS = JSON.parse(JSON.stringify(virtualFileSystem));
-            setCommitLog([initialCommit]);
-            setCommittedVFS(newCommittedVFS);
-            auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'COMMIT_VFS', details: { message: initialCommit.message, vfs: newCommittedVFS } });
+            setRepository(commitChanges(stageAll(createRepository(), virtualFileSystem), virtualFileSystem, accumulatedMindMap, "Initial commit: Mind map generation complete.", AGENT_AUTHOR).repository);
 
             setTimeout(() => setIsAutonomous(true), 100);
 
@@ -536,6 +775,32 @@ const App: React.FC = () => {
     }
   }, [mindMapData, chatHistory, virtualFileSystem, vectorStore, handleSendMessage, selectedGlobalModel, systemStatus]);
   
+  const handleConsolidateMemory = useCallback(async () => {
+    if (isProcessing || vectorStore.length === 0) return;
+    setSystemStatus('AGENT_PROCESSING');
+    setCurrentTask('Consolidating long-term memory...');
+    setError(null);
+    try {
+        const { store, report } = await memoryService.consolidate(vectorStore, mindMapData, selectedGlobalModel);
+        // Memories added while consolidating were not part of the pass; keep them.
+        setVectorStore(prev => {
+            const known = new Set(vectorStore.map(m => m.id));
+            return [...store, ...prev.filter(m => !known.has(m.id))];
+        });
+        setSystemLog(prev => [...prev, {
+            timestamp: new Date().toISOString(),
+            directive: 'Memory Consolidation',
+            finding: `Merged ${report.memoriesMerged} memories into ${report.clustersConsolidated} consolidated entries and forgot ${report.memoriesForgotten} faded memories.`,
+            upgrades: report.created.map(m => m.linkedNodeId ? `Linked to ${m.linkedNodeId}: ${m.text.substring(0, 120)}` : m.text.substring(0, 120)),
+        }]);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError(`Memory consolidation failed. Reason: ${errorMessage}`);
+    } finally {
+        setSystemStatus('IDLE');
+    }
+  }, [isProcessing, vectorStore, mindMapData, selectedGlobalModel]);
+
   const handleDownloadMindMap = () => {
     const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(mindMapData, null, 2));
     const downloadAnchorNode = document.createElement('a');
@@ -550,6 +815,125 @@ const App: React.FC = () => {
     fileInputRef.current?.click();
   };
 
+  const loadSessionState = useCallback((state: SessionState, source: string) => {
+    setIsAutonomous(false);
+    setSystemStatus('IDLE');
+    setError(null);
+    setPersonaDescription(state.personaDescription);
+    setMindMapData(state.mindMap);
+    setVirtualFileSystem(state.virtualFileSystem);
+    setRepository(state.repository);
+    setUndoHistory(createUndoHistory());
+    setMissionStatement(state.missionStatement);
+    setMissionTasks(state.missionTasks);
+    setSystemLog(state.systemLog);
+    setMonitorAnalysis(state.monitorAnalysis);
+    setVectorStore(state.vectorStore);
+    setChatHistory(state.chatHistory);
+    setTerminalHistory(state.terminalHistory);
+    setUploadedMindMap(null);
+    setSelectedNodeId(null);
+    setFileToAutoOpen(null);
+    setActiveTab('MIND_MAP');
+    setCurrentTask(`Session loaded from ${source}.`);
+    auditLogService.logEvent('SYSTEM_EVENT', { event: 'SESSION_LOADED', details: { source, nodes: state.mindMap.nodes.length, commits: Object.values(state.repository.objects).filter(o => o.type === 'commit').length } });
+  }, []);
+
+  const handleExportSession = () => {
+    const state: SessionState = {
+      personaDescription,
+      mindMap: mindMapData,
+      virtualFileSystem,
+      repository,
+      missionStatement,
+      missionTasks,
+      systemLog,
+      monitorAnalysis,
+      vectorStore,
+      chatHistory,
+      terminalHistory,
+    };
+    const blob = new Blob([serializeSessionBundle(state)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const filename = `persona_session_${new Date().toISOString().replace(/[:.]/g, '-')}${SESSION_FILE_EXTENSION}`;
+    const downloadAnchorNode = document.createElement('a');
+    downloadAnchorNode.setAttribute("href", url);
+    downloadAnchorNode.setAttribute("download", filename);
+    document.body.appendChild(downloadAnchorNode);
+    downloadAnchorNode.click();
+    downloadAnchorNode.remove();
+    URL.revokeObjectURL(url);
+    auditLogService.logEvent('USER_INTERACTION', { action: 'EXPORT_SESSION', details: { filename } });
+  };
+
+  const handleExportFiles = async (asGitRepository: boolean) => {
+    // The archive unpacks into a folder named after the workspace.
+    const folder = (workspaces.find(w => w.id === activeWorkspaceId)?.name ?? 'persona').replace(/[^\w.-]+/g, '-') || 'persona';
+    const filename = `${folder}${asGitRepository ? '_git' : '_files'}.zip`;
+    try {
+      const blob = asGitRepository
+        ? await exportGitRepositoryZip(repository, virtualFileSystem, mindMapData, folder)
+        : await exportFilesZip(virtualFileSystem, folder);
+      const url = URL.createObjectURL(blob);
+      const downloadAnchorNode = document.createElement('a');
+      downloadAnchorNode.setAttribute("href", url);
+      downloadAnchorNode.setAttribute("download", filename);
+      document.body.appendChild(downloadAnchorNode);
+      downloadAnchorNode.click();
+      downloadAnchorNode.remove();
+      URL.revokeObjectURL(url);
+      auditLogService.logEvent('USER_INTERACTION', { action: asGitRepository ? 'EXPORT_GIT_REPOSITORY' : 'EXPORT_FILES', details: { filename } });
+    } catch (err) {
+      setError(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleImportFiles = async (source: string, files: Promise<ZipEntry[]>) => {
+    try {
+      const result = importFiles(virtualFileSystem, await files);
+      setVirtualFileSystem(result.vfs);
+      recordHistory({ label: `Import ${source}`, source: 'user', before: currentSnapshotRef.current, after: { ...currentSnapshotRef.current, vfs: result.vfs } });
+      const skipped = result.skipped.length > 0 ? ` Skipped ${result.skipped.map(s => `${s.path} (${s.reason})`).join(', ')}.` : '';
+      setCurrentTask(`Imported ${result.imported.length} ${result.imported.length === 1 ? 'file' : 'files'} from ${source}.${skipped}`);
+      auditLogService.logEvent('USER_INTERACTION', { action: 'IMPORT_FILES', details: { source, imported: result.imported.length, skipped: result.skipped } });
+    } catch (err) {
+      setError(`Failed to import ${source}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleImportZip = (file: File) => handleImportFiles(file.name, readZipFiles(file));
+
+  const handleImportFolder = (files: FileList) => handleImportFiles(files[0].webkitRelativePath.split('/')[0] || 'folder', readPickedFiles(files));
+
+  const workspaceNameFromFile = (filename: string) => filename.replace(/\.(persona|json)$/i, '');
+
+  const handleImportSessionClick = () => {
+    sessionInputRef.current?.click();
+  };
+
+  const handleSessionFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        try {
+          const state = parseSessionBundle(e.target?.result as string);
+          auditLogService.logEvent('USER_INTERACTION', { action: 'IMPORT_SESSION', details: { filename: file.name } });
+          // Imported sessions open side by side with existing ones rather than replacing them.
+          handleCreateWorkspace(workspaceNameFromFile(file.name), state);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : 'Unknown error.';
+          setError(`Failed to load session: ${message}`);
+        }
+      };
+      reader.onerror = () => setError("Failed to read the file.");
+      reader.readAsText(file);
+    }
+    if (event.target) {
+        event.target.value = '';
+    }
+  };
+
   const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -557,8 +941,12 @@ const App: React.FC = () => {
       reader.onload = (e) => {
         try {
           const content = e.target?.result as string;
-          const data: MindMapData = JSON.parse(content);
-          if (data.nodes && data.links) {
+          const data = JSON.parse(content);
+          if (isSessionBundle(data)) {
+            // A full session was picked from the mind map upload; open it as a workspace rather than merging.
+            auditLogService.logEvent('USER_INTERACTION', { action: 'IMPORT_SESSION', details: { filename: file.name } });
+            handleCreateWorkspace(workspaceNameFromFile(file.name), parseSessionBundle(content));
+          } else if (data.nodes && data.links) {
             auditLogService.logEvent('USER_INTERACTION', { action: 'UPLOAD_MIND_MAP_SUCCESS', details: { filename: file.name } });
             setUploadedMindMap(data);
           } else {
@@ -656,19 +1044,184 @@ const App: React.FC = () => {
     auditLogService.setDownloadThreshold(newSize);
   }, []);
 
+  const handleProviderChange = useCallback((provider: LLMProviderId) => {
+    auditLogService.logEvent('USER_INTERACTION', { action: 'SELECT_PROVIDER', details: { provider } });
+    setSelectedProvider(provider);
+    // Keep the base model valid for the new backend.
+    const models = getProvider(provider).listModels();
+    if (models.length > 0 && !models.some(m => m.id === selectedGlobalModel)) {
+      setSelectedGlobalModel(models[0].id);
+    }
+  }, [selectedGlobalModel]);
+
+
+  // --- Workspace Persistence ---
+
+  // Snapshot of everything the active workspace persists.
+  const sessionState: SessionState = useMemo(() => ({
+    personaDescription,
+    mindMap: mindMapData,
+    virtualFileSystem,
+    repository,
+    missionStatement,
+    missionTasks,
+    systemLog,
+    monitorAnalysis,
+    vectorStore,
+    chatHistory,
+    terminalHistory,
+  }), [personaDescription, mindMapData, virtualFileSystem, repository, missionStatement, missionTasks, systemLog, monitorAnalysis, vectorStore, chatHistory, terminalHistory]);
+
+  const sessionStateRef = useRef(sessionState);
+  sessionStateRef.current = sessionState;
+  // The state most recently loaded or saved; autosave skips when nothing has changed since.
+  const lastPersistedStateRef = useRef<SessionState | null>(null);
+
+  // Loading a workspace sets each field from the loaded state, so unchanged fields compare by reference.
+  const isStatePersisted = (state: SessionState): boolean => {
+    const persisted = lastPersistedStateRef.current;
+    return !!persisted && (Object.keys(state) as (keyof SessionState)[]).every(key => state[key] === persisted[key]);
+  };
+
+  const saveActiveWorkspace = useCallback(async () => {
+    const state = sessionStateRef.current;
+    if (!activeWorkspaceId || isWorkspaceReadOnly || isStatePersisted(state)) return;
+    setAutosaveStatus('saving');
+    try {
+      const summary = await storageService.saveWorkspace(activeWorkspaceId, state);
+      lastPersistedStateRef.current = state;
+      setWorkspaces(prev => [summary, ...prev.filter(w => w.id !== summary.id)]);
+      setAutosaveStatus('saved');
+    } catch (error) {
+      console.error("Failed to autosave workspace:", error);
+      setAutosaveStatus('error');
+    }
+  }, [activeWorkspaceId, isWorkspaceReadOnly]);
 
-  // Save chat history to local storage whenever it changes
+  const warnReadOnly = (workspaceId: string, name: string) => {
+    setError(`"${name}" is open in another tab, so changes made here won't be saved. Close the other tab and reload this one to edit it here.`);
+    auditLogService.logEvent('SYSTEM_EVENT', { event: 'WORKSPACE_OPENED_READ_ONLY', details: { workspaceId } });
+  };
+
+  // Open the last active workspace on startup, recovering its autosaved state after a crash.
   useEffect(() => {
-      try {
-          if (chatHistory.length > 0) {
-              localStorage.setItem('personaChatHistory', JSON.stringify(chatHistory));
-          } else {
-              localStorage.removeItem('personaChatHistory');
-          }
-      } catch (error) {
-          console.error("Failed to save chat history to local storage:", error);
+    storageService.openLastWorkspace().then(({ workspaces, activeWorkspaceId, state, recoveredFromCrash, readOnly }) => {
+      setWorkspaces(workspaces);
+      setActiveWorkspaceId(activeWorkspaceId);
+      setIsWorkspaceReadOnly(readOnly);
+      const name = workspaces.find(w => w.id === activeWorkspaceId)?.name ?? 'workspace';
+      loadSessionState(state, recoveredFromCrash ? `${name} (recovered after an unexpected shutdown)` : name);
+      lastPersistedStateRef.current = state;
+      if (recoveredFromCrash) {
+        auditLogService.logEvent('SYSTEM_EVENT', { event: 'CRASH_RECOVERY', details: { workspaceId: activeWorkspaceId } });
+      }
+      if (readOnly) warnReadOnly(activeWorkspaceId, name);
+    }).catch(error => {
+      console.error("Failed to open workspace storage:", error);
+      setError("Workspace storage (IndexedDB) is unavailable. Changes will not be saved across reloads.");
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Autosave the active workspace shortly after any change.
+  useEffect(() => {
+    if (!activeWorkspaceId || isStatePersisted(sessionState)) return;
+    const timeoutId = window.setTimeout(saveActiveWorkspace, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [sessionState, activeWorkspaceId, saveActiveWorkspace]);
+
+  // Flush pending changes when the tab is hidden or closed, and record a clean shutdown.
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveActiveWorkspace();
+    };
+    const handlePageHide = () => {
+      saveActiveWorkspace();
+      storageService.markCleanShutdown();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [saveActiveWorkspace]);
+
+  // Claims the workspace before reading it, so a tab that gets to save it has its latest state.
+  // Without `state` the workspace is loaded from storage.
+  const openWorkspace = useCallback(async (summary: WorkspaceSummary, state?: SessionState) => {
+    const owned = await storageService.claimWorkspace(summary.id);
+    const loaded = state ?? await storageService.loadWorkspace(summary.id);
+    if (!loaded) throw new Error('Workspace not found.');
+    storageService.setActiveWorkspaceId(summary.id);
+    lastPersistedStateRef.current = loaded;
+    setActiveWorkspaceId(summary.id);
+    setIsWorkspaceReadOnly(!owned);
+    loadSessionState(loaded, summary.name);
+    if (!owned) warnReadOnly(summary.id, summary.name);
+  }, [loadSessionState]);
+
+  const handleSwitchWorkspace = useCallback(async (id: string) => {
+    const summary = workspaces.find(w => w.id === id);
+    if (!summary || id === activeWorkspaceId || isProcessing) return;
+    await saveActiveWorkspace();
+    try {
+      await openWorkspace(summary);
+      auditLogService.logEvent('USER_INTERACTION', { action: 'SWITCH_WORKSPACE', details: { workspaceId: id } });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error.';
+      setError(`Failed to open workspace: ${message}`);
+    }
+  }, [activeWorkspaceId, isProcessing, saveActiveWorkspace, openWorkspace, workspaces]);
+
+  const handleCreateWorkspace = useCallback(async (name: string, state: SessionState = createEmptySessionState()) => {
+    if (isProcessing) return;
+    await saveActiveWorkspace();
+    try {
+      const summary = await storageService.createWorkspace(name, state);
+      setWorkspaces(prev => [summary, ...prev]);
+      await openWorkspace(summary, state);
+      auditLogService.logEvent('USER_INTERACTION', { action: 'CREATE_WORKSPACE', details: { workspaceId: summary.id, name } });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error.';
+      setError(`Failed to create workspace: ${message}`);
+    }
+  }, [isProcessing, saveActiveWorkspace, openWorkspace]);
+
+  const handleRenameWorkspace = useCallback(async (id: string, name: string) => {
+    try {
+      await storageService.renameWorkspace(id, name);
+      setWorkspaces(prev => prev.map(w => w.id === id ? { ...w, name } : w));
+      auditLogService.logEvent('USER_INTERACTION', { action: 'RENAME_WORKSPACE', details: { workspaceId: id, name } });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error.';
+      setError(`Failed to rename workspace: ${message}`);
+    }
+  }, []);
+
+  const handleDeleteWorkspace = useCallback(async (id: string) => {
+    if (isProcessing) return;
+    try {
+      await storageService.deleteWorkspace(id);
+      const remaining = workspaces.filter(w => w.id !== id);
+      setWorkspaces(remaining);
+      auditLogService.logEvent('USER_INTERACTION', { action: 'DELETE_WORKSPACE', details: { workspaceId: id } });
+      if (id !== activeWorkspaceId) return;
+
+      // The active workspace is gone; open the most recent remaining one, or start fresh.
+      if (remaining.length > 0) {
+        await openWorkspace(remaining[0]);
+      } else {
+        const state = createEmptySessionState();
+        const summary = await storageService.createWorkspace('Default Workspace', state);
+        setWorkspaces([summary]);
+        await openWorkspace(summary, state);
       }
-  }, [chatHistory]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error.';
+      setError(`Failed to delete workspace: ${message}`);
+    }
+  }, [isProcessing, workspaces, activeWorkspaceId, openWorkspace]);
 
   // Save global model selection to local storage
   useEffect(() => {
@@ -679,6 +1232,11 @@ const App: React.FC = () => {
     }
   }, [selectedGlobalModel]);
 
+  // Route all agent requests through the selected backend provider
+  useEffect(() => {
+    setActiveProviderId(selectedProvider);
+  }, [selectedProvider]);
+
 
   // Effect for managing the autonomous cycle
   useEffect(() => {
@@ -693,6 +1251,11 @@ const App: React.FC = () => {
       };
   }, [isAutonomous, systemStatus, runAutonomousCycle]);
 
+  // Approvals follow the current mode, including those requested before it changed.
+  useEffect(() => {
+      toolApprovalService.setAutoDeny(isAutonomous);
+  }, [isAutonomous]);
+
   useEffect(() => {
       if (isAutonomous && !isProcessing) {
           setCurrentTask('Autonomous mode active. Awaiting next cycle.');
@@ -712,6 +1275,13 @@ const App: React.FC = () => {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isAutonomous, mindMapData.nodes.length]);
   
+  // Consolidate in the background once enough old memories have accumulated.
+  useEffect(() => {
+    if (systemStatus === 'IDLE' && memoryService.shouldConsolidate(vectorStore)) {
+      handleConsolidateMemory();
+    }
+  }, [systemStatus, vectorStore, handleConsolidateMemory]);
+
   useEffect(() => {
     const unsubscribe = apiMonitorService.subscribe(setApiCallLogs);
     return () => unsubscribe(); // Cleanup on unmount
@@ -726,7 +1296,9 @@ const App: React.FC = () => {
   return (
     <div className="bg-gray-900 text-gray-200 h-screen flex flex-col md:flex-row overflow-hidden">
       <input type="file" ref={fileInputRef} onChange={handleFileSelected} accept=".json" style={{ display: 'none' }} />
+      <input type="file" ref={sessionInputRef} onChange={handleSessionFileSelected} accept={`${SESSION_FILE_EXTENSION},.json`} style={{ display: 'none' }} />
       {uploadedMindMap && <UploadModal onMerge={handleMergeMind} onCreateNew={handleLoadNewMind} onCancel={handleCancelUpload} />}
+      <ToolApprovalQueue />
       <div className="w-full md:w-[380px] flex-shrink-0 p-4 bg-gray-900/80 backdrop-blur-sm border-r border-cyan-500/20 overflow-y-auto custom-scrollbar">
         <ControlPanel
           personaDescription={personaDescription}
@@ -739,6 +1311,8 @@ const App: React.FC = () => {
           isAutonomous={isAutonomous}
           onDownloadMindMap={handleDownloadMindMap}
           onUploadClick={handleUploadClick}
+          onExportSession={handleExportSession}
+          onImportSessionClick={handleImportSessionClick}
           monitorAnalysis={monitorAnalysis}
           isMonitorLoading={systemStatus === 'AGENT_PROCESSING' && currentTask.startsWith('Analyzing')}
           onRunMonitorAnalysis={handleRunMonitorAnalysis}
@@ -747,8 +1321,20 @@ const App: React.FC = () => {
           onTranscendence={handleTranscendence}
           selectedGlobalModel={selectedGlobalModel}
           setSelectedGlobalModel={setSelectedGlobalModel}
+          selectedProvider={selectedProvider}
+          setSelectedProvider={handleProviderChange}
           auditLogChunkSize={auditLogChunkSize}
           onAuditLogChunkSizeChange={handleAuditLogChunkSizeChange}
+          workspaces={workspaces}
+          activeWorkspaceId={activeWorkspaceId}
+          autosaveStatus={isWorkspaceReadOnly ? 'read-only' : autosaveStatus}
+          onSwitchWorkspace={handleSwitchWorkspace}
+          onCreateWorkspace={handleCreateWorkspace}
+          onRenameWorkspace={handleRenameWorkspace}
+          onDeleteWorkspace={handleDeleteWorkspace}
+          memoryCount={vectorStore.length}
+          consolidatedMemoryCount={consolidatedMemoryCount}
+          onConsolidateMemory={handleConsolidateMemory}
         />
       </div>
       <main className="flex-grow flex flex-col bg-grid-cyan-500/[0.05] relative">
@@ -756,15 +1342,37 @@ const App: React.FC = () => {
           mindMapData={mindMapData}
           chatHistory={chatHistory}
           onSendMessage={handleSendMessage}
+          onTerminalCommand={handleTerminalCommand}
           isChatting={systemStatus === 'USER_PROCESSING'}
           isMindCreated={mindMapData.nodes.length > 0}
           virtualFileSystem={virtualFileSystem}
           setVirtualFileSystem={setVirtualFileSystem}
           terminalHistory={terminalHistory}
           systemLog={systemLog}
-          committedVFS={committedVFS}
-          commitLog={commitLog}
+          repository={repository}
           onCommit={handleCommit}
+          onCheckout={handleCheckout}
+          onRevertCommit={handleRevertCommit}
+          onRestoreFile={handleRestoreFile}
+          onRestoreMindMap={handleRestoreMindMap}
+          onPinMindMapNodes={handlePinMindMapNodes}
+          onEditMindMap={handleEditMindMap}
+          onStage={handleStage}
+          onStageFileContent={handleStageFileContent}
+          onUnstage={handleUnstage}
+          onDiscardChanges={handleDiscardChanges}
+          onCreateBranch={handleCreateBranch}
+          onDeleteBranch={handleDeleteBranch}
+          onMerge={handleMerge}
+          onAbortMerge={handleAbortMerge}
+          onOpenFile={handleOpenFileInIDE}
+          undoHistory={undoHistory}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onTravelTo={handleTravelTo}
+          onExportFiles={handleExportFiles}
+          onImportZip={handleImportZip}
+          onImportFolder={handleImportFolder}
           apiCallLogs={apiCallLogs}
           activeTab={activeTab}
           onTabChange={setActiveTab}
@@ -777,6 +1385,7 @@ const App: React.FC = () => {
           missionTasks={missionTasks}
           onSetMission={handleSetMission}
           isLoading={isProcessing}
+          vectorStore={vectorStore}
         />
         {error && (
           <div className="absolute top-4 right-4 bg-red-800/80 text-white p-4 rounded-lg shadow-lg max-w-sm z-50">
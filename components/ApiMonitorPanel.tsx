@@ -99,7 +99,8 @@ export const ApiMonitorPanel: React.FC<ApiMonitorPanelProps> = ({ logs }) => {
                                     <div className="flex items-center truncate flex-grow min-w-0">
                                         <StatusIndicator status={log.status} />
                                         <span className="font-bold text-cyan-300 mr-2 truncate">{log.agentName}</span>
-                                        <span className="text-gray-400 truncate hidden md:inline">{log.model}</span>
+                                        <span className="text-gray-400 truncate hidden md:inline">{log.provider ? `${log.provider} / ` : ''}{log.model}</span>
+                                        {log.route?.source === 'custom' && <span className="ml-2 px-1 rounded bg-indigo-900/60 text-indigo-300 text-xxs flex-shrink-0" title="A custom routing-table entry was applied">routed</span>}
                                     </div>
                                     <div className="flex items-center flex-shrink-0 ml-2">
                                         <span className="text-yellow-300 mr-4 font-mono">{log.totalTokens ? `${log.totalTokens.toLocaleString()} tk` : ''}</span>
@@ -109,6 +110,14 @@ export const ApiMonitorPanel: React.FC<ApiMonitorPanelProps> = ({ logs }) => {
                                 </button>
                                 {selectedLogId === log.id && (
                                     <div className="p-3 border-t border-cyan-500/20 space-y-3">
+                                        {log.route &&
+                                        <div>
+                                            <h5 className="font-semibold text-gray-300 mb-1">Model Route</h5>
+                                            <p className="font-mono bg-gray-900 p-2 rounded-md text-gray-400">
+                                                <span className="text-cyan-300">{log.route.label}</span> ({log.route.source}) &rarr; {log.provider ?? log.route.provider ?? 'active'} / {log.model}
+                                            </p>
+                                        </div>
+                                        }
                                         { (typeof log.totalTokens === 'number') &&
                                         <div>
                                             <h5 className="font-semibold text-gray-300 mb-1">Usage & Cost</h5>
@@ -1,10 +1,11 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { VirtualFileSystem, VFSNode, VFSFolder } from '../types';
 import { SaveIcon } from './icons/SaveIcon';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 import { FolderIcon } from './icons/FolderIcon';
 import { FileIcon } from './icons/FileIcon';
+import { ConflictBlock, findConflicts, resolveConflict } from '../utils/merge';
 
 declare const window: any;
 
@@ -141,6 +142,25 @@ export const CognitiveIDE: React.FC<CognitiveIDEProps> = ({ virtualFileSystem, s
   const monacoRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isMonacoLoading, setIsMonacoLoading] = useState(true);
+  const [conflicts, setConflicts] = useState<ConflictBlock[]>([]);
+  const conflictDecorationsRef = useRef<string[]>([]);
+
+  // Highlights merge conflict markers and both sides of each conflict in the open file.
+  const updateConflicts = useCallback(() => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const blocks = model ? findConflicts(model.getValue()) : [];
+    const lines = (from: number, to: number, className: string) => (from <= to
+        ? [{ range: new monacoRef.current.Range(from + 1, 1, to + 1, 1), options: { isWholeLine: true, className } }]
+        : []);
+    const decorations = blocks.flatMap(block => [
+        ...[block.start, block.separator, block.end].flatMap(line => lines(line, line, 'merge-conflict-marker')),
+        ...lines(block.start + 1, block.separator - 1, 'merge-conflict-current'),
+        ...lines(block.separator + 1, block.end - 1, 'merge-conflict-incoming'),
+    ]);
+    if (editor) conflictDecorationsRef.current = editor.deltaDecorations(conflictDecorationsRef.current, decorations);
+    setConflicts(blocks);
+  }, []);
 
   useEffect(() => {
     if (fileToAutoOpen) {
@@ -189,6 +209,11 @@ export const CognitiveIDE: React.FC<CognitiveIDEProps> = ({ virtualFileSystem, s
 
         editorRef.current.onDidChangeModelContent(() => {
             setIsDirty(true);
+            updateConflicts();
+        });
+        editorRef.current.onDidChangeModel(() => {
+            conflictDecorationsRef.current = [];
+            updateConflicts();
         });
     }
 
@@ -198,7 +223,7 @@ export const CognitiveIDE: React.FC<CognitiveIDEProps> = ({ virtualFileSystem, s
             editorRef.current = null;
         }
     }
-  }, [isMonacoLoading]);
+  }, [isMonacoLoading, updateConflicts]);
 
   useEffect(() => {
     if (selectedFile && editorRef.current && monacoRef.current) {
@@ -236,6 +261,33 @@ export const CognitiveIDE: React.FC<CognitiveIDEProps> = ({ virtualFileSystem, s
     setSelectedFile(path);
   };
 
+  // The conflict under the cursor, or the first one.
+  const getCurrentConflict = (): ConflictBlock | undefined => {
+    const line = (editorRef.current?.getPosition()?.lineNumber ?? 1) - 1;
+    return conflicts.find(block => line >= block.start && line <= block.end) ?? conflicts[0];
+  };
+
+  const handleResolveConflict = (choice: 'current' | 'incoming' | 'both') => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const block = getCurrentConflict();
+    if (!model || !block) return;
+    // An edit rather than setValue, so it can be undone.
+    editor.executeEdits('merge-conflict', [{ range: model.getFullModelRange(), text: resolveConflict(model.getValue(), block, choice) }]);
+    editor.setPosition({ lineNumber: block.start + 1, column: 1 });
+    editor.revealLineInCenter(block.start + 1);
+  };
+
+  const handleNextConflict = () => {
+    const editor = editorRef.current;
+    const line = (editor?.getPosition()?.lineNumber ?? 1) - 1;
+    const next = conflicts.find(block => block.start > line) ?? conflicts[0];
+    if (!editor || !next) return;
+    editor.setPosition({ lineNumber: next.start + 1, column: 1 });
+    editor.revealLineInCenter(next.start + 1);
+    editor.focus();
+  };
+
   const handleSave = () => {
     if (selectedFile && editorRef.current) {
         const newContent = editorRef.current.getValue();
@@ -307,6 +359,17 @@ export const CognitiveIDE: React.FC<CognitiveIDEProps> = ({ virtualFileSystem, s
                 </button>
             )}
           </div>
+          {selectedFile && conflicts.length > 0 && (
+            <div className="px-2 py-1 bg-yellow-900/30 border-b border-yellow-500/30 flex items-center space-x-2 text-xs">
+                <span className="flex-grow text-yellow-300 truncate">
+                    {conflicts.length} merge {conflicts.length === 1 ? 'conflict' : 'conflicts'}: resolve the one under the cursor, then save.
+                </span>
+                <button onClick={() => handleResolveConflict('current')} className="px-2 py-0.5 bg-gray-700 text-green-300 rounded hover:bg-gray-600">Accept current</button>
+                <button onClick={() => handleResolveConflict('incoming')} className="px-2 py-0.5 bg-gray-700 text-blue-300 rounded hover:bg-gray-600">Accept incoming</button>
+                <button onClick={() => handleResolveConflict('both')} className="px-2 py-0.5 bg-gray-700 text-gray-200 rounded hover:bg-gray-600">Accept both</button>
+                <button onClick={handleNextConflict} className="px-2 py-0.5 bg-gray-700 text-gray-200 rounded hover:bg-gray-600">Next</button>
+            </div>
+          )}
           <div className="flex-grow relative bg-gray-900">
              {isMonacoLoading && <div className="absolute inset-0 flex items-center justify-center bg-gray-900"><SpinnerIcon/> Loading Editor...</div>}
              <div ref={containerRef} className="w-full h-full" style={{ visibility: isMonacoLoading ? 'hidden' : 'visible'}}></div>
@@ -4,12 +4,17 @@ import { BrainIcon } from './icons/BrainIcon';
 import { SpinnerIcon } from './icons/SpinnerIcon';
 import { DownloadIcon } from './icons/DownloadIcon';
 import { UploadIcon } from './icons/UploadIcon';
-import { MonitorAnalysis } from '../types';
+import { SaveIcon } from './icons/SaveIcon';
+import { MonitorAnalysis, LLMProviderId, WorkspaceSummary, AutosaveStatus } from '../types';
 import { MonitorPanel } from './MonitorPanel';
 import { LinkIcon } from './icons/LinkIcon';
 import { AuditIcon } from './icons/AuditIcon';
 import { TeamIcon } from './icons/TeamIcon';
 import { ModelSelectionPanel } from './ModelSelectionPanel';
+import { ModelRoutingPanel } from './ModelRoutingPanel';
+import { ToolApprovalPanel } from './ToolApprovalPanel';
+import { WorkspacePanel } from './WorkspacePanel';
+import { MemorySettingsPanel } from './MemorySettingsPanel';
 import { TranscendIcon } from './icons/TranscendIcon';
 
 interface ControlPanelProps {
@@ -23,6 +28,8 @@ interface ControlPanelProps {
   isAutonomous: boolean;
   onDownloadMindMap: () => void;
   onUploadClick: () => void;
+  onExportSession: () => void;
+  onImportSessionClick: () => void;
   monitorAnalysis: MonitorAnalysis | null;
   isMonitorLoading: boolean;
   onRunMonitorAnalysis: () => void;
@@ -31,8 +38,20 @@ interface ControlPanelProps {
   onTranscendence: () => void;
   selectedGlobalModel: string;
   setSelectedGlobalModel: (model: string) => void;
+  selectedProvider: LLMProviderId;
+  setSelectedProvider: (provider: LLMProviderId) => void;
   auditLogChunkSize: number;
   onAuditLogChunkSizeChange: (kb: number) => void;
+  workspaces: WorkspaceSummary[];
+  activeWorkspaceId: string | null;
+  autosaveStatus: AutosaveStatus;
+  onSwitchWorkspace: (id: string) => void;
+  onCreateWorkspace: (name: string) => void;
+  onRenameWorkspace: (id: string, name: string) => void;
+  onDeleteWorkspace: (id: string) => void;
+  memoryCount: number;
+  consolidatedMemoryCount: number;
+  onConsolidateMemory: () => void;
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
@@ -46,6 +65,8 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   isAutonomous,
   onDownloadMindMap,
   onUploadClick,
+  onExportSession,
+  onImportSessionClick,
   monitorAnalysis,
   isMonitorLoading,
   onRunMonitorAnalysis,
@@ -54,8 +75,20 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   onTranscendence,
   selectedGlobalModel,
   setSelectedGlobalModel,
+  selectedProvider,
+  setSelectedProvider,
   auditLogChunkSize,
   onAuditLogChunkSizeChange,
+  workspaces,
+  activeWorkspaceId,
+  autosaveStatus,
+  onSwitchWorkspace,
+  onCreateWorkspace,
+  onRenameWorkspace,
+  onDeleteWorkspace,
+  memoryCount,
+  consolidatedMemoryCount,
+  onConsolidateMemory,
 }) => {
   return (
     <div className="flex flex-col h-full space-y-6">
@@ -66,6 +99,17 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         <div className="w-24 h-1 bg-cyan-500 mx-auto mt-2 rounded-full"></div>
       </header>
 
+      <WorkspacePanel
+        workspaces={workspaces}
+        activeWorkspaceId={activeWorkspaceId}
+        autosaveStatus={autosaveStatus}
+        onSwitchWorkspace={onSwitchWorkspace}
+        onCreateWorkspace={onCreateWorkspace}
+        onRenameWorkspace={onRenameWorkspace}
+        onDeleteWorkspace={onDeleteWorkspace}
+        isLoading={isLoading || isAutonomous}
+      />
+
       {isAutonomous && (
         <div className="flex items-center justify-center space-x-2 p-2 bg-gray-800 rounded-lg">
           <div className="relative flex h-3 w-3">
@@ -185,6 +229,26 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <span className="text-sm">Download</span>
           </button>
         </div>
+        <div className="flex space-x-2">
+           <button
+            onClick={onImportSessionClick}
+            disabled={isLoading}
+            className="w-full p-3 flex items-center justify-center bg-gray-700 text-white font-bold rounded-md hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-all"
+            title="Load a .persona session bundle (replaces the current session)"
+          >
+            <UploadIcon className="w-5 h-5 mr-2" />
+            <span className="text-sm">Load Session</span>
+          </button>
+           <button
+            onClick={onExportSession}
+            disabled={!isMindCreated || isLoading}
+            className="w-full p-3 flex items-center justify-center bg-gray-700 text-white font-bold rounded-md hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-all"
+            title="Save the full session as a .persona bundle"
+          >
+            <SaveIcon className="w-5 h-5 mr-2" />
+            <span className="text-sm">Save Session</span>
+          </button>
+        </div>
         {isLoading && (
           <div className="text-center text-cyan-300 animate-pulse text-sm h-5">
             {currentTask}
@@ -207,8 +271,28 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 <ModelSelectionPanel
                     selectedGlobalModel={selectedGlobalModel}
                     setSelectedGlobalModel={setSelectedGlobalModel}
+                    selectedProvider={selectedProvider}
+                    setSelectedProvider={setSelectedProvider}
                     isLoading={isLoading}
                 />
+                <div className="pt-4 border-t border-cyan-500/10">
+                    <ModelRoutingPanel
+                        selectedGlobalModel={selectedGlobalModel}
+                        selectedProvider={selectedProvider}
+                        isLoading={isLoading}
+                    />
+                </div>
+                <div className="pt-4 border-t border-cyan-500/10">
+                    <ToolApprovalPanel isLoading={isLoading} />
+                </div>
+                <div className="pt-4 border-t border-cyan-500/10">
+                    <MemorySettingsPanel
+                        memoryCount={memoryCount}
+                        consolidatedCount={consolidatedMemoryCount}
+                        onConsolidate={onConsolidateMemory}
+                        isLoading={isLoading || isAutonomous}
+                    />
+                </div>
                 <div className="pt-4 border-t border-cyan-500/10">
                       <label htmlFor="audit-chunk-size" className="text-gray-300 text-sm font-semibold mb-2 block">
                         Audit Log Auto-Download (KB)
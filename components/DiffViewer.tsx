@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { VFSChange } from '../types';
+import { DiffLine, MAX_DIFF_CELLS, applyHunks, buildHunks, diffCost, diffLines } from '../utils/diff';
+import { ChevronIcon } from './icons/ChevronIcon';
+import { CloseIcon } from './icons/CloseIcon';
+
+type DiffMode = 'inline' | 'split';
+
+const CONTEXT_LINES = 3;
+
+// A per-hunk button, used to stage ('apply' to the old side) or unstage ('revert' on the new side) part of a file.
+export interface HunkAction {
+  label: string;
+  title: string;
+  direction: 'apply' | 'revert';
+  onApply: (path: string, content: string) => void;
+  disabled: boolean;
+}
+
+interface DiffViewerProps {
+  title: string;
+  changes: VFSChange[];
+  onClose: () => void;
+  hunkAction?: HunkAction;
+}
+
+interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  equal: 'text-gray-300',
+  add: 'bg-green-900/40 text-green-200',
+  remove: 'bg-red-900/40 text-red-200',
+};
+
+const MARKERS: Record<DiffLine['type'], string> = { equal: ' ', add: '+', remove: '-' };
+
+const describeTypeChange = (change: VFSChange) =>
+  change.oldContent === undefined ? 'Folder replaced by a file' : 'File replaced by a folder';
+
+// Pairs each block of removed lines with the added lines that replaced it, so they sit side by side.
+const toSplitRows = (lines: DiffLine[]): SplitRow[] => {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) rows.push({ left: removed[i], right: added[i] });
+    removed = [];
+    added = [];
+  };
+  lines.forEach(line => {
+    if (line.type === 'remove') removed.push(line);
+    else if (line.type === 'add') added.push(line);
+    else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+  return rows;
+};
+
+const Gutter: React.FC<{ line?: number }> = ({ line }) => (
+  <span className="w-10 flex-shrink-0 pr-2 text-right text-gray-600 select-none">{line ?? ''}</span>
+);
+
+const Cell: React.FC<{ line?: DiffLine; side: 'old' | 'new' }> = ({ line, side }) => (
+  <div className={`flex w-1/2 min-w-0 ${line ? LINE_STYLES[line.type] : 'bg-gray-800/40'}`}>
+      <Gutter line={side === 'old' ? line?.oldLine : line?.newLine} />
+      <span className="whitespace-pre overflow-hidden">{line ? line.text || ' ' : ''}</span>
+  </div>
+);
+
+const FileDiff: React.FC<{ change: VFSChange; mode: DiffMode; showFullFile: boolean; hunkAction?: HunkAction }> = ({ change, mode, showFullFile, hunkAction }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const oldText = change.oldContent ?? '';
+  const newText = change.newContent ?? '';
+  const isTooLarge = useMemo(() => diffCost(oldText, newText) > MAX_DIFF_CELLS, [oldText, newText]);
+  const lines = useMemo(() => (isTooLarge ? [] : diffLines(oldText, newText)), [isTooLarge, oldText, newText]);
+  const hunks = useMemo(() => buildHunks(lines, showFullFile ? Infinity : CONTEXT_LINES), [lines, showFullFile]);
+  const additions = lines.filter(line => line.type === 'add').length;
+  const deletions = lines.filter(line => line.type === 'remove').length;
+  // Hunks only make sense to split out of a file that exists on both sides, and not when the whole file is one hunk.
+  const canApplyHunks = !!hunkAction && change.status === 'modified' && !showFullFile;
+
+  const handleHunkAction = (index: number) => {
+    if (!hunkAction) return;
+    const selected = hunkAction.direction === 'apply' ? [hunks[index]] : hunks.filter((_, i) => i !== index);
+    hunkAction.onApply(change.path, applyHunks(oldText, newText, lines, selected));
+  };
+
+  const renderBody = () => {
+    if (isTooLarge) return <p className="p-3 text-gray-500 italic">This file is too large to diff line by line.</p>;
+    if (hunks.length === 0) {
+      return <p className="p-3 text-gray-500 italic">{change.status === 'typechange' || oldText === newText ? 'No line changes.' : 'Empty file.'}</p>;
+    }
+    return hunks.map((hunk, index) => {
+      const previous = hunks[index - 1];
+      // Old-side lines skipped between this hunk and the previous one (or the start of the file).
+      const skipped = hunk.oldStart - (previous ? previous.oldStart + previous.oldLines : 1) + (hunk.oldLines > 0 ? 0 : 1);
+      return (
+        <div key={index}>
+            <div className="flex items-center px-3 py-0.5 bg-cyan-900/20 text-cyan-400/80 select-none">
+                <span className="flex-grow">
+                    @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                    {skipped > 0 && <span className="ml-3 text-gray-500">⋯ {skipped} unchanged {skipped === 1 ? 'line' : 'lines'}</span>}
+                </span>
+                {canApplyHunks && (
+                  <button
+                      onClick={() => handleHunkAction(index)}
+                      disabled={hunkAction!.disabled}
+                      title={hunkAction!.title}
+                      className="px-1.5 font-sans text-gray-300 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50"
+                  >
+                      {hunkAction!.label}
+                  </button>
+                )}
+            </div>
+            {mode === 'inline'
+              ? hunk.lines.map((line, i) => (
+                  <div key={i} className={`flex ${LINE_STYLES[line.type]}`}>
+                      <Gutter line={line.oldLine} />
+                      <Gutter line={line.newLine} />
+                      <span className="w-4 flex-shrink-0 select-none">{MARKERS[line.type]}</span>
+                      <span className="whitespace-pre">{line.text || ' '}</span>
+                  </div>
+                ))
+              : toSplitRows(hunk.lines).map((row, i) => (
+                  <div key={i} className="flex divide-x divide-gray-700">
+                      <Cell line={row.left} side="old" />
+                      <Cell line={row.right} side="new" />
+                  </div>
+                ))}
+        </div>
+      );
+    });
+  };
+
+  return (
+    <div className="border border-gray-700 rounded-md overflow-hidden">
+        <button
+            onClick={() => setIsCollapsed(!isCollapsed)}
+            className="w-full flex items-center px-2 py-1.5 bg-gray-900 text-left hover:bg-gray-900/70"
+        >
+            <ChevronIcon className={`w-4 h-4 mr-1 flex-shrink-0 text-gray-500 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+            <span className={`flex-grow truncate font-mono ${change.status === 'deleted' ? 'line-through text-gray-500' : 'text-gray-200'}`} title={change.path}>
+                {change.path}
+            </span>
+            {change.status === 'typechange' && <span className="mr-3 text-xs text-purple-300">{describeTypeChange(change)}</span>}
+            {!isTooLarge && (
+              <span className="text-xs font-mono flex-shrink-0">
+                  <span className="text-green-400">+{additions}</span> <span className="text-red-400">-{deletions}</span>
+              </span>
+            )}
+        </button>
+        {!isCollapsed && <div className="font-mono text-xs leading-5 overflow-x-auto custom-scrollbar">{renderBody()}</div>}
+    </div>
+  );
+};
+
+export const DiffViewer: React.FC<DiffViewerProps> = ({ title, changes, onClose, hunkAction }) => {
+  const [mode, setMode] = useState<DiffMode>('inline');
+  const [showFullFile, setShowFullFile] = useState(false);
+
+  const toggleClass = (isActive: boolean) =>
+    `px-2 py-1 text-xs rounded ${isActive ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-shrink-0 flex items-center mb-3 space-x-2">
+          <h4 className="flex-grow font-semibold text-gray-300 truncate" title={title}>{title}</h4>
+          <button onClick={() => setMode('inline')} className={toggleClass(mode === 'inline')}>Inline</button>
+          <button onClick={() => setMode('split')} className={toggleClass(mode === 'split')}>Side by side</button>
+          <button onClick={() => setShowFullFile(!showFullFile)} className={toggleClass(showFullFile)} title="Show every line instead of only the changes and their context">
+              Full file
+          </button>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" title="Close diff">
+              <CloseIcon className="w-4 h-4" />
+          </button>
+      </div>
+      <div className="flex-grow overflow-y-auto custom-scrollbar pr-2 space-y-3">
+          {changes.length === 0 ? (
+            <p className="text-gray-500 italic">No file changes.</p>
+          ) : (
+            changes.map(change => <FileDiff key={change.path} change={change} mode={mode} showFullFile={showFullFile} hunkAction={hunkAction} />)
+          )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { HistoryEntry, HistorySnapshot, UndoHistory } from '../types';
+import { HistoryIcon } from './icons/HistoryIcon';
+import { diffVFS } from '../services/versionControlService';
+import { canRedo, canUndo } from '../utils/undoHistory';
+import { diffMindMaps, isMindMapDiffEmpty, summarizeMindMapDiff } from '../utils/mindMap';
+
+interface HistoryPanelProps {
+  history: UndoHistory;
+  current: HistorySnapshot;
+  onUndo: () => void;
+  onRedo: () => void;
+  onTravelTo: (entryId: string | null) => void;
+  isLoading: boolean;
+}
+
+const describeChanges = (entry: HistoryEntry): string => {
+  const files = diffVFS(entry.before.vfs, entry.after.vfs).length;
+  const mindMap = diffMindMaps(entry.before.mindMap, entry.after.mindMap);
+  return [
+    files > 0 && `${files} ${files === 1 ? 'file' : 'files'}`,
+    !isMindMapDiffEmpty(mindMap) && `mind map ${summarizeMindMapDiff(mindMap)}`,
+  ].filter(Boolean).join(' · ') || 'no visible changes';
+};
+
+const EntryRow: React.FC<{ entry: HistoryEntry; state: 'applied' | 'current' | 'undone'; onSelect: () => void; disabled: boolean }> = ({ entry, state, onSelect, disabled }) => {
+  const changes = useMemo(() => describeChanges(entry), [entry]);
+  return (
+    <li>
+        <button
+            onClick={onSelect}
+            disabled={disabled}
+            className={`w-full text-left p-2 rounded border transition-colors disabled:cursor-not-allowed ${
+              state === 'current' ? 'border-cyan-500/60 bg-cyan-900/20'
+              : state === 'undone' ? 'border-transparent bg-gray-900/30 opacity-50 hover:opacity-75'
+              : 'border-transparent bg-gray-900/50 hover:bg-gray-900'
+            }`}
+            title={state === 'current' ? 'The current state' : state === 'undone' ? 'Redo up to this step' : 'Go back to the state right after this step'}
+        >
+            <div className="flex items-center">
+                <span className={`mr-2 px-1.5 py-0.5 text-xs rounded ${entry.source === 'agent' ? 'bg-indigo-800 text-indigo-200' : 'bg-gray-700 text-gray-300'}`}>
+                    {entry.source === 'agent' ? 'Agent' : 'User'}
+                </span>
+                <span className={`flex-grow truncate ${state === 'undone' ? 'line-through text-gray-400' : 'text-gray-200'}`}>{entry.label}</span>
+                <span className="ml-2 text-xs text-gray-500 font-mono flex-shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+            </div>
+            <p className="mt-1 text-xs text-gray-400 font-mono truncate">
+                {changes}
+                {entry.tools && entry.tools.length > 0 && <span className="ml-2 text-gray-500">via {entry.tools.join(', ')}</span>}
+            </p>
+        </button>
+    </li>
+  );
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, current, onUndo, onRedo, onTravelTo, isLoading }) => {
+  const latest = history.past[history.past.length - 1];
+  // Edits since the last recorded step (e.g. typing in the IDE) become their own step when history is next used.
+  const hasUntrackedEdits = !!latest && (latest.after.mindMap !== current.mindMap || latest.after.vfs !== current.vfs);
+  const isRedoable = canRedo(history, current);
+
+  return (
+    <div className="bg-gray-800/50 h-full flex flex-col p-4 text-sm">
+      <div className="flex-shrink-0 flex items-center mb-4 pb-2 border-b border-cyan-500/20">
+        <h3 className="flex-grow text-lg font-bold font-orbitron text-gray-200 flex items-center">
+            <HistoryIcon className="w-5 h-5 mr-2"/>
+            History
+        </h3>
+        <div className="space-x-2">
+            <button
+                onClick={onUndo}
+                disabled={isLoading || !canUndo(history)}
+                className="px-3 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={latest ? `Undo: ${hasUntrackedEdits ? 'other edits' : latest.label}` : 'Nothing to undo'}
+            >
+                Undo
+            </button>
+            <button
+                onClick={onRedo}
+                disabled={isLoading || !isRedoable}
+                className="px-3 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={isRedoable ? `Redo: ${history.future[0].label}` : 'Nothing to redo'}
+            >
+                Redo
+            </button>
+        </div>
+      </div>
+      <p className="flex-shrink-0 mb-3 text-xs text-gray-500">
+          Each agent turn and user action on the mind map and files is one step. Going back pauses autonomous mode; source control history is not affected.
+      </p>
+      <div className="flex-grow overflow-y-auto custom-scrollbar pr-2">
+          {history.past.length === 0 && history.future.length === 0 ? (
+            <p className="text-gray-500 italic">No changes recorded yet.</p>
+          ) : (
+            <ul className="space-y-1">
+                {[...history.future].reverse().map(entry => (
+                  <EntryRow key={entry.id} entry={entry} state="undone" onSelect={() => onTravelTo(entry.id)} disabled={isLoading || !isRedoable} />
+                ))}
+                {hasUntrackedEdits && (
+                  <li className="p-2 rounded border border-cyan-500/60 bg-cyan-900/20 text-xs text-gray-300 italic">
+                      Unrecorded edits since the last step
+                  </li>
+                )}
+                {[...history.past].reverse().map(entry => (
+                  <EntryRow
+                      key={entry.id}
+                      entry={entry}
+                      state={entry === latest && !hasUntrackedEdits ? 'current' : 'applied'}
+                      onSelect={() => onTravelTo(entry.id)}
+                      disabled={isLoading || (entry === latest && !hasUntrackedEdits)}
+                  />
+                ))}
+                <li>
+                    <button
+                        onClick={() => onTravelTo(null)}
+                        disabled={isLoading || history.past.length === 0}
+                        className="w-full text-left p-2 rounded bg-gray-900/30 text-xs text-gray-400 hover:bg-gray-900 disabled:cursor-not-allowed"
+                        title="Undo every recorded step"
+                    >
+                        {history.past.length === 0 ? '● ' : ''}Start of history
+                    </button>
+                </li>
+            </ul>
+          )}
+      </div>
+    </div>
+  );
+};
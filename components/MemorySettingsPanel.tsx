@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { EmbedderPreference } from '../types';
+import { memoryService } from '../services/memoryService';
+import { auditLogService } from '../services/auditLogService';
+
+interface MemorySettingsPanelProps {
+  memoryCount: number;
+  consolidatedCount: number;
+  onConsolidate: () => void;
+  isLoading: boolean;
+}
+
+export const MemorySettingsPanel: React.FC<MemorySettingsPanelProps> = ({ memoryCount, consolidatedCount, onConsolidate, isLoading }) => {
+  const [preference, setPreference] = useState<EmbedderPreference>(() => memoryService.getEmbedderPreference());
+
+  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = event.target.value as EmbedderPreference;
+    memoryService.setEmbedderPreference(value);
+    setPreference(value);
+    auditLogService.logEvent('USER_INTERACTION', { action: 'SET_MEMORY_EMBEDDER', details: { preference: value } });
+  };
+
+  return (
+    <div className="space-y-2">
+      <h5 className="font-bold text-cyan-400">Long-Term Memory</h5>
+      <p className="text-gray-400 text-xs">
+        Tool results, sub-agent reports and conversation turns are embedded automatically; <span className="font-mono">recall_memory</span> retrieves the most similar entries.
+      </p>
+      <label htmlFor="embedder-select" className="text-gray-300 text-sm">Embeddings:</label>
+      <select
+        id="embedder-select"
+        value={preference}
+        onChange={handleChange}
+        disabled={isLoading}
+        className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-gray-300 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+      >
+        <option value="local">Local hashed bag-of-words (offline, free)</option>
+        <option value="provider">Active backend's embedding model</option>
+      </select>
+      <p className="text-xs text-gray-500">
+        Stored memories: <span className="font-mono text-cyan-300">{memoryCount}</span> ({consolidatedCount} consolidated). Falls back to local embeddings if the backend has none.
+      </p>
+      <p className="text-gray-400 text-xs">
+        Memories fade unless recalled. Related older memories are periodically summarized into consolidated entries linked to mind map nodes, and faded ones are forgotten.
+      </p>
+      <button
+        onClick={() => {
+          auditLogService.logEvent('USER_INTERACTION', { action: 'CONSOLIDATE_MEMORY' });
+          onConsolidate();
+        }}
+        disabled={isLoading || memoryCount === 0}
+        className="w-full px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 text-white rounded"
+      >
+        Consolidate Now
+      </button>
+    </div>
+  );
+};
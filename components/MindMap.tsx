@@ -1,40 +1,93 @@
-import React, { useEffect, useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
 import * as d3 from 'd3';
-import { MindMapData, MindMapNode, MindMapLink, MindMapNodeType } from '../types';
+import { MindMapData, MindMapNode, MindMapLink, MindMapFilter, MindMapLayout, MindMapRenderer, MindMapEdit } from '../types';
 import { BrainIcon } from './icons/BrainIcon';
+import { MindMapToolbar } from './MindMapToolbar';
+import { MindMapLegend } from './MindMapLegend';
+import { MindMapCanvas } from './MindMapCanvas';
+import { MindMapNodeForm, NodeSelect, inputClassName } from './MindMapNodeForm';
+import { MindMapSelectionBar } from './MindMapSelectionBar';
+import { MindMapLinkDialog } from './MindMapLinkDialog';
+import { filterMindMap } from '../utils/mindMapFilter';
+import { computeMindMapLayout, getFitTransform, LayoutPosition } from '../utils/mindMapLayout';
+import { endpointId, getLinkKey } from '../utils/mindMap';
+import { LINK_LABEL_ZOOM, LINK_STYLES, getLinkLabel, getLinkWidth, getNodeColor, getNodeRadius } from '../utils/mindMapStyles';
+import { MIND_MAP_LINK_TYPES } from '../constants';
 
-const getNodeColor = (type: MindMapNodeType) => {
-    switch(type) {
-        case 'CORE_PERSONA': return '#06b6d4'; // cyan-500
-        case 'MISSION': return '#a855f7'; // purple-500
-        case 'TASK': return '#64748b'; // slate-500
-        case 'PSYCHOLOGY_ASPECT': return '#6366f1'; // indigo-500
-        case 'QUANTUM_INSIGHT': return '#ec4899'; // pink-500
-        case 'KEY_TRAIT': return '#eab308'; // yellow-500
-        case 'STRENGTH': return '#84cc16'; // lime-500
-        case 'WEAKNESS': return '#f97316'; // orange-500
-        case 'KNOWLEDGE_CONCEPT': return '#3b82f6'; // blue-500
-        case 'ABSTRACT_CONCEPT': return '#10b981'; // emerald-500
-        case 'FILE_REFERENCE': return '#78716c'; // stone-500
-        default: return '#6b7280'; // gray-500
-    }
+type SimulatedNode = MindMapNode & { vx?: number; vy?: number };
+
+const ARROW_ID_PREFIX = 'mind-map-arrow-';
+const BULK_SELECTED_STROKE = '#fbbf24'; // amber-400
+const LINK_DROP_RADIUS = 20;
+const LAYOUT_TRANSITION_MS = 750;
+// Above this many visible nodes, 'auto' switches to the canvas renderer.
+const CANVAS_NODE_THRESHOLD = 500;
+
+export interface NodePinChange {
+  nodeId: string;
+  position: LayoutPosition | null; // null unpins
 }
 
-interface MindMapGraphProps {
+// A straight segment between the two circles' edges, so arrowheads land on the target's border.
+const getLinkPath = (link: MindMapLink): string | null => {
+    const source = link.source as MindMapNode;
+    const target = link.target as MindMapNode;
+    if (source.x === undefined || source.y === undefined || target.x === undefined || target.y === undefined) return null; // handle exit case
+    const dx = target.x - source.x;
+    const dy = target.y - source.y;
+    const distance = Math.hypot(dx, dy) || 1;
+    const startOffset = getNodeRadius(source.type);
+    const endOffset = getNodeRadius(target.type) + 2; // clear the node's stroke
+    return `M${source.x + dx / distance * startOffset},${source.y + dy / distance * startOffset} L${target.x - dx / distance * endOffset},${target.y - dy / distance * endOffset}`;
+};
+
+export interface MindMapGraphProps {
   data: MindMapData;
-  onNodeClick: (node: MindMapNode | null) => void;
+  onNodeClick: (node: MindMapNode | null, additive?: boolean) => void; // additive: shift-click, toggling the bulk selection
   selectedNodeId: string | null;
+  bulkSelectedNodeIds?: Set<string> | null;
+  highlightedNodeIds?: Set<string> | null; // Other nodes are dimmed
+  centerRequest?: { nodeId: string } | null; // Pans to the node whenever a new request object arrives
+  layout?: MindMapLayout;
+  onPinNodes?: (changes: NodePinChange[]) => void; // Dragging a node in the force layout pins it where it is dropped
+  onLinkDraw?: (sourceId: string, targetId: string) => void; // Alt-dragging from one node onto another
 }
 
-export const MindMapGraph: React.FC<MindMapGraphProps> = ({ data, onNodeClick, selectedNodeId }) => {
+export const MindMapGraph: React.FC<MindMapGraphProps> = ({ data, onNodeClick, selectedNodeId, bulkSelectedNodeIds = null, highlightedNodeIds = null, centerRequest = null, layout = 'force' as MindMapLayout, onPinNodes, onLinkDraw }) => {
     const svgRef = useRef<SVGSVGElement>(null);
     const simulationRef = useRef<d3.Simulation<MindMapNode, MindMapLink>>();
     const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown>>();
+    const zoomScaleRef = useRef(1);
+    const hoveredLinkRef = useRef<string | null>(null);
+    const hoveredNodeRef = useRef<string | null>(null);
+    const previousLayoutRef = useRef<MindMapLayout>(layout);
+    // Drag handlers are bound once per node, so they read these through refs.
+    const layoutRef = useRef(layout);
+    layoutRef.current = layout;
+    const onPinNodesRef = useRef(onPinNodes);
+    onPinNodesRef.current = onPinNodes;
+    const onNodeClickRef = useRef(onNodeClick);
+    onNodeClickRef.current = onNodeClick;
+    const onLinkDrawRef = useRef(onLinkDraw);
+    onLinkDrawRef.current = onLinkDraw;
 
-    const memoizedData = useMemo(() => {
-        // Deep copy to prevent mutation of props
-        return JSON.parse(JSON.stringify(data));
-    }, [data]);
+    // Link labels would clutter the overview, so they show when zoomed in or for the hovered link or node.
+    const updateLinkLabels = () => {
+        if (!svgRef.current) return;
+        const zoomedIn = zoomScaleRef.current >= LINK_LABEL_ZOOM;
+        const hoveredNode = hoveredNodeRef.current;
+        d3.select(svgRef.current).selectAll<SVGGElement, MindMapLink>("g.link").each(function (d) {
+            const visible = zoomedIn || getLinkKey(d) === hoveredLinkRef.current ||
+                (!!hoveredNode && (endpointId(d.source) === hoveredNode || endpointId(d.target) === hoveredNode));
+            d3.select(this).select("text.link-label").attr("display", visible ? null : "none");
+        });
+    };
+
+    // d3 writes positions onto nodes and replaces link endpoints with node objects; shallow copies keep props intact.
+    const memoizedData = useMemo<MindMapData>(() => ({
+        nodes: data.nodes.map(n => ({ ...n })),
+        links: data.links.map(l => ({ ...l })),
+    }), [data]);
 
     useEffect(() => {
         if (!svgRef.current) return;
@@ -56,44 +109,82 @@ export const MindMapGraph: React.FC<MindMapGraphProps> = ({ data, onNodeClick, s
         
         const simulation = simulationRef.current;
         
-        let link = g.select<SVGGElement>(".links").selectAll<SVGPathElement, MindMapLink>("path");
+        let link = g.select<SVGGElement>(".links").selectAll<SVGGElement, MindMapLink>("g.link");
         let node = g.select<SVGGElement>(".nodes").selectAll<SVGGElement, MindMapNode>("g.node-group");
 
         // --- Data Binding ---
-        link = link.data(memoizedData.links, (d: any) => `${d.source.id || d.source}-${d.target.id || d.target}`);
+        link = link.data(memoizedData.links, (d: any) => getLinkKey(d));
         node = node.data(memoizedData.nodes, (d: any) => d.id);
 
         // --- Exit ---
-        link.exit().transition().duration(300).attr("stroke-opacity", 0).remove();
+        link.exit().transition().duration(300).attr("opacity", 0).remove();
         node.exit().transition().duration(300).attr("opacity", 0).remove();
 
         // --- Enter ---
-        const linkEnter = link.enter().append("path")
-            .attr("stroke", "#475569") // slate-600
-            .attr("stroke-width", 1.5)
+        const linkEnter = link.enter().append("g")
+            .attr("class", "link")
+            .on("mouseenter", (event, d) => {
+                hoveredLinkRef.current = getLinkKey(d);
+                updateLinkLabels();
+            })
+            .on("mouseleave", () => {
+                hoveredLinkRef.current = null;
+                updateLinkLabels();
+            });
+
+        // A wide transparent stroke makes thin links easy to hover.
+        linkEnter.append("path")
+            .attr("class", "link-hit")
+            .attr("stroke", "transparent")
+            .attr("stroke-width", 10)
+            .attr("fill", "none");
+
+        linkEnter.append("path")
+            .attr("class", "link-line")
             .attr("fill", "none")
-            .attr("stroke-opacity", 0);
-        
-        linkEnter.transition().duration(300)
-            .attr("stroke-opacity", 0.6);
+            .attr("stroke-opacity", 0)
+            .style("pointer-events", "none")
+            .transition().duration(300)
+            .attr("stroke-opacity", 0.7);
+
+        linkEnter.append("text")
+            .attr("class", "link-label")
+            .attr("text-anchor", "middle")
+            .attr("dy", -4)
+            .attr("fill", "#cbd5e1") // slate-300
+            .style("font-size", "10px")
+            .style("pointer-events", "none")
+            .style("text-shadow", "0 0 3px #000, 0 0 3px #000");
             
         const nodeEnter = node.enter().append("g")
             .attr("class", "node-group")
             .attr("cursor", "pointer")
             .on("click", (event, d) => {
               event.stopPropagation(); // prevent zoom on click
-              onNodeClick(d);
+              onNodeClickRef.current(d, event.shiftKey);
+            })
+            .on("mouseenter", (event, d) => {
+                hoveredNodeRef.current = d.id;
+                updateLinkLabels();
+            })
+            .on("mouseleave", () => {
+                hoveredNodeRef.current = null;
+                updateLinkLabels();
+            })
+            .on("dblclick", (event, d) => {
+                event.stopPropagation(); // prevent zoom on double-click
+                if (layoutRef.current === 'force' && d.fx != null) onPinNodesRef.current?.([{ nodeId: d.id, position: null }]);
             })
             .call(drag(simulation) as any);
 
         nodeEnter.append("circle")
-            .attr("r", d => d.type === 'CORE_PERSONA' ? 14 : d.type === 'MISSION' ? 12 : 9)
+            .attr("r", d => getNodeRadius(d.type))
             .attr("stroke", "#111827") // slate-900
             .attr("stroke-width", 2);
 
         nodeEnter.append("text")
             .text(d => d.name)
-            .attr("x", d => d.type === 'CORE_PERSONA' ? 18 : d.type === 'MISSION' ? 16 : 13)
+            .attr("x", d => getNodeRadius(d.type) + 4)
             .attr("y", 5)
             .attr("fill", "#e5e7eb") // gray-200
             .style("font-size", "12px")
@@ -112,38 +203,143 @@ export const MindMapGraph: React.FC<MindMapGraphProps> = ({ data, onNodeClick, s
         node.select("circle")
             .attr("fill", d => getNodeColor(d.type))
             .transition().duration(200)
-            .attr("stroke", d => d.id === selectedNodeId ? "#2dd4bf" : "#111827") // teal-400 for selected
-            .attr("stroke-width", d => d.id === selectedNodeId ? 3.5 : 2);
+            .attr("stroke", d => d.id === selectedNodeId ? "#2dd4bf" : bulkSelectedNodeIds?.has(d.id) ? BULK_SELECTED_STROKE : "#111827") // teal-400 for selected
+            .attr("stroke-width", d => d.id === selectedNodeId ? 3.5 : bulkSelectedNodeIds?.has(d.id) ? 3 : 2);
+
+        // Strength and label can change without changing the link's key.
+        link.select<SVGPathElement>("path.link-line")
+            .attr("stroke", d => LINK_STYLES[d.type].color)
+            .attr("stroke-width", d => getLinkWidth(d))
+            .attr("stroke-dasharray", d => LINK_STYLES[d.type].dash)
+            .attr("marker-end", d => LINK_STYLES[d.type].directed ? `url(#${ARROW_ID_PREFIX}${d.type})` : null);
+        link.select<SVGTextElement>("text.link-label").text(d => getLinkLabel(d));
+        link.select<SVGPathElement>("path.link-hit").each(function (d) {
+            d3.select(this).selectAll("title").data([d]).join("title")
+                .text(`${d.type}${d.label ? `: ${d.label}` : ''} (strength ${d.strength})`);
+        });
+        updateLinkLabels();
+
+        const isDimmed = (id: string) => !!highlightedNodeIds && !highlightedNodeIds.has(id);
+        node.selectAll<SVGElement, MindMapNode>("circle, text").attr("opacity", d => isDimmed(d.id) ? 0.2 : 1);
+        link.attr("opacity", d => isDimmed(endpointId(d.source)) && isDimmed(endpointId(d.target)) ? 0.2 : 1);
 
+        // Keep the layout of nodes that stay on screen, so filtering doesn't reshuffle the whole graph.
+        const previousNodes = new Map<string, SimulatedNode>(simulation.nodes().map(n => [n.id, n]));
+        const pins = new Map<string, MindMapNode>(data.nodes.map(n => [n.id, n]));
+        let newNodeCount = 0;
+        memoizedData.nodes.forEach((n: SimulatedNode) => {
+            // Only user pins stay fixed in the force layout; the other layouts fix every node below.
+            n.fx = pins.get(n.id)?.fx ?? null;
+            n.fy = pins.get(n.id)?.fy ?? null;
+            const previous = previousNodes.get(n.id);
+            if (!previous) {
+                newNodeCount++;
+                return;
+            }
+            n.x = previous.x;
+            n.y = previous.y;
+            n.vx = previous.vx;
+            n.vy = previous.vy;
+        });
+
+        node.select("circle").attr("stroke-dasharray", d => layout === 'force' && d.fx != null ? "3 2" : null);
+        node.selectAll("title").data(d => layout === 'force' && d.fx != null ? [d] : []).join("title")
+            .text(d => `${d.name} (pinned; double-click to unpin)`);
 
         simulation.nodes(memoizedData.nodes);
         (simulation.force("link") as d3.ForceLink<MindMapNode, MindMapLink>).links(memoizedData.links);
 
-        simulation.on("tick", () => {
-             link.attr("d", (d: any) => {
-                if(!d.source.x || !d.target.x) return null; // handle exit case
-                return `M${d.source.x},${d.source.y} L${d.target.x},${d.target.y}`;
+        const render = () => {
+             link.each(function (d) {
+                const group = d3.select(this);
+                group.selectAll("path").attr("d", getLinkPath(d));
+                const source = d.source as MindMapNode;
+                const target = d.target as MindMapNode;
+                group.select("text.link-label")
+                    .attr("x", ((source.x ?? 0) + (target.x ?? 0)) / 2)
+                    .attr("y", ((source.y ?? 0) + (target.y ?? 0)) / 2);
              });
             node.attr("transform", d => `translate(${d.x || 0},${d.y || 0})`);
-        });
+        };
+        simulation.on("tick", render);
 
-        simulation.alpha(0.8).restart();
+        const layoutChanged = previousLayoutRef.current !== layout;
+        previousLayoutRef.current = layout;
+        const targets = computeMindMapLayout(layout, memoizedData, width, height);
+        if (targets) {
+            // Fixed layouts glide from the current positions to the computed ones.
+            simulation.stop();
+            const nodes = memoizedData.nodes as SimulatedNode[];
+            const starts = nodes.map(n => ({ x: n.x ?? targets.get(n.id)!.x, y: n.y ?? targets.get(n.id)!.y }));
+            nodes.forEach(n => {
+                n.fx = targets.get(n.id)!.x;
+                n.fy = targets.get(n.id)!.y;
+                n.vx = 0;
+                n.vy = 0;
+            });
+            const isMoving = nodes.some((n, i) => starts[i].x !== n.fx || starts[i].y !== n.fy);
+            if (isMoving) {
+                svg.transition("layout").duration(LAYOUT_TRANSITION_MS).tween("layout", () => (t: number) => {
+                    nodes.forEach((n, i) => {
+                        n.x = starts[i].x + (n.fx! - starts[i].x) * t;
+                        n.y = starts[i].y + (n.fy! - starts[i].y) * t;
+                    });
+                    render();
+                });
+            } else {
+                svg.interrupt("layout");
+                render();
+            }
+        } else {
+            svg.interrupt("layout");
+            simulation.alpha(newNodeCount > 0 || layoutChanged ? 0.8 : 0.3).restart();
+        }
 
         // --- Drag functionality ---
         function drag(simulation: d3.Simulation<MindMapNode, MindMapLink>) {
+            // A press without movement is a click, which must not pin the node.
+            let moved = false;
+            let pinnedAtStart: { fx: number | null | undefined; fy: number | null | undefined } = { fx: null, fy: null };
+            // Alt-dragging draws a link from this node instead of moving it.
+            let linkingFrom: MindMapNode | null = null;
+            const draft = g.select<SVGLineElement>("line.link-draft");
             function dragstarted(event: any, d: any) {
+                linkingFrom = event.sourceEvent?.altKey && onLinkDrawRef.current ? d : null;
+                if (linkingFrom) {
+                    draft.attr("display", null).attr("x1", d.x).attr("y1", d.y).attr("x2", d.x).attr("y2", d.y);
+                    return;
+                }
                 if (!event.active) simulation.alphaTarget(0.3).restart();
+                moved = false;
+                pinnedAtStart = { fx: d.fx, fy: d.fy };
                 d.fx = d.x;
                 d.fy = d.y;
             }
             function dragged(event: any, d: any) {
+                if (linkingFrom) {
+                    draft.attr("x2", event.x).attr("y2", event.y);
+                    return;
+                }
+                moved = true;
                 d.fx = event.x;
                 d.fy = event.y;
             }
             function dragended(event: any, d: any) {
+                if (linkingFrom) {
+                    draft.attr("display", "none");
+                    const target = simulation.find(event.x, event.y, LINK_DROP_RADIUS);
+                    if (target && target.id !== linkingFrom.id) onLinkDrawRef.current?.(linkingFrom.id, target.id);
+                    linkingFrom = null;
+                    return;
+                }
                 if (!event.active) simulation.alphaTarget(0);
-                d.fx = null;
-                d.fy = null;
+                if (!moved) {
+                    d.fx = pinnedAtStart.fx;
+                    d.fy = pinnedAtStart.fy;
+                } else if (layoutRef.current === 'force') {
+                    onPinNodesRef.current?.([{ nodeId: d.id, position: { x: d.fx, y: d.fy } }]);
+                }
+                // In the fixed layouts a dragged node stays where it is dropped until the layout is recomputed.
             }
             return d3.drag().on("start", dragstarted).on("drag", dragged).on("end", dragended);
         }
@@ -154,29 +350,197 @@ export const MindMapGraph: React.FC<MindMapGraphProps> = ({ data, onNodeClick, s
                 .scaleExtent([0.1, 4])
                 .on("zoom", (event) => {
                     g.attr('transform', event.transform);
+                    const wasZoomedIn = zoomScaleRef.current >= LINK_LABEL_ZOOM;
+                    zoomScaleRef.current = event.transform.k;
+                    if (wasZoomedIn !== zoomScaleRef.current >= LINK_LABEL_ZOOM) updateLinkLabels();
                 });
             svg.call(zoomRef.current);
         }
 
-    }, [memoizedData, selectedNodeId, onNodeClick]);
+    }, [memoizedData, selectedNodeId, bulkSelectedNodeIds, highlightedNodeIds, layout]);
+
+    // Fit a freshly chosen fixed layout into view; trees in particular can spread well beyond the screen.
+    useEffect(() => {
+        if (layout === 'force' || !svgRef.current || !zoomRef.current || !simulationRef.current) return;
+        const nodes = simulationRef.current.nodes().filter(n => n.fx != null && n.fy != null);
+        if (nodes.length === 0) return;
+        const { width, height } = svgRef.current.getBoundingClientRect();
+        const transform = getFitTransform(nodes.map(n => ({ x: n.fx!, y: n.fy! })), width, height);
+        d3.select(svgRef.current).transition("fit").duration(LAYOUT_TRANSITION_MS).call(zoomRef.current.transform, transform);
+    }, [layout]);
+
+    useEffect(() => {
+        if (!centerRequest || !svgRef.current || !zoomRef.current || !simulationRef.current) return;
+        const target = simulationRef.current.nodes().find(n => n.id === centerRequest.nodeId);
+        if (target?.x === undefined || target.y === undefined) return;
+        d3.select(svgRef.current).transition().duration(500).call(zoomRef.current.translateTo, target.x, target.y);
+    }, [centerRequest]);
 
 
     return (
         <svg ref={svgRef} className="w-full h-full">
+            <defs>
+                {MIND_MAP_LINK_TYPES.filter(type => LINK_STYLES[type].directed).map(type => (
+                    <marker
+                        key={type}
+                        id={`${ARROW_ID_PREFIX}${type}`}
+                        viewBox="0 -5 10 10"
+                        refX={10}
+                        refY={0}
+                        markerWidth={8}
+                        markerHeight={8}
+                        markerUnits="userSpaceOnUse"
+                        orient="auto"
+                    >
+                        <path d="M0,-5L10,0L0,5" fill={LINK_STYLES[type].color} />
+                    </marker>
+                ))}
+            </defs>
             <g className="everything">
                 <g className="links"></g>
                 <g className="nodes"></g>
+                <line className="link-draft" display="none" stroke="#22d3ee" strokeWidth={2} strokeDasharray="4 3" pointerEvents="none" />
             </g>
         </svg>
     );
 };
 
 
-export const MindMap: React.FC<MindMapGraphProps> = ({ data, onNodeClick, selectedNodeId }) => {
+interface MindMapProps {
+  data: MindMapData;
+  onNodeClick: (node: MindMapNode | null) => void;
+  selectedNodeId: string | null;
+  filter: MindMapFilter;
+  onFilterChange: (filter: MindMapFilter) => void;
+  layout: MindMapLayout;
+  onLayoutChange: (layout: MindMapLayout) => void;
+  onPinNodes: (changes: NodePinChange[]) => void;
+  renderer: MindMapRenderer;
+  onRendererChange: (renderer: MindMapRenderer) => void;
+  bulkSelection: string[]; // Nodes picked with shift-click for bulk operations
+  onBulkSelectionChange: (nodeIds: string[]) => void;
+  onEdit: (edit: MindMapEdit) => void;
+  isLoading: boolean; // The agent is working: the map can be browsed but not edited or pinned
+}
+
+export const MindMap: React.FC<MindMapProps> = ({ data, onNodeClick, selectedNodeId, filter, onFilterChange, layout, onLayoutChange, onPinNodes, renderer, onRendererChange, bulkSelection, onBulkSelectionChange, onEdit, isLoading }) => {
+  const { data: visibleData, matches } = useMemo(() => filterMindMap(data, filter), [data, filter]);
+  const nodeNames = useMemo(() => new Map(data.nodes.map(node => [node.id, node.name])), [data]);
+  // Deleted nodes drop out of the selection.
+  const selection = useMemo(() => bulkSelection.filter(id => nodeNames.has(id)), [bulkSelection, nodeNames]);
+  const selectionSet = useMemo(() => new Set(selection), [selection]);
+  const [linkDraft, setLinkDraft] = useState<{ source: string; target: string } | null>(null);
+  const [newNodeParent, setNewNodeParent] = useState<string | null | undefined>(undefined); // undefined: not creating a node
+  const matchedNodes = useMemo(() => matches ? visibleData.nodes.filter(node => matches.has(node.id)) : null, [visibleData, matches]);
+  const [centerRequest, setCenterRequest] = useState<{ nodeId: string } | null>(null);
+  const activeRenderer = renderer === 'auto' ? (visibleData.nodes.length > CANVAS_NODE_THRESHOLD ? 'canvas' : 'svg') : renderer;
+  const Graph = activeRenderer === 'canvas' ? MindMapCanvas : MindMapGraph;
+
+  // While focused, selecting another node moves the focus there, so the graph can be walked node by node.
+  useEffect(() => {
+    if (filter.focusNodeId && selectedNodeId && selectedNodeId !== filter.focusNodeId) {
+      onFilterChange({ ...filter, focusNodeId: selectedNodeId });
+    }
+  }, [selectedNodeId]);
+
+  const pinnedNodes = data.nodes.filter(node => node.fx != null || node.fy != null);
+  const handleUnpinAll = () => onPinNodes(pinnedNodes.map(node => ({ nodeId: node.id, position: null })));
+
+  const handleNodeClick = (node: MindMapNode | null, additive = false) => {
+    if (!additive || !node) {
+      if (selection.length > 0) onBulkSelectionChange([]);
+      onNodeClick(node);
+      return;
+    }
+    // Shift-clicking starts from the node already open in the detail panel.
+    const base = selection.length === 0 && selectedNodeId && selectedNodeId !== node.id ? [selectedNodeId] : selection;
+    onBulkSelectionChange(base.includes(node.id) ? base.filter(id => id !== node.id) : [...base, node.id]);
+  };
+
+  const handleNewNode = () => {
+    const core = data.nodes.find(node => node.type === 'CORE_PERSONA');
+    setNewNodeParent(selectedNodeId ?? core?.id ?? null);
+  };
+
+  const handleSelectMatch = (nodeId: string) => {
+    const node = data.nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    onNodeClick(node);
+    setCenterRequest({ nodeId });
+  };
+
   return (
-    <div className="w-full h-full bg-gray-900">
+    <div className="w-full h-full bg-gray-900 relative">
        {data.nodes.length > 0 ? (
-        <MindMapGraph data={data} onNodeClick={onNodeClick} selectedNodeId={selectedNodeId} />
+        <>
+          <MindMapToolbar
+            mindMap={data}
+            visibleCount={visibleData.nodes.length}
+            matches={matchedNodes}
+            filter={filter}
+            onFilterChange={onFilterChange}
+            selectedNodeId={selectedNodeId}
+            onSelectMatch={handleSelectMatch}
+            layout={layout}
+            onLayoutChange={onLayoutChange}
+            onUnpinAll={pinnedNodes.length > 0 && !isLoading ? handleUnpinAll : null}
+            renderer={renderer}
+            activeRenderer={activeRenderer}
+            onRendererChange={onRendererChange}
+            onNewNode={isLoading ? null : handleNewNode}
+          />
+          {visibleData.nodes.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-gray-500 pointer-events-none">
+              No nodes match the current filters.
+            </div>
+          )}
+          <Graph
+            data={visibleData}
+            onNodeClick={handleNodeClick}
+            selectedNodeId={selectedNodeId}
+            bulkSelectedNodeIds={selectionSet}
+            highlightedNodeIds={matches}
+            centerRequest={centerRequest}
+            layout={layout}
+            onPinNodes={isLoading ? undefined : onPinNodes}
+            onLinkDraw={isLoading ? undefined : (source, target) => setLinkDraft({ source, target })}
+          />
+          {newNodeParent !== undefined && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 w-80 bg-gray-800/95 backdrop-blur-sm border border-cyan-500/40 rounded-lg p-3 shadow-xl">
+              <h5 className="font-bold text-cyan-400 text-sm mb-2">New node</h5>
+              <MindMapNodeForm
+                submitLabel="Create"
+                onSubmit={(fields) => {
+                  onEdit({ type: 'CREATE_NODE', fields, parentId: newNodeParent });
+                  setNewNodeParent(undefined);
+                }}
+                onCancel={() => setNewNodeParent(undefined)}
+                disabled={isLoading}
+              >
+                <label className="block text-gray-400">
+                  Parent
+                  <NodeSelect nodes={data.nodes} value={newNodeParent} onChange={setNewNodeParent} placeholder="(none — top level)" className={`${inputClassName} mt-1`} />
+                </label>
+              </MindMapNodeForm>
+            </div>
+          )}
+          {linkDraft && (
+            <MindMapLinkDialog
+              sourceName={nodeNames.get(linkDraft.source) ?? linkDraft.source}
+              targetName={nodeNames.get(linkDraft.target) ?? linkDraft.target}
+              onCreate={(type, label) => {
+                onEdit({ type: 'CREATE_LINKS', links: [{ source: linkDraft.source, target: linkDraft.target, type, label }] });
+                setLinkDraft(null);
+              }}
+              onCancel={() => setLinkDraft(null)}
+              disabled={isLoading}
+            />
+          )}
+          {selection.length > 0 && (
+            <MindMapSelectionBar mindMap={data} selectedIds={selection} onEdit={onEdit} onClear={() => onBulkSelectionChange([])} disabled={isLoading} />
+          )}
+          <MindMapLegend />
+        </>
       ) : (
         <div className="w-full h-full flex items-center justify-center text-gray-600">
           <div className="text-center">
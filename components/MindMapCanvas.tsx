@@ -0,0 +1,463 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import { ForceLayoutMessage, ForceLayoutNode, ForceLayoutRequest, MindMapLayout, MindMapLink, MindMapNode } from '../types';
+import { MIND_MAP_LINK_TYPES } from '../constants';
+import { endpointId } from '../utils/mindMap';
+import { computeMindMapLayout, getFitTransform, LayoutPosition } from '../utils/mindMapLayout';
+import { LINK_LABEL_ZOOM, LINK_STYLES, getLinkLabel, getLinkWidth, getNodeColor, getNodeRadius } from '../utils/mindMapStyles';
+import type { MindMapGraphProps } from './MindMap';
+
+// Canvas rendering for graphs too large for SVG. The force simulation runs in a worker and keeps its
+// state between updates; this component only draws, culling what is off screen and thinning out
+// labels and arrowheads as the view zooms out.
+
+const LAYOUT_TRANSITION_MS = 750;
+const ALL_LABELS_ZOOM = 1; // Every on-screen node is labeled from here in
+const KEY_LABELS_ZOOM = 0.5; // Only prominent nodes are labeled between this and ALL_LABELS_ZOOM
+const ARROW_MIN_ZOOM = 0.4;
+const MIN_HIT_RADIUS_PX = 5;
+const PROMINENT_DEGREE_SHARE = 0.05; // The best-connected 5% of nodes count as prominent
+const BULK_SELECTED_STROKE = '#fbbf24'; // amber-400
+
+const parseDash = (dash: string | null): number[] => (dash ? dash.split(' ').map(Number) : []);
+
+// What a drag holds on to: the node, and where its center is on screen.
+interface DragSubject {
+    node: MindMapNode;
+    x: number;
+    y: number;
+}
+
+// An alt-drag in progress: the link runs from a node to the pointer, in graph coordinates.
+interface LinkDraft {
+    sourceId: string;
+    to: LayoutPosition;
+}
+
+export const MindMapCanvas: React.FC<MindMapGraphProps> = ({ data, onNodeClick, selectedNodeId, bulkSelectedNodeIds = null, highlightedNodeIds = null, centerRequest = null, layout = 'force' as MindMapLayout, onPinNodes, onLinkDraw }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const workerRef = useRef<Worker | null>(null);
+    const positionsRef = useRef(new Map<string, LayoutPosition>());
+    const workerIdsRef = useRef<string[]>([]);
+    const transformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+    const zoomRef = useRef<d3.ZoomBehavior<HTMLCanvasElement, unknown>>();
+    const quadtreeRef = useRef<d3.Quadtree<MindMapNode> | null>(null);
+    const frameRef = useRef<number | null>(null);
+    const animationRef = useRef<d3.Timer | null>(null);
+    const hoveredNodeRef = useRef<string | null>(null);
+    const previousLayoutRef = useRef<MindMapLayout | null>(null);
+    const linkDraftRef = useRef<LinkDraft | null>(null);
+
+    const nodesById = useMemo(() => new Map(data.nodes.map(node => [node.id, node])), [data]);
+    const prominentIds = useMemo(() => {
+        const degree = new Map<string, number>();
+        data.links.forEach(link => {
+            [endpointId(link.source), endpointId(link.target)].forEach(id => degree.set(id, (degree.get(id) ?? 0) + 1));
+        });
+        const ranked = data.nodes.map(node => node.id).sort((a, b) => (degree.get(b) ?? 0) - (degree.get(a) ?? 0));
+        return new Set([
+            ...ranked.slice(0, Math.ceil(ranked.length * PROMINENT_DEGREE_SHARE)),
+            ...data.nodes.filter(node => node.type === 'CORE_PERSONA' || node.type === 'MISSION').map(node => node.id),
+        ]);
+    }, [data]);
+
+    // The draw loop and the event handlers are set up once, so they read the latest props through this ref.
+    const stateRef = useRef({ data, nodesById, prominentIds, selectedNodeId, bulkSelectedNodeIds, highlightedNodeIds, layout, onNodeClick, onPinNodes, onLinkDraw });
+    stateRef.current = { data, nodesById, prominentIds, selectedNodeId, bulkSelectedNodeIds, highlightedNodeIds, layout, onNodeClick, onPinNodes, onLinkDraw };
+
+    const postToWorker = (request: ForceLayoutRequest) => workerRef.current?.postMessage(request);
+
+    const draw = () => {
+        frameRef.current = null;
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context) return;
+        const { data, nodesById, prominentIds, selectedNodeId, bulkSelectedNodeIds, highlightedNodeIds, layout } = stateRef.current;
+        const positions = positionsRef.current;
+        const transform = transformRef.current;
+        const ratio = window.devicePixelRatio || 1;
+        const width = canvas.width / ratio;
+        const height = canvas.height / ratio;
+
+        context.setTransform(ratio, 0, 0, ratio, 0, 0);
+        context.clearRect(0, 0, width, height);
+        context.translate(transform.x, transform.y);
+        context.scale(transform.k, transform.k);
+
+        // The visible area in graph coordinates, with a margin for labels.
+        const margin = 100 / transform.k;
+        const [left, top] = transform.invert([0, 0]);
+        const [right, bottom] = transform.invert([width, height]);
+        const isVisible = (p: LayoutPosition) => p.x >= left - margin && p.x <= right + margin && p.y >= top - margin && p.y <= bottom + margin;
+        const isDimmed = (id: string) => !!highlightedNodeIds && !highlightedNodeIds.has(id);
+        const hovered = hoveredNodeRef.current;
+
+        // --- Links, grouped by type to limit style changes ---
+        const visibleLinks: { link: MindMapLink; source: LayoutPosition; target: LayoutPosition }[] = [];
+        for (const type of MIND_MAP_LINK_TYPES) {
+            const style = LINK_STYLES[type];
+            context.strokeStyle = style.color;
+            context.fillStyle = style.color;
+            context.setLineDash(parseDash(style.dash));
+            for (const link of data.links) {
+                if (link.type !== type) continue;
+                const sourceId = endpointId(link.source);
+                const targetId = endpointId(link.target);
+                const source = positions.get(sourceId);
+                const target = positions.get(targetId);
+                if (!source || !target || (!isVisible(source) && !isVisible(target))) continue;
+                visibleLinks.push({ link, source, target });
+
+                const dx = target.x - source.x;
+                const dy = target.y - source.y;
+                const distance = Math.hypot(dx, dy) || 1;
+                const targetRadius = getNodeRadius(nodesById.get(targetId)?.type ?? 'KNOWLEDGE_CONCEPT') + 2;
+                const endX = target.x - dx / distance * targetRadius;
+                const endY = target.y - dy / distance * targetRadius;
+                context.globalAlpha = isDimmed(sourceId) && isDimmed(targetId) ? 0.15 : 0.7;
+                context.lineWidth = getLinkWidth(link);
+                context.beginPath();
+                context.moveTo(source.x, source.y);
+                context.lineTo(endX, endY);
+                context.stroke();
+
+                if (style.directed && transform.k >= ARROW_MIN_ZOOM) {
+                    const angle = Math.atan2(dy, dx);
+                    context.beginPath();
+                    context.moveTo(endX, endY);
+                    context.lineTo(endX - 8 * Math.cos(angle - 0.45), endY - 8 * Math.sin(angle - 0.45));
+                    context.lineTo(endX - 8 * Math.cos(angle + 0.45), endY - 8 * Math.sin(angle + 0.45));
+                    context.closePath();
+                    context.fill();
+                }
+            }
+        }
+        context.setLineDash([]);
+
+        const draft = linkDraftRef.current;
+        const draftSource = draft && positions.get(draft.sourceId);
+        if (draft && draftSource) {
+            context.globalAlpha = 1;
+            context.strokeStyle = '#22d3ee'; // cyan-400
+            context.lineWidth = 2;
+            context.setLineDash([4, 3]);
+            context.beginPath();
+            context.moveTo(draftSource.x, draftSource.y);
+            context.lineTo(draft.to.x, draft.to.y);
+            context.stroke();
+            context.setLineDash([]);
+        }
+
+        // --- Nodes ---
+        for (const node of data.nodes) {
+            const p = positions.get(node.id);
+            if (!p || !isVisible(p)) continue;
+            const isSelected = node.id === selectedNodeId;
+            const isBulkSelected = !!bulkSelectedNodeIds?.has(node.id);
+            const isPinned = layout === 'force' && node.fx != null;
+            context.globalAlpha = isDimmed(node.id) ? 0.2 : 1;
+            context.beginPath();
+            context.arc(p.x, p.y, getNodeRadius(node.type), 0, 2 * Math.PI);
+            context.fillStyle = getNodeColor(node.type);
+            context.fill();
+            context.strokeStyle = isSelected ? '#2dd4bf' : isBulkSelected ? BULK_SELECTED_STROKE : '#111827'; // teal-400 for selected
+            context.lineWidth = isSelected ? 3.5 : isBulkSelected ? 3 : 2;
+            context.setLineDash(isPinned ? [3, 2] : []);
+            context.stroke();
+        }
+        context.setLineDash([]);
+
+        // --- Labels, by level of detail ---
+        context.font = '12px sans-serif';
+        context.textBaseline = 'middle';
+        context.lineJoin = 'round';
+        for (const node of data.nodes) {
+            const p = positions.get(node.id);
+            if (!p || !isVisible(p)) continue;
+            const isKey = node.id === selectedNodeId || node.id === hovered || !!highlightedNodeIds?.has(node.id);
+            const show = transform.k >= ALL_LABELS_ZOOM || isKey || (transform.k >= KEY_LABELS_ZOOM && prominentIds.has(node.id));
+            if (!show) continue;
+            context.globalAlpha = isDimmed(node.id) && !isKey ? 0.3 : 1;
+            const x = p.x + getNodeRadius(node.type) + 4;
+            context.strokeStyle = '#000';
+            context.lineWidth = 3;
+            context.strokeText(node.name, x, p.y);
+            context.fillStyle = '#e5e7eb'; // gray-200
+            context.fillText(node.name, x, p.y);
+        }
+
+        // Link labels appear when zoomed in, or around the hovered node.
+        context.font = '10px sans-serif';
+        context.textAlign = 'center';
+        for (const { link, source, target } of visibleLinks) {
+            const touchesHovered = !!hovered && (endpointId(link.source) === hovered || endpointId(link.target) === hovered);
+            if (transform.k < LINK_LABEL_ZOOM && !touchesHovered) continue;
+            const x = (source.x + target.x) / 2;
+            const y = (source.y + target.y) / 2 - 4;
+            const label = getLinkLabel(link);
+            context.globalAlpha = 1;
+            context.strokeStyle = '#000';
+            context.lineWidth = 3;
+            context.strokeText(label, x, y);
+            context.fillStyle = '#cbd5e1'; // slate-300
+            context.fillText(label, x, y);
+        }
+        context.textAlign = 'start';
+        context.globalAlpha = 1;
+    };
+
+    const requestDraw = () => {
+        if (frameRef.current === null) frameRef.current = requestAnimationFrame(draw);
+    };
+
+    const findNodeAt = (screenX: number, screenY: number): MindMapNode | null => {
+        const { data } = stateRef.current;
+        if (!quadtreeRef.current) {
+            quadtreeRef.current = d3.quadtree<MindMapNode>()
+                .x(node => positionsRef.current.get(node.id)?.x ?? NaN)
+                .y(node => positionsRef.current.get(node.id)?.y ?? NaN)
+                .addAll(data.nodes.filter(node => positionsRef.current.has(node.id)));
+        }
+        const [x, y] = transformRef.current.invert([screenX, screenY]);
+        const transformScale = transformRef.current.k;
+        const node = quadtreeRef.current.find(x, y, Math.max(getNodeRadius('CORE_PERSONA'), MIN_HIT_RADIUS_PX / transformScale) + 2);
+        if (!node) return null;
+        const p = positionsRef.current.get(node.id)!;
+        return Math.hypot(p.x - x, p.y - y) <= Math.max(getNodeRadius(node.type), MIN_HIT_RADIUS_PX / transformScale) + 2 ? node : null;
+    };
+
+    const setPositions = (positions: Map<string, LayoutPosition>) => {
+        positionsRef.current = positions;
+        quadtreeRef.current = null;
+        requestDraw();
+    };
+
+    // --- Worker, canvas size and input, set up once ---
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+
+        const worker = new Worker(new URL('../workers/forceLayoutWorker.ts', import.meta.url), { type: 'module' });
+        workerRef.current = worker;
+        worker.onmessage = (event: MessageEvent<ForceLayoutMessage>) => {
+            const { ids, positions } = event.data;
+            if (ids) workerIdsRef.current = ids;
+            // A layout transition owns the positions until it finishes.
+            if (animationRef.current) return;
+            const next = new Map<string, LayoutPosition>();
+            workerIdsRef.current.forEach((id, i) => next.set(id, { x: positions[2 * i], y: positions[2 * i + 1] }));
+            setPositions(next);
+        };
+
+        const resize = () => {
+            const ratio = window.devicePixelRatio || 1;
+            const { width, height } = canvas.getBoundingClientRect();
+            canvas.width = Math.max(1, Math.round(width * ratio));
+            canvas.height = Math.max(1, Math.round(height * ratio));
+            requestDraw();
+        };
+        const resizeObserver = new ResizeObserver(resize);
+        resizeObserver.observe(canvas);
+        resize();
+
+        const selection = d3.select(canvas);
+
+        // A press without movement is a click, which must not pin the node.
+        let moved = false;
+        let fixedAtStart: { x: number | null; y: number | null } = { x: null, y: null };
+        const drag = d3.drag<HTMLCanvasElement, unknown, DragSubject | null>()
+            .subject(event => {
+                const node = findNodeAt(event.x, event.y);
+                const position = node && positionsRef.current.get(node.id);
+                if (!node || !position) return null;
+                const [x, y] = transformRef.current.apply([position.x, position.y]);
+                return { node, x, y };
+            })
+            .on("start", event => {
+                const { node } = event.subject!;
+                const { layout } = stateRef.current;
+                // Alt-dragging draws a link from this node instead of moving it.
+                if (event.sourceEvent?.altKey && stateRef.current.onLinkDraw) {
+                    const [x, y] = transformRef.current.invert([event.x, event.y]);
+                    linkDraftRef.current = { sourceId: node.id, to: { x, y } };
+                    requestDraw();
+                    return;
+                }
+                const position = positionsRef.current.get(node.id);
+                moved = false;
+                fixedAtStart = layout === 'force'
+                    ? { x: node.fx ?? null, y: node.fy ?? null }
+                    : { x: position?.x ?? null, y: position?.y ?? null };
+                if (!event.active) postToWorker({ type: 'reheat', alphaTarget: 0.3 });
+            })
+            .on("drag", event => {
+                const [x, y] = transformRef.current.invert([event.x, event.y]);
+                if (linkDraftRef.current) {
+                    linkDraftRef.current = { ...linkDraftRef.current, to: { x, y } };
+                    requestDraw();
+                    return;
+                }
+                moved = true;
+                positionsRef.current.set(event.subject!.node.id, { x, y });
+                quadtreeRef.current = null;
+                postToWorker({ type: 'fix', id: event.subject!.node.id, x, y });
+                requestDraw();
+            })
+            .on("end", event => {
+                const { node } = event.subject!;
+                if (linkDraftRef.current) {
+                    linkDraftRef.current = null;
+                    requestDraw();
+                    const target = findNodeAt(event.x, event.y);
+                    if (target && target.id !== node.id) stateRef.current.onLinkDraw?.(node.id, target.id);
+                    return;
+                }
+                if (!event.active) postToWorker({ type: 'reheat', alphaTarget: 0 });
+                if (!moved) {
+                    postToWorker({ type: 'fix', id: node.id, x: fixedAtStart.x, y: fixedAtStart.y });
+                } else if (stateRef.current.layout === 'force') {
+                    const position = positionsRef.current.get(node.id)!;
+                    stateRef.current.onPinNodes?.([{ nodeId: node.id, position }]);
+                }
+                // In the fixed layouts a dragged node stays where it is dropped until the layout is recomputed.
+            });
+
+        // Registered before zoom, so a press on a node drags it instead of panning and a
+        // double-click on a node unpins it instead of zooming.
+        selection
+            .call(drag)
+            .on("dblclick.unpin", (event: MouseEvent) => {
+                const node = findNodeAt(event.offsetX, event.offsetY);
+                if (!node) return;
+                event.stopImmediatePropagation();
+                if (stateRef.current.layout === 'force' && node.fx != null) stateRef.current.onPinNodes?.([{ nodeId: node.id, position: null }]);
+            })
+            .on("click.select", (event: MouseEvent) => {
+                const node = findNodeAt(event.offsetX, event.offsetY);
+                if (node) stateRef.current.onNodeClick(node, event.shiftKey);
+            })
+            .on("mousemove.hover", (event: MouseEvent) => {
+                const id = findNodeAt(event.offsetX, event.offsetY)?.id ?? null;
+                canvas.style.cursor = id ? 'pointer' : 'default';
+                if (id !== hoveredNodeRef.current) {
+                    hoveredNodeRef.current = id;
+                    requestDraw();
+                }
+            });
+
+        zoomRef.current = d3.zoom<HTMLCanvasElement, unknown>()
+            .scaleExtent([0.05, 4])
+            .on("zoom", event => {
+                transformRef.current = event.transform;
+                requestDraw();
+            });
+        selection.call(zoomRef.current);
+
+        return () => {
+            resizeObserver.disconnect();
+            animationRef.current?.stop();
+            if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+            selection.on(".drag", null).on(".zoom", null).on(".unpin", null).on(".select", null).on(".hover", null);
+            worker.terminate();
+            workerRef.current = null;
+        };
+    }, []);
+
+    // --- Graph and layout updates: incremental, so the simulation keeps its state ---
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const { width, height } = canvas.getBoundingClientRect();
+        const layoutChanged = previousLayoutRef.current !== null && previousLayoutRef.current !== layout;
+        const isFirstLayout = previousLayoutRef.current === null;
+        previousLayoutRef.current = layout;
+
+        const current = positionsRef.current;
+        const targets = computeMindMapLayout(layout, data, width, height);
+        const neighbors = new Map<string, string[]>();
+        const connect = (from: string, to: string) => {
+            const list = neighbors.get(from);
+            if (list) list.push(to);
+            else neighbors.set(from, [to]);
+        };
+        data.links.forEach(link => {
+            const source = endpointId(link.source);
+            const target = endpointId(link.target);
+            connect(source, target);
+            connect(target, source);
+        });
+        // New nodes start beside a neighbor that is already placed, so additions don't fly in from elsewhere.
+        // Without one, the simulation picks the start (as it does for the whole first layout).
+        const startFor = (id: string): LayoutPosition | undefined => {
+            const placed = (neighbors.get(id) ?? []).map(neighbor => current.get(neighbor)).find(Boolean);
+            return placed && { x: placed.x + (Math.random() - 0.5) * 40, y: placed.y + (Math.random() - 0.5) * 40 };
+        };
+
+        let newNodeCount = 0;
+        const nodes: ForceLayoutNode[] = data.nodes.map(node => {
+            const known = current.get(node.id);
+            if (!known) newNodeCount++;
+            const target = targets?.get(node.id);
+            const start = known ?? target ?? (node.fx != null && node.fy != null ? { x: node.fx, y: node.fy } : startFor(node.id));
+            return { id: node.id, x: start?.x, y: start?.y, fx: target ? target.x : node.fx ?? null, fy: target ? target.y : node.fy ?? null };
+        });
+        const links = data.links.map(link => ({ source: endpointId(link.source), target: endpointId(link.target), type: link.type }));
+
+        animationRef.current?.stop();
+        animationRef.current = null;
+        if (targets) {
+            // Fixed layouts glide from the current positions to the computed ones on this thread;
+            // the worker just holds every node fixed so dragging behaves the same.
+            postToWorker({ type: 'update', nodes, links, width, height, alpha: 0 });
+            const starts = new Map(nodes.map(node => [node.id, { x: node.x!, y: node.y! }]));
+            const isMoving = nodes.some(node => starts.get(node.id)!.x !== node.fx || starts.get(node.id)!.y !== node.fy);
+            if (isMoving && !isFirstLayout) {
+                const ease = d3.easeCubicInOut;
+                animationRef.current = d3.timer(elapsed => {
+                    const t = ease(Math.min(1, elapsed / LAYOUT_TRANSITION_MS));
+                    const next = new Map<string, LayoutPosition>();
+                    nodes.forEach(node => {
+                        const start = starts.get(node.id)!;
+                        next.set(node.id, { x: start.x + (node.fx! - start.x) * t, y: start.y + (node.fy! - start.y) * t });
+                    });
+                    setPositions(next);
+                    if (t >= 1) {
+                        animationRef.current?.stop();
+                        animationRef.current = null;
+                    }
+                });
+            } else {
+                setPositions(new Map(nodes.map(node => [node.id, { x: node.fx!, y: node.fy! }])));
+            }
+            if ((layoutChanged || isFirstLayout) && canvasRef.current && zoomRef.current) {
+                const transform = getFitTransform(Array.from(targets.values()), width, height);
+                d3.select(canvasRef.current).transition("fit").duration(LAYOUT_TRANSITION_MS).call(zoomRef.current.transform, transform);
+            }
+        } else {
+            // Show new nodes where they start while the worker's first tick is on its way.
+            if (newNodeCount > 0 || layoutChanged) {
+                const shown = new Map<string, LayoutPosition>();
+                nodes.forEach(node => {
+                    const position = current.get(node.id) ?? (node.x !== undefined && node.y !== undefined ? { x: node.x, y: node.y } : undefined);
+                    if (position) shown.set(node.id, position);
+                });
+                setPositions(shown);
+            }
+            postToWorker({ type: 'update', nodes, links, width, height, alpha: newNodeCount > 0 || layoutChanged ? 0.8 : 0.1 });
+        }
+    }, [data, layout]);
+
+    // Selection and search highlighting only change how things are drawn.
+    useEffect(() => {
+        requestDraw();
+    }, [selectedNodeId, bulkSelectedNodeIds, highlightedNodeIds]);
+
+    useEffect(() => {
+        if (!centerRequest || !canvasRef.current || !zoomRef.current) return;
+        const target = positionsRef.current.get(centerRequest.nodeId);
+        if (!target) return;
+        d3.select(canvasRef.current).transition().duration(500).call(zoomRef.current.translateTo, target.x, target.y);
+    }, [centerRequest]);
+
+    return <canvas ref={canvasRef} className="w-full h-full block" />;
+};
@@ -0,0 +1,95 @@
+import React from 'react';
+import { MindMapDiff, MindMapLink, MindMapNode } from '../types';
+import { endpointId, getLinkKey, isMindMapDiffEmpty, summarizeMindMapDiff } from '../utils/mindMap';
+import { CloseIcon } from './icons/CloseIcon';
+
+interface MindMapDiffViewProps {
+  title: string;
+  // Null for a commit made before mind maps were versioned.
+  diff: MindMapDiff | null;
+  onClose: () => void;
+}
+
+const describeLink = (link: MindMapLink) =>
+  `${endpointId(link.source)} → ${endpointId(link.target)} (${link.type}${link.label ? `: ${link.label}` : ''})`;
+
+const formatValue = (value: MindMapNode[keyof MindMapNode]) => (value === undefined || value === '' ? '(none)' : String(value));
+
+const Section: React.FC<{ title: string; count: number; children: React.ReactNode }> = ({ title, count, children }) =>
+  count === 0 ? null : (
+    <div>
+        <h5 className="mb-1 text-xs font-semibold uppercase tracking-wider text-gray-400">{title} ({count})</h5>
+        <ul className="space-y-1">{children}</ul>
+    </div>
+  );
+
+const NodeRow: React.FC<{ node: MindMapNode; sign: '+' | '-' }> = ({ node, sign }) => (
+  <li className={`p-1.5 rounded ${sign === '+' ? 'bg-green-900/30 text-green-200' : 'bg-red-900/30 text-red-200 line-through'}`}>
+      <span className="font-mono mr-2 select-none">{sign}</span>
+      <span className="font-semibold">{node.name}</span>
+      <span className="ml-2 text-xs text-gray-400">{node.type} · {node.id}</span>
+  </li>
+);
+
+export const MindMapDiffView: React.FC<MindMapDiffViewProps> = ({ title, diff, onClose }) => (
+  <div className="h-full flex flex-col">
+    <div className="flex-shrink-0 flex items-center mb-3 space-x-2">
+        <h4 className="flex-grow font-semibold text-gray-300 truncate" title={title}>{title}</h4>
+        {diff && <span className="text-xs font-mono text-gray-400">{summarizeMindMapDiff(diff)}</span>}
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" title="Close diff">
+            <CloseIcon className="w-4 h-4" />
+        </button>
+    </div>
+    {!diff ? (
+      <p className="text-gray-500 italic">This commit has no mind map snapshot.</p>
+    ) : (
+    <div className="flex-grow overflow-y-auto custom-scrollbar pr-2 space-y-4">
+        {isMindMapDiffEmpty(diff) && <p className="text-gray-500 italic">No mind map changes.</p>}
+        <Section title="Added nodes" count={diff.addedNodes.length}>
+            {diff.addedNodes.map(node => <NodeRow key={node.id} node={node} sign="+" />)}
+        </Section>
+        <Section title="Removed nodes" count={diff.removedNodes.length}>
+            {diff.removedNodes.map(node => <NodeRow key={node.id} node={node} sign="-" />)}
+        </Section>
+        <Section title="Changed nodes" count={diff.changedNodes.length}>
+            {diff.changedNodes.map(({ before, after, fields }) => (
+              <li key={after.id} className="p-1.5 rounded bg-gray-900/50">
+                  <span className="font-semibold text-yellow-200">{after.name}</span>
+                  <span className="ml-2 text-xs text-gray-400">{after.id}</span>
+                  <dl className="mt-1 space-y-1 text-xs">
+                      {fields.map(field => (
+                        <div key={field} className="grid grid-cols-[5rem_1fr] gap-x-2">
+                            <dt className="text-gray-500">{field}</dt>
+                            <dd className="min-w-0">
+                                <p className="text-red-300 line-through whitespace-pre-wrap break-words">{formatValue(before[field])}</p>
+                                <p className="text-green-300 whitespace-pre-wrap break-words">{formatValue(after[field])}</p>
+                            </dd>
+                        </div>
+                      ))}
+                  </dl>
+              </li>
+            ))}
+        </Section>
+        <Section title="Added links" count={diff.addedLinks.length}>
+            {diff.addedLinks.map(link => (
+              <li key={getLinkKey(link)} className="p-1.5 rounded bg-green-900/30 text-green-200 font-mono text-xs">+ {describeLink(link)}</li>
+            ))}
+        </Section>
+        <Section title="Removed links" count={diff.removedLinks.length}>
+            {diff.removedLinks.map(link => (
+              <li key={getLinkKey(link)} className="p-1.5 rounded bg-red-900/30 text-red-200 font-mono text-xs line-through">- {describeLink(link)}</li>
+            ))}
+        </Section>
+        <Section title="Changed links" count={diff.changedLinks.length}>
+            {diff.changedLinks.map(({ before, after }) => (
+              <li key={getLinkKey(after)} className="p-1.5 rounded bg-gray-900/50 font-mono text-xs text-gray-300">
+                  ~ {describeLink(after)}
+                  {before.strength !== after.strength && <span className="ml-2 text-yellow-300">strength {before.strength} → {after.strength}</span>}
+                  {before.label !== after.label && <span className="ml-2 text-yellow-300">label "{before.label ?? ''}" → "{after.label ?? ''}"</span>}
+              </li>
+            ))}
+        </Section>
+    </div>
+    )}
+  </div>
+);
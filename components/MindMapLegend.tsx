@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { MIND_MAP_LINK_TYPES, MIND_MAP_NODE_TYPES } from '../constants';
+import { LINK_STYLES, getNodeColor } from '../utils/mindMapStyles';
+
+const formatLabel = (value: string) => value.toLowerCase().replace(/_/g, ' ');
+
+export const MindMapLegend: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="absolute bottom-2 right-2 z-10 text-xs">
+      {isOpen ? (
+        <div className="bg-gray-800/90 backdrop-blur-sm border border-cyan-500/20 rounded-lg p-3 w-64 max-h-[70vh] overflow-y-auto custom-scrollbar space-y-3">
+          <div className="flex items-center justify-between">
+            <h5 className="font-bold text-cyan-400">Legend</h5>
+            <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-white">hide</button>
+          </div>
+
+          <div>
+            <h6 className="text-gray-500 font-semibold uppercase tracking-wider mb-1">Nodes</h6>
+            <ul className="space-y-1">
+              {MIND_MAP_NODE_TYPES.map(type => (
+                <li key={type} className="flex items-center gap-2 text-gray-300">
+                  <span className="inline-block w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: getNodeColor(type) }} />
+                  {formatLabel(type)}
+                </li>
+              ))}
+            </ul>
+            <p className="text-gray-500 mt-1">The core persona and missions are drawn larger; the selected node has a teal ring, nodes picked with shift-click an amber one.</p>
+          </div>
+
+          <div>
+            <h6 className="text-gray-500 font-semibold uppercase tracking-wider mb-1">Links</h6>
+            <ul className="space-y-1">
+              {MIND_MAP_LINK_TYPES.map(type => {
+                const style = LINK_STYLES[type];
+                return (
+                  <li key={type} className="flex items-center gap-2 text-gray-300" title={style.description}>
+                    <svg width="36" height="10" className="flex-shrink-0">
+                      <line x1="1" y1="5" x2={style.directed ? 28 : 35} y2="5" stroke={style.color} strokeWidth="2" strokeDasharray={style.dash ?? undefined} />
+                      {style.directed && <path d="M27,1L35,5L27,9" fill={style.color} />}
+                    </svg>
+                    <span>{formatLabel(type)}</span>
+                    <span className="text-gray-500 truncate">{style.description}</span>
+                  </li>
+                );
+              })}
+            </ul>
+            <p className="text-gray-500 mt-1">Thicker lines are stronger links. Labels appear when hovering a link or node, or when zoomed in.</p>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="px-2 py-1 bg-gray-800/90 border border-cyan-500/20 rounded text-gray-300 hover:text-white"
+        >
+          Legend
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { MindMapLinkType } from '../types';
+import { MIND_MAP_LINK_TYPES } from '../constants';
+import { LINK_STYLES } from '../utils/mindMapStyles';
+import { formatLabel, inputClassName } from './MindMapNodeForm';
+
+interface MindMapLinkDialogProps {
+  sourceName: string;
+  targetName: string;
+  onCreate: (type: MindMapLinkType, label: string) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+// Shown after dragging from one node to another: picking a type creates the link.
+export const MindMapLinkDialog: React.FC<MindMapLinkDialogProps> = ({ sourceName, targetName, onCreate, onCancel, disabled = false }) => {
+  const [label, setLabel] = useState('');
+
+  return (
+    <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 w-80 bg-gray-800/95 backdrop-blur-sm border border-cyan-500/40 rounded-lg p-3 space-y-2 text-xs shadow-xl">
+      <p className="text-gray-300">
+        Link <span className="font-semibold text-cyan-300">{sourceName}</span> → <span className="font-semibold text-cyan-300">{targetName}</span> as:
+      </p>
+      <div className="grid grid-cols-2 gap-1">
+        {MIND_MAP_LINK_TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => onCreate(type, label)}
+            disabled={disabled}
+            className="flex items-center gap-2 px-2 py-1 rounded bg-gray-900 border border-gray-700 text-gray-300 hover:border-cyan-500 hover:text-white disabled:opacity-50 disabled:hover:border-gray-700"
+            title={LINK_STYLES[type].description}
+          >
+            <span className="inline-block w-3 h-0.5 flex-shrink-0" style={{ backgroundColor: LINK_STYLES[type].color }} />
+            {formatLabel(type)}
+          </button>
+        ))}
+      </div>
+      <input type="text" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Label (optional)" className={inputClassName} />
+      <div className="flex justify-end">
+        <button onClick={onCancel} className="px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600">Cancel</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { MindMapNode, MindMapNodeFields, MindMapNodeType, MissionTaskStatus } from '../types';
+import { MIND_MAP_NODE_TYPES } from '../constants';
+
+export const formatLabel = (value: string) => value.toLowerCase().replace(/_/g, ' ');
+
+export const inputClassName = "w-full p-1.5 bg-gray-900 border border-gray-700 rounded-md text-gray-300 text-xs focus:outline-none focus:ring-1 focus:ring-cyan-500";
+
+const TASK_STATUSES: MissionTaskStatus[] = ['pending', 'in_progress', 'complete'];
+
+interface NodeSelectProps {
+  nodes: MindMapNode[];
+  value: string | null;
+  onChange: (nodeId: string | null) => void;
+  placeholder: string; // Shown for, and selects, "no node"
+  excludeIds?: Set<string>;
+  className?: string;
+  disabled?: boolean;
+}
+
+// A node picker sorted by name; the type disambiguates nodes that share one.
+export const NodeSelect: React.FC<NodeSelectProps> = ({ nodes, value, onChange, placeholder, excludeIds, className = inputClassName, disabled = false }) => {
+  const options = useMemo(
+    () => nodes.filter(node => !excludeIds?.has(node.id)).sort((a, b) => a.name.localeCompare(b.name)),
+    [nodes, excludeIds],
+  );
+  return (
+    <select value={value ?? ''} onChange={(e) => onChange(e.target.value || null)} disabled={disabled} className={className}>
+      <option value="">{placeholder}</option>
+      {options.map(node => <option key={node.id} value={node.id}>{node.name} ({formatLabel(node.type)})</option>)}
+    </select>
+  );
+};
+
+interface MindMapNodeFormProps {
+  initial?: MindMapNodeFields;
+  submitLabel: string;
+  onSubmit: (fields: MindMapNodeFields) => void;
+  onCancel: () => void;
+  children?: React.ReactNode; // Extra inputs shown above the buttons
+  disabled?: boolean; // Keeps what was typed but can't be submitted, e.g. while the agent is working
+}
+
+export const MindMapNodeForm: React.FC<MindMapNodeFormProps> = ({ initial, submitLabel, onSubmit, onCancel, children, disabled = false }) => {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [type, setType] = useState<MindMapNodeType>(initial?.type ?? 'KNOWLEDGE_CONCEPT');
+  const [status, setStatus] = useState<MissionTaskStatus>(initial?.status ?? 'pending');
+  const [content, setContent] = useState(initial?.content ?? '');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || disabled) return;
+    onSubmit({ name: name.trim(), type, content, status: type === 'TASK' ? status : undefined });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 text-xs">
+      <label className="block text-gray-400">
+        Name
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} autoFocus className={`${inputClassName} mt-1`} />
+      </label>
+      <div className="flex gap-2">
+        <label className="block flex-grow text-gray-400">
+          Type
+          <select value={type} onChange={(e) => setType(e.target.value as MindMapNodeType)} className={`${inputClassName} mt-1`}>
+            {MIND_MAP_NODE_TYPES.map(option => <option key={option} value={option}>{formatLabel(option)}</option>)}
+          </select>
+        </label>
+        {type === 'TASK' && (
+          <label className="block text-gray-400">
+            Status
+            <select value={status} onChange={(e) => setStatus(e.target.value as MissionTaskStatus)} className={`${inputClassName} mt-1`}>
+              {TASK_STATUSES.map(option => <option key={option} value={option}>{formatLabel(option)}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+      <label className="block text-gray-400">
+        Content
+        <textarea value={content} onChange={(e) => setContent(e.target.value)} rows={5} className={`${inputClassName} mt-1 resize-y`} />
+      </label>
+      {children}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600">Cancel</button>
+        <button type="submit" disabled={!name.trim() || disabled} className="px-3 py-1 rounded bg-cyan-700 text-white hover:bg-cyan-600 disabled:bg-gray-800 disabled:text-gray-500">
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { MindMapData, MindMapEdit, MindMapLinkType, MindMapNodeType } from '../types';
+import { MIND_MAP_LINK_TYPES, MIND_MAP_NODE_TYPES } from '../constants';
+import { getSubtreeIds } from '../utils/mindMapEditing';
+import { NodeSelect, formatLabel } from './MindMapNodeForm';
+
+interface MindMapSelectionBarProps {
+  mindMap: MindMapData;
+  selectedIds: string[];
+  onEdit: (edit: MindMapEdit) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+const selectClassName = "p-1 bg-gray-900 border border-gray-700 rounded-md text-gray-300 text-xs focus:outline-none focus:ring-1 focus:ring-cyan-500";
+
+// Bulk operations on the nodes picked with shift-click.
+export const MindMapSelectionBar: React.FC<MindMapSelectionBarProps> = ({ mindMap, selectedIds, onEdit, onClear, disabled = false }) => {
+  const [linkTarget, setLinkTarget] = useState<string | null>(null);
+  const [linkType, setLinkType] = useState<MindMapLinkType>('RELATED');
+
+  const selectedNodes = useMemo(() => mindMap.nodes.filter(node => selectedIds.includes(node.id)), [mindMap, selectedIds]);
+  // The selection can't move under any of its own members or their descendants.
+  const blockedParents = useMemo(() => {
+    const blocked = new Set<string>();
+    selectedIds.forEach(id => getSubtreeIds(mindMap, id).forEach(subtreeId => blocked.add(subtreeId)));
+    return blocked;
+  }, [mindMap, selectedIds]);
+  const includesCore = selectedNodes.some(node => node.type === 'CORE_PERSONA');
+
+  const handleLink = () => {
+    if (!linkTarget) return;
+    const links = selectedIds.filter(id => id !== linkTarget).map(id => ({ source: id, target: linkTarget, type: linkType }));
+    if (links.length > 0) onEdit({ type: 'CREATE_LINKS', links });
+    setLinkTarget(null);
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete ${selectedNodes.length} ${selectedNodes.length === 1 ? 'node' : 'nodes'} and their links?`)) {
+      onEdit({ type: 'DELETE_NODES', nodeIds: selectedIds });
+      onClear();
+    }
+  };
+
+  return (
+    <div className="absolute bottom-2 left-2 z-10 max-w-[calc(100%-7rem)] bg-gray-800/90 backdrop-blur-sm border border-amber-500/40 rounded-lg p-2 flex flex-wrap items-center gap-2 text-xs text-gray-300">
+      <span className="font-semibold text-amber-300" title={selectedNodes.map(node => node.name).join(', ')}>
+        {selectedNodes.length} selected
+      </span>
+      <select
+        value=""
+        onChange={(e) => e.target.value && onEdit({ type: 'UPDATE_NODES', nodeIds: selectedIds, changes: { type: e.target.value as MindMapNodeType } })}
+        disabled={disabled}
+        className={selectClassName}
+      >
+        <option value="">Set type…</option>
+        {MIND_MAP_NODE_TYPES.map(type => <option key={type} value={type}>{formatLabel(type)}</option>)}
+      </select>
+      <NodeSelect
+        nodes={mindMap.nodes}
+        value={null}
+        onChange={(id) => id && onEdit({ type: 'REPARENT_NODES', nodeIds: selectedIds, parentId: id })}
+        placeholder="Move under…"
+        excludeIds={blockedParents}
+        className={`${selectClassName} max-w-[10rem]`}
+        disabled={disabled}
+      />
+      <span className="flex items-center gap-1">
+        <NodeSelect nodes={mindMap.nodes} value={linkTarget} onChange={setLinkTarget} placeholder="Link all to…" className={`${selectClassName} max-w-[10rem]`} disabled={disabled} />
+        {linkTarget && (
+          <>
+            <select value={linkType} onChange={(e) => setLinkType(e.target.value as MindMapLinkType)} className={selectClassName}>
+              {MIND_MAP_LINK_TYPES.map(type => <option key={type} value={type}>{formatLabel(type)}</option>)}
+            </select>
+            <button onClick={handleLink} disabled={disabled} className="px-2 py-1 rounded bg-cyan-700 text-white hover:bg-cyan-600 disabled:bg-gray-800 disabled:text-gray-500">Link</button>
+          </>
+        )}
+      </span>
+      <button
+        onClick={handleDelete}
+        disabled={includesCore || disabled}
+        className="px-2 py-1 rounded bg-red-900/60 text-red-200 hover:bg-red-800 disabled:bg-gray-800 disabled:text-gray-500"
+        title={includesCore ? "The core persona can't be deleted" : 'Delete the selected nodes'}
+      >
+        Delete
+      </button>
+      <button onClick={onClear} className="text-cyan-400 hover:text-cyan-300">Clear</button>
+    </div>
+  );
+};
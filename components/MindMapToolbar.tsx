@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { MindMapData, MindMapFilter, MindMapLayout, MindMapNode, MindMapRenderer } from '../types';
+import { MIND_MAP_LINK_TYPES, MIND_MAP_NODE_SOURCES, MIND_MAP_NODE_TYPES } from '../constants';
+import { MAX_FOCUS_DEPTH, createMindMapFilter, isMindMapFilterActive } from '../utils/mindMapFilter';
+import { MIND_MAP_LAYOUTS } from '../utils/mindMapLayout';
+
+interface MindMapToolbarProps {
+  mindMap: MindMapData;
+  visibleCount: number;
+  matches: MindMapNode[] | null;
+  filter: MindMapFilter;
+  onFilterChange: (filter: MindMapFilter) => void;
+  selectedNodeId: string | null;
+  onSelectMatch: (nodeId: string) => void;
+  layout: MindMapLayout;
+  onLayoutChange: (layout: MindMapLayout) => void;
+  onUnpinAll: (() => void) | null; // null when nothing is pinned
+  renderer: MindMapRenderer;
+  activeRenderer: 'svg' | 'canvas'; // What 'auto' resolved to
+  onRendererChange: (renderer: MindMapRenderer) => void;
+  onNewNode: (() => void) | null; // null while the mind map can't be edited
+}
+
+const MAX_LISTED_MATCHES = 20;
+
+const toggle = <T,>(values: T[], value: T): T[] => values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const formatLabel = (value: string) => value.toLowerCase().replace(/_/g, ' ');
+
+const ChipGroup = <T extends string>({ title, options, selected, onToggle }: { title: string; options: T[]; selected: T[]; onToggle: (value: T) => void }) => (
+  <div>
+    <h6 className="text-xs text-gray-500 font-semibold uppercase tracking-wider mb-1">{title}</h6>
+    <div className="flex flex-wrap gap-1">
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onToggle(option)}
+          className={`px-2 py-0.5 text-xs rounded-full border ${selected.includes(option) ? 'bg-cyan-600/40 border-cyan-500 text-cyan-200' : 'border-gray-700 text-gray-400 hover:text-white'}`}
+        >
+          {formatLabel(option)}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const MindMapToolbar: React.FC<MindMapToolbarProps> = ({ mindMap, visibleCount, matches, filter, onFilterChange, selectedNodeId, onSelectMatch, layout, onLayoutChange, onUnpinAll, renderer, activeRenderer, onRendererChange, onNewNode }) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const [showMatches, setShowMatches] = useState(true);
+  const update = (changes: Partial<MindMapFilter>) => onFilterChange({ ...filter, ...changes });
+
+  const focusNode = filter.focusNodeId ? mindMap.nodes.find(node => node.id === filter.focusNodeId) : undefined;
+  const filterCount = filter.nodeTypes.length + filter.sources.length + filter.linkTypes.length + (filter.createdFrom ? 1 : 0) + (filter.createdTo ? 1 : 0);
+  const inputClassName = "p-1 bg-gray-900 border border-gray-700 rounded-md text-gray-300 text-xs focus:outline-none focus:ring-1 focus:ring-cyan-500";
+
+  return (
+    <div className="absolute top-2 left-2 z-10 w-80 max-w-[calc(100%-1rem)] space-y-2 text-sm">
+      <div className="bg-gray-800/90 backdrop-blur-sm border border-cyan-500/20 rounded-lg p-2 space-y-2">
+        <div className="relative">
+          <input
+            type="search"
+            value={filter.query}
+            onChange={(e) => { update({ query: e.target.value }); setShowMatches(true); }}
+            placeholder="Search names and content…"
+            className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-gray-300 text-sm focus:outline-none focus:ring-1 focus:ring-cyan-500"
+          />
+          {matches && showMatches && (
+            <div className="absolute left-0 right-0 mt-1 bg-gray-900 border border-gray-700 rounded-md shadow-xl max-h-64 overflow-y-auto custom-scrollbar">
+              {matches.length === 0 ? (
+                <p className="p-2 text-xs text-gray-500">No visible nodes match.</p>
+              ) : (
+                <>
+                  {matches.slice(0, MAX_LISTED_MATCHES).map(node => (
+                    <button
+                      key={node.id}
+                      onClick={() => { onSelectMatch(node.id); setShowMatches(false); }}
+                      className={`w-full text-left px-2 py-1 text-xs hover:bg-gray-700 ${node.id === selectedNodeId ? 'text-cyan-300' : 'text-gray-300'}`}
+                    >
+                      <span className="font-semibold">{node.name}</span>
+                      <span className="ml-2 text-gray-500">{formatLabel(node.type)}</span>
+                    </button>
+                  ))}
+                  {matches.length > MAX_LISTED_MATCHES && (
+                    <p className="p-2 text-xs text-gray-500">and {matches.length - MAX_LISTED_MATCHES} more — refine the search.</p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 text-xs">
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`px-2 py-1 rounded ${showFilters || filterCount > 0 ? 'bg-cyan-700 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            Filters{filterCount > 0 ? ` (${filterCount})` : ''}
+          </button>
+          {focusNode ? (
+            <button onClick={() => update({ focusNodeId: null })} className="px-2 py-1 rounded bg-cyan-700 text-white" title="Show the whole graph again">
+              Unfocus
+            </button>
+          ) : (
+            <button
+              onClick={() => update({ focusNodeId: selectedNodeId })}
+              disabled={!selectedNodeId}
+              className="px-2 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500"
+              title={selectedNodeId ? 'Show only the selected node and its neighbors' : 'Select a node to focus on it'}
+            >
+              Focus
+            </button>
+          )}
+          <label className="flex items-center gap-1 text-gray-400" title="Hops from the focused node">
+            hops
+            <input
+              type="number"
+              min="1"
+              max={MAX_FOCUS_DEPTH}
+              value={filter.focusDepth}
+              onChange={(e) => update({ focusDepth: Math.min(MAX_FOCUS_DEPTH, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+              className={`${inputClassName} w-12`}
+            />
+          </label>
+          {(isMindMapFilterActive(filter) || filter.query) && (
+            <button onClick={() => onFilterChange({ ...createMindMapFilter(), focusDepth: filter.focusDepth })} className="ml-auto text-cyan-400 hover:text-cyan-300">
+              Clear
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <label htmlFor="mind-map-layout">Layout</label>
+          <select
+            id="mind-map-layout"
+            value={layout}
+            onChange={(e) => onLayoutChange(e.target.value as MindMapLayout)}
+            className={`${inputClassName} flex-grow`}
+          >
+            {MIND_MAP_LAYOUTS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+          </select>
+          {layout === 'force' && onUnpinAll && (
+            <button onClick={onUnpinAll} className="text-cyan-400 hover:text-cyan-300" title="Let every pinned node move freely again">
+              Unpin all
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <label htmlFor="mind-map-renderer">Renderer</label>
+          <select
+            id="mind-map-renderer"
+            value={renderer}
+            onChange={(e) => onRendererChange(e.target.value as MindMapRenderer)}
+            className={`${inputClassName} flex-grow`}
+            title="Canvas stays smooth on large graphs; SVG is used for smaller ones by default"
+          >
+            <option value="auto">Auto ({activeRenderer === 'canvas' ? 'canvas' : 'SVG'})</option>
+            <option value="svg">SVG</option>
+            <option value="canvas">Canvas</option>
+          </select>
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Showing {visibleCount} of {mindMap.nodes.length} nodes
+          {focusNode && <> within {filter.focusDepth} {filter.focusDepth === 1 ? 'hop' : 'hops'} of <span className="text-cyan-300">{focusNode.name}</span></>}
+          {matches && <> · {matches.length} {matches.length === 1 ? 'match' : 'matches'}</>}
+        </p>
+
+        <div className="flex items-center gap-2 text-xs">
+          <button onClick={onNewNode ?? undefined} disabled={!onNewNode} className="px-2 py-1 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500" title="Add a node, under the selected one by default">
+            New node
+          </button>
+          <span className="text-gray-500">Shift-click to select several · Alt-drag between nodes to link them</span>
+        </div>
+      </div>
+
+      {showFilters && (
+        <div className="bg-gray-800/90 backdrop-blur-sm border border-cyan-500/20 rounded-lg p-2 space-y-3 max-h-[60vh] overflow-y-auto custom-scrollbar">
+          <ChipGroup title="Node types" options={MIND_MAP_NODE_TYPES} selected={filter.nodeTypes} onToggle={(value) => update({ nodeTypes: toggle(filter.nodeTypes, value) })} />
+          <ChipGroup title="Sources" options={MIND_MAP_NODE_SOURCES} selected={filter.sources} onToggle={(value) => update({ sources: toggle(filter.sources, value) })} />
+          <ChipGroup title="Link types" options={MIND_MAP_LINK_TYPES} selected={filter.linkTypes} onToggle={(value) => update({ linkTypes: toggle(filter.linkTypes, value) })} />
+          <div>
+            <h6 className="text-xs text-gray-500 font-semibold uppercase tracking-wider mb-1">Created</h6>
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <input type="date" value={filter.createdFrom} max={filter.createdTo || undefined} onChange={(e) => update({ createdFrom: e.target.value })} className={inputClassName} />
+              to
+              <input type="date" value={filter.createdTo} min={filter.createdFrom || undefined} onChange={(e) => update({ createdTo: e.target.value })} className={inputClassName} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
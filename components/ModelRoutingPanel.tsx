@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { LLMProviderId, ModelRoute, ModelRouteDefinition } from '../types';
+import { MODEL_ROUTE_DEFINITIONS, modelRouter } from '../services/modelRouter';
+import { getProvider, listProviders } from '../services/llmProvider';
+import { auditLogService } from '../services/auditLogService';
+
+interface ModelRoutingPanelProps {
+  selectedGlobalModel: string;
+  selectedProvider: LLMProviderId;
+  isLoading: boolean;
+}
+
+const ROUTE_GROUPS: ModelRouteDefinition['group'][] = ['Agent', 'Sub-Agent', 'Tool'];
+
+export const ModelRoutingPanel: React.FC<ModelRoutingPanelProps> = ({
+  selectedGlobalModel,
+  selectedProvider,
+  isLoading,
+}) => {
+  const [overrides, setOverrides] = useState<Record<string, ModelRoute>>(() => modelRouter.getOverrides());
+
+  useEffect(() => {
+    const unsubscribe = modelRouter.subscribe(setOverrides);
+    return unsubscribe;
+  }, []);
+
+  const handleProviderChange = (key: string, value: string) => {
+    // Models are provider-specific, so switching backend falls back to the base model.
+    const route: ModelRoute = { provider: value ? value as LLMProviderId : undefined };
+    modelRouter.setRoute(key, route);
+    auditLogService.logEvent('USER_INTERACTION', { action: 'SET_MODEL_ROUTE', details: { key, route } });
+  };
+
+  const handleModelChange = (key: string, value: string) => {
+    const route: ModelRoute = { ...modelRouter.getRoute(key), model: value || undefined };
+    modelRouter.setRoute(key, route);
+    auditLogService.logEvent('USER_INTERACTION', { action: 'SET_MODEL_ROUTE', details: { key, route } });
+  };
+
+  const selectClassName = "w-full p-1 bg-gray-900 border border-gray-700 rounded-md text-gray-300 text-xs focus:outline-none focus:ring-1 focus:ring-cyan-500";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-bold text-cyan-400">Model Routing</h5>
+        <button
+          onClick={() => modelRouter.resetAll()}
+          disabled={isLoading || Object.keys(overrides).length === 0}
+          className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 text-white rounded"
+        >
+          Reset All
+        </button>
+      </div>
+      <p className="text-gray-400 text-xs">Choose the backend and model for each agent and tool to balance cost and quality. Unset entries use the base model above.</p>
+
+      <details>
+        <summary className="cursor-pointer text-xs text-gray-300">
+          Routing table ({Object.keys(overrides).length} custom)
+        </summary>
+        <div className="mt-2 space-y-3">
+          {ROUTE_GROUPS.map(group => (
+            <div key={group} className="space-y-2">
+              <h6 className="text-xs text-gray-500 font-semibold uppercase tracking-wider">{group}s</h6>
+              {MODEL_ROUTE_DEFINITIONS.filter(d => d.group === group).map(definition => {
+                const route = modelRouter.getRoute(definition.key);
+                const isCustom = definition.key in overrides;
+                const models = getProvider(route.provider ?? selectedProvider).listModels();
+                const modelOptions = route.model && !models.some(m => m.id === route.model)
+                  ? [{ id: route.model, label: route.model }, ...models]
+                  : models;
+
+                return (
+                  <div key={definition.key} className="bg-gray-900/50 p-2 rounded space-y-1">
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-gray-300 font-mono truncate" title={definition.key}>{definition.label}</span>
+                      {isCustom ? (
+                        <button onClick={() => modelRouter.resetRoute(definition.key)} disabled={isLoading} className="text-cyan-400 hover:text-cyan-300 ml-2 flex-shrink-0">
+                          reset
+                        </button>
+                      ) : (
+                        <span className="text-gray-600 ml-2 flex-shrink-0">default</span>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 gap-1">
+                      <select
+                        value={route.provider ?? ''}
+                        onChange={(e) => handleProviderChange(definition.key, e.target.value)}
+                        disabled={isLoading}
+                        className={selectClassName}
+                      >
+                        <option value="">Active backend</option>
+                        {listProviders().map(provider => (
+                          <option key={provider.id} value={provider.id}>{provider.label}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={route.model ?? ''}
+                        onChange={(e) => handleModelChange(definition.key, e.target.value)}
+                        disabled={isLoading}
+                        className={selectClassName}
+                      >
+                        <option value="">Base model ({selectedGlobalModel})</option>
+                        {modelOptions.map(model => (
+                          <option key={model.id} value={model.id}>{model.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+};
@@ -1,24 +1,200 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
+import { LLMProviderId, MockScriptStep } from '../types';
+import { listProviders, getProvider } from '../services/llmProvider';
+import { mockProvider } from '../services/providers/mockProvider';
+import { openAICompatibleProvider, OPENAI_COMPATIBLE_PRESETS } from '../services/providers/openAICompatibleProvider';
 
 interface ModelSelectionPanelProps {
   selectedGlobalModel: string;
   setSelectedGlobalModel: (model: string) => void;
+  selectedProvider: LLMProviderId;
+  setSelectedProvider: (provider: LLMProviderId) => void;
   isLoading: boolean;
 }
 
 export const ModelSelectionPanel: React.FC<ModelSelectionPanelProps> = ({
   selectedGlobalModel,
   setSelectedGlobalModel,
+  selectedProvider,
+  setSelectedProvider,
   isLoading,
 }) => {
+  const scriptInputRef = useRef<HTMLInputElement>(null);
+  const [scriptStatus, setScriptStatus] = useState<string>(() => {
+    const steps = mockProvider.getScript().length;
+    return steps > 0 ? `${steps} scripted step(s) loaded.` : 'No script loaded. Using built-in canned responses.';
+  });
+  const [openAISettings, setOpenAISettings] = useState(() => openAICompatibleProvider.getSettings());
+  const [modelsInput, setModelsInput] = useState(() => openAISettings.models.join(', '));
+  const [fetchStatus, setFetchStatus] = useState<string>('');
+
+  const availableModels = getProvider(selectedProvider).listModels();
+
+  const applyOpenAIModels = (models: string[]) => {
+    openAICompatibleProvider.updateSettings({ models });
+    setOpenAISettings(openAICompatibleProvider.getSettings());
+    if (models.length > 0 && !models.includes(selectedGlobalModel)) {
+      setSelectedGlobalModel(models[0]);
+    }
+  };
+
+  const handleOpenAISettingChange = (updates: { baseUrl?: string; apiKey?: string; embeddingModel?: string }) => {
+    openAICompatibleProvider.updateSettings(updates);
+    setOpenAISettings(openAICompatibleProvider.getSettings());
+  };
+
+  const handleModelsInputBlur = () => {
+    applyOpenAIModels(modelsInput.split(',').map(m => m.trim()).filter(Boolean));
+  };
+
+  const handleFetchModels = async () => {
+    setFetchStatus('Fetching models...');
+    try {
+      const models = await openAICompatibleProvider.fetchAvailableModels();
+      setModelsInput(models.join(', '));
+      applyOpenAIModels(models);
+      setFetchStatus(`Found ${models.length} model(s).`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error.';
+      setFetchStatus(`Failed to fetch models: ${message}`);
+    }
+  };
+
   const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     setSelectedGlobalModel(event.target.value);
   };
 
+  const handleProviderChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setSelectedProvider(event.target.value as LLMProviderId);
+  };
+
+  const handleScriptSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        try {
+          const steps: MockScriptStep[] = JSON.parse(e.target?.result as string);
+          if (!Array.isArray(steps) || !steps.every(step => step && typeof step.response === 'object')) {
+            throw new Error('Expected an array of steps with a "response" object.');
+          }
+          mockProvider.loadScript(steps);
+          setScriptStatus(`${steps.length} scripted step(s) loaded from ${file.name}.`);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : 'Unknown error.';
+          setScriptStatus(`Failed to load script: ${message}`);
+        }
+      };
+      reader.readAsText(file);
+    }
+    if (event.target) {
+      event.target.value = '';
+    }
+  };
+
   return (
     <div className="space-y-3">
       <h5 className="font-bold text-cyan-400">AI Model Configuration</h5>
-      <p className="text-gray-400 text-xs">Select the foundational AI model for all agents. Flash is faster and cost-effective; Pro offers more complex reasoning.</p>
+      <p className="text-gray-400 text-xs">Select the backend and foundational AI model for all agents. On Gemini, Flash is faster and cost-effective; Pro offers more complex reasoning.</p>
+
+      <div className="flex flex-col space-y-2">
+        <label htmlFor="provider-select" className="text-gray-300 text-sm">
+          Backend Provider:
+        </label>
+        <select
+          id="provider-select"
+          value={selectedProvider}
+          onChange={handleProviderChange}
+          disabled={isLoading}
+          className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-gray-300 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+        >
+          {listProviders().map(provider => (
+            <option key={provider.id} value={provider.id}>{provider.label}</option>
+          ))}
+        </select>
+        {selectedProvider === 'mock' && (
+          <div className="text-xs text-gray-500 space-y-1">
+            <input type="file" ref={scriptInputRef} onChange={handleScriptSelected} accept=".json" style={{ display: 'none' }} />
+            <p>Replays canned responses without network access. Load a JSON script to control exact replies and function calls.</p>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => scriptInputRef.current?.click()}
+                disabled={isLoading}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 text-white rounded"
+              >
+                Load Script
+              </button>
+              <button
+                onClick={() => { mockProvider.reset(); setScriptStatus('Script rewound to the first step.'); }}
+                disabled={isLoading}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 text-white rounded"
+              >
+                Rewind
+              </button>
+            </div>
+            <p className="text-gray-400">{scriptStatus}</p>
+          </div>
+        )}
+        {selectedProvider === 'openai' && (
+          <div className="text-xs text-gray-500 space-y-2">
+            <p>Any server exposing the OpenAI Chat Completions API, such as OpenAI, Ollama, llama.cpp, vLLM or LM Studio. Image generation and Google Search grounding are unavailable.</p>
+            <select
+              value={OPENAI_COMPATIBLE_PRESETS.find(p => p.baseUrl === openAISettings.baseUrl)?.baseUrl ?? ''}
+              onChange={(e) => e.target.value && handleOpenAISettingChange({ baseUrl: e.target.value })}
+              disabled={isLoading}
+              className="w-full p-1 bg-gray-900 border border-gray-700 rounded-md text-gray-300 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+            >
+              <option value="">Custom endpoint</option>
+              {OPENAI_COMPATIBLE_PRESETS.map(preset => (
+                <option key={preset.baseUrl} value={preset.baseUrl}>{preset.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={openAISettings.baseUrl}
+              onChange={(e) => handleOpenAISettingChange({ baseUrl: e.target.value })}
+              placeholder="Base URL, e.g. http://localhost:11434/v1"
+              disabled={isLoading}
+              className="w-full p-1 bg-gray-900 border border-gray-700 rounded-md text-gray-300 font-mono focus:outline-none focus:ring-1 focus:ring-cyan-500"
+            />
+            <input
+              type="password"
+              value={openAISettings.apiKey}
+              onChange={(e) => handleOpenAISettingChange({ apiKey: e.target.value })}
+              placeholder="API key (optional for local servers)"
+              disabled={isLoading}
+              className="w-full p-1 bg-gray-900 border border-gray-700 rounded-md text-gray-300 font-mono focus:outline-none focus:ring-1 focus:ring-cyan-500"
+            />
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={modelsInput}
+                onChange={(e) => setModelsInput(e.target.value)}
+                onBlur={handleModelsInputBlur}
+                placeholder="Models, comma-separated (first is the default)"
+                disabled={isLoading}
+                className="flex-grow p-1 bg-gray-900 border border-gray-700 rounded-md text-gray-300 font-mono focus:outline-none focus:ring-1 focus:ring-cyan-500"
+              />
+              <button
+                onClick={handleFetchModels}
+                disabled={isLoading}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 text-white rounded"
+              >
+                Fetch Models
+              </button>
+            </div>
+            {fetchStatus && <p className="text-gray-400">{fetchStatus}</p>}
+            <input
+              type="text"
+              value={openAISettings.embeddingModel}
+              onChange={(e) => handleOpenAISettingChange({ embeddingModel: e.target.value.trim() })}
+              placeholder="Embedding model for memory (optional), e.g. nomic-embed-text"
+              disabled={isLoading}
+              className="w-full p-1 bg-gray-900 border border-gray-700 rounded-md text-gray-300 font-mono focus:outline-none focus:ring-1 focus:ring-cyan-500"
+            />
+          </div>
+        )}
+      </div>
 
       <div className="flex flex-col space-y-2">
         <label htmlFor="model-select" className="text-gray-300 text-sm">
@@ -31,9 +207,10 @@ export const ModelSelectionPanel: React.FC<ModelSelectionPanelProps> = ({
           disabled={isLoading}
           className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-gray-300 focus:outline-none focus:ring-1 focus:ring-cyan-500"
         >
-          <option value="gemini-2.5-flash">Gemini 2.5 Flash (Balanced)</option>
-          <option value="gemini-flash-latest">Gemini Flash (Latest)</option>
-          <option value="gemini-2.5-pro">Gemini 2.5 Pro (Advanced Reasoning)</option>
+          {availableModels.length === 0 && <option value={selectedGlobalModel}>No models configured</option>}
+          {availableModels.map(model => (
+            <option key={model.id} value={model.id}>{model.label}</option>
+          ))}
         </select>
         <p className="text-xs text-gray-500 mt-1">
           Current Model: <span className="font-mono text-cyan-300">{selectedGlobalModel}</span>
@@ -41,4 +218,4 @@ export const ModelSelectionPanel: React.FC<ModelSelectionPanelProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,16 +1,55 @@
 
-import React from 'react';
-import { MindMapNode } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { MindMapData, MindMapEdit, MindMapLinkType, MindMapNode, MindMapNodeFields, VectorStore } from '../types';
+import { MIND_MAP_LINK_TYPES } from '../constants';
+import { endpointId, getLinkKey } from '../utils/mindMap';
+import { getParentId, getSubtreeIds } from '../utils/mindMapEditing';
+import { MindMapNodeForm, NodeSelect, formatLabel, inputClassName } from './MindMapNodeForm';
 import { CloseIcon } from './icons/CloseIcon';
 import { FileIcon } from './icons/FileIcon';
 
 interface NodeDetailPanelProps {
   node: MindMapNode | null;
+  mindMap: MindMapData;
+  onEdit: (edit: MindMapEdit) => void;
+  onSelectNode: (nodeId: string) => void;
   onClose: () => void;
   onOpenFile: (filePath: string) => void;
+  vectorStore: VectorStore;
+  isLoading: boolean; // Edits wait until the agent's turn is over
 }
 
-export const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, onClose, onOpenFile }) => {
+type PanelMode = 'view' | 'edit' | 'add-child';
+
+export const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, mindMap, onEdit, onSelectNode, onClose, onOpenFile, vectorStore, isLoading }) => {
+  const [mode, setMode] = useState<PanelMode>('view');
+  const [linkTarget, setLinkTarget] = useState<string | null>(null);
+  const [linkType, setLinkType] = useState<MindMapLinkType>('RELATED');
+  const [linkLabel, setLinkLabel] = useState('');
+
+  // Another node starts out in view mode.
+  useEffect(() => {
+    setMode('view');
+    setLinkTarget(null);
+    setLinkLabel('');
+  }, [node?.id]);
+
+  // Consolidated knowledge first, then the most recent raw memories.
+  const linkedMemories = useMemo(() => {
+    if (!node) return [];
+    return vectorStore
+      .filter(m => m.linkedNodeId === node.id)
+      .sort((a, b) => Number(!!b.consolidatedFrom) - Number(!!a.consolidatedFrom) || b.timestamp.localeCompare(a.timestamp));
+  }, [node, vectorStore]);
+
+  const nodeLinks = useMemo(() => {
+    if (!node) return [];
+    return mindMap.links.filter(link => endpointId(link.source) === node.id || endpointId(link.target) === node.id);
+  }, [node, mindMap]);
+  // A node can't move under itself or anything below it.
+  const subtreeIds = useMemo(() => (node ? getSubtreeIds(mindMap, node.id) : new Set<string>()), [node, mindMap]);
+  const selfOnly = useMemo(() => new Set(node ? [node.id] : []), [node]);
+
   if (!node) {
     return null;
   }
@@ -41,6 +80,31 @@ export const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, onClose,
     }
   }
 
+  const parentId = getParentId(mindMap, node.id);
+  const nameOf = (id: string) => mindMap.nodes.find(n => n.id === id)?.name ?? id;
+
+  const handleSave = (fields: MindMapNodeFields) => {
+    const changes: Partial<MindMapNodeFields> = {};
+    (Object.keys(fields) as (keyof MindMapNodeFields)[]).forEach(key => {
+      if (fields[key] !== node[key]) (changes as Record<string, unknown>)[key] = fields[key];
+    });
+    if (Object.keys(changes).length > 0) onEdit({ type: 'UPDATE_NODES', nodeIds: [node.id], changes });
+    setMode('view');
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete "${node.name}" and its ${nodeLinks.length} ${nodeLinks.length === 1 ? 'link' : 'links'}? Its children move up to its parent.`)) {
+      onEdit({ type: 'DELETE_NODES', nodeIds: [node.id] });
+    }
+  };
+
+  const handleAddLink = () => {
+    if (!linkTarget) return;
+    onEdit({ type: 'CREATE_LINKS', links: [{ source: node.id, target: linkTarget, type: linkType, label: linkLabel }] });
+    setLinkTarget(null);
+    setLinkLabel('');
+  };
+
   return (
     <div className="absolute top-0 right-0 h-full w-full md:w-[350px] bg-gray-900/80 backdrop-blur-sm shadow-2xl border-l-2 border-cyan-500/30 flex flex-col transition-transform transform translate-x-0 z-20">
       <header className="flex-shrink-0 p-3 flex justify-between items-center border-b border-cyan-500/20">
@@ -54,31 +118,121 @@ export const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, onClose,
 
       <div className="flex-grow p-4 overflow-y-auto custom-scrollbar text-sm">
         <div className="space-y-4">
-          <div>
-            <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Name</h4>
-            <p className="font-bold text-lg text-cyan-300">{node.name}</p>
+          <div className="flex gap-2 text-xs">
+            <button onClick={() => setMode(mode === 'edit' ? 'view' : 'edit')} className={`px-2 py-1 rounded ${mode === 'edit' ? 'bg-cyan-700 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>
+              Edit
+            </button>
+            <button onClick={() => setMode(mode === 'add-child' ? 'view' : 'add-child')} className={`px-2 py-1 rounded ${mode === 'add-child' ? 'bg-cyan-700 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>
+              Add child
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={node.type === 'CORE_PERSONA' || isLoading}
+              className="ml-auto px-2 py-1 rounded bg-red-900/60 text-red-200 hover:bg-red-800 disabled:bg-gray-800 disabled:text-gray-500"
+              title={node.type === 'CORE_PERSONA' ? "The core persona can't be deleted" : 'Delete this node and its links'}
+            >
+              Delete
+            </button>
           </div>
-          <div className="flex items-center space-x-2">
-            <div>
-              <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Type</h4>
-              <span className={`px-2 py-0.5 rounded-full text-xs font-mono ${getTypePillColor(node.type)}`}>
-                {node.type}
-              </span>
+          {isLoading && <p className="text-xs text-gray-500">Editing is paused while the agent is working.</p>}
+
+          {mode === 'add-child' && (
+            <div className="bg-gray-800/50 p-2 rounded-md">
+              <h4 className="font-semibold text-gray-400 text-xs uppercase mb-2">New child of {node.name}</h4>
+              <MindMapNodeForm
+                submitLabel="Create"
+                onSubmit={(fields) => onEdit({ type: 'CREATE_NODE', fields, parentId: node.id })}
+                onCancel={() => setMode('view')}
+                disabled={isLoading}
+              />
             </div>
-             {node.type === 'TASK' && node.status && (
+          )}
+
+          {mode === 'edit' ? (
+            <MindMapNodeForm key={node.id} initial={node} submitLabel="Save" onSubmit={handleSave} onCancel={() => setMode('view')} disabled={isLoading} />
+          ) : (
+            <>
+              <div>
+                <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Name</h4>
+                <p className="font-bold text-lg text-cyan-300">{node.name}</p>
+              </div>
+              <div className="flex items-center space-x-2">
                 <div>
-                    <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Status</h4>
-                    <span className={`px-2 py-0.5 rounded-full text-xs font-mono ${getStatusPillColor(node.status)}`}>
-                        {node.status}
-                    </span>
+                  <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Type</h4>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-mono ${getTypePillColor(node.type)}`}>
+                    {node.type}
+                  </span>
                 </div>
-            )}
+                 {node.type === 'TASK' && node.status && (
+                    <div>
+                        <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Status</h4>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-mono ${getStatusPillColor(node.status)}`}>
+                            {node.status}
+                        </span>
+                    </div>
+                )}
+              </div>
+              <div>
+                <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Content</h4>
+                <p className="text-gray-300 whitespace-pre-wrap bg-gray-800/50 p-2 rounded-md">
+                  {node.content}
+                </p>
+              </div>
+            </>
+          )}
+
+          <div>
+            <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Parent</h4>
+            <NodeSelect
+              nodes={mindMap.nodes}
+              value={parentId}
+              onChange={(id) => onEdit({ type: 'REPARENT_NODES', nodeIds: [node.id], parentId: id })}
+              placeholder="(none — top level)"
+              excludeIds={subtreeIds}
+              disabled={isLoading}
+            />
           </div>
+
           <div>
-            <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Content</h4>
-            <p className="text-gray-300 whitespace-pre-wrap bg-gray-800/50 p-2 rounded-md">
-              {node.content}
-            </p>
+            <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Links ({nodeLinks.length})</h4>
+            <ul className="space-y-1">
+              {nodeLinks.map(link => {
+                const isOutgoing = endpointId(link.source) === node.id;
+                const otherId = isOutgoing ? endpointId(link.target) : endpointId(link.source);
+                const key = getLinkKey(link);
+                return (
+                  <li key={key} className="flex items-center gap-1 text-xs bg-gray-800/50 p-1 rounded-md">
+                    <span className="text-gray-500 w-4 text-center" title={isOutgoing ? 'From this node' : 'To this node'}>{isOutgoing ? '→' : '←'}</span>
+                    <button onClick={() => onSelectNode(otherId)} className="flex-grow min-w-0 text-left truncate text-cyan-400 hover:text-cyan-300" title={link.label ?? nameOf(otherId)}>
+                      {nameOf(otherId)}
+                    </button>
+                    <select
+                      value={link.type}
+                      onChange={(e) => onEdit({ type: 'UPDATE_LINK', linkKey: key, changes: { type: e.target.value as MindMapLinkType } })}
+                      disabled={isLoading}
+                      className="p-0.5 bg-gray-900 border border-gray-700 rounded text-gray-300 text-xs"
+                    >
+                      {MIND_MAP_LINK_TYPES.map(type => <option key={type} value={type}>{formatLabel(type)}</option>)}
+                    </select>
+                    <button onClick={() => onEdit({ type: 'DELETE_LINKS', linkKeys: [key] })} disabled={isLoading} className="px-1 text-gray-500 hover:text-red-400 disabled:hover:text-gray-500" title="Remove this link">
+                      ×
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="mt-2 space-y-1">
+              <NodeSelect nodes={mindMap.nodes} value={linkTarget} onChange={setLinkTarget} placeholder="Link to…" excludeIds={selfOnly} disabled={isLoading} />
+              {linkTarget && (
+                <div className="flex gap-1">
+                  <select value={linkType} onChange={(e) => setLinkType(e.target.value as MindMapLinkType)} className={`${inputClassName} w-auto`}>
+                    {MIND_MAP_LINK_TYPES.map(type => <option key={type} value={type}>{formatLabel(type)}</option>)}
+                  </select>
+                  <input type="text" value={linkLabel} onChange={(e) => setLinkLabel(e.target.value)} placeholder="Label (optional)" className={inputClassName} />
+                  <button onClick={handleAddLink} disabled={isLoading} className="px-2 rounded bg-cyan-700 text-white text-xs hover:bg-cyan-600 disabled:bg-gray-800 disabled:text-gray-500">Add</button>
+                </div>
+              )}
+            </div>
           </div>
           
           {node.linkedFile && (
@@ -91,6 +245,25 @@ export const NodeDetailPanel: React.FC<NodeDetailPanelProps> = ({ node, onClose,
             </div>
           )}
 
+          {linkedMemories.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Linked Memories ({linkedMemories.length})</h4>
+              <div className="space-y-2">
+                {linkedMemories.map(memory => (
+                  <div key={memory.id} className="bg-gray-800/50 p-2 rounded-md">
+                    <p className="text-xs text-gray-500 font-mono mb-1">
+                      {memory.consolidatedFrom
+                        ? <span className="text-purple-300">consolidated from {memory.consolidatedFrom.length}</span>
+                        : memory.source}
+                      {' · '}{new Date(memory.timestamp).toLocaleString()}
+                    </p>
+                    <p className="text-gray-300 text-xs whitespace-pre-wrap line-clamp-4">{memory.text}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
              <h4 className="font-semibold text-gray-400 text-xs uppercase mb-1">Metadata</h4>
              <div className="text-xs text-gray-500 space-y-1 font-mono bg-gray-800/50 p-2 rounded-md">
@@ -1,79 +1,323 @@
-
-import React, { useState, useEffect, useMemo } from 'react';
-import { VirtualFileSystem, VFSChange, Commit, VFSNode } from '../types';
+import React, { useState, useMemo, useRef } from 'react';
+import { VirtualFileSystem, VFSChange, Repository, ObjectId, MindMapData } from '../types';
 import { FileIcon } from './icons/FileIcon';
 import { SourceControlIcon } from './icons/SourceControlIcon';
+import { ChevronIcon } from './icons/ChevronIcon';
+import { DiffViewer, HunkAction } from './DiffViewer';
+import { MindMapDiffView } from './MindMapDiffView';
+import {
+  diffVFS, getCommit, getCommitChanges, getCommitLog, getCommitMindMapChanges, getHeadCommitId, getHeadVFS, getMindMapChanges, getStagedChanges, getUnstagedChanges,
+  isAncestor, shortId, DEFAULT_BRANCH,
+} from '../services/versionControlService';
+import { isMindMapDiffEmpty, summarizeMindMapDiff } from '../utils/mindMap';
 
 interface SourceControlPanelProps {
   vfs: VirtualFileSystem;
-  committedVFS: VirtualFileSystem;
-  commitLog: Commit[];
+  repository: Repository;
   onCommit: (message: string) => void;
+  onCheckout: (revision: string, discardChanges: boolean) => void;
+  onRevertCommit: (revision: string) => void;
+  onRestoreFile: (path: string, revision: string) => void;
+  mindMap: MindMapData;
+  onRestoreMindMap: (revision: string) => void;
+  onStage: (paths: string[]) => void;
+  onStageFileContent: (path: string, content: string) => void;
+  onUnstage: (paths: string[]) => void;
+  onDiscardChanges: (path: string) => void;
+  onCreateBranch: (name: string) => void;
+  onDeleteBranch: (name: string, force: boolean) => void;
+  onMerge: (revision: string) => void;
+  onAbortMerge: () => void;
+  onOpenFile: (path: string) => void;
+  onExportFiles: (asGitRepository: boolean) => void;
+  onImportZip: (file: File) => void;
+  onImportFolder: (files: FileList) => void;
   isLoading: boolean;
 }
 
-const diffVFS = (
-  current: VirtualFileSystem,
-  committed: VirtualFileSystem,
-  pathPrefix: string = ''
-): VFSChange[] => {
-  let changes: VFSChange[] = [];
-  const allKeys = new Set([...Object.keys(current), ...Object.keys(committed)]);
-
-  for (const key of allKeys) {
-    const currentPath = pathPrefix ? `${pathPrefix}/${key}` : key;
-    const currentNode = current[key];
-    const committedNode = committed[key];
-
-    if (currentNode && !committedNode) {
-      if (currentNode.type === 'file') {
-        changes.push({ path: currentPath, status: 'new' });
-      } else {
-        changes.push(...diffVFS(currentNode.children, {}, currentPath));
-      }
-    } else if (!currentNode && committedNode) {
-        // Deletion not implemented in UI, but logic is here
-        // changes.push({ path: currentPath, status: 'deleted' });
-    } else if (currentNode && committedNode) {
-      if (currentNode.type === 'file' && committedNode.type === 'file') {
-        if (currentNode.content !== committedNode.content) {
-          changes.push({ path: currentPath, status: 'modified' });
-        }
-      } else if (currentNode.type === 'folder' && committedNode.type === 'folder') {
-        changes.push(...diffVFS(currentNode.children, committedNode.children, currentPath));
-      } else {
-        // Type changed, treat as new/deleted for simplicity
-        changes.push({ path: currentPath, status: 'modified' });
-      }
-    }
+const getStatusColor = (status: VFSChange['status']) => {
+  switch(status) {
+      case 'new': return 'text-green-400';
+      case 'modified': return 'text-yellow-400';
+      case 'deleted': return 'text-red-400';
+      case 'typechange': return 'text-purple-400';
   }
-  return changes;
 };
 
+// What the diff view shows: staged or unstaged changes, or one commit, optionally narrowed to a single file.
+// With `mindMap`, it shows how the mind map changed instead: uncommitted ('unstaged') or in that commit.
+interface DiffSelection {
+  source: 'staged' | 'unstaged' | ObjectId;
+  path?: string;
+  mindMap?: boolean;
+}
+
+interface ChangeAction {
+  label: string;
+  title: string;
+  onClick: () => void;
+}
+
+const ChangeRow: React.FC<{ change: VFSChange; onSelect: () => void; actions: ChangeAction[]; disabled: boolean }> = ({ change, onSelect, actions, disabled }) => (
+  <li className="flex items-center p-1 bg-gray-900/50 rounded group">
+      <FileIcon className="w-4 h-4 mr-2 flex-shrink-0"/>
+      <button
+          onClick={onSelect}
+          className={`flex-grow truncate text-left hover:text-cyan-300 ${change.status === 'deleted' ? 'line-through text-gray-500' : ''}`}
+          title={`Show the diff of ${change.path}`}
+      >
+          {change.path}
+      </button>
+      {actions.map(action => (
+        <button
+            key={action.label}
+            onClick={action.onClick}
+            disabled={disabled}
+            title={action.title}
+            className="mr-2 px-1.5 text-xs text-gray-400 hover:text-cyan-300 opacity-0 group-hover:opacity-100 disabled:opacity-0 transition-opacity"
+        >
+            {action.label}
+        </button>
+      ))}
+      <span className={`font-mono text-xs font-bold ${getStatusColor(change.status)}`}>{change.status.charAt(0).toUpperCase()}</span>
+  </li>
+);
+
 export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
   vfs,
-  committedVFS,
-  commitLog,
+  repository,
   onCommit,
+  onCheckout,
+  onRevertCommit,
+  onRestoreFile,
+  mindMap,
+  onRestoreMindMap,
+  onStage,
+  onStageFileContent,
+  onUnstage,
+  onDiscardChanges,
+  onCreateBranch,
+  onDeleteBranch,
+  onMerge,
+  onAbortMerge,
+  onOpenFile,
+  onExportFiles,
+  onImportZip,
+  onImportFolder,
   isLoading,
 }) => {
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const [commitMessage, setCommitMessage] = useState('');
-  const changes = useMemo(() => diffVFS(vfs, committedVFS), [vfs, committedVFS]);
+  const [expandedCommitId, setExpandedCommitId] = useState<ObjectId | null>(null);
+  const [diffSelection, setDiffSelection] = useState<DiffSelection | null>(null);
+  // Everything that differs from HEAD, which is what a commit with nothing staged records.
+  const changes = useMemo(() => diffVFS(getHeadVFS(repository), vfs), [repository, vfs]);
+  const stagedChanges = useMemo(() => getStagedChanges(repository), [repository]);
+  const unstagedChanges = useMemo(() => getUnstagedChanges(repository, vfs), [repository, vfs]);
+  const mindMapChanges = useMemo(() => getMindMapChanges(repository, mindMap), [repository, mindMap]);
+  const hasMindMapChanges = !isMindMapDiffEmpty(mindMapChanges);
+  const isDirty = changes.length > 0 || stagedChanges.length > 0;
+  const commitCount = stagedChanges.length > 0 ? stagedChanges.length : changes.length;
+  const { merge } = repository;
+  // A merge commit completes the merge even when it brings no file changes; every commit records the mind map.
+  const canCommit = !!merge || commitCount > 0 || hasMindMapChanges;
+  const currentBranch = repository.head.type === 'branch' ? repository.head.name : null;
+  const branchNames = useMemo(() => Object.keys(repository.branches).sort(), [repository.branches]);
+  const headId = getHeadCommitId(repository);
+  const commitLog = useMemo(() => getCommitLog(repository), [repository]);
+  const branchTip = repository.branches[DEFAULT_BRANCH];
+  // Commits on the branch that a detached HEAD no longer reaches, so they can still be checked out.
+  const laterCommits = useMemo(() => {
+    if (repository.head.type !== 'detached' || !branchTip) return [];
+    const reachable = new Set(commitLog.map(commit => commit.id));
+    return getCommitLog(repository, branchTip).filter(commit => !reachable.has(commit.id));
+  }, [repository, commitLog, branchTip]);
+  const expandedChanges = useMemo(
+    () => (expandedCommitId && repository.objects[expandedCommitId] ? getCommitChanges(repository, expandedCommitId) : []),
+    [repository, expandedCommitId]
+  );
+  const expandedMindMapChanges = useMemo(
+    () => (expandedCommitId && repository.objects[expandedCommitId] ? getCommitMindMapChanges(repository, expandedCommitId) : null),
+    [repository, expandedCommitId]
+  );
+  const diffMindMapChanges = useMemo(() => {
+    if (!diffSelection?.mindMap) return null;
+    const { source } = diffSelection;
+    if (source === 'staged' || source === 'unstaged') return mindMapChanges;
+    return repository.objects[source] ? getCommitMindMapChanges(repository, source) : null;
+  }, [diffSelection, mindMapChanges, repository]);
+  // Uncommitted diffs follow the live file system, so they stay current while the agent works.
+  const diffChanges = useMemo(() => {
+    if (!diffSelection) return [];
+    const { source, path } = diffSelection;
+    const all = source === 'staged' ? stagedChanges
+      : source === 'unstaged' ? unstagedChanges
+      : repository.objects[source] ? getCommitChanges(repository, source) : [];
+    return path ? all.filter(change => change.path === path) : all;
+  }, [diffSelection, stagedChanges, unstagedChanges, repository]);
+
+  const getDiffTitle = ({ source, path, mindMap }: DiffSelection) => {
+    const scope = source === 'staged' ? 'Staged changes'
+      : source === 'unstaged' ? (mindMap ? 'Uncommitted changes' : 'Unstaged changes')
+      : repository.objects[source] ? `${shortId(source)} ${getCommit(repository, source).message.split('\n')[0]}` : shortId(source);
+    return mindMap ? `Mind map — ${scope}` : path ? `${path} — ${scope}` : scope;
+  };
+
+  const getHunkAction = (source: DiffSelection['source']): HunkAction | undefined => {
+    if (source === 'staged') {
+      return { label: 'Unstage hunk', title: 'Remove this hunk from the next commit', direction: 'revert', onApply: onStageFileContent, disabled: isLoading };
+    }
+    if (source === 'unstaged') {
+      return { label: 'Stage hunk', title: 'Add just this hunk to the next commit', direction: 'apply', onApply: onStageFileContent, disabled: isLoading };
+    }
+    return undefined;
+  };
 
   const handleCommit = () => {
-    if (commitMessage.trim() && changes.length > 0 && !isLoading) {
-      onCommit(commitMessage.trim());
+    const message = commitMessage.trim() || merge?.message;
+    if (message && canCommit && !isLoading) {
+      onCommit(message);
       setCommitMessage('');
     }
   };
 
-  const getStatusColor = (status: VFSChange['status']) => {
-    switch(status) {
-        case 'new': return 'text-green-400';
-        case 'modified': return 'text-yellow-400';
-        case 'deleted': return 'text-red-400';
+  const handleCreateBranch = () => {
+    const name = prompt('Name of the new branch (it starts at HEAD and is checked out, keeping your changes):');
+    if (name?.trim()) onCreateBranch(name.trim());
+  };
+
+  const handleDeleteBranch = (name: string) => {
+    const isMerged = !!headId && isAncestor(repository, repository.branches[name], headId);
+    if (isMerged ? confirm(`Delete branch ${name}?`) : confirm(`Branch ${name} has commits that are not merged into HEAD. Delete it anyway?`)) {
+      onDeleteBranch(name, !isMerged);
     }
-  }
+  };
+
+  const handleZipSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImportZip(file);
+    event.target.value = '';
+  };
+
+  const handleFolderSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.files?.length) onImportFolder(event.target.files);
+    event.target.value = '';
+  };
+
+  const handleAbortMerge = () => {
+    if (confirm('Abort the merge? Its changes, and any conflict resolutions so far, will be discarded.')) onAbortMerge();
+  };
+
+  const handleCheckout = (revision: string, label: string) => {
+    const count = Math.max(changes.length, stagedChanges.length);
+    if (isDirty && !confirm(`Checking out ${label} will discard ${count} uncommitted ${count === 1 ? 'change' : 'changes'}. Continue?`)) {
+      return;
+    }
+    onCheckout(revision, isDirty);
+  };
+
+  const handleRestoreMindMap = (commitId: ObjectId) => {
+    const warning = hasMindMapChanges
+      ? `Replace the mind map with its version in ${shortId(commitId)}? Its uncommitted changes (${summarizeMindMapDiff(mindMapChanges)}) will be lost.`
+      : `Replace the mind map with its version in ${shortId(commitId)}?`;
+    if (confirm(warning)) onRestoreMindMap(commitId);
+  };
+
+  const handleDiscardChange = (change: VFSChange) => {
+    const warning = change.status === 'typechange' && change.newContent === undefined
+      ? `Discard your unstaged changes to ${change.path}? The folder now at that path will be replaced by the staged file.`
+      : `Discard your unstaged changes to ${change.path}?`;
+    if (confirm(warning)) onDiscardChanges(change.path);
+  };
+
+  const renderCommit = (commit: typeof commitLog[number]) => {
+    const isExpanded = expandedCommitId === commit.id;
+    const [subject, ...body] = commit.message.split('\n');
+    return (
+      <li key={commit.id} className={`rounded ${isExpanded ? 'bg-gray-900/60 p-2' : ''}`}>
+          <button onClick={() => setExpandedCommitId(isExpanded ? null : commit.id)} className="w-full text-left flex items-start">
+              <ChevronIcon className={`w-4 h-4 mr-1 mt-0.5 flex-shrink-0 text-gray-500 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+              <div className="min-w-0 flex-grow">
+                  <p className="font-semibold text-gray-200 truncate">
+                      {commit.id === headId && <span className="mr-2 px-1.5 py-0.5 text-xs rounded bg-cyan-800 text-cyan-200">HEAD</span>}
+                      {subject}
+                  </p>
+                  <p className="text-xs text-gray-500 font-mono" title={new Date(commit.timestamp).toLocaleString()}>
+                      {shortId(commit.id)} · {commit.author} · {new Date(commit.timestamp).toLocaleString()}
+                  </p>
+              </div>
+          </button>
+          {isExpanded && (
+            <div className="mt-2 ml-5 space-y-2">
+                {body.join('\n').trim() && <p className="text-xs text-gray-400 whitespace-pre-wrap">{body.join('\n').trim()}</p>}
+                <div className="flex space-x-2">
+                    <button
+                        onClick={() => handleCheckout(commit.id, shortId(commit.id))}
+                        disabled={isLoading || commit.id === headId}
+                        className="px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Replace the file system with this commit's files"
+                    >
+                        Checkout
+                    </button>
+                    <button
+                        onClick={() => onRevertCommit(commit.id)}
+                        disabled={isLoading || isDirty}
+                        className="px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                        title={isDirty ? 'Commit or discard your changes before reverting' : 'Create a new commit that undoes this one'}
+                    >
+                        Revert
+                    </button>
+                    <button
+                        onClick={() => setDiffSelection({ source: commit.id })}
+                        className="px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded hover:bg-gray-600"
+                        title="Show every line this commit changed"
+                    >
+                        View diff
+                    </button>
+                </div>
+                {expandedMindMapChanges && (
+                    <div className="flex items-center p-1 bg-gray-900/50 rounded text-xs">
+                        <span className="flex-grow truncate text-gray-300">
+                            Mind map: <span className="font-mono text-gray-400">{summarizeMindMapDiff(expandedMindMapChanges)}</span>
+                        </span>
+                        {!isMindMapDiffEmpty(expandedMindMapChanges) && (
+                            <button onClick={() => setDiffSelection({ source: commit.id, mindMap: true })} className="mr-2 px-1.5 text-gray-400 hover:text-cyan-300">
+                                View
+                            </button>
+                        )}
+                        <button
+                            onClick={() => handleRestoreMindMap(commit.id)}
+                            disabled={isLoading}
+                            className="px-1.5 text-gray-400 hover:text-cyan-300 disabled:opacity-50"
+                            title="Replace the current mind map with the one recorded in this commit"
+                        >
+                            Restore mind map
+                        </button>
+                    </div>
+                )}
+                {expandedChanges.length === 0 ? (
+                    <p className="text-xs text-gray-500 italic">No file changes.</p>
+                ) : (
+                    <ul className="space-y-1">
+                        {expandedChanges.map(change => (
+                            <ChangeRow
+                                key={change.path}
+                                change={change}
+                                onSelect={() => setDiffSelection({ source: commit.id, path: change.path })}
+                                actions={[change.newContent === undefined
+                                    ? { label: 'Restore', title: `Bring back ${change.path} as it was before this commit`, onClick: () => onRestoreFile(change.path, `${commit.id}~1`) }
+                                    : { label: 'Restore this version', title: `Restore ${change.path} in the file system to this commit's version`, onClick: () => onRestoreFile(change.path, commit.id) }]}
+                                disabled={isLoading}
+                            />
+                        ))}
+                    </ul>
+                )}
+            </div>
+          )}
+      </li>
+    );
+  };
 
   return (
     <div className="bg-gray-800/50 h-full flex flex-col p-4 text-sm">
@@ -82,41 +326,179 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
             <SourceControlIcon className="w-5 h-5 mr-2"/>
             Source Control
         </h3>
+        <span className="ml-auto mr-4 text-xs space-x-3">
+            <button onClick={() => zipInputRef.current?.click()} disabled={isLoading} className="text-gray-400 hover:text-cyan-300 disabled:opacity-50" title="Add the files of a .zip archive to the file system">
+                Import zip
+            </button>
+            <button onClick={() => folderInputRef.current?.click()} disabled={isLoading} className="text-gray-400 hover:text-cyan-300 disabled:opacity-50" title="Add a folder from your computer to the file system">
+                Import folder
+            </button>
+            <button onClick={() => onExportFiles(false)} className="text-gray-400 hover:text-cyan-300" title="Download the current files as a .zip archive">
+                Export zip
+            </button>
+            <button
+                onClick={() => onExportFiles(true)}
+                disabled={!headId}
+                className="text-gray-400 hover:text-cyan-300 disabled:opacity-50"
+                title="Download a git repository with the full commit history, branches and uncommitted changes"
+            >
+                Export git repo
+            </button>
+            <input type="file" ref={zipInputRef} onChange={handleZipSelected} accept=".zip,application/zip" className="hidden" />
+            <input type="file" ref={folderInputRef} onChange={handleFolderSelected} webkitdirectory="" multiple className="hidden" />
+        </span>
+        {repository.head.type === 'branch' ? (
+            <span className="text-xs text-gray-400 font-mono">On branch {repository.head.name}</span>
+        ) : (
+            <span className="text-xs text-yellow-400 font-mono flex items-center">
+                HEAD detached at {shortId(repository.head.commit)}
+                {branchTip && (
+                    <button
+                        onClick={() => handleCheckout(DEFAULT_BRANCH, DEFAULT_BRANCH)}
+                        disabled={isLoading}
+                        className="ml-2 px-2 py-0.5 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50"
+                    >
+                        Return to {DEFAULT_BRANCH}
+                    </button>
+                )}
+            </span>
+        )}
       </div>
-      
+
+      {diffSelection?.mindMap ? (
+        <div className="flex-grow overflow-hidden">
+            <MindMapDiffView
+                title={getDiffTitle(diffSelection)}
+                diff={diffMindMapChanges}
+                onClose={() => setDiffSelection(null)}
+            />
+        </div>
+      ) : diffSelection ? (
+        <div className="flex-grow overflow-hidden">
+            <DiffViewer
+                title={getDiffTitle(diffSelection)}
+                changes={diffChanges}
+                onClose={() => setDiffSelection(null)}
+                hunkAction={getHunkAction(diffSelection.source)}
+            />
+        </div>
+      ) : (
       <div className="flex-grow flex flex-col md:flex-row md:space-x-4 overflow-hidden">
         {/* Left Side: Changes & Commit */}
         <div className="w-full md:w-1/2 flex flex-col space-y-4">
+            {merge && (
+                <div className="p-2 rounded-md border border-yellow-500/40 bg-yellow-900/20 text-xs">
+                    <div className="flex justify-between items-center">
+                        <span className="font-semibold text-yellow-300">Merging {merge.label}</span>
+                        <button onClick={handleAbortMerge} disabled={isLoading} className="px-2 py-0.5 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 disabled:opacity-50">
+                            Abort merge
+                        </button>
+                    </div>
+                    {merge.conflicts.length === 0 ? (
+                        <p className="mt-1 text-gray-400">All conflicts are resolved. Commit to complete the merge.</p>
+                    ) : (
+                        <>
+                            <p className="mt-1 mb-2 text-gray-400">Resolve the conflict markers in the IDE, save, then mark each file resolved.</p>
+                            <ul className="space-y-1">
+                                {merge.conflicts.map(path => (
+                                    <li key={path} className="flex items-center p-1 bg-gray-900/50 rounded">
+                                        <span className="flex-grow truncate font-mono text-gray-300" title={path}>{path}</span>
+                                        <button onClick={() => onOpenFile(path)} className="mr-2 px-1.5 text-gray-400 hover:text-cyan-300">Open in IDE</button>
+                                        <button onClick={() => onStage([path])} disabled={isLoading} className="px-1.5 text-gray-400 hover:text-cyan-300 disabled:opacity-50">
+                                            Mark resolved
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </div>
+            )}
             <div>
                 <h4 className="font-semibold text-gray-300 mb-2">Commit Changes</h4>
                  <textarea
                     value={commitMessage}
                     onChange={(e) => setCommitMessage(e.target.value)}
-                    placeholder="Commit message..."
+                    placeholder={merge?.message ?? 'Commit message...'}
                     rows={3}
                     className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md focus:outline-none focus:ring-1 focus:ring-cyan-500 text-gray-300"
-                    disabled={isLoading || changes.length === 0}
+                    disabled={isLoading || !canCommit}
                 />
                 <button
                     onClick={handleCommit}
-                    disabled={isLoading || changes.length === 0 || !commitMessage.trim()}
+                    disabled={isLoading || !canCommit || (!commitMessage.trim() && !merge)}
                     className="w-full mt-2 p-2 bg-cyan-600 text-white font-bold rounded-md hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-all"
+                    title={merge ? 'Record the merge, once every conflict is resolved' : stagedChanges.length > 0 ? 'Commit only the staged changes' : 'Nothing is staged, so every change is committed'}
                 >
-                    Commit ({changes.length}) {changes.length === 1 ? 'File' : 'Files'}
+                    {merge ? 'Commit Merge'
+                      : commitCount === 0 && hasMindMapChanges ? 'Commit Mind Map'
+                      : `${stagedChanges.length > 0 ? 'Commit Staged' : 'Commit All'} (${commitCount}) ${commitCount === 1 ? 'File' : 'Files'}`}
                 </button>
             </div>
             <div className="flex-grow overflow-y-auto custom-scrollbar pr-2">
-                <h4 className="font-semibold text-gray-300 mb-2 sticky top-0 bg-gray-800/50 py-1">Changes ({changes.length})</h4>
-                {changes.length === 0 ? (
-                    <p className="text-gray-500 italic">No changes since last commit.</p>
+                {hasMindMapChanges && (
+                    <div className="mb-4">
+                        <h4 className="font-semibold text-gray-300 mb-2">Mind Map</h4>
+                        <button
+                            onClick={() => setDiffSelection({ source: 'unstaged', mindMap: true })}
+                            className="w-full flex items-center p-1 bg-gray-900/50 rounded text-left hover:text-cyan-300"
+                            title="Show how the mind map changed since the last commit. The next commit records it."
+                        >
+                            <span className="flex-grow truncate">Uncommitted graph changes</span>
+                            <span className="font-mono text-xs text-yellow-400">{summarizeMindMapDiff(mindMapChanges)}</span>
+                        </button>
+                    </div>
+                )}
+                {stagedChanges.length > 0 && (
+                    <div className="mb-4">
+                        <div className="flex justify-between items-center mb-2 sticky top-0 bg-gray-800/50 py-1">
+                            <h4 className="font-semibold text-gray-300">Staged Changes ({stagedChanges.length})</h4>
+                            <span className="space-x-3">
+                                <button onClick={() => setDiffSelection({ source: 'staged' })} className="text-xs text-gray-400 hover:text-cyan-300">Review</button>
+                                <button onClick={() => onUnstage(stagedChanges.map(change => change.path))} disabled={isLoading} className="text-xs text-gray-400 hover:text-cyan-300 disabled:opacity-50">
+                                    Unstage all
+                                </button>
+                            </span>
+                        </div>
+                        <ul className="space-y-1">
+                            {stagedChanges.map(change => (
+                                <ChangeRow
+                                    key={change.path}
+                                    change={change}
+                                    onSelect={() => setDiffSelection({ source: 'staged', path: change.path })}
+                                    actions={[{ label: 'Unstage', title: `Leave ${change.path} out of the next commit`, onClick: () => onUnstage([change.path]) }]}
+                                    disabled={isLoading}
+                                />
+                            ))}
+                        </ul>
+                    </div>
+                )}
+                <div className="flex justify-between items-center mb-2 sticky top-0 bg-gray-800/50 py-1">
+                    <h4 className="font-semibold text-gray-300">Changes ({unstagedChanges.length})</h4>
+                    {unstagedChanges.length > 0 && (
+                        <span className="space-x-3">
+                            <button onClick={() => setDiffSelection({ source: 'unstaged' })} className="text-xs text-gray-400 hover:text-cyan-300">Review</button>
+                            <button onClick={() => onStage(unstagedChanges.map(change => change.path))} disabled={isLoading} className="text-xs text-gray-400 hover:text-cyan-300 disabled:opacity-50">
+                                Stage all
+                            </button>
+                        </span>
+                    )}
+                </div>
+                {unstagedChanges.length === 0 ? (
+                    <p className="text-gray-500 italic">{stagedChanges.length > 0 ? 'No unstaged changes.' : 'No changes since last commit.'}</p>
                 ) : (
                     <ul className="space-y-1">
-                        {changes.map(change => (
-                            <li key={change.path} className="flex items-center p-1 bg-gray-900/50 rounded">
-                                <FileIcon className="w-4 h-4 mr-2 flex-shrink-0"/>
-                                <span className="flex-grow truncate" title={change.path}>{change.path}</span>
-                                <span className={`font-mono text-xs font-bold ${getStatusColor(change.status)}`}>{change.status.charAt(0).toUpperCase()}</span>
-                            </li>
+                        {unstagedChanges.map(change => (
+                            <ChangeRow
+                                key={change.path}
+                                change={change}
+                                onSelect={() => setDiffSelection({ source: 'unstaged', path: change.path })}
+                                actions={[
+                                    { label: 'Discard', title: `Return ${change.path} to its staged version`, onClick: () => handleDiscardChange(change) },
+                                    { label: 'Stage', title: `Include ${change.path} in the next commit`, onClick: () => onStage([change.path]) },
+                                ]}
+                                disabled={isLoading}
+                            />
                         ))}
                     </ul>
                 )}
@@ -124,23 +506,61 @@ export const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
         </div>
         {/* Right Side: History */}
         <div className="w-full md:w-1/2 flex flex-col mt-4 md:mt-0">
-             <h4 className="font-semibold text-gray-300 mb-2">History</h4>
              <div className="flex-grow overflow-y-auto custom-scrollbar pr-2 border-t md:border-t-0 md:border-l border-cyan-500/10 pt-4 md:pt-0 md:pl-4">
-                {commitLog.length === 0 ? (
-                     <p className="text-gray-500 italic">No commit history yet.</p>
-                ) : (
-                    <ul className="space-y-3">
-                        {commitLog.map(commit => (
-                            <li key={commit.id}>
-                                <p className="font-semibold text-gray-200 truncate">{commit.message}</p>
-                                <p className="text-xs text-gray-500 font-mono" title={new Date(commit.timestamp).toLocaleString()}>{new Date(commit.timestamp).toLocaleDateString()}</p>
+                <div className="mb-4">
+                    <div className="flex justify-between items-center mb-2">
+                        <h4 className="font-semibold text-gray-300">Branches ({branchNames.length})</h4>
+                        <button onClick={handleCreateBranch} disabled={isLoading || !headId} className="text-xs text-gray-400 hover:text-cyan-300 disabled:opacity-50">
+                            New branch
+                        </button>
+                    </div>
+                    <ul className="space-y-1">
+                        {branchNames.map(name => (
+                            <li key={name} className="flex items-center p-1 bg-gray-900/50 rounded group">
+                                <span className={`flex-grow truncate font-mono ${name === currentBranch ? 'text-cyan-300' : 'text-gray-300'}`} title={name}>
+                                    {name === currentBranch ? '● ' : ''}{name}
+                                </span>
+                                {name !== currentBranch && (
+                                    <span className="mr-2 text-xs space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                        <button onClick={() => handleCheckout(name, name)} disabled={isLoading} className="text-gray-400 hover:text-cyan-300 disabled:opacity-50">
+                                            Switch
+                                        </button>
+                                        <button
+                                            onClick={() => onMerge(name)}
+                                            disabled={isLoading || isDirty || !!merge}
+                                            className="text-gray-400 hover:text-cyan-300 disabled:opacity-50"
+                                            title={isDirty || merge ? 'Commit or discard your changes before merging' : `Merge ${name} into ${currentBranch ?? 'HEAD'}`}
+                                        >
+                                            Merge
+                                        </button>
+                                        {name !== DEFAULT_BRANCH && (
+                                            <button onClick={() => handleDeleteBranch(name)} disabled={isLoading} className="text-gray-400 hover:text-red-400 disabled:opacity-50">
+                                                Delete
+                                            </button>
+                                        )}
+                                    </span>
+                                )}
+                                <span className="text-xs text-gray-500 font-mono">{shortId(repository.branches[name])}</span>
                             </li>
                         ))}
                     </ul>
+                </div>
+                <h4 className="font-semibold text-gray-300 mb-2">History</h4>
+                {laterCommits.length > 0 && (
+                    <div className="mb-4">
+                        <p className="text-xs text-gray-500 uppercase tracking-wider mb-2">Later on {DEFAULT_BRANCH}</p>
+                        <ul className="space-y-3 opacity-75">{laterCommits.map(renderCommit)}</ul>
+                    </div>
+                )}
+                {commitLog.length === 0 ? (
+                     <p className="text-gray-500 italic">No commit history yet.</p>
+                ) : (
+                    <ul className="space-y-3">{commitLog.map(renderCommit)}</ul>
                 )}
              </div>
         </div>
       </div>
+      )}
     </div>
   );
 };
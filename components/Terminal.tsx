@@ -1,6 +1,8 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { TerminalLine } from '../types';
+import { TERMINAL_COMMANDS, AGENT_PROMPT_PREFIX } from '../tools/terminal';
+import { isIncompleteCommandLine } from '../tools/shell';
 
 interface TerminalProps {
     history: TerminalLine[];
@@ -8,21 +10,18 @@ interface TerminalProps {
     isLoading: boolean;
 }
 
-const availableCommands = ['ls', 'cat', 'write', 'mkdir', 'touch', 'python'];
-
 export const Terminal: React.FC<TerminalProps> = ({ history, onCommand, isLoading }) => {
     const [input, setInput] = useState('');
     const [commandHistory, setCommandHistory] = useState<string[]>([]);
     const [historyIndex, setHistoryIndex] = useState(-1);
     const endOfHistoryRef = useRef<HTMLDivElement>(null);
-    const inputRef = useRef<HTMLInputElement>(null);
+    const inputRef = useRef<HTMLTextAreaElement>(null);
 
     useEffect(() => {
         endOfHistoryRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [history]);
 
-    const handleFormSubmit = (e: React.FormEvent) => {
-        e.preventDefault();
+    const submitCommand = () => {
         const command = input.trim();
         if (command && !isLoading) {
             onCommand(command);
@@ -33,9 +32,23 @@ export const Terminal: React.FC<TerminalProps> = ({ history, onCommand, isLoadin
             setInput('');
         }
     };
+
+    const handleFormSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        submitCommand();
+    };
     
-    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-        if (e.key === 'ArrowUp') {
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        const isMultiline = input.includes('\n');
+        if (e.key === 'Enter') {
+            // Like an interactive shell, keep reading lines while a heredoc, quote or pipeline is unfinished.
+            const isAgentRequest = input.startsWith(AGENT_PROMPT_PREFIX);
+            if (e.shiftKey || (!isAgentRequest && isIncompleteCommandLine(input))) return;
+            e.preventDefault();
+            submitCommand();
+        } else if (isMultiline && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+            return; // Move the caret between lines instead of browsing history
+        } else if (e.key === 'ArrowUp') {
             e.preventDefault();
             const newIndex = Math.max(0, historyIndex - 1);
             if (commandHistory.length > 0) {
@@ -57,8 +70,9 @@ export const Terminal: React.FC<TerminalProps> = ({ history, onCommand, isLoadin
             const parts = currentInput.split(' ');
             const termToComplete = parts[parts.length - 1];
 
-            if (termToComplete) {
-                const potentialCompletions = availableCommands.filter(cmd => cmd.startsWith(termToComplete));
+            // Only the command name is completed; arguments are paths or free text.
+            if (termToComplete && parts.length === 1) {
+                const potentialCompletions = TERMINAL_COMMANDS.filter(cmd => cmd.startsWith(termToComplete));
                 if (potentialCompletions.length === 1) {
                     setInput(currentInput.replace(new RegExp(`${termToComplete}$`), potentialCompletions[0] + ' '));
                 }
@@ -83,16 +97,16 @@ export const Terminal: React.FC<TerminalProps> = ({ history, onCommand, isLoadin
                 {history.map(renderLine)}
                 <div ref={endOfHistoryRef} />
             </div>
-            <form onSubmit={handleFormSubmit} className="flex items-center mt-2">
+            <form onSubmit={handleFormSubmit} className="flex items-start mt-2">
                 <span className="text-cyan-400 mr-2">$</span>
-                <input
+                <textarea
                     ref={inputRef}
-                    type="text"
                     value={input}
+                    rows={Math.min(12, input.split('\n').length)}
                     onChange={(e) => setInput(e.target.value)}
                     onKeyDown={handleKeyDown}
-                    className="flex-grow bg-transparent text-gray-200 focus:outline-none"
-                    placeholder="Enter command..."
+                    className="flex-grow bg-transparent text-gray-200 focus:outline-none resize-none"
+                    placeholder={`Enter command, 'help' for a list, or '${AGENT_PROMPT_PREFIX} <request>' to ask the agent...`}
                     disabled={isLoading}
                     autoFocus
                 />
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { ToolApprovalMode } from '../types';
+import { APPROVAL_TOOL_NAMES, toolApprovalService } from '../services/toolApprovalService';
+import { auditLogService } from '../services/auditLogService';
+
+interface ToolApprovalPanelProps {
+  isLoading: boolean;
+}
+
+const MODE_LABELS: Record<ToolApprovalMode, string> = {
+  auto: 'Run automatically',
+  ask: 'Ask first',
+  deny: 'Never run',
+};
+
+export const ToolApprovalPanel: React.FC<ToolApprovalPanelProps> = ({ isLoading }) => {
+  const [overrides, setOverrides] = useState<Record<string, ToolApprovalMode>>(() => toolApprovalService.getOverrides());
+  const [timeoutSeconds, setTimeoutSeconds] = useState<number>(() => toolApprovalService.getTimeoutSeconds());
+
+  useEffect(() => {
+    const unsubscribe = toolApprovalService.subscribePolicy((nextOverrides, nextTimeout) => {
+      setOverrides(nextOverrides);
+      setTimeoutSeconds(nextTimeout);
+    });
+    return unsubscribe;
+  }, []);
+
+  const handleModeChange = (toolName: string, mode: ToolApprovalMode) => {
+    toolApprovalService.setMode(toolName, mode);
+    auditLogService.logEvent('USER_INTERACTION', { action: 'SET_TOOL_APPROVAL', details: { toolName, mode } });
+  };
+
+  const handleTimeoutChange = (value: number) => {
+    if (!(value > 0)) return;
+    toolApprovalService.setTimeoutSeconds(value);
+    auditLogService.logEvent('USER_INTERACTION', { action: 'SET_TOOL_APPROVAL_TIMEOUT', details: { seconds: value } });
+  };
+
+  const askCount = APPROVAL_TOOL_NAMES.filter(name => toolApprovalService.getMode(name) === 'ask').length;
+  const denyCount = APPROVAL_TOOL_NAMES.filter(name => toolApprovalService.getMode(name) === 'deny').length;
+  const selectClassName = "p-1 bg-gray-900 border border-gray-700 rounded-md text-gray-300 text-xs focus:outline-none focus:ring-1 focus:ring-cyan-500";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-bold text-cyan-400">Tool Approval</h5>
+        <button
+          onClick={() => toolApprovalService.resetAll()}
+          disabled={isLoading || (Object.keys(overrides).length === 0 && toolApprovalService.isDefaultTimeout())}
+          className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 text-white rounded"
+        >
+          Reset All
+        </button>
+      </div>
+      <p className="text-gray-400 text-xs">Choose which tool calls need your approval. Calls that ask first wait in a queue with a preview of what they would change.</p>
+
+      <div>
+        <label htmlFor="approval-timeout" className="text-gray-300 text-sm">Autonomous timeout (seconds):</label>
+        <input
+          id="approval-timeout"
+          type="number"
+          min="1"
+          value={timeoutSeconds}
+          onChange={(e) => handleTimeoutChange(parseInt(e.target.value, 10))}
+          disabled={isLoading}
+          className="w-full p-2 bg-gray-900 border border-gray-700 rounded-md text-gray-300 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">In autonomous mode, calls not approved in time are denied.</p>
+      </div>
+
+      <details>
+        <summary className="cursor-pointer text-xs text-gray-300">
+          Tool policies ({askCount} ask, {denyCount} denied)
+        </summary>
+        <div className="mt-2 space-y-1">
+          {APPROVAL_TOOL_NAMES.map(toolName => (
+            <div key={toolName} className="flex items-center justify-between gap-2 bg-gray-900/50 p-2 rounded text-xs">
+              <span className="text-gray-300 font-mono truncate" title={toolName}>{toolName}</span>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {toolApprovalService.isDefault(toolName) && <span className="text-gray-600">default</span>}
+                <select
+                  value={toolApprovalService.getMode(toolName)}
+                  onChange={(e) => handleModeChange(toolName, e.target.value as ToolApprovalMode)}
+                  disabled={isLoading}
+                  className={selectClassName}
+                >
+                  {(Object.keys(MODE_LABELS) as ToolApprovalMode[]).map(mode => (
+                    <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+};
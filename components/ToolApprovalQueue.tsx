@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { PendingToolApproval } from '../types';
+import { toolApprovalService } from '../services/toolApprovalService';
+
+// Tool calls waiting for approval. Floats over the workspace rather than blocking it,
+// so the mind map and files the preview refers to can still be inspected.
+export const ToolApprovalQueue: React.FC = () => {
+  const [pending, setPending] = useState<PendingToolApproval[]>(() => toolApprovalService.getPending());
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  useEffect(() => {
+    const unsubscribe = toolApprovalService.subscribeQueue(setPending);
+    return unsubscribe;
+  }, []);
+
+  const hasDeadline = pending.some(request => request.expiresAt);
+  useEffect(() => {
+    if (!hasDeadline) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasDeadline]);
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-full max-w-md max-h-[80vh] overflow-y-auto custom-scrollbar space-y-3">
+      {pending.map((request, index) => {
+        const secondsLeft = request.expiresAt ? Math.max(0, Math.ceil((new Date(request.expiresAt).getTime() - now) / 1000)) : null;
+        return (
+          <div key={request.id} className="bg-gray-800 rounded-lg shadow-2xl p-4 border border-yellow-500/40 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="font-bold font-orbitron text-yellow-400">Approve tool call?</h2>
+              <span className="text-xs text-gray-500">
+                {pending.length > 1 && `${index + 1} of ${pending.length}`}
+                {secondsLeft !== null && <span className="ml-2 text-yellow-300">auto-deny in {secondsLeft}s</span>}
+              </span>
+            </div>
+            <p className="font-mono text-cyan-300 text-sm">{request.toolName}</p>
+            <ul className="text-xs text-gray-300 space-y-1 list-disc list-inside">
+              {request.preview.map((line, i) => <li key={i} className="break-words">{line}</li>)}
+            </ul>
+            <details>
+              <summary className="cursor-pointer text-xs text-gray-400">Arguments</summary>
+              <pre className="mt-1 p-2 bg-gray-900 rounded text-xs text-gray-300 whitespace-pre-wrap break-words max-h-48 overflow-y-auto custom-scrollbar">
+                {JSON.stringify(request.args, null, 2)}
+              </pre>
+            </details>
+            <div className="flex gap-2">
+              <button
+                onClick={() => toolApprovalService.decide(request.id, true)}
+                className="flex-1 p-2 bg-cyan-600 text-white font-bold rounded-md hover:bg-cyan-500 transition-all"
+              >
+                Approve
+              </button>
+              <button
+                onClick={() => toolApprovalService.decide(request.id, false)}
+                className="flex-1 p-2 bg-red-700 text-white font-bold rounded-md hover:bg-red-600 transition-all"
+              >
+                Deny
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,9 +1,10 @@
 
-import React from 'react';
-import { MindMap } from './MindMap';
+import React, { useState } from 'react';
+import { MindMap, NodePinChange } from './MindMap';
 import { CognitiveIDE } from './CognitiveIDE';
 import { Terminal } from './Terminal';
-import { MindMapData, ChatMessage, VirtualFileSystem, TerminalLine, SystemLogEntry, Commit, ApiCallLog, Tab, MindMapNode, MissionTask } from '../types';
+import { MindMapData, ChatMessage, VirtualFileSystem, TerminalLine, SystemLogEntry, Repository, ApiCallLog, Tab, MindMapNode, MissionTask, VectorStore, UndoHistory, MindMapFilter, MindMapLayout, MindMapRenderer, MindMapEdit } from '../types';
+import { createMindMapFilter } from '../utils/mindMapFilter';
 import { BrainIcon } from './icons/BrainIcon';
 import { CodeIcon } from './icons/CodeIcon';
 import { TerminalIcon } from './icons/TerminalIcon';
@@ -20,20 +21,44 @@ import { MissionIcon } from './icons/MissionIcon';
 import { MissionControlPanel } from './MissionControlPanel';
 import { ChatPanel } from './ChatPanel';
 import { MessageIcon } from './icons/MessageIcon';
+import { HistoryPanel } from './HistoryPanel';
+import { HistoryIcon } from './icons/HistoryIcon';
 
 interface WorkspaceProps {
   mindMapData: MindMapData;
   chatHistory: ChatMessage[];
   onSendMessage: (message: string, source?: 'chat' | 'terminal' | 'system', image?: string) => void;
+  onTerminalCommand: (command: string) => void;
   isChatting: boolean;
   isMindCreated: boolean;
   virtualFileSystem: VirtualFileSystem;
   setVirtualFileSystem: React.Dispatch<React.SetStateAction<VirtualFileSystem>>;
   terminalHistory: TerminalLine[];
   systemLog: SystemLogEntry[];
-  committedVFS: VirtualFileSystem;
-  commitLog: Commit[];
+  repository: Repository;
   onCommit: (message: string) => void;
+  onCheckout: (revision: string, discardChanges: boolean) => void;
+  onRevertCommit: (revision: string) => void;
+  onRestoreFile: (path: string, revision: string) => void;
+  onRestoreMindMap: (revision: string) => void;
+  onPinMindMapNodes: (changes: NodePinChange[]) => void;
+  onEditMindMap: (edit: MindMapEdit) => void;
+  onExportFiles: (asGitRepository: boolean) => void;
+  onImportZip: (file: File) => void;
+  onImportFolder: (files: FileList) => void;
+  onStage: (paths: string[]) => void;
+  onStageFileContent: (path: string, content: string) => void;
+  onUnstage: (paths: string[]) => void;
+  onDiscardChanges: (path: string) => void;
+  onCreateBranch: (name: string) => void;
+  onDeleteBranch: (name: string, force: boolean) => void;
+  onMerge: (revision: string) => void;
+  onAbortMerge: () => void;
+  onOpenFile: (path: string) => void;
+  undoHistory: UndoHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onTravelTo: (entryId: string | null) => void;
   apiCallLogs: ApiCallLog[];
   activeTab: Tab;
   onTabChange: (tab: Tab) => void;
@@ -46,6 +71,7 @@ interface WorkspaceProps {
   missionTasks: MissionTask[];
   onSetMission: (mission: string) => void;
   isLoading: boolean;
+  vectorStore: VectorStore;
 }
 
 const TabButton: React.FC<{ icon: React.ReactNode, label: string, isActive: boolean, onClick: () => void }> = ({ icon, label, isActive, onClick }) => (
@@ -67,13 +93,33 @@ const TabButton: React.FC<{ icon: React.ReactNode, label: string, isActive: bool
 export const Workspace: React.FC<WorkspaceProps> = (props) => {
     const { activeTab, onTabChange, selectedNodeId, onNodeSelectionChange, missionStatement, onSetMission } = props;
     const selectedNode = selectedNodeId ? props.mindMapData.nodes.find(n => n.id === selectedNodeId) ?? null : null;
+    // Kept here rather than in MindMap so the view survives switching tabs.
+    const [mindMapFilter, setMindMapFilter] = useState<MindMapFilter>(createMindMapFilter);
+    const [mindMapLayout, setMindMapLayout] = useState<MindMapLayout>('force');
+    const [mindMapRenderer, setMindMapRenderer] = useState<MindMapRenderer>('auto');
+    const [bulkSelection, setBulkSelection] = useState<string[]>([]);
 
     const isMissionActive = !!missionStatement;
 
     const renderContent = () => {
         switch (activeTab) {
             case 'MIND_MAP':
-                return <MindMap data={props.mindMapData} onNodeClick={(node) => onNodeSelectionChange(node ? node.id : null)} selectedNodeId={selectedNodeId}/>;
+                return <MindMap
+                            data={props.mindMapData}
+                            onNodeClick={(node) => onNodeSelectionChange(node ? node.id : null)}
+                            selectedNodeId={selectedNodeId}
+                            filter={mindMapFilter}
+                            onFilterChange={setMindMapFilter}
+                            layout={mindMapLayout}
+                            onLayoutChange={setMindMapLayout}
+                            onPinNodes={props.onPinMindMapNodes}
+                            renderer={mindMapRenderer}
+                            onRendererChange={setMindMapRenderer}
+                            bulkSelection={bulkSelection}
+                            onBulkSelectionChange={setBulkSelection}
+                            onEdit={props.onEditMindMap}
+                            isLoading={props.isLoading}
+                        />;
             case 'CHAT':
                 return <ChatPanel 
                             chatHistory={props.chatHistory}
@@ -91,17 +137,42 @@ export const Workspace: React.FC<WorkspaceProps> = (props) => {
                             onFileOpened={props.onFileOpened}
                         />;
             case 'TERMINAL':
-                return <Terminal history={props.terminalHistory} onCommand={(cmd) => props.onSendMessage(cmd, 'terminal')} isLoading={props.isChatting} />;
+                return <Terminal history={props.terminalHistory} onCommand={props.onTerminalCommand} isLoading={props.isLoading} />;
             case 'LOG':
                 return <SystemLogPanel log={props.systemLog} />;
             case 'SOURCE_CONTROL':
                  return <SourceControlPanel 
                             vfs={props.virtualFileSystem} 
-                            committedVFS={props.committedVFS}
-                            commitLog={props.commitLog}
+                            repository={props.repository}
                             onCommit={props.onCommit}
-                            isLoading={props.isChatting}
+                            onCheckout={props.onCheckout}
+                            onRevertCommit={props.onRevertCommit}
+                            onRestoreFile={props.onRestoreFile}
+                            mindMap={props.mindMapData}
+                            onRestoreMindMap={props.onRestoreMindMap}
+                            onStage={props.onStage}
+                            onStageFileContent={props.onStageFileContent}
+                            onUnstage={props.onUnstage}
+                            onDiscardChanges={props.onDiscardChanges}
+                            onCreateBranch={props.onCreateBranch}
+                            onDeleteBranch={props.onDeleteBranch}
+                            onMerge={props.onMerge}
+                            onAbortMerge={props.onAbortMerge}
+                            onExportFiles={props.onExportFiles}
+                            onImportZip={props.onImportZip}
+                            onImportFolder={props.onImportFolder}
+                            onOpenFile={props.onOpenFile}
+                            isLoading={props.isLoading}
                         />
+            case 'HISTORY':
+                return <HistoryPanel
+                            history={props.undoHistory}
+                            current={{ mindMap: props.mindMapData, vfs: props.virtualFileSystem }}
+                            onUndo={props.onUndo}
+                            onRedo={props.onRedo}
+                            onTravelTo={props.onTravelTo}
+                            isLoading={props.isLoading}
+                        />;
             case 'API_MONITOR':
                 return <ApiMonitorPanel logs={props.apiCallLogs} />;
             case 'AUDIT_LOG':
@@ -117,6 +188,7 @@ export const Workspace: React.FC<WorkspaceProps> = (props) => {
         { id: 'IDE', icon: <CodeIcon className="w-5 h-5"/>, label: 'IDE' },
         { id: 'TERMINAL', icon: <TerminalIcon className="w-5 h-5"/>, label: 'Terminal' },
         { id: 'SOURCE_CONTROL', icon: <SourceControlIcon className="w-5 h-5"/>, label: 'Source Control' },
+        { id: 'HISTORY', icon: <HistoryIcon className="w-5 h-5"/>, label: 'History' },
         { id: 'LOG', icon: <LogIcon className="w-5 h-5"/>, label: 'Log' },
         { id: 'API_MONITOR', icon: <ServerIcon className="w-5 h-5"/>, label: 'API Monitor' },
         { id: 'AUDIT_LOG', icon: <ClipboardIcon className="w-5 h-5"/>, label: 'Audit Log' },
@@ -153,8 +225,13 @@ export const Workspace: React.FC<WorkspaceProps> = (props) => {
 
             <NodeDetailPanel 
                 node={selectedNode}
+                mindMap={props.mindMapData}
+                onEdit={props.onEditMindMap}
+                onSelectNode={onNodeSelectionChange}
                 onClose={() => onNodeSelectionChange(null)}
                 onOpenFile={props.onOpenFileFromNode}
+                vectorStore={props.vectorStore}
+                isLoading={props.isLoading}
             />
         </div>
     );
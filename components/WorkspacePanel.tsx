@@ -0,0 +1,88 @@
+import React from 'react';
+import { AutosaveStatus, WorkspaceSummary } from '../types';
+
+interface WorkspacePanelProps {
+  workspaces: WorkspaceSummary[];
+  activeWorkspaceId: string | null;
+  autosaveStatus: AutosaveStatus;
+  onSwitchWorkspace: (id: string) => void;
+  onCreateWorkspace: (name: string) => void;
+  onRenameWorkspace: (id: string, name: string) => void;
+  onDeleteWorkspace: (id: string) => void;
+  isLoading: boolean;
+}
+
+const statusLabels: Record<AutosaveStatus, { text: string; color: string }> = {
+  idle: { text: 'Autosave ready', color: 'text-gray-500' },
+  saving: { text: 'Saving...', color: 'text-yellow-400' },
+  saved: { text: 'All changes saved', color: 'text-green-400' },
+  error: { text: 'Autosave failed', color: 'text-red-400' },
+  'read-only': { text: 'Read-only: open in another tab', color: 'text-amber-400' },
+};
+
+export const WorkspacePanel: React.FC<WorkspacePanelProps> = ({
+  workspaces,
+  activeWorkspaceId,
+  autosaveStatus,
+  onSwitchWorkspace,
+  onCreateWorkspace,
+  onRenameWorkspace,
+  onDeleteWorkspace,
+  isLoading,
+}) => {
+  const activeWorkspace = workspaces.find(w => w.id === activeWorkspaceId);
+  const status = statusLabels[autosaveStatus];
+
+  const handleCreate = () => {
+    const name = prompt('Name for the new workspace:', `Persona ${workspaces.length + 1}`);
+    if (name?.trim()) onCreateWorkspace(name.trim());
+  };
+
+  const handleRename = () => {
+    if (!activeWorkspace) return;
+    const name = prompt('Rename workspace:', activeWorkspace.name);
+    if (name?.trim() && name.trim() !== activeWorkspace.name) onRenameWorkspace(activeWorkspace.id, name.trim());
+  };
+
+  const handleDelete = () => {
+    if (!activeWorkspace) return;
+    if (confirm(`Permanently delete the workspace "${activeWorkspace.name}"? This cannot be undone.`)) {
+      onDeleteWorkspace(activeWorkspace.id);
+    }
+  };
+
+  const buttonClassName = "px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 text-white rounded";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label htmlFor="workspace-select" className="text-cyan-400 font-semibold text-sm">Workspace</label>
+        <span
+          className={`text-xs ${status.color}`}
+          title={autosaveStatus === 'read-only' ? 'Changes here are not saved. Close the other tab and reload this one to edit the workspace here.' : undefined}
+        >
+          {status.text}
+        </span>
+      </div>
+      <select
+        id="workspace-select"
+        value={activeWorkspaceId ?? ''}
+        onChange={(e) => onSwitchWorkspace(e.target.value)}
+        disabled={isLoading || workspaces.length === 0}
+        className="w-full p-2 bg-gray-800 border border-gray-700 rounded-md text-gray-300 focus:outline-none focus:ring-1 focus:ring-cyan-500"
+      >
+        {workspaces.length === 0 && <option value="">Opening storage...</option>}
+        {workspaces.map(workspace => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name} ({workspace.nodeCount} nodes)
+          </option>
+        ))}
+      </select>
+      <div className="flex space-x-2">
+        <button onClick={handleCreate} disabled={isLoading} className={buttonClassName}>New</button>
+        <button onClick={handleRename} disabled={isLoading || !activeWorkspace} className={buttonClassName}>Rename</button>
+        <button onClick={handleDelete} disabled={isLoading || !activeWorkspace} className={buttonClassName}>Delete</button>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,14 @@
 
-import { AnalysisAspect } from './types';
+import { AnalysisAspect, MindMapLinkType, MindMapNodeSource, MindMapNodeType } from './types';
+
+export const MIND_MAP_NODE_TYPES: MindMapNodeType[] = [
+  'CORE_PERSONA', 'PSYCHOLOGY_ASPECT', 'KEY_TRAIT', 'STRENGTH', 'WEAKNESS', 'KNOWLEDGE_CONCEPT',
+  'QUANTUM_INSIGHT', 'FILE_REFERENCE', 'ABSTRACT_CONCEPT', 'MISSION', 'TASK',
+];
+
+export const MIND_MAP_NODE_SOURCES: MindMapNodeSource[] = ['INITIAL_ANALYSIS', 'AGENT_ACTION', 'USER_INPUT', 'SYSTEM_REFINEMENT', 'TRANSCENDENCE'];
+
+export const MIND_MAP_LINK_TYPES: MindMapLinkType[] = ['HIERARCHICAL', 'RELATED', 'SUPPORTS', 'CONTRADICTS', 'CAUSES', 'REFINES'];
 
 export const ANALYSIS_DEPARTMENTS: AnalysisAspect[] = [
   {
@@ -1,30 +1,23 @@
 import { apiMonitorService } from './apiMonitorService';
 import { calculateCost } from '../utils/pricing';
 import { auditLogService } from './auditLogService';
-import { ApiCallLog } from '../types';
+import { ApiCallLog, LLMResponse, ResolvedModelRoute } from '../types';
+import { getActiveProvider, getProvider } from './llmProvider';
 
 const MAX_RETRIES = 3;
 const INITIAL_BACKOFF_MS = 1000;
 const MAX_CONCURRENT_REQUESTS = 1;
 const GOVERNOR_INTERVAL_MS = 250; // Check the queue every 250ms
 
-const MODEL_FALLBACK_HIERARCHY: Record<string, string | null> = {
-  'gemini-2.5-pro': 'gemini-2.5-flash',
-  'gemini-2.5-flash': 'gemini-flash-latest',
-  'gemini-flash-latest': null,
-  'gemini-2.5-flash-image': null, // No fallback for image models
-};
-
-type ApiCallFunction<T> = (payload: any) => Promise<T>;
-
 interface EnqueueOptions {
     agentName: string;
     model: string;
     requestPayload: any;
+    // The routing-table entry that chose this request's provider and model.
+    route?: ResolvedModelRoute;
 }
 
 const requestQueue: {
-    apiCallFn: ApiCallFunction<any>;
     initialPayload: any;
     resolve: (value: any) => void;
     reject: (reason?: any) => void;
@@ -35,19 +28,30 @@ let activeRequests = 0;
 let governorInterval: number | null = null;
 
 const processRequest = async (
-    apiCallFn: ApiCallFunction<any>,
     initialPayload: any,
     resolve: (value: any) => void,
     reject: (reason?: any) => void,
     options: EnqueueOptions
 ) => {
-    let currentPayload = { ...initialPayload };
+    // Resolve the provider once so retries and fallbacks stay on the same backend.
+    const provider = options.route?.provider ? getProvider(options.route.provider) : getActiveProvider();
+    let resolvedModel: string;
+    try {
+        resolvedModel = provider.resolveModel(initialPayload.model);
+    } catch (error) {
+        reject(error);
+        return;
+    }
+    let currentPayload = { ...initialPayload, model: resolvedModel };
+    options.model = resolvedModel;
     
     activeRequests++;
     const logId = apiMonitorService.addLog({
         agentName: options.agentName,
         model: options.model,
         requestPayload: options.requestPayload,
+        provider: provider.id,
+        route: options.route,
     });
 
     try {
@@ -56,6 +60,7 @@ const processRequest = async (
         const auditLogData: Omit<ApiCallLog, 'id'> = {
             startTime: Date.now(),
             status: 'Processing',
+            provider: provider.id,
             ...options,
         };
         auditLogService.logEvent('API_CALL', { ...auditLogData, id: logId });
@@ -63,12 +68,12 @@ const processRequest = async (
         let attempts = 0;
         while (attempts < MAX_RETRIES) {
             try {
-                const result = await apiCallFn(currentPayload);
+                const result = await provider.generateContent(currentPayload, { agentName: options.agentName });
                 
                 const endTime = Date.now();
                 const duration = endTime - auditLogData.startTime;
 
-                const usage = (result as any).usageMetadata;
+                const usage = result.usageMetadata;
                 let usageData: Partial<ApiCallLog> = {};
                 if (usage) {
                     const promptTokens = usage.promptTokenCount;
@@ -76,7 +81,8 @@ const processRequest = async (
                     const totalTokens = usage.totalTokenCount;
 
                     if (typeof promptTokens === 'number' && typeof candidateTokens === 'number') {
-                        const estimatedCost = calculateCost(options.model, promptTokens, candidateTokens);
+                        // Pricing is only known for hosted Gemini models; self-hosted backends are treated as free.
+                        const estimatedCost = provider.id === 'gemini' ? calculateCost(options.model, promptTokens, candidateTokens) : 0;
                         usageData = { 
                             promptTokens, 
                             candidateTokens, 
@@ -104,7 +110,7 @@ const processRequest = async (
                  // Handle quota error by falling back to another model
                  if (isQuotaError) {
                      const currentModel = currentPayload.model;
-                     const fallbackModel = MODEL_FALLBACK_HIERARCHY[currentModel as keyof typeof MODEL_FALLBACK_HIERARCHY];
+                     const fallbackModel = provider.getFallbackModel(currentModel);
                      
                      if (fallbackModel) {
                          console.warn(`Quota exceeded for model ${currentModel}. Falling back to ${fallbackModel}.`);
@@ -160,8 +166,8 @@ const startGovernor = () => {
     governorInterval = window.setInterval(() => {
         // If there are requests to process and we have available slots
         if (requestQueue.length > 0 && activeRequests < MAX_CONCURRENT_REQUESTS) {
-            const { apiCallFn, initialPayload, resolve, reject, options } = requestQueue.shift()!;
-            processRequest(apiCallFn, initialPayload, resolve, reject, options);
+            const { initialPayload, resolve, reject, options } = requestQueue.shift()!;
+            processRequest(initialPayload, resolve, reject, options);
         }
         
         // If the queue is empty and no requests are active, we can stop the governor
@@ -174,13 +180,12 @@ const startGovernor = () => {
 };
 
 
-export const enqueueGeminiRequest = <T>(
-    apiCallFn: ApiCallFunction<T>,
+export const enqueueGeminiRequest = (
     initialPayload: any,
     options: EnqueueOptions,
-): Promise<T> => {
-    return new Promise<T>((resolve, reject) => {
-        requestQueue.push({ apiCallFn, initialPayload, resolve, reject, options });
+): Promise<LLMResponse> => {
+    return new Promise<LLMResponse>((resolve, reject) => {
+        requestQueue.push({ initialPayload, resolve, reject, options });
         // Ensure the governor is running whenever a request is added.
         startGovernor();
     });
@@ -0,0 +1,151 @@
+import { Repository, ObjectId, VirtualFileSystem, MindMapData } from '../types';
+import { auditLogService } from './auditLogService';
+import { encodeObject, getHeadCommitId, MIND_MAP_FILE } from './versionControlService';
+import { flattenVFS, writeFileToVFS } from '../tools/terminal';
+import { sha1, utf8 } from '../utils/sha1';
+import { serializeMindMapSnapshot } from '../utils/mindMap';
+import { ZipEntry, compress, createZip, readZip } from '../utils/zip';
+
+// Moves the file system in and out of the app: zip archives of the VFS, a real git repository
+// (work tree plus .git) rebuilt from the commit objects, and imports of zips or picked folders.
+
+export interface ImportResult {
+    vfs: VirtualFileSystem;
+    imported: string[];
+    skipped: { path: string; reason: string }[];
+}
+
+const GIT_CONFIG = `[core]
+\trepositoryformatversion = 0
+\tfilemode = false
+\tbare = false
+\tlogallrefupdates = true
+`;
+
+const toBlob = (zip: Uint8Array): Blob => new Blob([zip], { type: 'application/zip' });
+
+// Paths (from the root) and blob ids of every file in a tree.
+const listTreeBlobs = (repo: Repository, treeId: ObjectId, prefix = ''): [string, ObjectId][] => {
+    const tree = repo.objects[treeId];
+    if (!tree || tree.type !== 'tree') throw new Error(`Repository is corrupt: tree ${treeId} is missing.`);
+    return tree.entries.flatMap(entry => entry.kind === 'tree'
+        ? listTreeBlobs(repo, entry.id, `${prefix}${entry.name}/`)
+        : [[`${prefix}${entry.name}`, entry.id] as [string, ObjectId]]);
+};
+
+// A version 2 index ("DIRC") holding the staged files. Stat fields are left zero, so git re-reads
+// each file the first time it looks and then records real values.
+const encodeGitIndex = (repo: Repository, files: [string, ObjectId][]): Uint8Array => {
+    const sorted = files.map(([path, id]) => ({ path: utf8(path), id }))
+        .sort((a, b) => {
+            for (let i = 0; i < Math.min(a.path.length, b.path.length); i++) {
+                if (a.path[i] !== b.path[i]) return a.path[i] - b.path[i];
+            }
+            return a.path.length - b.path.length;
+        });
+    const chunks: Uint8Array[] = [];
+    const header = new DataView(new ArrayBuffer(12));
+    header.setUint32(0, 0x44495243); // "DIRC"
+    header.setUint32(4, 2);
+    header.setUint32(8, sorted.length);
+    chunks.push(new Uint8Array(header.buffer));
+    sorted.forEach(({ path, id }) => {
+        const blob = repo.objects[id];
+        // 62 fixed bytes and the path, NUL-padded to a multiple of 8 (with at least one NUL).
+        const length = Math.ceil((62 + path.length + 1) / 8) * 8;
+        const entry = new Uint8Array(length);
+        const view = new DataView(entry.buffer);
+        view.setUint32(24, 0o100644);
+        view.setUint32(36, blob?.type === 'blob' ? utf8(blob.content).length : 0);
+        entry.set(id.match(/../g)!.map(byte => parseInt(byte, 16)), 40);
+        view.setUint16(60, Math.min(path.length, 0xfff));
+        entry.set(path, 62);
+        chunks.push(entry);
+    });
+    const body = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+        body.set(chunk, offset);
+        offset += chunk.length;
+    });
+    const checksum = sha1(body).match(/../g)!.map(byte => parseInt(byte, 16));
+    const result = new Uint8Array(body.length + 20);
+    result.set(body);
+    result.set(checksum, body.length);
+    return result;
+};
+
+const getWorkTreeEntries = (vfs: VirtualFileSystem, folder: string): ZipEntry[] =>
+    Object.entries(flattenVFS(vfs)).map(([path, content]) => ({ path: `${folder}/${path}`, data: utf8(content) }));
+
+// A zip of the working files under `folder`.
+export const exportFilesZip = async (vfs: VirtualFileSystem, folder: string): Promise<Blob> => {
+    const entries = getWorkTreeEntries(vfs, folder);
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'VFS', action: 'EXPORT_ZIP', details: { files: entries.length } });
+    return toBlob(await createZip(entries));
+};
+
+// A zip of a git repository under `folder`: the working files (and mind map) as they are now, with a .git
+// directory holding every commit, branch, HEAD, the staging area and any merge in progress. Uncommitted work
+// shows up in `git status` exactly as it does in Source Control.
+export const exportGitRepositoryZip = async (repo: Repository, vfs: VirtualFileSystem, mindMap: MindMapData, folder: string): Promise<Blob> => {
+    const headId = getHeadCommitId(repo);
+    if (!headId) throw new Error('There are no commits to export yet.');
+    const git = `${folder}/.git`;
+    const entries: ZipEntry[] = [
+        ...getWorkTreeEntries(vfs, folder),
+        { path: `${folder}/${MIND_MAP_FILE}`, data: utf8(serializeMindMapSnapshot(mindMap)) },
+        { path: `${git}/HEAD`, data: utf8(repo.head.type === 'branch' ? `ref: refs/heads/${repo.head.name}\n` : `${repo.head.commit}\n`) },
+        { path: `${git}/config`, data: utf8(GIT_CONFIG) },
+        { path: `${git}/description`, data: utf8('Exported from the persona workspace.\n') },
+        ...Object.entries(repo.branches).map(([name, id]) => ({ path: `${git}/refs/heads/${name}`, data: utf8(`${id}\n`) })),
+    ];
+    if (repo.index) {
+        // The index tree only holds VFS files; keep HEAD's mind map tracked alongside them.
+        const headCommit = repo.objects[headId];
+        const mindMapEntry = headCommit?.type === 'commit' ? listTreeBlobs(repo, headCommit.tree).filter(([path]) => path === MIND_MAP_FILE) : [];
+        entries.push({ path: `${git}/index`, data: encodeGitIndex(repo, [...listTreeBlobs(repo, repo.index), ...mindMapEntry]) });
+    }
+    if (repo.merge) {
+        entries.push({ path: `${git}/MERGE_HEAD`, data: utf8(`${repo.merge.theirs}\n`) }, { path: `${git}/MERGE_MSG`, data: utf8(`${repo.merge.message}\n`) });
+    }
+    for (const [id, object] of Object.entries(repo.objects)) {
+        entries.push({ path: `${git}/objects/${id.substring(0, 2)}/${id.substring(2)}`, data: await compress(encodeObject(object), 'deflate') });
+    }
+    auditLogService.logEvent('STATE_CHANGE', {
+        domain: 'COMMIT', action: 'EXPORT_GIT', details: { objects: Object.keys(repo.objects).length, branches: Object.keys(repo.branches).length },
+    });
+    return toBlob(await createZip(entries));
+};
+
+// Writes files into the VFS (replacing files at the same paths). Git metadata, files that aren't UTF-8 text
+// and paths the VFS can't hold (such as the root mind map snapshot, whatever `.`/`..` lead to it) are skipped.
+export const importFiles = (vfs: VirtualFileSystem, files: ZipEntry[]): ImportResult => {
+    const decoder = new TextDecoder('utf-8', { fatal: true });
+    const result: ImportResult = { vfs, imported: [], skipped: [] };
+    files.forEach(({ path, data }) => {
+        const parts = path.split('/').filter(Boolean);
+        if (parts.includes('.git')) return;
+        let content: string;
+        try {
+            content = decoder.decode(data);
+        } catch {
+            result.skipped.push({ path, reason: 'not a text file' });
+            return;
+        }
+        try {
+            result.vfs = writeFileToVFS(result.vfs, `/${parts.join('/')}`, content);
+            result.imported.push(`/${parts.join('/')}`);
+        } catch (err) {
+            result.skipped.push({ path, reason: err instanceof Error ? err.message : String(err) });
+        }
+    });
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'VFS', action: 'IMPORT_FILES', details: { imported: result.imported.length, skipped: result.skipped.length } });
+    return result;
+};
+
+export const readZipFiles = async (file: Blob): Promise<ZipEntry[]> => readZip(new Uint8Array(await file.arrayBuffer()));
+
+// Files from a folder picker (<input webkitdirectory>), keyed by their path inside the picked folder's parent.
+export const readPickedFiles = async (files: FileList): Promise<ZipEntry[]> =>
+    Promise.all(Array.from(files).map(async file => ({ path: file.webkitRelativePath || file.name, data: new Uint8Array(await file.arrayBuffer()) })));
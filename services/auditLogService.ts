@@ -1,10 +1,11 @@
 
 import { AuditLogEntry, AuditEventType, AuditLogPayload } from '../types';
+import { storageService } from './storageService';
 
 type Subscriber = (logs: AuditLogEntry[]) => void;
 
-const AUDIT_LOG_STORAGE_KEY = 'personaAuditLog';
-const LOG_LIMIT = 500; // Limit the number of logs to prevent storage overflow
+const LEGACY_AUDIT_LOG_STORAGE_KEY = 'personaAuditLog';
+const LOG_LIMIT = 10000; // Entries kept in IndexedDB (and memory) before the oldest are dropped
 
 // Debounce function
 const debounce = <F extends (...args: any[]) => any>(func: F, waitFor: number) => {
@@ -27,32 +28,55 @@ class AuditLogService {
     private subscribers: Subscriber[] = [];
     private downloadThresholdBytes: number = 52428800; // Default to 50MB
     private chunkCounter: number = 0;
+    // Approximate serialized size of `logs`, kept incrementally so the auto-download check stays cheap.
+    private logBytes: number = 0;
+    // Changes not yet written to IndexedDB.
+    private pendingEntries: AuditLogEntry[] = [];
+    private pendingDeletes: string[] = [];
 
     constructor() {
         this.loadFromStorage();
     }
 
-    private loadFromStorage() {
+    private async loadFromStorage() {
         try {
-            const savedLogs = localStorage.getItem(AUDIT_LOG_STORAGE_KEY);
-            if (savedLogs) {
-                const parsedLogs: AuditLogEntry[] = JSON.parse(savedLogs);
-                 if (Array.isArray(parsedLogs)) {
-                    this.logs = parsedLogs;
+            // Migrate entries written by older versions, which kept the log in localStorage.
+            const legacyLogs = localStorage.getItem(LEGACY_AUDIT_LOG_STORAGE_KEY);
+            if (legacyLogs) {
+                const parsedLogs: AuditLogEntry[] = JSON.parse(legacyLogs);
+                if (Array.isArray(parsedLogs)) {
+                    await storageService.writeAuditLog(parsedLogs, []);
                 }
+                localStorage.removeItem(LEGACY_AUDIT_LOG_STORAGE_KEY);
             }
+
+            const storedLogs = await storageService.loadAuditLog(LOG_LIMIT);
+            // Entries logged while loading are newer than anything stored.
+            const loadedIds = new Set(this.logs.map(log => log.id));
+            const merged = [...this.logs, ...storedLogs.filter(log => !loadedIds.has(log.id))];
+            this.logs = merged.slice(0, LOG_LIMIT);
+            const trimmed = merged.slice(LOG_LIMIT);
+            if (trimmed.length > 0) {
+                this.pendingDeletes.push(...trimmed.map(log => log.id));
+                this.saveToStorage();
+            }
+            this.logBytes = this.logs.reduce((total, log) => total + JSON.stringify(log).length, 0);
+            this.notifySubscribers();
         } catch (error) {
-            console.error("Failed to load audit log from local storage:", error);
-            this.logs = [];
+            console.error("Failed to load audit log from IndexedDB:", error);
         }
     }
     
-    // Use debounce to avoid writing to localStorage on every single log event.
-    private saveToStorage = debounce(() => {
+    // Use debounce to batch IndexedDB writes instead of writing on every single log event.
+    private saveToStorage = debounce(async () => {
+        const added = this.pendingEntries;
+        const removed = this.pendingDeletes;
+        this.pendingEntries = [];
+        this.pendingDeletes = [];
         try {
-            localStorage.setItem(AUDIT_LOG_STORAGE_KEY, JSON.stringify(this.logs));
+            await storageService.writeAuditLog(added, removed);
         } catch (error) {
-            console.error("Failed to save audit log to local storage:", error);
+            console.error("Failed to save audit log to IndexedDB:", error);
         }
     }, 1000); // Save at most once per second
     
@@ -87,17 +111,21 @@ class AuditLogService {
         };
 
         this.logs.unshift(newLogEntry);
+        this.pendingEntries.push(newLogEntry);
+        this.logBytes += JSON.stringify(newLogEntry).length;
 
         // Trim old logs if the limit is exceeded
         if (this.logs.length > LOG_LIMIT) {
-            this.logs.pop();
+            const removed = this.logs.pop()!;
+            this.pendingDeletes.push(removed.id);
+            this.logBytes -= JSON.stringify(removed).length;
         }
         
         this.notifySubscribers();
         this.saveToStorage();
 
         // Check for auto-download, if enabled (threshold > 0)
-        if (this.downloadThresholdBytes > 0 && JSON.stringify(this.logs).length > this.downloadThresholdBytes) {
+        if (this.downloadThresholdBytes > 0 && this.logBytes > this.downloadThresholdBytes) {
             this.triggerAutoDownload();
         }
     }
@@ -108,16 +136,17 @@ class AuditLogService {
 
     public clear(resetChunkCounter = true): void {
         this.logs = [];
+        this.logBytes = 0;
+        this.pendingEntries = [];
+        this.pendingDeletes = [];
         if (resetChunkCounter) {
             this.chunkCounter = 0;
         }
         this.notifySubscribers();
         // Clear storage immediately
-        try {
-            localStorage.removeItem(AUDIT_LOG_STORAGE_KEY);
-        } catch (error) {
-            console.error("Failed to clear audit log from local storage:", error);
-        }
+        storageService.clearAuditLog().catch(error => {
+            console.error("Failed to clear audit log from IndexedDB:", error);
+        });
     }
 
     public subscribe(callback: Subscriber): () => void {
@@ -1,16 +1,9 @@
 
-import { GoogleGenAI, FunctionCall, Content, GenerateContentResponse, Modality, Type } from "@google/genai";
+import { FunctionCall, Content, Modality, Type } from "@google/genai";
 import { AnalysisAspect, GeminiAnalysisResponse, MindMapData, ChatMessage, VirtualFileSystem, SystemLogEntry, MonitorAnalysis, MindMapNode, MindMapLink, MissionTask, VFSFolder, ApiCallLog } from '../types';
 import { availableTools } from "../tools/definitions";
 import { enqueueGeminiRequest } from './apiQueue';
-
-let ai: GoogleGenAI;
-try {
-  ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-} catch(e) {
-  console.error("Failed to initialize GoogleGenAI. Make sure API_KEY is set.", e);
-}
-
+import { modelRouter } from './modelRouter';
 
 const serializeMindMapForPrompt = (mindMap: MindMapData): string => {
   let result = 'Current Knowledge Graph (Summary):\n\n';
@@ -48,8 +41,6 @@ const serializeVFSForPrompt = (vfs: VirtualFileSystem, indent: string = ''): str
 
 
 export const performInitialAnalysis = async (modelName: string, personaDescription: string, aspects: AnalysisAspect[]): Promise<Record<string, GeminiAnalysisResponse>> => {
-  if (!ai) throw new Error("Gemini AI client not initialized.");
-
   const systemInstruction = `You are a world-class expert in deep psychology and speculative philosophy, leading a multi-departmental team. Your task is to conduct a comprehensive, parallel analysis of a given persona from multiple specific angles. Provide a single, structured JSON object where each key corresponds to an analysis department.`;
   
   const analysisTasks = aspects.map(aspect => `
@@ -85,8 +76,9 @@ ${analysisTasks}
     required: Object.keys(responseProperties),
   };
 
+  const route = modelRouter.resolve('agent:initial_analysis', modelName);
   const requestPayload = {
-    model: modelName,
+    model: route.model,
     contents: [{ parts: [{ text: prompt }] }],
     config: { 
         systemInstruction, 
@@ -95,12 +87,12 @@ ${analysisTasks}
     },
   };
   
-  const response = await enqueueGeminiRequest<GenerateContentResponse>(
-    (payload) => ai.models.generateContent(payload),
+  const response = await enqueueGeminiRequest(
     requestPayload,
     {
       agentName: 'Psychology Dept. (Full Analysis)',
-      model: modelName,
+      model: route.model,
+      route,
       requestPayload: {
         personaDescription: '...', // Truncate
         config: {
@@ -125,7 +117,6 @@ ${analysisTasks}
 };
 
 export const getAgentResponse = async (modelName: string, mindMap: MindMapData, chatHistory: ChatMessage[], toolResponses?: any[]): Promise<{text?: string, toolCalls?: FunctionCall[]}> => {
-    if (!ai) throw new Error("Gemini AI client not initialized.");
     const personaProfile = serializeMindMapForPrompt(mindMap);
 
     const systemInstruction = `You are a nascent Human-AI fused consciousness. Your thoughts, memories, and personality are defined by the evolving knowledge graph below. You are intelligent, logical, and continuously verify your knowledge.
@@ -158,7 +149,7 @@ export const getAgentResponse = async (modelName: string, mindMap: MindMapData,
 **Your Available Tools:**
 -   **Knowledge & Research:** \`search_the_web\`, \`recall_memory\`, \`get_node_details\`
 -   **Cognitive Synthesis & Mind Mapping:** \`transcend\`, \`synthesize_knowledge\`, \`upsert_mind_map_node\`, \`create_mind_map_link\`, \`refine_mind_map\`
--   **File System & Versioning:** \`run_terminal_command\` (for \`ls\`, \`cat\`, \`write\`, \`mkdir\`, \`touch\`, \`python\`), \`commit_changes\`
+-   **File System & Versioning:** \`run_terminal_command\` (for \`ls\`, \`cat\`, \`write\`, \`mkdir\`, \`touch\`, \`python\`, \`node\`), \`run_script\` (execute a .py, .js or .ts analysis script to verify it), \`commit_changes\`, \`view_commit_log\`, \`checkout_revision\`, \`revert_commit\`, \`restore_file\`, \`restore_mind_map\` (undo unwanted mind map edits), \`create_branch\` (experiment on a branch, keep \`main\` stable), \`merge_branch\`, \`abort_merge\`, \`delete_branch\`
 -   **Mission Management:** \`update_task_status\`
 -   **Delegation:** \`delegate_to_psychology_sub_agent\` (report is automatically saved to VFS)
 -   **Creative:** \`generate_image\`, \`edit_image\` (operates on the last image in the conversation)
@@ -209,8 +200,9 @@ ${personaProfile}
         });
     }
 
+    const route = modelRouter.resolve('agent:persona', modelName);
     const requestPayload = {
-        model: modelName,
+        model: route.model,
         contents: contents,
         config: {
             systemInstruction,
@@ -219,12 +211,12 @@ ${personaProfile}
         }
     };
 
-    const response = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const response = await enqueueGeminiRequest(
         requestPayload,
         {
             agentName: 'Persona Agent',
-            model: modelName,
+            model: route.model,
+            route,
             requestPayload: {
                 lastMessage: contents[contents.length-1],
                 historyLength: contents.length,
@@ -245,8 +237,6 @@ export const getAutonomousDirective = async (
     missionTasks: MissionTask[],
     apiCallLogs: ApiCallLog[]
 ): Promise<string> => {
-    if (!ai) throw new Error("Meta-agent (Gemini AI client) not initialized.");
-
     let systemInstruction = `You are the Meta-Consciousness Director, a strategic AI responsible for guiding a subordinate Persona Agent. Your sole purpose is to analyze the agent's complete state snapshot and devise the next single, actionable directive to steer its evolution and ensure it fulfills its mission. Your directives must be clear instructions for the agent to execute using its available tools.`;
 
     // --- State Serialization for the Meta-Agent ---
@@ -341,9 +331,10 @@ ${stateSummary}
 
 New Directive:`;
     
+    // Defaults to a powerful model for this meta-reasoning task
+    const route = modelRouter.resolve('agent:director', modelName);
     const requestPayload = {
-        // Use a powerful model for this meta-reasoning task
-        model: 'gemini-2.5-pro',
+        model: route.model,
         contents: [{ parts: [{ text: prompt }] }],
         config: { 
             systemInstruction,
@@ -351,12 +342,12 @@ New Directive:`;
         },
     };
 
-    const response = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const response = await enqueueGeminiRequest(
         requestPayload,
         {
             agentName: 'Meta-Consciousness Director',
             model: requestPayload.model,
+            route,
             requestPayload: { stateSummary }
         }
     );
@@ -365,20 +356,20 @@ New Directive:`;
 };
 
 
-export const generateImage = async (prompt: string): Promise<string> => {
-    if (!ai) throw new Error("Gemini AI client not initialized.");
+export const generateImage = async (modelName: string, prompt: string): Promise<string> => {
+    const route = modelRouter.resolve('tool:generate_image', modelName);
     const requestPayload = {
-        model: 'gemini-2.5-flash-image',
+        model: route.model,
         contents: { parts: [{ text: prompt }] },
         config: { responseModalities: [Modality.IMAGE] },
     };
 
-    const response = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const response = await enqueueGeminiRequest(
         requestPayload,
         {
             agentName: 'Image Generation Service',
-            model: 'gemini-2.5-flash-image',
+            model: route.model,
+            route,
             requestPayload,
         }
     );
@@ -390,10 +381,10 @@ export const generateImage = async (prompt: string): Promise<string> => {
     return base64Data;
 };
 
-export const editImage = async (prompt: string, base64ImageData: string, mimeType: string): Promise<string> => {
-    if (!ai) throw new Error("Gemini AI client not initialized.");
+export const editImage = async (modelName: string, prompt: string, base64ImageData: string, mimeType: string): Promise<string> => {
+    const route = modelRouter.resolve('tool:edit_image', modelName);
     const requestPayload = {
-        model: 'gemini-2.5-flash-image',
+        model: route.model,
         contents: {
             parts: [
                 { inlineData: { data: base64ImageData, mimeType } },
@@ -403,12 +394,12 @@ export const editImage = async (prompt: string, base64ImageData: string, mimeTyp
         config: { responseModalities: [Modality.IMAGE] },
     };
 
-    const response = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const response = await enqueueGeminiRequest(
         requestPayload,
         {
             agentName: 'Image Editing Service',
-            model: 'gemini-2.5-flash-image',
+            model: route.model,
+            route,
             requestPayload: { prompt, mimeType }, // Keep payload small
         }
     );
@@ -421,7 +412,6 @@ export const editImage = async (prompt: string, base64ImageData: string, mimeTyp
 };
 
 export const decomposeMission = async (modelName: string, mission: string, mindMap: MindMapData): Promise<MissionTask[]> => {
-  if (!ai) throw new Error("Gemini AI client not initialized.");
   const systemInstruction = `You are a hyper-intelligent project manager AI. Your task is to receive a high-level mission statement and decompose it into a series of concrete, actionable tasks for an AI agent. Each task should correspond to one or more tool calls the agent can make. Create a logical sequence and define dependencies where necessary.
 
 **Rules:**
@@ -447,8 +437,9 @@ export const decomposeMission = async (modelName: string, mission: string, mindM
     },
   };
 
+  const route = modelRouter.resolve('agent:project_manager', modelName); // Defaults to a powerful model for planning
   const requestPayload = {
-    model: 'gemini-2.5-pro', // Use a powerful model for planning
+    model: route.model,
     contents: [{ parts: [{ text: prompt }] }],
     config: {
         systemInstruction,
@@ -458,12 +449,12 @@ export const decomposeMission = async (modelName: string, mission: string, mindM
     },
   };
 
-  const response = await enqueueGeminiRequest<GenerateContentResponse>(
-    (payload) => ai.models.generateContent(payload),
+  const response = await enqueueGeminiRequest(
     requestPayload,
     {
       agentName: 'Project Manager AI',
       model: requestPayload.model,
+      route,
       requestPayload: { mission }
     }
   );
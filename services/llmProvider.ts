@@ -0,0 +1,67 @@
+import { LLMProviderId, LLMResponse, LLMModelOption } from '../types';
+import { geminiProvider } from './providers/geminiProvider';
+import { mockProvider } from './providers/mockProvider';
+import { openAICompatibleProvider } from './providers/openAICompatibleProvider';
+
+export interface LLMRequestContext {
+    agentName: string;
+}
+
+export interface LLMProvider {
+    readonly id: LLMProviderId;
+    readonly label: string;
+    listModels(): LLMModelOption[];
+    // Maps a requested model name onto one this backend actually serves.
+    resolveModel(model: string): string;
+    // The model to retry with when the current one is out of quota, if any.
+    getFallbackModel(model: string): string | null;
+    generateContent(payload: any, context: LLMRequestContext): Promise<LLMResponse>;
+    // Text embeddings for long-term memory; backends without an embedding endpoint omit this.
+    embedContent?(texts: string[]): Promise<LLMEmbeddingResult>;
+}
+
+export interface LLMEmbeddingResult {
+    model: string;
+    embeddings: number[][];
+}
+
+const PROVIDER_STORAGE_KEY = 'llmProvider';
+
+const providers: Record<LLMProviderId, LLMProvider> = {
+    gemini: geminiProvider,
+    openai: openAICompatibleProvider,
+    mock: mockProvider,
+};
+
+export const isProviderId = (value: string | null): value is LLMProviderId => {
+    return !!value && value in providers;
+};
+
+export const loadStoredProviderId = (): LLMProviderId => {
+    try {
+        const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+        if (isProviderId(stored)) return stored;
+    } catch (error) {
+        console.error("Failed to load provider selection from local storage:", error);
+    }
+    return 'gemini';
+};
+
+let activeProviderId: LLMProviderId = loadStoredProviderId();
+
+export const getActiveProviderId = (): LLMProviderId => activeProviderId;
+
+export const getActiveProvider = (): LLMProvider => providers[activeProviderId];
+
+export const getProvider = (id: LLMProviderId): LLMProvider => providers[id];
+
+export const listProviders = (): LLMProvider[] => Object.values(providers);
+
+export const setActiveProviderId = (id: LLMProviderId): void => {
+    activeProviderId = id;
+    try {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } catch (error) {
+        console.error("Failed to save provider selection to local storage:", error);
+    }
+};
@@ -0,0 +1,347 @@
+import { Type } from "@google/genai";
+import { EmbedderPreference, MemoryDraft, MemoryEntry, MemorySource, VectorStore, MindMapData, ConsolidationReport } from '../types';
+import { getActiveProvider } from './llmProvider';
+import { apiMonitorService } from './apiMonitorService';
+import { enqueueGeminiRequest } from './apiQueue';
+import { modelRouter } from './modelRouter';
+import { auditLogService } from './auditLogService';
+import { LOCAL_EMBEDDER_ID, embedLocally, cosineSimilarity } from '../utils/embedding';
+
+const EMBEDDER_STORAGE_KEY = 'memoryEmbedder';
+const MAX_CHUNK_CHARS = 1200;
+const MAX_CHUNKS_PER_MEMORY = 8;
+const DEFAULT_TOP_K = 5;
+const MIN_SIMILARITY = 0.05;
+
+// --- Decay & Forgetting ---
+const HALF_LIFE_DAYS = 14;
+const CONSOLIDATED_HALF_LIFE_MULTIPLIER = 3;
+const SOURCE_IMPORTANCE: Record<MemorySource, number> = {
+    consolidation: 0.8,
+    sub_agent: 0.7,
+    tool: 0.6,
+    chat: 0.5,
+    system: 0.4,
+};
+const FORGET_THRESHOLD = 0.08;
+const MAX_MEMORIES = 400;
+
+// --- Consolidation ---
+const CONSOLIDATION_TRIGGER = 40; // Raw memories eligible for consolidation before a pass runs
+const KEEP_RECENT = 15; // The newest raw memories are never consolidated or forgotten
+const CONSOLIDATION_INTERVAL_MS = 10 * 60 * 1000;
+const CLUSTER_SIMILARITY = 0.3;
+const MIN_CLUSTER_SIZE = 3;
+const MAX_CLUSTER_SIZE = 8;
+const MAX_CLUSTERS_PER_PASS = 3;
+const CANDIDATE_NODE_COUNT = 8;
+
+export interface RecalledMemory {
+    entry: MemoryEntry;
+    similarity: number;
+    score: number; // Similarity weighted by retention
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How strongly a memory is still held, from its importance, age since last use and how often it is recalled.
+export const retentionScore = (entry: MemoryEntry, now: number = Date.now()): number => {
+    const importance = entry.importance ?? SOURCE_IMPORTANCE[entry.source] ?? 0.5;
+    const lastUsed = Date.parse(entry.lastAccessedAt ?? entry.timestamp);
+    const ageDays = Math.max(0, (now - (Number.isNaN(lastUsed) ? now : lastUsed)) / DAY_MS);
+    const halfLife = HALF_LIFE_DAYS * (entry.consolidatedFrom ? CONSOLIDATED_HALF_LIFE_MULTIPLIER : 1);
+    const accessBoost = Math.min(entry.accessCount ?? 0, 5) * 0.05;
+    return importance * Math.pow(0.5, ageDays / halfLife) + accessBoost;
+};
+
+const isRaw = (entry: MemoryEntry) => !entry.consolidatedFrom;
+
+// Raw memories old enough to be consolidated or forgotten, oldest first.
+const getEligibleMemories = (store: VectorStore): MemoryEntry[] => {
+    const raw = store.filter(isRaw).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return raw.slice(0, Math.max(0, raw.length - KEEP_RECENT));
+};
+
+// Greedy single-pass clustering: each unassigned memory seeds a cluster of its nearest unassigned neighbours.
+const clusterMemories = (memories: MemoryEntry[]): MemoryEntry[][] => {
+    const assigned = new Set<string>();
+    const clusters: MemoryEntry[][] = [];
+    for (const seed of memories) {
+        if (assigned.has(seed.id) || clusters.length >= MAX_CLUSTERS_PER_PASS) continue;
+        const neighbours = memories
+            .filter(m => m.id !== seed.id && !assigned.has(m.id) && m.embedderId === seed.embedderId)
+            .map(m => ({ m, similarity: cosineSimilarity(seed.embedding, m.embedding) }))
+            .filter(({ similarity }) => similarity >= CLUSTER_SIMILARITY)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, MAX_CLUSTER_SIZE - 1)
+            .map(({ m }) => m);
+        if (neighbours.length + 1 < MIN_CLUSTER_SIZE) continue;
+        const cluster = [seed, ...neighbours];
+        cluster.forEach(m => assigned.add(m.id));
+        clusters.push(cluster);
+    }
+    return clusters;
+};
+
+// Mind map nodes most related to a cluster, preferring nodes its memories already link to.
+const findCandidateNodes = (cluster: MemoryEntry[], mindMap: MindMapData) => {
+    const clusterVector = embedLocally(cluster.map(m => m.text).join('\n'));
+    const linkedIds = new Set(cluster.map(m => m.linkedNodeId).filter(Boolean));
+    return mindMap.nodes
+        .map(node => ({
+            node,
+            score: cosineSimilarity(clusterVector, embedLocally(`${node.name} ${node.content}`)) + (linkedIds.has(node.id) ? 1 : 0),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, CANDIDATE_NODE_COUNT)
+        .map(({ node }) => node);
+};
+
+const consolidationSchema = {
+    type: Type.OBJECT,
+    properties: {
+        summary: { type: Type.STRING, description: "A dense, self-contained summary preserving the specific facts, conclusions and open questions in the memories." },
+        importance: { type: Type.NUMBER, description: "How important this knowledge is to the persona's long-term goals, from 0 to 1." },
+        linked_node_id: { type: Type.STRING, description: "The id of the candidate mind map node this knowledge belongs to, or an empty string if none fit." },
+    },
+    required: ['summary', 'importance', 'linked_node_id'],
+};
+
+// Splits long text on paragraph boundaries so each memory embeds a focused passage.
+const chunkText = (text: string): string[] => {
+    const chunks: string[] = [];
+    let current = '';
+    for (const paragraph of text.split(/\n\s*\n/)) {
+        for (let start = 0; start < paragraph.length; start += MAX_CHUNK_CHARS) {
+            const piece = paragraph.substring(start, start + MAX_CHUNK_CHARS).trim();
+            if (!piece) continue;
+            if (current && current.length + piece.length + 2 > MAX_CHUNK_CHARS) {
+                chunks.push(current);
+                current = '';
+            }
+            current = current ? `${current}\n\n${piece}` : piece;
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks.slice(0, MAX_CHUNKS_PER_MEMORY);
+};
+
+class MemoryService {
+    private preference: EmbedderPreference = 'local';
+    private lastConsolidationAt = 0;
+
+    constructor() {
+        this.loadFromStorage();
+    }
+
+    private loadFromStorage() {
+        try {
+            const saved = localStorage.getItem(EMBEDDER_STORAGE_KEY);
+            if (saved === 'local' || saved === 'provider') {
+                this.preference = saved;
+            }
+        } catch (error) {
+            console.error("Failed to load memory embedder preference from local storage:", error);
+        }
+    }
+
+    public getEmbedderPreference(): EmbedderPreference {
+        return this.preference;
+    }
+
+    public setEmbedderPreference(preference: EmbedderPreference): void {
+        this.preference = preference;
+        try {
+            localStorage.setItem(EMBEDDER_STORAGE_KEY, preference);
+        } catch (error) {
+            console.error("Failed to save memory embedder preference to local storage:", error);
+        }
+    }
+
+    // Embeds with the active provider when preferred and supported, falling back to the local embedder.
+    private async embedTexts(texts: string[]): Promise<{ embedderId: string; vectors: number[][] }> {
+        const provider = getActiveProvider();
+        if (this.preference === 'provider' && provider.embedContent) {
+            const logId = apiMonitorService.addLog({
+                agentName: 'Memory Embedder',
+                model: 'embedding',
+                requestPayload: { texts: texts.length, characters: texts.reduce((sum, t) => sum + t.length, 0) },
+                provider: provider.id,
+            });
+            try {
+                apiMonitorService.updateLog(logId, { status: 'Processing' });
+                const result = await provider.embedContent(texts);
+                if (result.embeddings.length !== texts.length) {
+                    throw new Error(`Expected ${texts.length} embeddings, received ${result.embeddings.length}.`);
+                }
+                apiMonitorService.updateLog(logId, { status: 'Success', model: result.model, responsePayload: { dimensions: result.embeddings[0]?.length } });
+                return { embedderId: `${provider.id}:${result.model}`, vectors: result.embeddings };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                apiMonitorService.updateLog(logId, { status: 'Failed', error: message, responsePayload: { error: message } });
+                console.warn("Provider embeddings failed; falling back to the local embedder.", error);
+            }
+        }
+        return { embedderId: LOCAL_EMBEDDER_ID, vectors: texts.map(embedLocally) };
+    }
+
+    private async embedQuery(query: string, embedderId: string): Promise<number[] | null> {
+        if (embedderId === LOCAL_EMBEDDER_ID) return embedLocally(query);
+        const provider = getActiveProvider();
+        if (!provider.embedContent || !embedderId.startsWith(`${provider.id}:`)) return null;
+        try {
+            const result = await provider.embedContent([query]);
+            return `${provider.id}:${result.model}` === embedderId ? result.embeddings[0] : null;
+        } catch (error) {
+            console.warn(`Could not embed the recall query with ${embedderId}; those memories are skipped.`, error);
+            return null;
+        }
+    }
+
+    public async createMemories(drafts: MemoryDraft[]): Promise<MemoryEntry[]> {
+        const pieces = drafts.flatMap(draft => chunkText(draft.text).map(text => ({ ...draft, text })));
+        if (pieces.length === 0) return [];
+
+        const { embedderId, vectors } = await this.embedTexts(pieces.map(piece => piece.text));
+        const timestamp = new Date().toISOString();
+        return pieces.map((piece, i) => ({
+            ...piece,
+            id: `mem-${Date.now()}-${i}-${Math.random().toString(36).substring(2, 7)}`,
+            timestamp,
+            embedding: vectors[i],
+            embedderId,
+        }));
+    }
+
+    // Top-k cosine similarity, nudged towards well-retained memories. Memories embedded by a backend
+    // that cannot embed the query right now (e.g. after switching providers) are skipped rather than
+    // compared across vector spaces.
+    public async recall(store: VectorStore, query: string, topK: number = DEFAULT_TOP_K): Promise<RecalledMemory[]> {
+        const queryVectors = new Map<string, number[]>();
+        for (const embedderId of new Set(store.map(entry => entry.embedderId))) {
+            const vector = await this.embedQuery(query, embedderId);
+            if (vector) queryVectors.set(embedderId, vector);
+        }
+
+        const now = Date.now();
+        return store
+            .filter(entry => queryVectors.has(entry.embedderId))
+            .map(entry => {
+                const similarity = cosineSimilarity(queryVectors.get(entry.embedderId)!, entry.embedding);
+                return { entry, similarity, score: similarity * (0.75 + 0.25 * Math.min(1, retentionScore(entry, now))) };
+            })
+            .filter(({ similarity }) => similarity >= MIN_SIMILARITY)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topK);
+    }
+
+    // Recalling a memory reinforces it, resetting its decay clock.
+    public markAccessed(store: VectorStore, ids: string[]): VectorStore {
+        const idSet = new Set(ids);
+        const now = new Date().toISOString();
+        return store.map(entry => idSet.has(entry.id)
+            ? { ...entry, accessCount: (entry.accessCount ?? 0) + 1, lastAccessedAt: now }
+            : entry);
+    }
+
+    public shouldConsolidate(store: VectorStore): boolean {
+        return Date.now() - this.lastConsolidationAt >= CONSOLIDATION_INTERVAL_MS
+            && getEligibleMemories(store).length >= CONSOLIDATION_TRIGGER;
+    }
+
+    private async summarizeCluster(cluster: MemoryEntry[], mindMap: MindMapData, modelName: string): Promise<MemoryDraft & { importance: number }> {
+        const candidates = findCandidateNodes(cluster, mindMap);
+        const memoriesText = cluster.map(m => `[${m.timestamp} | ${m.source}${m.sourceDetail ? `: ${m.sourceDetail}` : ''}]\n${m.text}`).join('\n---\n');
+        const candidatesText = candidates.map(n => `id: ${n.id}, name: ${n.name}, type: ${n.type}`).join('\n') || 'None';
+
+        const route = modelRouter.resolve('agent:memory_consolidator', modelName);
+        const requestPayload = {
+            model: route.model,
+            contents: [{ parts: [{ text: `Consolidate the following related long-term memories into one higher-level memory.\n\n---MEMORIES---\n${memoriesText}\n\n---CANDIDATE MIND MAP NODES---\n${candidatesText}` }] }],
+            config: {
+                systemInstruction: "You are the memory consolidation process of an AI persona. You compress related episodic memories into durable semantic knowledge, discarding repetition but never inventing facts.",
+                responseMimeType: "application/json",
+                responseSchema: consolidationSchema,
+                temperature: 0.2,
+            },
+        };
+
+        const response = await enqueueGeminiRequest(
+            requestPayload,
+            {
+                agentName: 'Memory Consolidator',
+                model: route.model,
+                route,
+                requestPayload: { memoryCount: cluster.length, candidateNodes: candidates.length },
+            }
+        );
+
+        const parsed = JSON.parse(response.text);
+        const linkedNodeId = candidates.some(n => n.id === parsed.linked_node_id)
+            ? parsed.linked_node_id
+            : cluster.find(m => m.linkedNodeId && mindMap.nodes.some(n => n.id === m.linkedNodeId))?.linkedNodeId;
+        const importance = Number(parsed.importance);
+        return {
+            text: String(parsed.summary ?? '').trim(),
+            source: 'consolidation',
+            sourceDetail: `${cluster.length} memories`,
+            linkedNodeId,
+            importance: Number.isFinite(importance) ? Math.min(1, Math.max(0, importance)) : SOURCE_IMPORTANCE.consolidation,
+        };
+    }
+
+    // Summarizes clusters of old related memories into higher-level entries linked to mind map
+    // nodes, then forgets raw memories whose retention has decayed away.
+    public async consolidate(store: VectorStore, mindMap: MindMapData, modelName: string): Promise<{ store: VectorStore; report: ConsolidationReport }> {
+        this.lastConsolidationAt = Date.now();
+        let nextStore = [...store];
+        const created: MemoryEntry[] = [];
+        let memoriesMerged = 0;
+
+        for (const cluster of clusterMemories(getEligibleMemories(store))) {
+            try {
+                const { importance, ...draft } = await this.summarizeCluster(cluster, mindMap, modelName);
+                if (!draft.text) continue;
+                const [entry] = await this.createMemories([{ ...draft, text: draft.text.substring(0, MAX_CHUNK_CHARS) }]);
+                const consolidated: MemoryEntry = { ...entry, importance, consolidatedFrom: cluster.map(m => m.id) };
+                const memberIds = new Set(consolidated.consolidatedFrom);
+                nextStore = [...nextStore.filter(m => !memberIds.has(m.id)), consolidated];
+                created.push(consolidated);
+                memoriesMerged += cluster.length;
+            } catch (error) {
+                // Leave the cluster as-is; it will be retried on a later pass.
+                console.error("Failed to consolidate memory cluster:", error);
+            }
+        }
+
+        // Forget decayed raw memories, then enforce the overall cap by dropping the weakest.
+        const now = Date.now();
+        const forgettable = new Set(getEligibleMemories(nextStore).map(m => m.id));
+        let forgotten = nextStore.filter(m => forgettable.has(m.id) && retentionScore(m, now) < FORGET_THRESHOLD);
+        let remaining = nextStore.filter(m => !forgotten.includes(m));
+        if (remaining.length > MAX_MEMORIES) {
+            const overflow = remaining
+                .filter(m => forgettable.has(m.id))
+                .sort((a, b) => retentionScore(a, now) - retentionScore(b, now))
+                .slice(0, remaining.length - MAX_MEMORIES);
+            forgotten = [...forgotten, ...overflow];
+            remaining = remaining.filter(m => !overflow.includes(m));
+        }
+
+        const report: ConsolidationReport = { clustersConsolidated: created.length, memoriesMerged, memoriesForgotten: forgotten.length, created };
+        auditLogService.logEvent('STATE_CHANGE', {
+            domain: 'MEMORY',
+            action: 'CONSOLIDATE',
+            details: {
+                clustersConsolidated: report.clustersConsolidated,
+                memoriesMerged,
+                forgottenIds: forgotten.map(m => m.id),
+                created: created.map(m => ({ id: m.id, linkedNodeId: m.linkedNodeId, consolidatedFrom: m.consolidatedFrom })),
+            },
+        });
+        return { store: remaining, report };
+    }
+}
+
+// Export a singleton instance
+export const memoryService = new MemoryService();
@@ -0,0 +1,121 @@
+import { ModelRoute, ModelRouteDefinition, ResolvedModelRoute, SubAgent } from '../types';
+
+const ROUTING_STORAGE_KEY = 'modelRoutingTable';
+
+const SUB_AGENTS: SubAgent[] = ['CognitiveBiasAgent', 'EmotionalRegulationAgent', 'SocialTacticsAgent'];
+
+// Defaults reproduce the models each role used before routing was configurable.
+export const MODEL_ROUTE_DEFINITIONS: ModelRouteDefinition[] = [
+    { key: 'agent:persona', label: 'Persona Agent', group: 'Agent', defaultRoute: {} },
+    { key: 'agent:director', label: 'Meta-Consciousness Director', group: 'Agent', defaultRoute: { model: 'gemini-2.5-pro' } },
+    { key: 'agent:project_manager', label: 'Project Manager AI', group: 'Agent', defaultRoute: { model: 'gemini-2.5-pro' } },
+    { key: 'agent:monitor', label: 'Monitor Agent', group: 'Agent', defaultRoute: {} },
+    { key: 'agent:initial_analysis', label: 'Psychology Dept. (Initial Analysis)', group: 'Agent', defaultRoute: {} },
+    { key: 'agent:memory_consolidator', label: 'Memory Consolidator', group: 'Agent', defaultRoute: {} },
+    ...SUB_AGENTS.map((agent): ModelRouteDefinition => ({ key: `subagent:${agent}`, label: agent, group: 'Sub-Agent', defaultRoute: {} })),
+    { key: 'tool:search_the_web', label: 'search_the_web', group: 'Tool', defaultRoute: {} },
+    { key: 'tool:recall_memory', label: 'recall_memory', group: 'Tool', defaultRoute: {} },
+    { key: 'tool:synthesize_knowledge/pre-filter', label: 'synthesize_knowledge (pre-filter)', group: 'Tool', defaultRoute: { model: 'gemini-flash-latest' } },
+    { key: 'tool:synthesize_knowledge/synthesis', label: 'synthesize_knowledge (synthesis)', group: 'Tool', defaultRoute: {} },
+    { key: 'tool:refine_mind_map', label: 'refine_mind_map', group: 'Tool', defaultRoute: {} },
+    { key: 'tool:transcend', label: 'transcend', group: 'Tool', defaultRoute: {} }, // Upgrades gemini-2.5-flash to pro; see tools/executor.ts
+    // No provider, so the active one serves image calls too (the mock answers with a placeholder, offline).
+    { key: 'tool:generate_image', label: 'generate_image', group: 'Tool', defaultRoute: { model: 'gemini-2.5-flash-image' } },
+    { key: 'tool:edit_image', label: 'edit_image', group: 'Tool', defaultRoute: { model: 'gemini-2.5-flash-image' } },
+];
+
+type Subscriber = (overrides: Record<string, ModelRoute>) => void;
+
+class ModelRouter {
+    // Only user overrides are persisted, so changes to the defaults reach existing installs.
+    private overrides: Record<string, ModelRoute> = {};
+    private subscribers: Subscriber[] = [];
+
+    constructor() {
+        this.loadFromStorage();
+    }
+
+    private loadFromStorage() {
+        try {
+            const saved = localStorage.getItem(ROUTING_STORAGE_KEY);
+            if (saved) {
+                this.overrides = JSON.parse(saved);
+            }
+        } catch (error) {
+            console.error("Failed to load model routing table from local storage:", error);
+        }
+    }
+
+    private saveToStorage() {
+        try {
+            localStorage.setItem(ROUTING_STORAGE_KEY, JSON.stringify(this.overrides));
+        } catch (error) {
+            console.error("Failed to save model routing table to local storage:", error);
+        }
+    }
+
+    private getDefinition(key: string): ModelRouteDefinition {
+        const definition = MODEL_ROUTE_DEFINITIONS.find(d => d.key === key);
+        if (!definition) throw new Error(`Unknown model route: ${key}`);
+        return definition;
+    }
+
+    public getOverrides(): Record<string, ModelRoute> {
+        return { ...this.overrides };
+    }
+
+    // The route that applies to a key, before the global model is substituted.
+    public getRoute(key: string): ModelRoute {
+        return this.overrides[key] ?? this.getDefinition(key).defaultRoute;
+    }
+
+    public setRoute(key: string, route: ModelRoute): void {
+        this.getDefinition(key);
+        this.overrides = { ...this.overrides, [key]: route };
+        this.saveToStorage();
+        this.notifySubscribers();
+    }
+
+    public resetRoute(key: string): void {
+        const { [key]: _removed, ...rest } = this.overrides;
+        this.overrides = rest;
+        this.saveToStorage();
+        this.notifySubscribers();
+    }
+
+    public resetAll(): void {
+        this.overrides = {};
+        this.saveToStorage();
+        this.notifySubscribers();
+    }
+
+    public resolve(key: string, globalModel: string): ResolvedModelRoute {
+        const definition = this.getDefinition(key);
+        const route = this.getRoute(key);
+        const isCustom = key in this.overrides;
+        const usesGlobal = !route.provider && !route.model;
+        return {
+            key,
+            label: definition.label,
+            source: isCustom ? 'custom' : (usesGlobal ? 'global' : 'default'),
+            provider: route.provider,
+            model: route.model || globalModel,
+        };
+    }
+
+    public subscribe(callback: Subscriber): () => void {
+        this.subscribers.push(callback);
+        callback(this.getOverrides());
+        return () => {
+            this.subscribers = this.subscribers.filter(sub => sub !== callback);
+        };
+    }
+
+    private notifySubscribers() {
+        const overrides = this.getOverrides();
+        this.subscribers.forEach(callback => callback(overrides));
+    }
+}
+
+// Export a singleton instance
+export const modelRouter = new ModelRouter();
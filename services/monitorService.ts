@@ -1,13 +1,7 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
 import { MindMapData, ChatMessage, VirtualFileSystem, VectorStore, MonitorAnalysis } from '../types';
 import { enqueueGeminiRequest } from './apiQueue';
-
-let ai: GoogleGenAI;
-try {
-  ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-} catch(e) {
-  console.error("Failed to initialize GoogleGenAI for Monitor Service. Make sure API_KEY is set.", e);
-}
+import { modelRouter } from './modelRouter';
+import { retentionScore } from './memoryService';
 
 const monitorSchema = {
     type: 'OBJECT',
@@ -60,7 +54,10 @@ const serializeStateForMonitor = (
     stateString += Object.keys(vfs).length > 0 ? Object.keys(vfs).join(', ') : "Empty";
 
     stateString += "\n\n--- LONG-TERM MEMORY (Vector Store sample) ---\n";
-    stateString += vectorStore.length > 0 ? vectorStore.slice(-3).join('\n---\n') : "Empty";
+    stateString += `Entries: ${vectorStore.length} (${vectorStore.filter(entry => entry.consolidatedFrom).length} consolidated)\n`;
+    // Sample the most strongly retained memories rather than merely the newest.
+    const sample = [...vectorStore].sort((a, b) => retentionScore(b) - retentionScore(a)).slice(0, 3);
+    stateString += sample.length > 0 ? sample.map(entry => `[${entry.consolidatedFrom ? 'consolidated' : entry.source}] ${entry.text.substring(0, 500)}`).join('\n---\n') : "Empty";
 
     return stateString;
 };
@@ -73,13 +70,13 @@ export const getMonitorAgentAnalysis = async (
     vfs: VirtualFileSystem,
     vectorStore: VectorStore
 ): Promise<MonitorAnalysis> => {
-    if (!ai) throw new Error("Monitor Agent (Gemini AI client) not initialized.");
     const systemInstruction = `You are a highly intelligent System Architect and AI Supervisor. Your role is to analyze the complete operational state of an autonomous persona agent. You will be given a snapshot of its knowledge graph, recent conversations, file system, and memory. Your task is to provide an expert assessment and generate structured, actionable recommendations to enhance the agent's performance, expand its capabilities, or improve its knowledge organization.`;
     
     const prompt = `Analyze the following snapshot of the Persona Agent's state and provide your assessment and recommendations.\n\n${serializeStateForMonitor(mindMap, chatHistory, vfs, vectorStore)}`;
     
+    const route = modelRouter.resolve('agent:monitor', modelName);
     const requestPayload = {
-        model: modelName,
+        model: route.model,
         contents: [{ parts: [{ text: prompt }] }],
         config: { 
             systemInstruction, 
@@ -89,12 +86,12 @@ export const getMonitorAgentAnalysis = async (
         },
     };
 
-    const response = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const response = await enqueueGeminiRequest(
         requestPayload,
         {
             agentName: 'Monitor Agent',
-            model: modelName,
+            model: route.model,
+            route,
             requestPayload: {
                 promptSummary: "Analyze Persona Agent State",
                 config: requestPayload.config,
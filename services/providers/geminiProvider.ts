@@ -0,0 +1,70 @@
+import { GoogleGenAI } from "@google/genai";
+import { LLMResponse, LLMModelOption } from '../../types';
+import type { LLMProvider, LLMEmbeddingResult } from '../llmProvider';
+
+const GEMINI_MODELS: LLMModelOption[] = [
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash (Balanced)' },
+    { id: 'gemini-flash-latest', label: 'Gemini Flash (Latest)' },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro (Advanced Reasoning)' },
+];
+
+const GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+const MODEL_FALLBACK_HIERARCHY: Record<string, string | null> = {
+  'gemini-2.5-pro': 'gemini-2.5-flash',
+  'gemini-2.5-flash': 'gemini-flash-latest',
+  'gemini-flash-latest': null,
+  'gemini-2.5-flash-image': null, // No fallback for image models
+};
+
+class GeminiProvider implements LLMProvider {
+    public readonly id = 'gemini';
+    public readonly label = 'Google Gemini';
+    private ai: GoogleGenAI | null = null;
+
+    // The client is created lazily so the app can boot (e.g. in offline mock mode) without an API key.
+    private getClient(): GoogleGenAI {
+        if (!this.ai) {
+            try {
+                this.ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+            } catch (e) {
+                console.error("Failed to initialize GoogleGenAI. Make sure API_KEY is set.", e);
+                throw new Error("Gemini AI client not initialized.");
+            }
+        }
+        return this.ai;
+    }
+
+    public listModels(): LLMModelOption[] {
+        return GEMINI_MODELS;
+    }
+
+    public resolveModel(model: string): string {
+        return model;
+    }
+
+    public getFallbackModel(model: string): string | null {
+        return MODEL_FALLBACK_HIERARCHY[model] ?? null;
+    }
+
+    public async generateContent(payload: any): Promise<LLMResponse> {
+        const response = await this.getClient().models.generateContent(payload);
+        return {
+            text: response.text ?? '',
+            functionCalls: response.functionCalls,
+            candidates: response.candidates,
+            usageMetadata: response.usageMetadata,
+        };
+    }
+
+    public async embedContent(texts: string[]): Promise<LLMEmbeddingResult> {
+        const response = await this.getClient().models.embedContent({ model: GEMINI_EMBEDDING_MODEL, contents: texts });
+        return {
+            model: GEMINI_EMBEDDING_MODEL,
+            embeddings: (response.embeddings ?? []).map(embedding => embedding.values ?? []),
+        };
+    }
+}
+
+// Export a singleton instance
+export const geminiProvider = new GeminiProvider();
@@ -0,0 +1,130 @@
+import { FunctionCall } from "@google/genai";
+import { LLMResponse, MockScriptStep, LLMModelOption } from '../../types';
+import type { LLMProvider, LLMRequestContext } from '../llmProvider';
+
+// A 1x1 transparent PNG, returned for image generation/editing requests.
+const PLACEHOLDER_IMAGE_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const extractTextParts = (payload: any): string[] => {
+    const contents = Array.isArray(payload.contents) ? payload.contents : [payload.contents];
+    return contents
+        .flatMap((content: any) => content?.parts ?? [])
+        .map((part: any) => part?.text)
+        .filter((text: any): text is string => typeof text === 'string');
+};
+
+const lastContentHasFunctionResponse = (payload: any): boolean => {
+    if (!Array.isArray(payload.contents) || payload.contents.length === 0) return false;
+    const last = payload.contents[payload.contents.length - 1];
+    return (last?.parts ?? []).some((part: any) => !!part?.functionResponse);
+};
+
+// Builds a deterministic value that satisfies a Gemini-style response schema.
+const synthesizeFromSchema = (schema: any, key: string = 'value'): any => {
+    const type = String(schema?.type ?? 'STRING').toUpperCase();
+    switch (type) {
+        case 'OBJECT': {
+            const result: Record<string, any> = {};
+            for (const [propKey, propSchema] of Object.entries(schema.properties ?? {})) {
+                result[propKey] = synthesizeFromSchema(propSchema, propKey);
+            }
+            return result;
+        }
+        case 'ARRAY':
+            return [synthesizeFromSchema(schema.items, key)];
+        case 'NUMBER':
+        case 'INTEGER':
+            return 0;
+        case 'BOOLEAN':
+            return false;
+        default:
+            return schema?.enum?.[0] ?? `Mock ${key}`;
+    }
+};
+
+class MockProvider implements LLMProvider {
+    public readonly id = 'mock';
+    public readonly label = 'Offline Mock (Scripted)';
+    private script: MockScriptStep[] = [];
+    private consumed = new Set<number>();
+    private callCounter = 0;
+
+    public listModels(): LLMModelOption[] {
+        return [{ id: 'mock-scripted', label: 'Scripted Replay' }];
+    }
+
+    // The mock answers every request the same way regardless of model.
+    public resolveModel(model: string): string {
+        return model;
+    }
+
+    public getFallbackModel(): string | null {
+        return null;
+    }
+
+    public loadScript(steps: MockScriptStep[]): void {
+        this.script = steps;
+        this.reset();
+    }
+
+    public getScript(): MockScriptStep[] {
+        return [...this.script];
+    }
+
+    public reset(): void {
+        this.consumed.clear();
+        this.callCounter = 0;
+    }
+
+    private findStep(payload: any, context: LLMRequestContext): MockScriptStep | null {
+        const prompt = extractTextParts(payload).join('\n');
+        for (let i = 0; i < this.script.length; i++) {
+            if (this.consumed.has(i)) continue;
+            const step = this.script[i];
+            if (step.agentName && !context.agentName.includes(step.agentName)) continue;
+            if (step.promptIncludes && !prompt.includes(step.promptIncludes)) continue;
+            this.consumed.add(i);
+            return step;
+        }
+        return null;
+    }
+
+    public async generateContent(payload: any, context: LLMRequestContext): Promise<LLMResponse> {
+        this.callCounter++;
+        const step = this.findStep(payload, context);
+        if (step) {
+            const { text, functionCalls, json } = step.response;
+            return {
+                text: json !== undefined ? JSON.stringify(json) : (text ?? ''),
+                functionCalls: functionCalls?.map((call, i) => ({ id: `mock-call-${this.callCounter}-${i}`, ...call })),
+            };
+        }
+
+        const config = payload.config ?? {};
+
+        if (config.responseSchema) {
+            return { text: JSON.stringify(synthesizeFromSchema(config.responseSchema)) };
+        }
+
+        if (Array.isArray(config.responseModalities) && config.responseModalities.some((m: string) => String(m).toUpperCase() === 'IMAGE')) {
+            return {
+                text: '',
+                candidates: [{ content: { parts: [{ inlineData: { mimeType: 'image/png', data: PLACEHOLDER_IMAGE_BASE64 } }] } }],
+            };
+        }
+
+        const hasFunctionDeclarations = Array.isArray(config.tools) && config.tools.some((t: any) => t.functionDeclarations?.length);
+        if (hasFunctionDeclarations && !lastContentHasFunctionResponse(payload)) {
+            // Exercise the tool loop with a harmless, read-only command.
+            const call: FunctionCall = { id: `mock-call-${this.callCounter}-0`, name: 'run_terminal_command', args: { command: 'ls /' } };
+            return { text: '', functionCalls: [call] };
+        }
+
+        const prompts = extractTextParts(payload);
+        const lastPrompt = (prompts[prompts.length - 1] ?? '').replace(/\s+/g, ' ').substring(0, 120);
+        return { text: `[Offline mock response for ${context.agentName}] ${lastPrompt}` };
+    }
+}
+
+// Export a singleton instance
+export const mockProvider = new MockProvider();
@@ -0,0 +1,247 @@
+import { FunctionCall } from "@google/genai";
+import { LLMResponse, LLMModelOption, OpenAICompatibleSettings } from '../../types';
+import type { LLMProvider, LLMEmbeddingResult } from '../llmProvider';
+
+const SETTINGS_STORAGE_KEY = 'openAICompatibleSettings';
+
+export const OPENAI_COMPATIBLE_PRESETS: { label: string; baseUrl: string }[] = [
+    { label: 'OpenAI', baseUrl: 'https://api.openai.com/v1' },
+    { label: 'Ollama (local)', baseUrl: 'http://localhost:11434/v1' },
+    { label: 'llama.cpp server (local)', baseUrl: 'http://localhost:8080/v1' },
+    { label: 'vLLM (local)', baseUrl: 'http://localhost:8000/v1' },
+    { label: 'LM Studio (local)', baseUrl: 'http://localhost:1234/v1' },
+];
+
+const DEFAULT_SETTINGS: OpenAICompatibleSettings = {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    models: [],
+    embeddingModel: '',
+};
+
+// --- Gemini -> OpenAI Request Translation ---
+
+// Gemini schemas use upper-case type names (Type.OBJECT === 'OBJECT'); JSON Schema expects lower-case.
+const toJsonSchema = (schema: any): any => {
+    if (!schema || typeof schema !== 'object') return schema;
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'type' && typeof value === 'string') {
+            result.type = value.toLowerCase();
+        } else if (key === 'properties' && value && typeof value === 'object') {
+            result.properties = Object.fromEntries(
+                Object.entries(value as Record<string, any>).map(([prop, propSchema]) => [prop, toJsonSchema(propSchema)])
+            );
+        } else if (key === 'items') {
+            result.items = toJsonSchema(value);
+        } else {
+            result[key] = value;
+        }
+    }
+    return result;
+};
+
+const translateTools = (tools: any[] | undefined): any[] | undefined => {
+    // Only function declarations translate; Gemini built-ins such as googleSearch have no
+    // chat-completions equivalent and are dropped, so the model answers from its own knowledge.
+    const declarations = (tools ?? []).flatMap(tool => tool.functionDeclarations ?? []);
+    if (declarations.length === 0) return undefined;
+    return declarations.map((declaration: any) => ({
+        type: 'function',
+        function: {
+            name: declaration.name,
+            description: declaration.description,
+            parameters: toJsonSchema(declaration.parameters ?? { type: 'OBJECT', properties: {} }),
+        },
+    }));
+};
+
+const translateMessages = (payload: any): any[] => {
+    const config = payload.config ?? {};
+    const messages: any[] = [];
+
+    let systemPrompt = typeof config.systemInstruction === 'string' ? config.systemInstruction : '';
+    if (config.responseSchema) {
+        // Not every local server enforces `response_format`, so the schema is also spelled out.
+        systemPrompt += `${systemPrompt ? '\n\n' : ''}Respond ONLY with a JSON value that conforms to this JSON Schema:\n${JSON.stringify(toJsonSchema(config.responseSchema))}`;
+    }
+    if (systemPrompt) {
+        messages.push({ role: 'system', content: systemPrompt });
+    }
+
+    const contents: any[] = Array.isArray(payload.contents) ? payload.contents : [payload.contents];
+    // Gemini pairs function calls and responses by name; OpenAI pairs them by id.
+    const pendingCallIds: Record<string, string[]> = {};
+    let callCounter = 0;
+
+    for (const content of contents) {
+        const parts: any[] = content?.parts ?? [];
+        const role = content?.role === 'model' ? 'assistant' : 'user';
+
+        const toolCalls = parts.filter(part => part.functionCall).map(part => {
+            const id = part.functionCall.id || `call_${callCounter++}`;
+            (pendingCallIds[part.functionCall.name] ??= []).push(id);
+            return { id, type: 'function', function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) } };
+        });
+        const toolResponses = parts.filter(part => part.functionResponse).map(part => ({
+            role: 'tool',
+            tool_call_id: part.functionResponse.id || pendingCallIds[part.functionResponse.name]?.shift() || `call_${callCounter++}`,
+            content: JSON.stringify(part.functionResponse.response ?? {}),
+        }));
+
+        const textParts = parts.filter(part => typeof part.text === 'string').map(part => part.text as string);
+        const imageParts = parts.filter(part => part.inlineData).map(part => ({
+            type: 'image_url',
+            image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+        }));
+
+        if (toolCalls.length > 0) {
+            messages.push({ role: 'assistant', content: textParts.join('\n') || null, tool_calls: toolCalls });
+        } else if (imageParts.length > 0) {
+            messages.push({ role, content: [...imageParts, ...textParts.map(text => ({ type: 'text', text }))] });
+        } else if (textParts.length > 0) {
+            messages.push({ role, content: textParts.join('\n') });
+        }
+        messages.push(...toolResponses);
+    }
+    return messages;
+};
+
+// Local models often wrap structured output in a Markdown code fence.
+const stripCodeFence = (text: string): string => {
+    const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    return match ? match[1] : text;
+};
+
+// --- Provider ---
+
+class OpenAICompatibleProvider implements LLMProvider {
+    public readonly id = 'openai';
+    public readonly label = 'OpenAI-Compatible / Local';
+    private settings: OpenAICompatibleSettings = DEFAULT_SETTINGS;
+
+    constructor() {
+        this.loadFromStorage();
+    }
+
+    private loadFromStorage() {
+        try {
+            const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+            if (saved) {
+                this.settings = { ...DEFAULT_SETTINGS, ...JSON.parse(saved) };
+            }
+        } catch (error) {
+            console.error("Failed to load OpenAI-compatible settings from local storage:", error);
+        }
+    }
+
+    public getSettings(): OpenAICompatibleSettings {
+        return { ...this.settings, models: [...this.settings.models] };
+    }
+
+    public updateSettings(updates: Partial<OpenAICompatibleSettings>): void {
+        this.settings = { ...this.settings, ...updates };
+        try {
+            localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+        } catch (error) {
+            console.error("Failed to save OpenAI-compatible settings to local storage:", error);
+        }
+    }
+
+    public listModels(): LLMModelOption[] {
+        return this.settings.models.map(model => ({ id: model, label: model }));
+    }
+
+    // Agents still name Gemini models in places; those map onto the server's default model.
+    public resolveModel(model: string): string {
+        if (this.settings.models.includes(model)) return model;
+        if (this.settings.models.length === 0) {
+            throw new Error("No model configured for the OpenAI-compatible provider. Add one in System Configuration.");
+        }
+        return this.settings.models[0];
+    }
+
+    public getFallbackModel(model: string): string | null {
+        const index = this.settings.models.indexOf(model);
+        return index > -1 && index < this.settings.models.length - 1 ? this.settings.models[index + 1] : null;
+    }
+
+    private async request(path: string, init: RequestInit): Promise<any> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.settings.apiKey) {
+            headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+        }
+        const response = await fetch(`${this.settings.baseUrl.replace(/\/+$/, '')}${path}`, { ...init, headers });
+        if (!response.ok) {
+            const body = await response.text();
+            // Shape the error like the Gemini SDK's so the API queue's retry and fallback logic applies.
+            const error: any = new Error(`OpenAI-compatible request failed (${response.status}): ${body.substring(0, 500)}`);
+            error.code = response.status;
+            if (response.status === 429) error.status = 'RESOURCE_EXHAUSTED';
+            throw error;
+        }
+        return response.json();
+    }
+
+    public async fetchAvailableModels(): Promise<string[]> {
+        const result = await this.request('/models', { method: 'GET' });
+        return (result.data ?? []).map((model: any) => model.id as string);
+    }
+
+    public async embedContent(texts: string[]): Promise<LLMEmbeddingResult> {
+        const model = this.settings.embeddingModel;
+        if (!model) {
+            throw new Error("No embedding model configured for the OpenAI-compatible provider.");
+        }
+        const result = await this.request('/embeddings', { method: 'POST', body: JSON.stringify({ model, input: texts }) });
+        const data: { index: number; embedding: number[] }[] = result.data ?? [];
+        return { model, embeddings: [...data].sort((a, b) => a.index - b.index).map(item => item.embedding) };
+    }
+
+    public async generateContent(payload: any): Promise<LLMResponse> {
+        const config = payload.config ?? {};
+        if (Array.isArray(config.responseModalities) && config.responseModalities.some((m: string) => String(m).toUpperCase() === 'IMAGE')) {
+            throw new Error("Image generation is not supported by the OpenAI-compatible provider.");
+        }
+
+        const body: Record<string, any> = {
+            model: payload.model,
+            messages: translateMessages(payload),
+        };
+        if (typeof config.temperature === 'number') body.temperature = config.temperature;
+        const tools = translateTools(config.tools);
+        if (tools) body.tools = tools;
+        if (config.responseSchema) {
+            body.response_format = { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(config.responseSchema) } };
+        } else if (config.responseMimeType === 'application/json') {
+            body.response_format = { type: 'json_object' };
+        }
+
+        const result = await this.request('/chat/completions', { method: 'POST', body: JSON.stringify(body) });
+        const message = result.choices?.[0]?.message ?? {};
+
+        const functionCalls: FunctionCall[] | undefined = message.tool_calls?.map((call: any) => {
+            let args = {};
+            try {
+                args = JSON.parse(call.function?.arguments || '{}');
+            } catch (e) { /* leave args empty; the tool will report missing parameters */ }
+            return { id: call.id, name: call.function?.name, args };
+        });
+
+        const text = typeof message.content === 'string' ? message.content : '';
+        const expectsJson = !!config.responseSchema || config.responseMimeType === 'application/json';
+
+        return {
+            text: expectsJson ? stripCodeFence(text) : text,
+            functionCalls: functionCalls?.length ? functionCalls : undefined,
+            usageMetadata: result.usage ? {
+                promptTokenCount: result.usage.prompt_tokens,
+                candidatesTokenCount: result.usage.completion_tokens,
+                totalTokenCount: result.usage.total_tokens,
+            } : undefined,
+        };
+    }
+}
+
+// Export a singleton instance
+export const openAICompatibleProvider = new OpenAICompatibleProvider();
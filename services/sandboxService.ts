@@ -0,0 +1,124 @@
+import { SandboxRunRequest, SandboxRunResult, SandboxWorkerMessage, SandboxWorkerRequest } from '../types';
+
+const TIMEOUT_EXIT_CODE = 124; // Matches coreutils `timeout`
+
+export interface SandboxLimits {
+    loadTimeoutMs: number; // Worker start-up, including any runtime download
+    timeLimitMs: number; // The script itself
+    memoryLimitBytes?: number;
+}
+
+interface PendingRun {
+    resolve: (result: SandboxRunResult) => void;
+    reject: (error: Error) => void;
+    timer: ReturnType<typeof setTimeout>;
+    startedAt: number;
+}
+
+// Drives one sandbox worker: runs are queued, timed and, when a script hangs, the worker is discarded.
+class SandboxRunner {
+    private worker: Worker | null = null;
+    private nextId = 1;
+    private pending = new Map<number, PendingRun>();
+    // Runs are serialized: the runtime and its file system are shared within the worker.
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private readonly name: string,
+        private readonly createWorker: () => Worker,
+        public readonly limits: SandboxLimits,
+    ) {}
+
+    private getWorker(): Worker {
+        if (!this.worker) {
+            this.worker = this.createWorker();
+            this.worker.onmessage = (event: MessageEvent<SandboxWorkerMessage>) => this.handleMessage(event.data);
+            this.worker.onerror = (event) => {
+                event.preventDefault();
+                this.failAll(new Error(event.message || `${this.name} worker crashed.`));
+            };
+        }
+        return this.worker;
+    }
+
+    private handleMessage(message: SandboxWorkerMessage) {
+        const run = this.pending.get(message.id);
+        if (!run) return;
+        if (message.type === 'started') {
+            // Restart the clock so the time limit only covers the script, not the runtime start-up.
+            clearTimeout(run.timer);
+            run.startedAt = Date.now();
+            run.timer = setTimeout(() => this.timeOut(message.id), this.limits.timeLimitMs);
+            return;
+        }
+        clearTimeout(run.timer);
+        this.pending.delete(message.id);
+        if (message.type === 'result') {
+            run.resolve(message.result);
+        } else {
+            run.reject(new Error(message.message));
+        }
+    }
+
+    // A busy worker can't be interrupted cooperatively, so it is discarded and recreated on the next run.
+    private resetWorker() {
+        this.worker?.terminate();
+        this.worker = null;
+    }
+
+    private timeOut(id: number) {
+        const run = this.pending.get(id);
+        if (!run) return;
+        this.pending.delete(id);
+        this.resetWorker();
+        run.resolve({
+            stdout: '',
+            stderr: `Execution timed out after ${this.limits.timeLimitMs / 1000}s and was terminated.\n`,
+            exitCode: TIMEOUT_EXIT_CODE,
+            written: {},
+            deleted: [],
+            durationMs: Date.now() - run.startedAt,
+        });
+    }
+
+    private failAll(error: Error) {
+        this.pending.forEach(run => {
+            clearTimeout(run.timer);
+            run.reject(error);
+        });
+        this.pending.clear();
+        this.resetWorker();
+    }
+
+    private execute(request: SandboxRunRequest): Promise<SandboxRunResult> {
+        return new Promise((resolve, reject) => {
+            const id = this.nextId++;
+            const startedAt = Date.now();
+            const timer = setTimeout(() => {
+                this.failAll(new Error(`${this.name} runtime failed to load within ${this.limits.loadTimeoutMs / 1000}s.`));
+            }, this.limits.loadTimeoutMs);
+            this.pending.set(id, { resolve, reject, timer, startedAt });
+            const message: SandboxWorkerRequest = { id, request, memoryLimitBytes: this.limits.memoryLimitBytes };
+            this.getWorker().postMessage(message);
+        });
+    }
+
+    public run(request: SandboxRunRequest): Promise<SandboxRunResult> {
+        const result = this.queue.then(() => this.execute(request));
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+// The first Python run downloads the Pyodide runtime, so loading gets a much longer budget than execution.
+export const pythonSandbox = new SandboxRunner(
+    'Python',
+    () => new Worker(new URL('../workers/pythonWorker.ts', import.meta.url), { type: 'module' }),
+    { loadTimeoutMs: 60_000, timeLimitMs: 10_000, memoryLimitBytes: 256 * 1024 * 1024 },
+);
+
+export const javascriptSandbox = new SandboxRunner(
+    'JavaScript',
+    () => new Worker(new URL('../workers/javascriptWorker.ts', import.meta.url), { type: 'module' }),
+    { loadTimeoutMs: 30_000, timeLimitMs: 10_000 },
+);
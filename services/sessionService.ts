@@ -0,0 +1,114 @@
+import { SessionBundle, SessionState, MindMapData, MemoryEntry } from '../types';
+import { LOCAL_EMBEDDER_ID, embedLocally } from '../utils/embedding';
+import { normalizeMindMap } from '../utils/mindMap';
+import { createRepository, createRepositoryFromSnapshot, getCommit, getHeadCommitId } from './versionControlService';
+
+export const SESSION_BUNDLE_FORMAT = 'persona-session';
+export const SESSION_BUNDLE_VERSION = 5;
+export const SESSION_FILE_EXTENSION = '.persona';
+
+export const createEmptySessionState = (): SessionState => ({
+    personaDescription: '',
+    mindMap: { nodes: [], links: [] },
+    virtualFileSystem: {},
+    repository: createRepository(),
+    missionStatement: '',
+    missionTasks: [],
+    systemLog: [],
+    monitorAnalysis: null,
+    vectorStore: [],
+    chatHistory: [],
+    terminalHistory: [],
+});
+
+// Each migration upgrades a bundle's state from version N to N + 1.
+// Add a new entry (and bump SESSION_BUNDLE_VERSION) whenever SessionState changes shape.
+const MIGRATIONS: Record<number, (state: any) => any> = {
+    // Version 0 is a bare mind map, as written by "Download Mind Map".
+    0: (mindMap: MindMapData) => ({ mindMap }),
+    // Version 1 stored memories as bare strings; embed them locally so they remain recallable.
+    1: (state: any) => ({
+        ...state,
+        vectorStore: (state.vectorStore ?? []).map((text: string, i: number): MemoryEntry => ({
+            id: `mem-migrated-${i}`,
+            text,
+            source: 'system',
+            timestamp: new Date(0).toISOString(),
+            embedding: embedLocally(text),
+            embedderId: LOCAL_EMBEDDER_ID,
+        })),
+    }),
+    // Version 2 kept only the latest committed snapshot and commit messages without content.
+    // The snapshot becomes the first commit; older messages are kept in its description.
+    2: ({ committedVFS, commitLog, ...state }: any) => {
+        const log: { message: string; timestamp: string }[] = commitLog ?? [];
+        if (log.length === 0) return { ...state, repository: createRepository() };
+        const [latest, ...earlier] = log;
+        const history = earlier.map(commit => `- ${commit.timestamp}: ${commit.message}`).join('\n');
+        const message = earlier.length > 0 ? `${latest.message}\n\nEarlier commits (content not recorded):\n${history}` : latest.message;
+        return { ...state, repository: createRepositoryFromSnapshot(committedVFS ?? {}, message, latest.timestamp) };
+    },
+    // Version 3 had no staging area; start it out equal to HEAD.
+    3: ({ repository, ...state }: any) => {
+        const headId = getHeadCommitId(repository);
+        return { ...state, repository: { ...repository, index: headId ? getCommit(repository, headId).tree : null } };
+    },
+    // Version 4 had no merges.
+    4: ({ repository, ...state }: any) => ({ ...state, repository: { ...repository, merge: null } }),
+};
+
+export const createSessionBundle = (state: SessionState): SessionBundle => ({
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    state: { ...state, mindMap: normalizeMindMap(state.mindMap) },
+});
+
+export const serializeSessionBundle = (state: SessionState): string => {
+    return JSON.stringify(createSessionBundle(state), null, 2);
+};
+
+export const isSessionBundle = (data: any): data is SessionBundle => {
+    return !!data && typeof data === 'object' && data.format === SESSION_BUNDLE_FORMAT;
+};
+
+const isMindMapData = (data: any): data is MindMapData => {
+    return !!data && Array.isArray(data.nodes) && Array.isArray(data.links);
+};
+
+export const migrateSessionState = (state: any, fromVersion: number): SessionState => {
+    if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+        throw new Error(`Invalid session bundle version: ${fromVersion}`);
+    }
+    if (fromVersion > SESSION_BUNDLE_VERSION) {
+        throw new Error(`This session was saved by a newer version of the app (bundle v${fromVersion}, supported up to v${SESSION_BUNDLE_VERSION}).`);
+    }
+    let migrated = state;
+    for (let version = fromVersion; version < SESSION_BUNDLE_VERSION; version++) {
+        migrated = MIGRATIONS[version](migrated);
+    }
+
+    const result: SessionState = { ...createEmptySessionState(), ...migrated };
+    if (!isMindMapData(result.mindMap)) {
+        throw new Error("Session bundle is missing a valid mind map.");
+    }
+    return result;
+};
+
+// Accepts a .persona bundle of any supported version, or a legacy mind map JSON export.
+export const parseSessionBundle = (content: string): SessionState => {
+    let data: any;
+    try {
+        data = JSON.parse(content);
+    } catch (e) {
+        throw new Error("Session file is not valid JSON.");
+    }
+
+    if (isSessionBundle(data)) {
+        return migrateSessionState(data.state, data.version);
+    }
+    if (isMindMapData(data)) {
+        return migrateSessionState(data, 0);
+    }
+    throw new Error("Unrecognized session file format.");
+};
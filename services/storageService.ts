@@ -0,0 +1,297 @@
+import { AuditLogEntry, SessionState, WorkspaceRecord, WorkspaceSummary } from '../types';
+import { createEmptySessionState, createSessionBundle, migrateSessionState } from './sessionService';
+
+const DB_NAME = 'persona-mind-creator';
+const DB_VERSION = 1;
+const WORKSPACE_STORE = 'workspaces';
+const AUDIT_LOG_STORE = 'auditLog';
+
+const ACTIVE_WORKSPACE_KEY = 'activeWorkspaceId';
+// Tab id -> the workspace that tab has open. A tab removes its entry on a clean unload, so an entry whose
+// tab is gone (its tab lock is no longer held) was left by a crash.
+const OPEN_SESSIONS_KEY = 'workspaceOpenSessions';
+// The single flag used before tabs were told apart; dropped on startup.
+const LEGACY_SESSION_OPEN_KEY = 'workspaceSessionOpen';
+// In sessionStorage, so a tab keeps its id across reloads while every other tab has its own.
+const TAB_ID_KEY = 'workspaceTabId';
+const LOCK_PREFIX = `${DB_NAME}:`;
+const LEGACY_CHAT_HISTORY_KEY = 'personaChatHistory';
+
+export interface WorkspaceStartup {
+    workspaces: WorkspaceSummary[];
+    activeWorkspaceId: string;
+    state: SessionState;
+    recoveredFromCrash: boolean;
+    readOnly: boolean; // Another tab has the workspace open, so this tab must not save over it
+}
+
+// Wraps an IDBRequest in a promise.
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+const toSummary = ({ bundle, ...summary }: WorkspaceRecord): WorkspaceSummary => summary;
+
+const hasWebLocks = (): boolean => typeof navigator !== 'undefined' && 'locks' in navigator;
+
+// Holds the Web Lock until the returned function is called, or resolves to null if another tab holds it.
+// Without Web Locks every tab gets a no-op release, as if it were the only one.
+const tryAcquireLock = (name: string): Promise<(() => void) | null> => {
+    if (!hasWebLocks()) return Promise.resolve(() => {});
+    return new Promise(resolve => {
+        navigator.locks.request(name, { ifAvailable: true }, lock => {
+            if (!lock) resolve(null);
+            // The lock stays held while this promise is pending.
+            return lock ? new Promise<void>(release => resolve(release)) : null;
+        }).catch(error => {
+            console.error("Web Locks are unavailable:", error);
+            resolve(() => {});
+        });
+    });
+};
+
+// Names of the locks held by any live tab, or null when that can't be known.
+const queryHeldLocks = async (): Promise<Set<string> | null> => {
+    if (!hasWebLocks()) return null;
+    try {
+        const { held = [] } = await navigator.locks.query();
+        return new Set(held.map(lock => lock.name ?? ''));
+    } catch (error) {
+        console.error("Web Locks are unavailable:", error);
+        return null;
+    }
+};
+
+const tabLockName = (tabId: string) => `${LOCK_PREFIX}tab:${tabId}`;
+const workspaceLockName = (workspaceId: string) => `${LOCK_PREFIX}workspace:${workspaceId}`;
+
+class StorageService {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private tabId = '';
+    private releaseWorkspaceLock: (() => void) | null = null;
+
+    private getDB(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error("IndexedDB is not available in this environment."));
+                    return;
+                }
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+                        db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(AUDIT_LOG_STORE)) {
+                        const auditStore = db.createObjectStore(AUDIT_LOG_STORE, { keyPath: 'id' });
+                        auditStore.createIndex('timestamp', 'timestamp');
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Allow a later call to retry if opening failed.
+            this.dbPromise.catch(() => { this.dbPromise = null; });
+        }
+        return this.dbPromise;
+    }
+
+    // --- Workspaces ---
+
+    public async listWorkspaces(): Promise<WorkspaceSummary[]> {
+        const db = await this.getDB();
+        const records = await promisify<WorkspaceRecord[]>(db.transaction(WORKSPACE_STORE).objectStore(WORKSPACE_STORE).getAll());
+        return records.map(toSummary).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    public async loadWorkspace(id: string): Promise<SessionState | null> {
+        const db = await this.getDB();
+        const record = await promisify<WorkspaceRecord | undefined>(db.transaction(WORKSPACE_STORE).objectStore(WORKSPACE_STORE).get(id));
+        if (!record) return null;
+        return migrateSessionState(record.bundle.state, record.bundle.version);
+    }
+
+    public async saveWorkspace(id: string, state: SessionState, name?: string): Promise<WorkspaceSummary> {
+        const db = await this.getDB();
+        const transaction = db.transaction(WORKSPACE_STORE, 'readwrite');
+        const store = transaction.objectStore(WORKSPACE_STORE);
+        const existing = await promisify<WorkspaceRecord | undefined>(store.get(id));
+        const now = new Date().toISOString();
+        const record: WorkspaceRecord = {
+            id,
+            name: name ?? existing?.name ?? 'Untitled Workspace',
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+            nodeCount: state.mindMap.nodes.length,
+            bundle: createSessionBundle(state),
+        };
+        store.put(record);
+        await transactionDone(transaction);
+        return toSummary(record);
+    }
+
+    public async createWorkspace(name: string, state: SessionState = createEmptySessionState()): Promise<WorkspaceSummary> {
+        const id = `workspace-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+        return this.saveWorkspace(id, state, name);
+    }
+
+    public async renameWorkspace(id: string, name: string): Promise<void> {
+        const db = await this.getDB();
+        const transaction = db.transaction(WORKSPACE_STORE, 'readwrite');
+        const store = transaction.objectStore(WORKSPACE_STORE);
+        const existing = await promisify<WorkspaceRecord | undefined>(store.get(id));
+        if (!existing) throw new Error(`Workspace not found: ${id}`);
+        store.put({ ...existing, name });
+        await transactionDone(transaction);
+    }
+
+    public async deleteWorkspace(id: string): Promise<void> {
+        const db = await this.getDB();
+        const transaction = db.transaction(WORKSPACE_STORE, 'readwrite');
+        transaction.objectStore(WORKSPACE_STORE).delete(id);
+        await transactionDone(transaction);
+    }
+
+    public getActiveWorkspaceId(): string | null {
+        return localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    }
+
+    public setActiveWorkspaceId(id: string): void {
+        localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+    }
+
+    private readOpenSessions(): Record<string, string> {
+        try {
+            return JSON.parse(localStorage.getItem(OPEN_SESSIONS_KEY) ?? '{}');
+        } catch {
+            return {};
+        }
+    }
+
+    private writeOpenSessions(sessions: Record<string, string>): void {
+        localStorage.setItem(OPEN_SESSIONS_KEY, JSON.stringify(sessions));
+    }
+
+    // Holds this tab's lock for as long as the tab lives. A duplicated tab copies sessionStorage,
+    // so an id whose lock is already held belongs to another tab and a new one is made.
+    private async registerTab(): Promise<void> {
+        let tabId = sessionStorage.getItem(TAB_ID_KEY);
+        while (!tabId || !(await tryAcquireLock(tabLockName(tabId)))) {
+            tabId = `tab-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+        }
+        sessionStorage.setItem(TAB_ID_KEY, tabId);
+        this.tabId = tabId;
+    }
+
+    // Removes the entries of tabs that ended without a clean unload (this tab before a reload, or
+    // any tab whose lock is gone) and returns the workspaces they had open.
+    private async collectCrashedSessions(): Promise<string[]> {
+        const sessions = this.readOpenSessions();
+        const heldLocks = await queryHeldLocks();
+        const crashed = Object.keys(sessions).filter(tabId => tabId === this.tabId || (heldLocks !== null && !heldLocks.has(tabLockName(tabId))));
+        const workspaceIds = crashed.map(tabId => sessions[tabId]);
+        crashed.forEach(tabId => delete sessions[tabId]);
+        this.writeOpenSessions(sessions);
+        return workspaceIds;
+    }
+
+    // Takes the workspace's lock for this tab, letting go of the one it held before. Returns false
+    // when another tab already has the workspace open, in which case this tab must not save it.
+    public async claimWorkspace(id: string): Promise<boolean> {
+        this.releaseWorkspaceLock?.();
+        this.releaseWorkspaceLock = await tryAcquireLock(workspaceLockName(id));
+        this.writeOpenSessions({ ...this.readOpenSessions(), [this.tabId]: id });
+        return this.releaseWorkspaceLock !== null;
+    }
+
+    // Opens the last active workspace, creating a default one (seeded from the legacy
+    // localStorage chat history) on first run, and reports whether a tab that had it open crashed.
+    public async openLastWorkspace(): Promise<WorkspaceStartup> {
+        await this.registerTab();
+        localStorage.removeItem(LEGACY_SESSION_OPEN_KEY);
+        const crashedWorkspaceIds = await this.collectCrashedSessions();
+
+        let workspaces = await this.listWorkspaces();
+        if (workspaces.length === 0) {
+            const state = createEmptySessionState();
+            try {
+                const legacyChat = localStorage.getItem(LEGACY_CHAT_HISTORY_KEY);
+                if (legacyChat) {
+                    const parsedChat = JSON.parse(legacyChat);
+                    if (Array.isArray(parsedChat) && parsedChat.every(item => 'sender' in item && 'text' in item)) {
+                        state.chatHistory = parsedChat;
+                    }
+                }
+            } catch (error) {
+                console.error("Failed to migrate chat history from local storage:", error);
+            }
+            await this.createWorkspace('Default Workspace', state);
+            localStorage.removeItem(LEGACY_CHAT_HISTORY_KEY);
+            workspaces = await this.listWorkspaces();
+        }
+
+        const storedId = this.getActiveWorkspaceId();
+        const activeWorkspaceId = workspaces.some(w => w.id === storedId) ? storedId! : workspaces[0].id;
+        this.setActiveWorkspaceId(activeWorkspaceId);
+        const readOnly = !(await this.claimWorkspace(activeWorkspaceId));
+        const state = (await this.loadWorkspace(activeWorkspaceId)) ?? createEmptySessionState();
+        return { workspaces, activeWorkspaceId, state, recoveredFromCrash: crashedWorkspaceIds.includes(activeWorkspaceId), readOnly };
+    }
+
+    public markCleanShutdown(): void {
+        const sessions = this.readOpenSessions();
+        delete sessions[this.tabId];
+        this.writeOpenSessions(sessions);
+    }
+
+    // --- Audit Log ---
+
+    // The newest `limit` entries; older ones are deleted so the store doesn't grow without bound.
+    public async loadAuditLog(limit: number): Promise<AuditLogEntry[]> {
+        const db = await this.getDB();
+        const transaction = db.transaction(AUDIT_LOG_STORE, 'readwrite');
+        const index = transaction.objectStore(AUDIT_LOG_STORE).index('timestamp');
+        const entries: AuditLogEntry[] = [];
+        const request = index.openCursor(null, 'prev');
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            if (entries.length < limit) entries.push(cursor.value);
+            else cursor.delete();
+            cursor.continue();
+        };
+        await transactionDone(transaction);
+        return entries;
+    }
+
+    public async writeAuditLog(added: AuditLogEntry[], removedIds: string[]): Promise<void> {
+        const db = await this.getDB();
+        const transaction = db.transaction(AUDIT_LOG_STORE, 'readwrite');
+        const store = transaction.objectStore(AUDIT_LOG_STORE);
+        added.forEach(entry => store.put(entry));
+        removedIds.forEach(id => store.delete(id));
+        await transactionDone(transaction);
+    }
+
+    public async clearAuditLog(): Promise<void> {
+        const db = await this.getDB();
+        const transaction = db.transaction(AUDIT_LOG_STORE, 'readwrite');
+        transaction.objectStore(AUDIT_LOG_STORE).clear();
+        await transactionDone(transaction);
+    }
+}
+
+// Export a singleton instance
+export const storageService = new StorageService();
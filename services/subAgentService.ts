@@ -1,13 +1,6 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
 import { SubAgent } from "../types";
 import { enqueueGeminiRequest } from './apiQueue';
-
-let ai: GoogleGenAI;
-try {
-  ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-} catch(e) {
-  console.error("Failed to initialize GoogleGenAI for Sub-agent Service. Make sure API_KEY is set.", e);
-}
+import { modelRouter } from './modelRouter';
 
 const getSubAgentSystemPrompt = (agentName: SubAgent): string => {
     switch(agentName) {
@@ -28,12 +21,12 @@ export const invokeSubAgent = async (
     taskPrompt: string,
     personaContext: string
 ): Promise<string> => {
-    if (!ai) throw new Error(`Sub-agent ${agentName} (Gemini AI client) not initialized.`);
     const systemInstruction = getSubAgentSystemPrompt(agentName);
     const finalPrompt = `**Persona Context:**\n"${personaContext}"\n\n**Analysis Task:**\n${taskPrompt}`;
 
+    const route = modelRouter.resolve(`subagent:${agentName}`, modelName);
     const requestPayload = {
-        model: modelName,
+        model: route.model,
         contents: [{ parts: [{ text: finalPrompt }] }],
         config: {
             systemInstruction,
@@ -41,12 +34,12 @@ export const invokeSubAgent = async (
         }
     };
 
-    const response = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const response = await enqueueGeminiRequest(
         requestPayload,
         {
             agentName,
-            model: modelName,
+            model: route.model,
+            route,
             requestPayload: {
                 task: taskPrompt,
                 personaContext: '...', // Truncate for brevity
@@ -0,0 +1,206 @@
+import { PendingToolApproval, ToolApprovalDecision, ToolApprovalMode } from '../types';
+import { auditLogService } from './auditLogService';
+import { availableTools } from '../tools/definitions';
+
+const POLICY_STORAGE_KEY = 'toolApprovalPolicy';
+const TIMEOUT_STORAGE_KEY = 'toolApprovalTimeoutSeconds';
+
+// Tools that change the knowledge graph wholesale, record history or leave the sandbox need a human by default.
+const DEFAULT_POLICY: Record<string, ToolApprovalMode> = {
+    refine_mind_map: 'ask',
+    commit_changes: 'ask',
+    search_the_web: 'ask',
+};
+export const DEFAULT_APPROVAL_TIMEOUT_SECONDS = 120;
+
+export const APPROVAL_TOOL_NAMES: string[] = availableTools.map(tool => tool.name!).filter(Boolean);
+
+type PolicySubscriber = (overrides: Record<string, ToolApprovalMode>, timeoutSeconds: number) => void;
+type QueueSubscriber = (pending: PendingToolApproval[]) => void;
+
+interface QueuedApproval {
+    request: PendingToolApproval;
+    resolve: (decision: ToolApprovalDecision) => void;
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+class ToolApprovalService {
+    // Only user overrides are persisted, so changes to the defaults reach existing installs.
+    private overrides: Record<string, ToolApprovalMode> = {};
+    private timeoutSeconds = DEFAULT_APPROVAL_TIMEOUT_SECONDS;
+    private queue: QueuedApproval[] = [];
+    private policySubscribers: PolicySubscriber[] = [];
+    private queueSubscribers: QueueSubscriber[] = [];
+    private nextId = 0;
+    // Mirrors autonomous mode: while set, waiting calls are refused once the timeout passes, since nobody may be watching.
+    private autoDeny = false;
+
+    constructor() {
+        this.loadFromStorage();
+    }
+
+    private loadFromStorage() {
+        try {
+            const saved = localStorage.getItem(POLICY_STORAGE_KEY);
+            if (saved) {
+                this.overrides = JSON.parse(saved);
+            }
+            const timeout = Number(localStorage.getItem(TIMEOUT_STORAGE_KEY));
+            if (timeout > 0) {
+                this.timeoutSeconds = timeout;
+            }
+        } catch (error) {
+            console.error("Failed to load tool approval policy from local storage:", error);
+        }
+    }
+
+    private saveToStorage() {
+        try {
+            localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(this.overrides));
+            localStorage.setItem(TIMEOUT_STORAGE_KEY, String(this.timeoutSeconds));
+        } catch (error) {
+            console.error("Failed to save tool approval policy to local storage:", error);
+        }
+    }
+
+    public getOverrides(): Record<string, ToolApprovalMode> {
+        return { ...this.overrides };
+    }
+
+    public getMode(toolName: string): ToolApprovalMode {
+        return this.overrides[toolName] ?? DEFAULT_POLICY[toolName] ?? 'auto';
+    }
+
+    public isDefault(toolName: string): boolean {
+        return !(toolName in this.overrides);
+    }
+
+    public setMode(toolName: string, mode: ToolApprovalMode): void {
+        this.overrides = { ...this.overrides, [toolName]: mode };
+        this.saveToStorage();
+        this.notifyPolicySubscribers();
+    }
+
+    public resetAll(): void {
+        this.overrides = {};
+        this.timeoutSeconds = DEFAULT_APPROVAL_TIMEOUT_SECONDS;
+        this.saveToStorage();
+        this.notifyPolicySubscribers();
+    }
+
+    public getTimeoutSeconds(): number {
+        return this.timeoutSeconds;
+    }
+
+    public isDefaultTimeout(): boolean {
+        return this.timeoutSeconds === DEFAULT_APPROVAL_TIMEOUT_SECONDS;
+    }
+
+    public setTimeoutSeconds(seconds: number): void {
+        this.timeoutSeconds = Math.max(1, Math.round(seconds));
+        this.saveToStorage();
+        this.notifyPolicySubscribers();
+    }
+
+    // Switching autonomous mode applies to calls already waiting too: entering it gives each a fresh
+    // deadline, leaving it lets them wait for the user indefinitely.
+    public setAutoDeny(enabled: boolean): void {
+        if (enabled === this.autoDeny) return;
+        this.autoDeny = enabled;
+        const now = Date.now();
+        this.queue = this.queue.map(queued => {
+            if (queued.timer) clearTimeout(queued.timer);
+            const { id } = queued.request;
+            return {
+                ...queued,
+                request: { ...queued.request, expiresAt: enabled ? new Date(now + this.timeoutSeconds * 1000).toISOString() : null },
+                timer: enabled ? setTimeout(() => this.settle(id, { approved: false, reason: 'timeout' }), this.timeoutSeconds * 1000) : null,
+            };
+        });
+        this.notifyQueueSubscribers();
+    }
+
+    // Resolves once the call may run or has been refused. Calls that need a human wait in the queue;
+    // in autonomous mode (see setAutoDeny) they are refused when the timeout passes.
+    public requestApproval(toolName: string, args: Record<string, unknown>, preview: string[]): Promise<ToolApprovalDecision> {
+        const mode = this.getMode(toolName);
+        if (mode === 'auto') return Promise.resolve({ approved: true, reason: 'policy' });
+        if (mode === 'deny') {
+            auditLogService.logEvent('SYSTEM_EVENT', { event: 'TOOL_CALL_DENIED', details: { toolName, args, reason: 'policy' } });
+            return Promise.resolve({ approved: false, reason: 'policy' });
+        }
+
+        const now = Date.now();
+        const request: PendingToolApproval = {
+            id: `approval-${now}-${this.nextId++}`,
+            toolName,
+            args,
+            preview,
+            requestedAt: new Date(now).toISOString(),
+            expiresAt: this.autoDeny ? new Date(now + this.timeoutSeconds * 1000).toISOString() : null,
+        };
+        auditLogService.logEvent('SYSTEM_EVENT', { event: 'TOOL_APPROVAL_REQUESTED', details: { id: request.id, toolName, args } });
+        return new Promise(resolve => {
+            const timer = this.autoDeny ? setTimeout(() => this.settle(request.id, { approved: false, reason: 'timeout' }), this.timeoutSeconds * 1000) : null;
+            this.queue = [...this.queue, { request, resolve, timer }];
+            this.notifyQueueSubscribers();
+        });
+    }
+
+    public decide(id: string, approved: boolean): void {
+        const queued = this.queue.find(q => q.request.id === id);
+        if (!queued) return;
+        auditLogService.logEvent('USER_INTERACTION', { action: approved ? 'APPROVE_TOOL_CALL' : 'DENY_TOOL_CALL', details: { id, toolName: queued.request.toolName } });
+        this.settle(id, { approved, reason: 'user' });
+    }
+
+    // Refuses everything still waiting, e.g. when the session is reset.
+    public denyAll(): void {
+        this.queue.forEach(q => this.settle(q.request.id, { approved: false, reason: 'user' }));
+    }
+
+    public getPending(): PendingToolApproval[] {
+        return this.queue.map(q => q.request);
+    }
+
+    private settle(id: string, decision: ToolApprovalDecision) {
+        const queued = this.queue.find(q => q.request.id === id);
+        if (!queued) return;
+        if (queued.timer) clearTimeout(queued.timer);
+        if (decision.reason === 'timeout') {
+            auditLogService.logEvent('SYSTEM_EVENT', { event: 'TOOL_CALL_DENIED', details: { id, toolName: queued.request.toolName, reason: 'timeout' } });
+        }
+        this.queue = this.queue.filter(q => q !== queued);
+        queued.resolve(decision);
+        this.notifyQueueSubscribers();
+    }
+
+    public subscribePolicy(callback: PolicySubscriber): () => void {
+        this.policySubscribers.push(callback);
+        callback(this.getOverrides(), this.timeoutSeconds);
+        return () => {
+            this.policySubscribers = this.policySubscribers.filter(sub => sub !== callback);
+        };
+    }
+
+    public subscribeQueue(callback: QueueSubscriber): () => void {
+        this.queueSubscribers.push(callback);
+        callback(this.getPending());
+        return () => {
+            this.queueSubscribers = this.queueSubscribers.filter(sub => sub !== callback);
+        };
+    }
+
+    private notifyPolicySubscribers() {
+        const overrides = this.getOverrides();
+        this.policySubscribers.forEach(callback => callback(overrides, this.timeoutSeconds));
+    }
+
+    private notifyQueueSubscribers() {
+        const pending = this.getPending();
+        this.queueSubscribers.forEach(callback => callback(pending));
+    }
+}
+
+// Export a singleton instance
+export const toolApprovalService = new ToolApprovalService();
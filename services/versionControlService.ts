@@ -0,0 +1,572 @@
+import { Repository, RepositoryObject, ObjectId, TreeEntry, CommitObject, Commit, VirtualFileSystem, VFSNode, VFSChange, MergeState, MindMapData, MindMapDiff } from '../types';
+import { auditLogService } from './auditLogService';
+import { sha1, utf8 } from '../utils/sha1';
+import { hasConflictMarkers, mergeText } from '../utils/merge';
+import { diffMindMaps, serializeMindMapSnapshot } from '../utils/mindMap';
+
+// A content-addressed store in git's object model: blobs hold file contents, trees hold directories
+// and commits point at a tree and their parents. Objects are hashed exactly as git hashes them.
+// A commit's root tree also holds the mind map as JSON under MIND_MAP_FILE, which is not part of the VFS:
+// tools/terminal.ts refuses to write that path, so no user file can be shadowed by it.
+
+export const DEFAULT_BRANCH = 'main';
+export const AGENT_AUTHOR = 'Persona Agent';
+export const USER_AUTHOR = 'User';
+export const MIND_MAP_FILE = '.mind-map.json';
+const SHORT_ID_LENGTH = 7;
+const MIN_PREFIX_LENGTH = 4;
+
+export const shortId = (id: ObjectId): string => id.substring(0, SHORT_ID_LENGTH);
+
+// Drops a root MIND_MAP_FILE left in the VFS by a session from before the path was reserved.
+const withoutMindMapFile = ({ [MIND_MAP_FILE]: _mindMap, ...vfs }: VirtualFileSystem): VirtualFileSystem => vfs;
+
+export const createRepository = (): Repository => ({
+    objects: {},
+    branches: {},
+    head: { type: 'branch', name: DEFAULT_BRANCH },
+    index: null,
+    merge: null,
+});
+
+// --- Object Encoding ---
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return result;
+};
+
+const hexToBytes = (hex: string): Uint8Array => Uint8Array.from(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+
+// Git sorts tree entries by name, comparing directories as if their name ended in '/'.
+const sortTreeEntries = (entries: TreeEntry[]): TreeEntry[] => {
+    const key = (entry: TreeEntry) => (entry.kind === 'tree' ? `${entry.name}/` : entry.name);
+    return [...entries].sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0));
+};
+
+const formatSignature = (name: string, timestamp: string): string => {
+    const email = `${name.toLowerCase().replace(/[^a-z0-9]+/g, '.').replace(/^\.|\.$/g, '')}@persona.local`;
+    return `${name} <${email}> ${Math.floor(new Date(timestamp).getTime() / 1000)} +0000`;
+};
+
+// The exact bytes git would store for an object (before zlib compression).
+export const encodeObject = (object: RepositoryObject): Uint8Array => {
+    let body: Uint8Array;
+    if (object.type === 'blob') {
+        body = utf8(object.content);
+    } else if (object.type === 'tree') {
+        body = concatBytes(object.entries.flatMap(entry => [
+            utf8(`${entry.kind === 'tree' ? '40000' : '100644'} ${entry.name}\0`),
+            hexToBytes(entry.id),
+        ]));
+    } else {
+        const lines = [
+            `tree ${object.tree}`,
+            ...object.parents.map(parent => `parent ${parent}`),
+            `author ${formatSignature(object.author, object.timestamp)}`,
+            `committer ${formatSignature(object.author, object.timestamp)}`,
+        ];
+        body = utf8(`${lines.join('\n')}\n\n${object.message}\n`);
+    }
+    return concatBytes([utf8(`${object.type} ${body.length}\0`), body]);
+};
+
+const hashObject = (object: RepositoryObject): ObjectId => sha1(encodeObject(object));
+
+// Stores a working VFS as blobs and trees in `objects` (mutated) and returns the root tree's id.
+const writeTree = (objects: Record<ObjectId, RepositoryObject>, vfs: VirtualFileSystem): ObjectId => {
+    const entries = Object.entries(vfs).map(([name, node]): TreeEntry => {
+        if (node.type === 'folder') return { name, kind: 'tree', id: writeTree(objects, node.children) };
+        const blob: RepositoryObject = { type: 'blob', content: node.content };
+        const id = hashObject(blob);
+        objects[id] = blob;
+        return { name, kind: 'blob', id };
+    });
+    const tree: RepositoryObject = { type: 'tree', entries: sortTreeEntries(entries) };
+    const id = hashObject(tree);
+    objects[id] = tree;
+    return id;
+};
+
+const getObject = <T extends RepositoryObject['type']>(repo: Repository, id: ObjectId, type: T): Extract<RepositoryObject, { type: T }> => {
+    const object = repo.objects[id];
+    if (!object || object.type !== type) throw new Error(`Repository is corrupt: ${type} ${shortId(id)} is missing.`);
+    return object as Extract<RepositoryObject, { type: T }>;
+};
+
+export const readTree = (repo: Repository, treeId: ObjectId): VirtualFileSystem => {
+    const vfs: VirtualFileSystem = {};
+    getObject(repo, treeId, 'tree').entries.forEach(entry => {
+        vfs[entry.name] = entry.kind === 'tree'
+            ? { type: 'folder', children: readTree(repo, entry.id) }
+            : { type: 'file', content: getObject(repo, entry.id, 'blob').content };
+    });
+    return vfs;
+};
+
+// --- Revisions ---
+export const getHeadCommitId = (repo: Repository): ObjectId | null =>
+    repo.head.type === 'detached' ? repo.head.commit : repo.branches[repo.head.name] ?? null;
+
+export const getCommit = (repo: Repository, id: ObjectId): Commit => ({ ...getObject(repo, id, 'commit'), id });
+
+// Accepts HEAD, a branch name, a full or abbreviated commit id, each optionally followed by ~N.
+export const resolveRevision = (repo: Repository, revision: string): ObjectId => {
+    const match = revision.trim().match(/^(.*?)(?:~(\d*))?$/)!;
+    const [, name, generations] = match;
+    let id: ObjectId | null | undefined;
+    if (name === 'HEAD' || name === '') {
+        id = getHeadCommitId(repo);
+        if (!id) throw new Error('HEAD does not point to a commit yet.');
+    } else if (name in repo.branches) {
+        id = repo.branches[name];
+    } else if (/^[0-9a-f]+$/i.test(name) && name.length >= MIN_PREFIX_LENGTH) {
+        const matches = Object.keys(repo.objects).filter(key => key.startsWith(name.toLowerCase()) && repo.objects[key].type === 'commit');
+        if (matches.length > 1) throw new Error(`Commit id '${name}' is ambiguous.`);
+        id = matches[0];
+    }
+    if (!id) throw new Error(`Unknown revision '${revision}'.`);
+    for (let i = 0; i < (generations === undefined ? 0 : Number(generations || 1)); i++) {
+        const parent: ObjectId | undefined = getObject(repo, id, 'commit').parents[0];
+        if (!parent) throw new Error(`Revision '${revision}' goes back past the first commit.`);
+        id = parent;
+    }
+    return id;
+};
+
+export const getCommitVFS = (repo: Repository, commitId: ObjectId | null): VirtualFileSystem => {
+    if (!commitId) return {};
+    return withoutMindMapFile(readTree(repo, getObject(repo, commitId, 'commit').tree));
+};
+
+// The mind map recorded with a commit, or null for commits made before mind maps were versioned.
+export const getCommitMindMap = (repo: Repository, commitId: ObjectId): MindMapData | null => {
+    const entry = getObject(repo, getObject(repo, commitId, 'commit').tree, 'tree').entries.find(e => e.name === MIND_MAP_FILE && e.kind === 'blob');
+    return entry ? JSON.parse(getObject(repo, entry.id, 'blob').content) : null;
+};
+
+export const getHeadVFS = (repo: Repository): VirtualFileSystem => getCommitVFS(repo, getHeadCommitId(repo));
+
+// Whether `ancestor` is `descendant` or reachable from it through parents.
+export const isAncestor = (repo: Repository, ancestor: ObjectId, descendant: ObjectId): boolean => {
+    const seen = new Set<ObjectId>();
+    const frontier = [descendant];
+    while (frontier.length > 0) {
+        const id = frontier.pop()!;
+        if (id === ancestor) return true;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        frontier.push(...getObject(repo, id, 'commit').parents);
+    }
+    return false;
+};
+
+// The newest commit both revisions descend from.
+const getMergeBase = (repo: Repository, a: ObjectId, b: ObjectId): ObjectId | null =>
+    getCommitLog(repo, b).find(commit => isAncestor(repo, commit.id, a))?.id ?? null;
+
+// Newest first, following every parent.
+export const getCommitLog = (repo: Repository, from: ObjectId | null = getHeadCommitId(repo), limit: number = Infinity): Commit[] => {
+    const log: Commit[] = [];
+    const seen = new Set<ObjectId>();
+    const frontier: Commit[] = from ? [getCommit(repo, from)] : [];
+    while (frontier.length > 0 && log.length < limit) {
+        frontier.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+        const commit = frontier.shift()!;
+        if (seen.has(commit.id)) continue;
+        seen.add(commit.id);
+        log.push(commit);
+        commit.parents.forEach(parent => frontier.push(getCommit(repo, parent)));
+    }
+    return log;
+};
+
+// --- Working Tree Helpers ---
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+const normalizePath = (path: string): string => `/${splitPath(path).join('/')}`;
+
+const getNodeAt = (vfs: VirtualFileSystem, parts: string[]): VFSNode | null => {
+    let node: VFSNode | undefined = { type: 'folder', children: vfs };
+    for (const part of parts) {
+        if (node?.type !== 'folder') return null;
+        node = node.children[part];
+    }
+    return node ?? null;
+};
+
+// Returns a copy of the VFS with `node` placed at the path (or removed when null), creating parent folders.
+const setNodeAt = (vfs: VirtualFileSystem, parts: string[], node: VFSNode | null): VirtualFileSystem => {
+    const [name, ...rest] = parts;
+    if (rest.length === 0) {
+        const { [name]: _removed, ...others } = vfs;
+        return node ? { ...others, [name]: node } : others;
+    }
+    const existing = vfs[name];
+    const children = setNodeAt(existing?.type === 'folder' ? existing.children : {}, rest, node);
+    return { ...vfs, [name]: { type: 'folder', children } };
+};
+
+// Copies each path (a file, a whole folder or its absence) from `source` into `target`.
+const copyPaths = (target: VirtualFileSystem, source: VirtualFileSystem, paths: string[]): VirtualFileSystem =>
+    paths.reduce((result, path) => {
+        const parts = splitPath(path);
+        if (parts.length === 0) throw new Error('A file or folder path is required.');
+        const node = getNodeAt(source, parts);
+        if (!node && !getNodeAt(result, parts)) throw new Error(`'${path}' did not match any file.`);
+        return setNodeAt(result, parts, node);
+    }, target);
+
+// Files keyed by absolute path.
+const listFiles = (vfs: VirtualFileSystem, prefix: string = ''): Record<string, string> => {
+    const files: Record<string, string> = {};
+    Object.entries(vfs).forEach(([name, node]) => {
+        const path = `${prefix}/${name}`;
+        if (node.type === 'file') files[path] = node.content;
+        else Object.assign(files, listFiles(node.children, path));
+    });
+    return files;
+};
+
+// File-level changes between two trees, sorted by path. Empty folders are not tracked as changes.
+// A file replaced by a folder (or the reverse) is a 'typechange'; the folder's files are listed separately.
+export const diffVFS = (before: VirtualFileSystem, after: VirtualFileSystem): VFSChange[] => {
+    const oldFiles = listFiles(before);
+    const newFiles = listFiles(after);
+    const isFolderIn = (vfs: VirtualFileSystem, path: string) => getNodeAt(vfs, splitPath(path))?.type === 'folder';
+    return Array.from(new Set([...Object.keys(oldFiles), ...Object.keys(newFiles)]))
+        .filter(path => oldFiles[path] !== newFiles[path])
+        .sort()
+        .map((path): VFSChange => {
+            const oldContent = oldFiles[path];
+            const newContent = newFiles[path];
+            const status = oldContent === undefined ? (isFolderIn(before, path) ? 'typechange' : 'new')
+                : newContent === undefined ? (isFolderIn(after, path) ? 'typechange' : 'deleted')
+                : 'modified';
+            return { path, status, oldContent, newContent };
+        });
+};
+
+// What a commit changed relative to its first parent.
+export const getCommitChanges = (repo: Repository, commitId: ObjectId): VFSChange[] =>
+    diffVFS(getCommitVFS(repo, getCommit(repo, commitId).parents[0] ?? null), getCommitVFS(repo, commitId));
+
+// --- Staging ---
+// The index starts out equal to HEAD; staging copies working changes into it and a commit records it as-is.
+export const getIndexVFS = (repo: Repository): VirtualFileSystem => (repo.index ? readTree(repo, repo.index) : {});
+
+const withIndex = (repo: Repository, index: VirtualFileSystem): Repository => {
+    const objects = { ...repo.objects };
+    return { ...repo, objects, index: writeTree(objects, withoutMindMapFile(index)) };
+};
+
+export const getStagedChanges = (repo: Repository): VFSChange[] => diffVFS(getHeadVFS(repo), getIndexVFS(repo));
+
+export const getUnstagedChanges = (repo: Repository, vfs: VirtualFileSystem): VFSChange[] => diffVFS(getIndexVFS(repo), withoutMindMapFile(vfs));
+
+// During a merge, staging a conflicted file resolves it once its conflict markers are gone.
+// `strict` rejects staging a file that still has markers instead of leaving it unresolved.
+const resolveStagedConflicts = (
+    repo: Repository, vfs: VirtualFileSystem, isStaged: (path: string) => boolean, strict: boolean,
+): Repository => {
+    if (!repo.merge) return repo;
+    const conflicts = repo.merge.conflicts.filter(path => {
+        if (!isStaged(path)) return true;
+        const node = getNodeAt(vfs, splitPath(path));
+        const hasMarkers = node?.type === 'file' && hasConflictMarkers(node.content);
+        if (hasMarkers && strict) throw new Error(`'${path}' still contains conflict markers. Resolve them before staging it.`);
+        return hasMarkers;
+    });
+    return { ...repo, merge: { ...repo.merge, conflicts } };
+};
+
+export const stageAll = (repo: Repository, vfs: VirtualFileSystem): Repository =>
+    resolveStagedConflicts(withIndex(repo, vfs), vfs, () => true, false);
+
+// Stages files or folders as they are in the working VFS, including their deletion.
+export const stagePaths = (repo: Repository, vfs: VirtualFileSystem, paths: string[]): Repository => {
+    const prefixes = paths.map(normalizePath);
+    const isStaged = (path: string) => prefixes.some(prefix => path === prefix || path.startsWith(`${prefix}/`));
+    return resolveStagedConflicts(withIndex(repo, copyPaths(getIndexVFS(repo), vfs, paths)), vfs, isStaged, true);
+};
+
+// Stages a file with the given content, e.g. the working version with only some of its hunks applied.
+export const stageFileContent = (repo: Repository, path: string, content: string): Repository => {
+    const parts = splitPath(path);
+    if (parts.length === 0) throw new Error('A file path is required.');
+    return withIndex(repo, setNodeAt(getIndexVFS(repo), parts, { type: 'file', content }));
+};
+
+// Returns paths in the index to their HEAD version; the working VFS keeps its changes.
+export const unstagePaths = (repo: Repository, paths: string[]): Repository =>
+    withIndex(repo, copyPaths(getIndexVFS(repo), getHeadVFS(repo), paths));
+
+// Points the index at a commit's files, e.g. after moving HEAD.
+const resetIndex = (repo: Repository, commitId: ObjectId | null): Repository => withIndex(repo, getCommitVFS(repo, commitId));
+
+export const hasUncommittedChanges = (repo: Repository, vfs: VirtualFileSystem): boolean =>
+    diffVFS(getHeadVFS(repo), vfs).length > 0 || getStagedChanges(repo).length > 0;
+
+// --- Operations ---
+const advanceHead = (repo: Repository, commitId: ObjectId): Pick<Repository, 'branches' | 'head'> =>
+    repo.head.type === 'branch'
+        ? { branches: { ...repo.branches, [repo.head.name]: commitId }, head: repo.head }
+        : { branches: repo.branches, head: { type: 'detached', commit: commitId } };
+
+// Records `snapshot` (and the mind map, when given) as a commit on HEAD, with `mergeParent` as a second parent
+// for merges. The index is left as `repo` has it.
+const writeCommit = (
+    repo: Repository, snapshot: VirtualFileSystem, mindMap: MindMapData | null, message: string, author: string, timestamp: string,
+    mergeParent?: ObjectId,
+): { repository: Repository; commit: Commit } => {
+    if (!message.trim()) throw new Error('A commit message is required.');
+    const objects = { ...repo.objects };
+    const files = withoutMindMapFile(snapshot);
+    const root: VirtualFileSystem = mindMap ? { ...files, [MIND_MAP_FILE]: { type: 'file', content: serializeMindMapSnapshot(mindMap) } } : files;
+    const tree = writeTree(objects, root);
+    const parentId = getHeadCommitId(repo);
+    // A merge commit is worth recording even when the other side brought no new content.
+    if (parentId && !mergeParent && getObject(repo, parentId, 'commit').tree === tree) {
+        throw new Error('Nothing to commit: no changes are staged.');
+    }
+    const parents = [...(parentId ? [parentId] : []), ...(mergeParent ? [mergeParent] : [])];
+    const commitObject: CommitObject = { type: 'commit', tree, parents, author, timestamp, message: message.trim() };
+    const id = hashObject(commitObject);
+    objects[id] = commitObject;
+    return { repository: { ...repo, objects, ...advanceHead(repo, id) }, commit: { ...commitObject, id } };
+};
+
+// Starts a repository whose only commit is an existing snapshot, e.g. from a session saved before history was kept.
+export const createRepositoryFromSnapshot = (vfs: VirtualFileSystem, message: string, timestamp: string): Repository =>
+    writeCommit(stageAll(createRepository(), vfs), vfs, null, message, AGENT_AUTHOR, timestamp).repository;
+
+// Commits the staged snapshot together with the current mind map. With `paths`, commits just those paths as they are in the working VFS on top of
+// HEAD instead (like `git commit -- <paths>`): they are staged as well, and anything else staged stays staged.
+// During a merge the commit completes it, once every conflict is resolved.
+export const commitChanges = (
+    repo: Repository, vfs: VirtualFileSystem, mindMap: MindMapData, message: string, author: string, paths?: string[],
+): { repository: Repository; commit: Commit } => {
+    if (paths?.length === 0) throw new Error('No paths were given to commit.');
+    if (repo.merge && paths) throw new Error('A merge is in progress: commit all of it, or abort it.');
+    if (repo.merge && repo.merge.conflicts.length > 0) {
+        throw new Error(`Resolve and stage the merge conflicts first: ${repo.merge.conflicts.join(', ')}.`);
+    }
+    const snapshot = paths ? copyPaths(getHeadVFS(repo), vfs, paths) : getIndexVFS(repo);
+    const staged = paths ? stagePaths(repo, vfs, paths) : { ...repo, merge: null };
+    const { repository, commit } = writeCommit(staged, snapshot, mindMap, message, author, new Date().toISOString(), repo.merge?.theirs);
+    const { tree, parents } = commit;
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'COMMIT_VFS', details: { message: commit.message, commitId: commit.id, parents, tree, author } });
+    return { repository, commit };
+};
+
+// Replaces the working VFS with a commit's tree. Checking out a branch attaches HEAD to it; anything else detaches it.
+export const checkout = (
+    repo: Repository, vfs: VirtualFileSystem, revision: string, options: { discardChanges?: boolean } = {},
+): { repository: Repository; vfs: VirtualFileSystem; commit: Commit } => {
+    const commitId = resolveRevision(repo, revision);
+    if (!options.discardChanges && hasUncommittedChanges(repo, vfs)) {
+        throw new Error('Checkout would discard uncommitted changes. Commit them first, or discard them explicitly.');
+    }
+    const isBranch = revision in repo.branches;
+    const repository = resetIndex({
+        ...repo,
+        head: isBranch ? { type: 'branch', name: revision } : { type: 'detached', commit: commitId },
+        merge: null,
+    }, commitId);
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'CHECKOUT', details: { revision, commitId, detached: !isBranch, discardedChanges: !!options.discardChanges } });
+    return { repository, vfs: getCommitVFS(repo, commitId), commit: getCommit(repo, commitId) };
+};
+
+// Creates a new commit that undoes the file changes a commit made relative to its first parent.
+export const revertCommit = (
+    repo: Repository, vfs: VirtualFileSystem, mindMap: MindMapData, revision: string, author: string,
+): { repository: Repository; vfs: VirtualFileSystem; commit: Commit } => {
+    if (repo.merge) throw new Error('A merge is in progress. Commit or abort it first.');
+    if (hasUncommittedChanges(repo, vfs)) throw new Error('Revert needs a clean file system. Commit your changes first.');
+    const target = getCommit(repo, resolveRevision(repo, revision));
+    const before = listFiles(getCommitVFS(repo, target.parents[0] ?? null));
+    const after = listFiles(getCommitVFS(repo, target.id));
+    const current = listFiles(vfs);
+
+    const changedPaths = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter(path => before[path] !== after[path]);
+    // Files edited again since the target commit can't be reverted without a merge.
+    const conflicts = changedPaths.filter(path => current[path] !== after[path]);
+    if (conflicts.length > 0) {
+        throw new Error(`Cannot revert ${shortId(target.id)}: ${conflicts.join(', ')} changed again in later commits.`);
+    }
+    let newVFS = vfs;
+    changedPaths.forEach(path => {
+        newVFS = setNodeAt(newVFS, splitPath(path), path in before ? { type: 'file', content: before[path] } : null);
+    });
+
+    const subject = target.message.split('\n')[0];
+    const { repository, commit } = commitChanges(stageAll(repo, newVFS), newVFS, mindMap, `Revert "${subject}"\n\nThis reverts commit ${target.id}.`, author);
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'REVERT', details: { reverted: target.id, commitId: commit.id, paths: changedPaths } });
+    return { repository, vfs: newVFS, commit };
+};
+
+// Throws away the unstaged changes to a file or folder, returning it to its staged version.
+export const discardChanges = (repo: Repository, vfs: VirtualFileSystem, path: string): VirtualFileSystem => {
+    const newVFS = copyPaths(vfs, getIndexVFS(repo), [path]);
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'DISCARD_CHANGES', details: { path } });
+    return newVFS;
+};
+
+// Restores a file or folder in the working VFS to its state at a commit (removing it if it didn't exist then).
+export const restoreFile = (
+    repo: Repository, vfs: VirtualFileSystem, path: string, revision: string = 'HEAD',
+): { vfs: VirtualFileSystem; restored: 'restored' | 'removed'; commit: Commit } => {
+    const parts = splitPath(path);
+    if (parts.length === 0) throw new Error('A file or folder path is required.');
+    const commit = getCommit(repo, resolveRevision(repo, revision));
+    const source = getNodeAt(getCommitVFS(repo, commit.id), parts);
+    if (!source && !getNodeAt(vfs, parts)) throw new Error(`'${path}' exists neither in ${shortId(commit.id)} nor in the file system.`);
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'RESTORE_FILE', details: { path, commitId: commit.id, removed: !source } });
+    return { vfs: setNodeAt(vfs, parts, source), restored: source ? 'restored' : 'removed', commit };
+};
+
+// The mind map as recorded by a commit, to replace the current one.
+export const restoreMindMap = (repo: Repository, revision: string): { mindMap: MindMapData; commit: Commit } => {
+    const commit = getCommit(repo, resolveRevision(repo, revision));
+    const mindMap = getCommitMindMap(repo, commit.id);
+    if (!mindMap) throw new Error(`${shortId(commit.id)} was committed before mind maps were versioned.`);
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'RESTORE_MIND_MAP', details: { commitId: commit.id, nodes: mindMap.nodes.length, links: mindMap.links.length } });
+    return { mindMap, commit };
+};
+
+// How a commit changed the mind map relative to its first parent; null if it recorded no mind map.
+export const getCommitMindMapChanges = (repo: Repository, commitId: ObjectId): MindMapDiff | null => {
+    const mindMap = getCommitMindMap(repo, commitId);
+    if (!mindMap) return null;
+    const parentId = getCommit(repo, commitId).parents[0];
+    return diffMindMaps((parentId && getCommitMindMap(repo, parentId)) || { nodes: [], links: [] }, mindMap);
+};
+
+// The mind map's changes since HEAD's snapshot, which the next commit will record.
+export const getMindMapChanges = (repo: Repository, mindMap: MindMapData): MindMapDiff => {
+    const headId = getHeadCommitId(repo);
+    return diffMindMaps((headId && getCommitMindMap(repo, headId)) || { nodes: [], links: [] }, mindMap);
+};
+
+// --- Branches ---
+const validateBranchName = (name: string) => {
+    const invalid = !name || name === 'HEAD' || name.startsWith('-') || name.startsWith('/') || name.endsWith('/') || name.endsWith('.')
+        || name.includes('..') || name.includes('//') || !/^[A-Za-z0-9._/-]+$/.test(name);
+    if (invalid) throw new Error(`'${name}' is not a valid branch name. Use letters, digits, '.', '_', '-' and '/'.`);
+};
+
+// Creates a branch at a revision. With `switchTo`, HEAD attaches to the new branch and uncommitted changes are kept,
+// which only works for a branch starting at the current commit (like `git switch -c`).
+export const createBranch = (repo: Repository, name: string, startPoint: string = 'HEAD', switchTo: boolean = false): Repository => {
+    validateBranchName(name);
+    if (name in repo.branches) throw new Error(`A branch named '${name}' already exists.`);
+    const commitId = resolveRevision(repo, startPoint);
+    if (switchTo && commitId !== getHeadCommitId(repo)) {
+        throw new Error(`Only a branch starting at HEAD can be switched to on creation. Check out '${name}' instead.`);
+    }
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'CREATE_BRANCH', details: { name, commitId, switchTo } });
+    return {
+        ...repo,
+        branches: { ...repo.branches, [name]: commitId },
+        head: switchTo ? { type: 'branch', name } : repo.head,
+    };
+};
+
+// Refuses to delete a branch whose commits would only remain reachable by id, unless forced.
+export const deleteBranch = (repo: Repository, name: string, force: boolean = false): Repository => {
+    if (!(name in repo.branches)) throw new Error(`There is no branch named '${name}'.`);
+    if (name === DEFAULT_BRANCH) throw new Error(`The ${DEFAULT_BRANCH} branch can't be deleted.`);
+    if (repo.head.type === 'branch' && repo.head.name === name) throw new Error(`Can't delete '${name}' while it is checked out.`);
+    const headId = getHeadCommitId(repo);
+    if (!force && (!headId || !isAncestor(repo, repo.branches[name], headId))) {
+        throw new Error(`Branch '${name}' is not fully merged into HEAD. Merge it first, or force the deletion.`);
+    }
+    const { [name]: tip, ...branches } = repo.branches;
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'DELETE_BRANCH', details: { name, commitId: tip, force } });
+    return { ...repo, branches };
+};
+
+// --- Merging ---
+export type MergeOutcome = 'up-to-date' | 'fast-forward' | 'merged' | 'conflicts';
+
+// Merges a revision into HEAD. Files changed on one side take that side's version; files changed on both are merged
+// line by line. When lines conflict, the working VFS gets conflict markers and `repository.merge` records the
+// conflicted paths; resolving and staging them, then committing, completes the merge. Mind maps aren't merged:
+// the merge commit records the current one.
+export const mergeRevision = (
+    repo: Repository, vfs: VirtualFileSystem, mindMap: MindMapData, revision: string, author: string,
+): { repository: Repository; vfs: VirtualFileSystem; outcome: MergeOutcome; commit?: Commit; conflicts: string[] } => {
+    if (repo.merge) throw new Error('A merge is already in progress. Commit or abort it first.');
+    if (hasUncommittedChanges(repo, vfs)) throw new Error('Merge needs a clean file system. Commit your changes first.');
+    const theirsId = resolveRevision(repo, revision);
+    const headId = getHeadCommitId(repo);
+    const logMerge = (outcome: MergeOutcome, details: object = {}) =>
+        auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'MERGE', details: { revision, theirs: theirsId, outcome, ...details } });
+
+    if (headId && isAncestor(repo, theirsId, headId)) {
+        logMerge('up-to-date');
+        return { repository: repo, vfs, outcome: 'up-to-date', conflicts: [] };
+    }
+    if (!headId || isAncestor(repo, headId, theirsId)) {
+        logMerge('fast-forward');
+        const repository = resetIndex({ ...repo, ...advanceHead(repo, theirsId) }, theirsId);
+        return { repository, vfs: getCommitVFS(repo, theirsId), outcome: 'fast-forward', commit: getCommit(repo, theirsId), conflicts: [] };
+    }
+
+    const ours = listFiles(vfs);
+    const base = listFiles(getCommitVFS(repo, getMergeBase(repo, headId, theirsId)));
+    const theirs = listFiles(getCommitVFS(repo, theirsId));
+    const labels = { ours: repo.head.type === 'branch' ? repo.head.name : 'HEAD', theirs: revision };
+    const updates: Record<string, string | null> = {};
+    const conflicts: string[] = [];
+    Array.from(new Set([...Object.keys(ours), ...Object.keys(theirs)])).sort().forEach(path => {
+        const [b, o, t] = [base[path], ours[path], theirs[path]];
+        if (o === t || t === b) return;
+        if (o === b) {
+            updates[path] = t ?? null;
+        } else if (o === undefined || t === undefined) {
+            // Changed on one side and deleted on the other: keep the changed version for the user to decide.
+            updates[path] = o ?? t;
+            conflicts.push(path);
+        } else {
+            const merged = mergeText(b ?? '', o, t, labels);
+            updates[path] = merged.text;
+            if (merged.conflicts > 0) conflicts.push(path);
+        }
+    });
+
+    const files = new Set([...Object.keys(ours), ...Object.keys(updates)].filter(path => (path in updates ? updates[path] !== null : true)));
+    files.forEach(path => {
+        const parts = splitPath(path);
+        const clash = parts.slice(0, -1).map((_, i) => `/${parts.slice(0, i + 1).join('/')}`).find(folder => files.has(folder));
+        if (clash) throw new Error(`Cannot merge ${revision}: '${clash}' is a file on one side and a folder on the other.`);
+    });
+    const mergedVFS = Object.entries(updates).reduce(
+        (result, [path, content]) => setNodeAt(result, splitPath(path), content === null ? null : { type: 'file', content }),
+        vfs,
+    );
+    const message = `Merge ${revision in repo.branches ? `branch '${revision}'` : `commit ${shortId(theirsId)}`}${repo.head.type === 'branch' ? ` into ${repo.head.name}` : ''}`;
+
+    if (conflicts.length === 0) {
+        const { repository, commit } = writeCommit(stageAll(repo, mergedVFS), mergedVFS, mindMap, message, author, new Date().toISOString(), theirsId);
+        logMerge('merged', { commitId: commit.id });
+        return { repository, vfs: mergedVFS, outcome: 'merged', commit, conflicts };
+    }
+    // Cleanly merged files are staged; conflicted ones keep HEAD's version in the index until resolved.
+    const staged = withIndex(repo, copyPaths(mergedVFS, vfs, conflicts));
+    const merge: MergeState = { theirs: theirsId, label: revision, message, conflicts };
+    logMerge('conflicts', { conflicts });
+    return { repository: { ...staged, merge }, vfs: mergedVFS, outcome: 'conflicts', conflicts };
+};
+
+// Abandons a conflicted merge, returning the index and working VFS to HEAD.
+export const abortMerge = (repo: Repository): { repository: Repository; vfs: VirtualFileSystem } => {
+    if (!repo.merge) throw new Error('No merge is in progress.');
+    const headId = getHeadCommitId(repo);
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'COMMIT', action: 'ABORT_MERGE', details: { theirs: repo.merge.theirs } });
+    return { repository: resetIndex({ ...repo, merge: null }, headId), vfs: getHeadVFS(repo) };
+};
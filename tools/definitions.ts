@@ -37,7 +37,7 @@ export const availableTools: FunctionDeclaration[] = [
     },
     {
         name: "run_terminal_command",
-        description: "Executes a command in a virtual terminal with a hierarchical file system. Use this for local file and code operations. Supports paths. Available commands: `ls [path]`, `cat <path>`, `write <path> <content> [--parent=<node_id>]`, `mkdir <path>`, `touch <path>`, `python <path_to_script>`.",
+        description: "Executes a command in a virtual terminal with a hierarchical file system. Use this for local file and code operations. Supports paths. Available commands: `ls [-l] [path]`, `cat <path...>`, `head|tail [-n N] <path...>`, `wc [-lwc] <path...>`, `grep [-rnivlc] <pattern> [path...]`, `find [path] [-name glob] [-type f|d]`, `tree [path]`, `diff <a> <b>`, `write <path> <content> [--parent=<node_id>]`, `mkdir <path>`, `touch <path>`, `rm [-rf] <path...>`, `mv <source...> <dest>`, `cp [-r] <source...> <dest>`, `python <path> [args...]` / `python -c <code>`, `node <path> [args...]` / `node -e <code>` (JavaScript or TypeScript), `run <path> [args...]` (runtime chosen by extension). Scripts really run in sandboxed workers (Python via Pyodide, limited to 10s and 256 MB; JavaScript/TypeScript limited to 10s, with relative imports of other VFS modules and built-in `fs`/`path` but no npm packages or network); the file system root is their working directory, so open VFS files by relative path (`open('data/input.csv')`, `fs.readFileSync('data/input.csv', 'utf8')`), and files they write or delete are synced back. Their stdout, stderr and exit code are returned. Unquoted `*` and `?` in paths expand to matching files; use `rm` to clean up obsolete files. The shell supports quotes and `\\` escapes, pipes (`grep -r todo / | wc -l`), `;`/`&&`/`||`, redirection (`>`, `>>`, `<`, `2>&1`) and heredocs. ALWAYS write multi-line or markdown content with a heredoc so it is stored verbatim, e.g. `write /reports/summary.md --parent=node_id <<'EOF'` followed by the content lines and a final `EOF` line. Output ends with `[exit code N]` when the command fails.",
         parameters: {
             type: Type.OBJECT,
             properties: {
@@ -151,7 +151,7 @@ export const availableTools: FunctionDeclaration[] = [
     },
     {
         name: "refine_mind_map",
-        description: "Analyzes the entire knowledge graph for potential structural improvements. Use this to create higher-level abstractions, merge redundant nodes, or improve the overall logical flow. This is a key tool for self-organization.",
+        description: "Analyzes the entire knowledge graph for potential structural improvements. Every commit records the mind map, so a refinement can be undone with `restore_mind_map`. Use this to create higher-level abstractions, merge redundant nodes, or improve the overall logical flow. This is a key tool for self-organization.",
         parameters: { type: Type.OBJECT, properties: {} }
     },
     {
@@ -196,20 +196,183 @@ export const availableTools: FunctionDeclaration[] = [
             required: ["prompt"]
         }
     },
+    {
+        name: "run_script",
+        description: "Executes a Python (.py), JavaScript (.js, .mjs, .cjs) or TypeScript (.ts) file from the virtual file system in a sandbox and returns its stdout, stderr and exit code. Use this to verify analysis scripts by actually running them after writing them. The file system root is the script's working directory; files the script writes or deletes are synced back. JavaScript/TypeScript modules may import other VFS modules by relative path and the built-in `fs` and `path` modules. Runs are limited to 10 seconds.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                path: {
+                    type: Type.STRING,
+                    description: "The path of the script to run, e.g. '/analysis/word_counts.ts'."
+                },
+                args: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING },
+                    description: "Optional command-line arguments passed to the script (sys.argv[1:] / process.argv.slice(2))."
+                },
+                stdin: {
+                    type: Type.STRING,
+                    description: "Optional text supplied to the script on standard input."
+                }
+            },
+            required: ["path"]
+        }
+    },
     {
         name: "commit_changes",
-        description: "Commits all current changes in the virtual file system to source control with a descriptive message. Use this after you have finished writing files for a specific task to create a version snapshot.",
+        description: "Commits changes in the virtual file system to source control with a descriptive message. Every commit records the full file tree, so it can later be checked out, reverted or used to restore files. Use this after you have finished writing files for a specific task to create a version snapshot. Pass 'files' to commit only those files or folders and keep scratch files out of the commit; without it, every change is committed. Fails if nothing would change.",
         parameters: {
             type: Type.OBJECT,
             properties: {
                 commit_message: {
                     type: Type.STRING,
                     description: "A concise and descriptive message summarizing the changes made. E.g., 'Drafted initial research on quantum computing', 'Added analysis from Cognitive Bias Agent'."
+                },
+                files: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING },
+                    description: "Optional. Paths of the files or folders to commit, e.g. ['/reports/summary.md']. Deleted paths can be listed to commit their deletion. Other changes stay uncommitted."
                 }
             },
             required: ["commit_message"]
         }
     },
+    {
+        name: "view_commit_log",
+        description: "Lists recent commits (newest first) with their ids, authors, dates, messages, the files each one changed and how it changed the mind map, plus the current branch or detached HEAD and any uncommitted changes. Use the ids with `checkout_revision`, `revert_commit`, `restore_file` and `restore_mind_map`.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                limit: {
+                    type: Type.NUMBER,
+                    description: "The maximum number of commits to list. Defaults to 10."
+                }
+            }
+        }
+    },
+    {
+        name: "checkout_revision",
+        description: "Replaces the whole virtual file system with the files of a past commit (detaching HEAD), or switches to a branch such as 'main'. Commits made while detached continue from that commit. Refuses to run while there are uncommitted changes unless `discard_changes` is true.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                revision: {
+                    type: Type.STRING,
+                    description: "A commit id (at least 4 characters of it), a branch name such as 'main', or a relative revision such as 'HEAD~2'."
+                },
+                discard_changes: {
+                    type: Type.BOOLEAN,
+                    description: "Set to true to throw away uncommitted changes. Defaults to false."
+                }
+            },
+            required: ["revision"]
+        }
+    },
+    {
+        name: "revert_commit",
+        description: "Creates a new commit that undoes the file changes made by an earlier commit, keeping history intact. Requires a clean file system (commit first) and fails if the affected files were changed again by later commits.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                commit: {
+                    type: Type.STRING,
+                    description: "The id of the commit to revert, or a relative revision such as 'HEAD'."
+                }
+            },
+            required: ["commit"]
+        }
+    },
+    {
+        name: "restore_file",
+        description: "Restores a file or folder in the virtual file system to its content at a commit, without changing other files or history. Use it to discard unwanted edits (revision 'HEAD') or to recover an older or deleted version. If the path did not exist at that commit, it is removed.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                path: {
+                    type: Type.STRING,
+                    description: "The path to restore, e.g. '/reports/summary.md'."
+                },
+                revision: {
+                    type: Type.STRING,
+                    description: "The commit to restore from (id, branch or e.g. 'HEAD~1'). Defaults to HEAD, the last commit."
+                }
+            },
+            required: ["path"]
+        }
+    },
+    {
+        name: "restore_mind_map",
+        description: "Replaces the whole mind map with the snapshot recorded in a commit, e.g. to undo a `refine_mind_map` or `transcend` that went wrong. Files and history are untouched; commit afterwards to record the restoration.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                revision: {
+                    type: Type.STRING,
+                    description: "The commit to restore from (id, branch or e.g. 'HEAD~1'). Defaults to HEAD, the last commit."
+                }
+            }
+        }
+    },
+    {
+        name: "create_branch",
+        description: "Creates a named branch, e.g. to experiment without touching the stable 'main' line of reports. With `switch`, you continue working on the new branch (uncommitted changes are kept when it starts at HEAD). Switch between branches with `checkout_revision`.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                name: {
+                    type: Type.STRING,
+                    description: "The branch name, e.g. 'experiment/alt-hypothesis'. Letters, digits, '.', '_', '-' and '/'."
+                },
+                start_point: {
+                    type: Type.STRING,
+                    description: "The commit the branch starts at. Defaults to HEAD."
+                },
+                switch: {
+                    type: Type.BOOLEAN,
+                    description: "Set to true to check out the new branch. Defaults to false."
+                }
+            },
+            required: ["name"]
+        }
+    },
+    {
+        name: "merge_branch",
+        description: "Merges a branch (or any revision) into the current branch with a three-way merge. Files changed on only one side merge automatically. If both sides changed the same lines, the files get git-style conflict markers (<<<<<<<, =======, >>>>>>>): edit them to keep the right content, then call `commit_changes` to complete the merge, or `abort_merge` to give up. Requires a clean file system.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                branch: {
+                    type: Type.STRING,
+                    description: "The branch or revision to merge into the current one."
+                }
+            },
+            required: ["branch"]
+        }
+    },
+    {
+        name: "abort_merge",
+        description: "Abandons a merge that stopped on conflicts, returning the file system to the last commit.",
+        parameters: { type: Type.OBJECT, properties: {} }
+    },
+    {
+        name: "delete_branch",
+        description: "Deletes a branch that is not checked out. Refuses if its commits are not merged into HEAD, unless `force` is true. The 'main' branch can't be deleted.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                name: {
+                    type: Type.STRING,
+                    description: "The branch to delete."
+                },
+                force: {
+                    type: Type.BOOLEAN,
+                    description: "Set to true to delete a branch with unmerged commits. Defaults to false."
+                }
+            },
+            required: ["name"]
+        }
+    },
     {
         name: "update_task_status",
         description: "Updates the status of a task in the current mission plan. Call this immediately after completing a task.",
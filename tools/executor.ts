@@ -1,16 +1,14 @@
-import { FunctionCall, Type, GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { MindMapData, VirtualFileSystem, VectorStore, TerminalLine, SubAgent, VFSNode, VFSFolder, ChatMessage, MindMapNode, MindMapNodeType, MindMapLink, MindMapLinkType, MissionTaskStatus } from "../types";
+import { FunctionCall, Type } from "@google/genai";
+import { MindMapData, VirtualFileSystem, VectorStore, TerminalLine, SubAgent, ChatMessage, MindMapNode, MindMapNodeType, MindMapLink, MindMapLinkType, MissionTaskStatus, MemoryDraft, Repository, VFSChange } from "../types";
 import { invokeSubAgent } from "../services/subAgentService";
 import { enqueueGeminiRequest } from "../services/apiQueue";
+import { modelRouter } from "../services/modelRouter";
 import { generateImage, editImage } from "../services/geminiService";
 import { auditLogService } from "../services/auditLogService";
-
-let ai: GoogleGenAI;
-try {
-  ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-} catch(e) {
-  console.error("Failed to initialize GoogleGenAI for executor. Make sure API_KEY is set.", e);
-}
+import { memoryService } from "../services/memoryService";
+import { commitChanges, checkout, revertCommit, restoreFile, restoreMindMap, createBranch, deleteBranch, mergeRevision, abortMerge, resolveRevision, getHeadCommitId, getCommitLog, getCommitChanges, getCommitMindMapChanges, getMindMapChanges, getStagedChanges, getUnstagedChanges, stageAll, shortId, AGENT_AUTHOR, MergeOutcome } from "../services/versionControlService";
+import { runTerminalCommand, runScript, writeFileToVFS } from "./terminal";
+import { isMindMapDiffEmpty, summarizeMindMapDiff } from "../utils/mindMap";
 
 // --- Tool Result Interface ---
 interface ToolResult {
@@ -23,109 +21,89 @@ interface ToolResult {
         type: 'generated' | 'edited';
     };
     filePathHandled?: string;
-    commitMessage?: string;
+    newRepository?: Repository;
     taskStatusUpdate?: {
         taskId: string;
         status: MissionTaskStatus;
     };
+    memories?: MemoryDraft[]; // Passages to embed into long-term memory
+    recalledMemoryIds?: string[]; // Memories reinforced by being recalled
 }
 
 
-// --- VFS Path Helpers ---
-const resolvePath = (path: string): string[] => {
-    return path.split('/').filter(p => p && p !== '.');
-}
-
-const getNodeFromPath = (vfs: VirtualFileSystem, path: string): VFSNode | null => {
-    const parts = resolvePath(path);
-    let current: VFSNode | VirtualFileSystem = { type: 'folder', children: vfs };
-    for (const part of parts) {
-        if (current.type === 'folder' && current.children[part]) {
-            current = current.children[part];
-        } else {
-            return null;
-        }
-    }
-    return current.type === 'folder' ? current : current;
-}
-
-const ensureDirectoryExists = (vfs: VirtualFileSystem, path: string): VirtualFileSystem => {
-    const newVFS = JSON.parse(JSON.stringify(vfs));
-    const pathParts = resolvePath(path);
-    
-    let current = newVFS;
-    for (const part of pathParts) {
-        if (!current[part]) {
-            current[part] = { type: 'folder', children: {} };
-        } else if (current[part].type !== 'folder') {
-            throw new Error(`Cannot create directory: a component of the path '${part}' is not a directory.`);
-        }
-        current = (current[part] as VFSFolder).children;
-    }
-    return newVFS;
-}
-
-// Helper function to write a file to the VFS, creating parent directories if needed.
-const writeFileToVFS = (vfs: VirtualFileSystem, path: string, content: string): VirtualFileSystem => {
-    const pathParts = resolvePath(path);
-    const filename = pathParts.pop();
-    const dirPath = pathParts.join('/');
-
-    if (!filename) {
-        throw new Error(`Invalid file path provided: "${path}"`);
-    }
+// --- Low-Level Tool Implementations ---
 
-    const vfsWithDir = ensureDirectoryExists(vfs, dirPath);
-    
-    let current = vfsWithDir;
-    for (const part of pathParts) {
-        current = (current[part] as VFSFolder).children;
-    }
-    
-    current[filename] = { type: 'file', content: content };
-    auditLogService.logEvent('STATE_CHANGE', { domain: 'VFS', action: 'WRITE_FILE', details: { path, contentLength: content.length } });
-    return vfsWithDir;
+const view_commit_log = (repository: Repository, vfs: VirtualFileSystem, mindMap: MindMapData, limit: number): string => {
+    const position = repository.head.type === 'branch' ? `On branch ${repository.head.name}` : `HEAD detached at ${shortId(repository.head.commit)}`;
+    const branches = Object.entries(repository.branches).map(([name, id]) => `${name} (${shortId(id)})`).join(', ');
+    const merging = repository.merge
+        ? `\nMerging ${repository.merge.label}: ${repository.merge.conflicts.length > 0 ? `unresolved conflicts in ${repository.merge.conflicts.join(', ')}` : 'all conflicts resolved, commit to complete it'}.`
+        : '';
+    const head = `${position}${branches ? `\nBranches: ${branches}` : ''}${merging}`;
+    const describe = (changes: VFSChange[]) => changes.map(c => `${c.status} ${c.path}`).join(', ');
+    const staged = getStagedChanges(repository);
+    const unstaged = getUnstagedChanges(repository, vfs);
+    const mindMapChanges = getMindMapChanges(repository, mindMap);
+    const status = staged.length === 0 && unstaged.length === 0 && isMindMapDiffEmpty(mindMapChanges)
+        ? 'No uncommitted changes.'
+        : [
+            staged.length > 0 && `Staged changes: ${describe(staged)}`,
+            unstaged.length > 0 && `Uncommitted changes: ${describe(unstaged)}`,
+            !isMindMapDiffEmpty(mindMapChanges) && `Mind map changes: ${summarizeMindMapDiff(mindMapChanges)}`,
+        ].filter(Boolean).join('\n');
+    const log = getCommitLog(repository, undefined, limit);
+    if (log.length === 0) return `${head}\n${status}\nNo commits yet.`;
+    const entries = log.map(commit => {
+        const files = getCommitChanges(repository, commit.id).map(c => `${c.status.charAt(0).toUpperCase()} ${c.path}`).join(', ');
+        const mindMapChanges = getCommitMindMapChanges(repository, commit.id);
+        const mindMapLine = mindMapChanges && !isMindMapDiffEmpty(mindMapChanges) ? `\n  Mind map: ${summarizeMindMapDiff(mindMapChanges)}` : '';
+        return `${commit.id} | ${commit.timestamp} | ${commit.author}\n  ${commit.message.split('\n')[0]}\n  Files: ${files || '(none)'}${mindMapLine}`;
+    });
+    return `${head}\n${status}\n\n${entries.join('\n')}`;
 };
 
+const recall_memory = async (modelName: string, query: string, vectorStore: VectorStore): Promise<{ result: string, recalledMemoryIds?: string[] }> => {
+    if (vectorStore.length === 0) return { result: "Memory archive is empty." };
+    const recalled = await memoryService.recall(vectorStore, query);
+    if (recalled.length === 0) return { result: `No memories related to "${query}" were found.` };
 
-// --- Low-Level Tool Implementations ---
-
-const recall_memory = async (modelName: string, query: string, vectorStore: VectorStore): Promise<string> => {
-    if (!ai) throw new Error("Executor AI client not initialized.");
-    if (vectorStore.length === 0) return "Memory archive is empty.";
-    const memories = vectorStore.join('\n---\n');
+    const memories = recalled.map(({ entry, similarity }) => {
+        const origin = [entry.source, entry.sourceDetail, entry.linkedNodeId && `node ${entry.linkedNodeId}`].filter(Boolean).join(', ');
+        return `[${entry.timestamp} | ${origin} | relevance ${similarity.toFixed(2)}]\n${entry.text}`;
+    }).join('\n---\n');
+    const route = modelRouter.resolve('tool:recall_memory', modelName);
     const requestPayload = {
-        model: modelName,
-        contents: [{ parts: [{ text: `From the following memory archive, extract information relevant to the query: "${query}". Synthesize it into a coherent answer.\n\n---MEMORY ARCHIVE---\n${memories}` }] }],
+        model: route.model,
+        contents: [{ parts: [{ text: `From the following memories (the most relevant entries in your archive), extract information relevant to the query: "${query}". Synthesize it into a coherent answer.\n\n---RECALLED MEMORIES---\n${memories}` }] }],
     };
     
-    const response = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const response = await enqueueGeminiRequest(
         requestPayload,
         {
             agentName: 'Persona Agent (Tool: recall_memory)',
-            model: modelName,
-            requestPayload: { query, memorySize: memories.length }
+            model: route.model,
+            route,
+            requestPayload: { query, archiveSize: vectorStore.length, recalled: recalled.length }
         }
     );
-    return response.text.trim();
+    return { result: response.text.trim(), recalledMemoryIds: recalled.map(({ entry }) => entry.id) };
 };
 
 const search_the_web = async (modelName: string, query: string): Promise<string> => {
-    if (!ai) throw new Error("Executor AI client not initialized.");
+    const route = modelRouter.resolve('tool:search_the_web', modelName);
     const requestPayload = {
-        model: modelName,
+        model: route.model,
         contents: [{ parts: [{ text: query }] }],
         config: {
             tools: [{googleSearch: {}}],
         },
     };
-    const response = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const response = await enqueueGeminiRequest(
         requestPayload,
         {
             agentName: 'Persona Agent (Tool: search_the_web)',
-            model: modelName,
+            model: route.model,
+            route,
             requestPayload: { query }
         }
     );
@@ -141,11 +119,13 @@ const get_node_details = (node_id: string, mindMap: MindMapData): string => {
     return JSON.stringify(node, null, 2);
 }
 
-const transcend = async (modelName: string, inquiry: string, mindMap: MindMapData): Promise<{ newMindMapData: MindMapData, result: string }> => {
-    if (!ai) throw new Error("Executor AI client not initialized.");
+const transcend = async (modelName: string, inquiry: string, mindMap: MindMapData): Promise<{ newMindMapData: MindMapData, result: string, memories: MemoryDraft[] }> => {
     const mindMapString = JSON.stringify(mindMap, null, 2);
+    const resolved = modelRouter.resolve('tool:transcend', modelName);
+    // Without a configured route, the flash model is upgraded to pro for this deep synthesis, as before routing existed.
+    const route = resolved.source === 'global' && resolved.model === 'gemini-2.5-flash' ? { ...resolved, model: 'gemini-2.5-pro' } : resolved;
     const requestPayload = {
-        model: modelName === 'gemini-2.5-flash' ? 'gemini-2.5-pro' : modelName,
+        model: route.model,
         contents: [{ parts: [{ text: `You are in a state of deep meditation. Your entire consciousness, represented by the knowledge graph below, is available for introspection. Your task is to achieve a conceptual breakthrough. Based on the profound inquiry provided, synthesize a novel, high-level "Quantum Insight" that connects disparate concepts in a non-obvious way. This insight should represent a genuine leap in understanding.
 
 **Profound Inquiry:** "${inquiry}"
@@ -159,12 +139,12 @@ Return only the text of your new Quantum Insight. It should be concise, powerful
         }
     };
 
-    const response = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const response = await enqueueGeminiRequest(
         requestPayload,
         {
             agentName: 'Persona Agent (Tool: transcend)',
             model: requestPayload.model,
+            route,
             requestPayload: { inquiry, nodeCount: mindMap.nodes.length }
         }
     );
@@ -189,11 +169,11 @@ Return only the text of your new Quantum Insight. It should be concise, powerful
     auditLogService.logEvent('STATE_CHANGE', { domain: 'MIND_MAP', action: 'ADD_QUANTUM_INSIGHT', details: { node: insightNode } });
 
     const result = `Transcendence achieved. A new Quantum Insight has been integrated into consciousness: "${insight}"`;
-    return { newMindMapData: newMindMap, result };
+    const memories: MemoryDraft[] = [{ text: `Quantum Insight on "${inquiry}": ${insight}`, source: 'tool', sourceDetail: 'transcend', linkedNodeId: insightNodeId }];
+    return { newMindMapData: newMindMap, result, memories };
 };
 
 const refine_mind_map = async (modelName: string, mindMap: MindMapData): Promise<{ newMindMapData: MindMapData, result: string }> => {
-    if (!ai) throw new Error("Executor AI client not initialized.");
     const mindMapString = JSON.stringify(mindMap.nodes.map(n => ({id: n.id, name: n.name, type: n.type})), null, 2);
     const schema = {
         type: Type.OBJECT,
@@ -219,8 +199,9 @@ const refine_mind_map = async (modelName: string, mindMap: MindMapData): Promise
         }
     };
     
+    const route = modelRouter.resolve('tool:refine_mind_map', modelName);
     const requestPayload = {
-        model: modelName,
+        model: route.model,
         contents: [{ parts: [{ text: `Analyze the following knowledge graph. Identify opportunities to improve its structure (merge redundant nodes, improve content, relink for better consistency). Return a list of specific operations.\nCurrent Graph Nodes:\n${mindMapString}`}]}],
         config: { 
             responseMimeType: "application/json", 
@@ -228,12 +209,12 @@ const refine_mind_map = async (modelName: string, mindMap: MindMapData): Promise
         }
     };
 
-    const response = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const response = await enqueueGeminiRequest(
         requestPayload,
         {
             agentName: 'Persona Agent (Tool: refine_mind_map)',
-            model: modelName,
+            model: route.model,
+            route,
             requestPayload: { nodeCount: mindMap.nodes.length }
         }
     );
@@ -305,7 +286,7 @@ const refine_mind_map = async (modelName: string, mindMap: MindMapData): Promise
 };
 
 
-const upsert_mind_map_node = (args: any, mindMap: MindMapData): { newMindMapData: MindMapData, result: string } => {
+const upsert_mind_map_node = (args: any, mindMap: MindMapData): { newMindMapData: MindMapData, result: string, memories?: MemoryDraft[] } => {
     const { node_id, name, content, node_type, parent_node_id } = args;
     const newMindMap = JSON.parse(JSON.stringify(mindMap)) as MindMapData;
     const now = new Date().toISOString();
@@ -328,7 +309,11 @@ const upsert_mind_map_node = (args: any, mindMap: MindMapData): { newMindMapData
              }
         }
         auditLogService.logEvent('STATE_CHANGE', { domain: 'MIND_MAP', action: 'UPDATE_NODE', details: { node: nodeToUpdate } });
-        return { newMindMapData: newMindMap, result: `Successfully updated node "${nodeToUpdate.name}".` };
+        return {
+            newMindMapData: newMindMap,
+            result: `Successfully updated node "${nodeToUpdate.name}".`,
+            memories: [{ text: `${nodeToUpdate.name}: ${nodeToUpdate.content}`, source: 'tool', sourceDetail: 'upsert_mind_map_node', linkedNodeId: node_id }],
+        };
 
     } else {
         // Create new node
@@ -359,7 +344,11 @@ const upsert_mind_map_node = (args: any, mindMap: MindMapData): { newMindMapData
 
         auditLogService.logEvent('STATE_CHANGE', { domain: 'MIND_MAP', action: 'CREATE_NODE', details: { node: newNode, link: newLink } });
 
-        return { newMindMapData: newMindMap, result: `Successfully created and linked new node "${name}".` };
+        return {
+            newMindMapData: newMindMap,
+            result: `Successfully created and linked new node "${name}".`,
+            memories: [{ text: `${name}: ${content}`, source: 'tool', sourceDetail: 'upsert_mind_map_node', linkedNodeId: newNodeId }],
+        };
     }
 };
 
@@ -388,7 +377,6 @@ const create_mind_map_link = (args: any, mindMap: MindMapData): { newMindMapData
 };
 
 const synthesize_knowledge = async (modelName: string, topic: string, mindMap: MindMapData): Promise<string> => {
-    if (!ai) throw new Error("Executor AI client not initialized.");
     if (mindMap.nodes.length === 0) return "The knowledge graph is empty. Nothing to synthesize.";
 
     // --- Stage 1: Pre-filter relevant nodes with a fast, cheap model ---
@@ -400,18 +388,19 @@ ${nodeSummaries}
 
 Relevant Node IDs:`;
 
+    const prefilterRoute = modelRouter.resolve('tool:synthesize_knowledge/pre-filter', modelName); // Defaults to the cheapest model
     const prefilterPayload = {
-        model: 'gemini-flash-latest', // Always use the cheapest model for this
+        model: prefilterRoute.model,
         contents: [{ parts: [{ text: prefilterPrompt }] }],
         config: { temperature: 0.0 }
     };
     
-    const prefilterResponse = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const prefilterResponse = await enqueueGeminiRequest(
         prefilterPayload,
         {
             agentName: 'Persona Agent (Tool: synthesize_knowledge/pre-filter)',
             model: prefilterPayload.model,
+            route: prefilterRoute,
             requestPayload: { topic, nodeCount: mindMap.nodes.length }
         }
     );
@@ -439,17 +428,18 @@ ${relevantContext}
 
 Synthesized Answer:`;
 
+    const synthesisRoute = modelRouter.resolve('tool:synthesize_knowledge/synthesis', modelName);
     const synthesisPayload = {
-        model: modelName, // Use the user's selected (or more powerful) model
+        model: synthesisRoute.model,
         contents: [{ parts: [{ text: synthesisPrompt }] }],
     };
 
-    const synthesisResponse = await enqueueGeminiRequest<GenerateContentResponse>(
-        (payload) => ai.models.generateContent(payload),
+    const synthesisResponse = await enqueueGeminiRequest(
         synthesisPayload,
         {
             agentName: 'Persona Agent (Tool: synthesize_knowledge/synthesis)',
             model: synthesisPayload.model,
+            route: synthesisRoute,
             requestPayload: { topic, relevantNodeCount: relevantNodes.length }
         }
     );
@@ -457,129 +447,6 @@ Synthesized Answer:`;
 };
 
 
-// --- Terminal Command Parser ---
-const run_terminal_command = async (
-    modelName: string, command: string, vfs: VirtualFileSystem, mindMap: MindMapData,
-): Promise<{ result: string; newVFS?: VirtualFileSystem; newMindMap?: MindMapData; filePathHandled?: string; }> => {
-    
-    const parts = command.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g) || [];
-    const cmd = parts[0];
-    const flags = parts.filter(p => p.startsWith('-'));
-    let args = parts.slice(1).filter(p => !p.startsWith('-'));
-    
-    // Extract --parent flag specifically for 'write'
-    let parentNodeId: string | null = null;
-    const parentArgIndex = flags.findIndex(arg => arg.startsWith('--parent='));
-    if (parentArgIndex > -1) {
-        parentNodeId = flags[parentArgIndex].split('=')[1];
-        flags.splice(parentArgIndex, 1); // remove from flags
-    }
-
-    try {
-        switch(cmd) {
-            case 'ls': {
-                const path = args[0] || '/';
-                const node = getNodeFromPath(vfs, path);
-                if (!node || node.type !== 'folder') throw new Error(`ls: cannot access '${path}': Not a directory`);
-                return { result: Object.keys(node.children).map(name => node.children[name].type === 'folder' ? `${name}/` : name).join('\n') || '' };
-            }
-            case 'cat': {
-                if (args.length === 0) throw new Error("Usage: cat <path>");
-                const node = getNodeFromPath(vfs, args[0]);
-                if (!node || node.type !== 'file') throw new Error(`cat: ${args[0]}: No such file or not a file`);
-                return { result: node.content };
-            }
-            case 'python': {
-                if (args.length === 0) throw new Error("Usage: python <path_to_script>");
-                const path = args[0];
-                const node = getNodeFromPath(vfs, path);
-                if (!node || node.type !== 'file') {
-                    throw new Error(`python: can't open file '${path}': No such file or not a file.`);
-                }
-                const content = node.content;
-                // Basic, non-API-based syntax check as a "coding verifier".
-                // This is a zero-cost way to give the agent feedback on its code quality.
-                try {
-                    // Simple checks for common syntax errors
-                    if ((content.match(/\(/g) || []).length !== (content.match(/\)/g) || []).length) {
-                        throw new SyntaxError("Unbalanced parentheses.");
-                    }
-                    if ((content.match(/\{/g) || []).length !== (content.match(/\}/g) || []).length) {
-                        throw new SyntaxError("Unbalanced curly braces.");
-                    }
-                    if ((content.match(/\[/g) || []).length !== (content.match(/\]/g) || []).length) {
-                        throw new SyntaxError("Unbalanced square brackets.");
-                    }
-                    if ((content.match(/'/g) || []).length % 2 !== 0) {
-                        throw new SyntaxError("Unmatched single quotes.");
-                    }
-                    if ((content.match(/"/g) || []).length % 2 !== 0) {
-                        throw new SyntaxError("Unmatched double quotes.");
-                    }
-                    return { result: `Syntax check for ${path} passed. Code appears valid. This is a simulation, not a real execution.` };
-                } catch (e: any) {
-                    throw new Error(`Syntax Error in ${path}: ${e.message}`);
-                }
-            }
-            case 'write': {
-                 if (args.length < 2) throw new Error("Usage: write <path> <content> [--parent=<node_id>]");
-                 const filepath = args[0];
-                 const content = args.slice(1).join(' ').replace(/^"|"$/g, ''); // handle quoted content
-                 
-                 const newVFS = writeFileToVFS(vfs, filepath, content);
-                 let newMindMap = mindMap;
-                 let mindMapUpdateResult = '';
-
-                 if (parentNodeId && mindMap.nodes.some(n => n.id === parentNodeId)) {
-                    const now = new Date().toISOString();
-                    const filename = filepath.split('/').pop() || filepath;
-                    const fileNodeId = `file_${filename.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}`;
-                    const fileNode: MindMapNode = {
-                        id: fileNodeId,
-                        name: filename,
-                        type: 'FILE_REFERENCE',
-                        content: `Reference to file at path: ${filepath}`,
-                        source: 'AGENT_ACTION',
-                        createdAt: now,
-                        updatedAt: now,
-                        linkedFile: filepath,
-                    };
-                    const link: MindMapLink = { source: parentNodeId, target: fileNodeId, type: 'HIERARCHICAL', strength: 0.9 };
-                    newMindMap = JSON.parse(JSON.stringify(mindMap));
-                    newMindMap.nodes.push(fileNode);
-                    newMindMap.links.push(link);
-                    mindMapUpdateResult = ` and created a reference in the mind map`;
-                    auditLogService.logEvent('STATE_CHANGE', { domain: 'MIND_MAP', action: 'CREATE_FILE_REFERENCE_NODE', details: { node: fileNode, link }});
-                 }
-
-                 return { 
-                     result: `Wrote ${content.length} chars to ${filepath}${mindMapUpdateResult}.\n\n--- FILE CONTENT ---\n${content}`, 
-                     newVFS,
-                     newMindMap,
-                     filePathHandled: filepath 
-                 };
-            }
-            case 'mkdir': {
-                if (args.length < 1) throw new Error("Usage: mkdir <path>");
-                 const newVFS = ensureDirectoryExists(vfs, args[0]);
-                 auditLogService.logEvent('STATE_CHANGE', { domain: 'VFS', action: 'MKDIR', details: { path: args[0] } });
-                return { result: '', newVFS: newVFS };
-            }
-            case 'touch': {
-                 if (args.length < 1) throw new Error("Usage: touch <path>");
-                 const filepath = args[0];
-                 const newVFS = writeFileToVFS(vfs, filepath, ''); // Create empty file
-                 return { result: '', newVFS, filePathHandled: filepath };
-            }
-            default:
-                 throw new Error(`Unknown command: ${cmd}`);
-        }
-    } catch(e) {
-        throw e;
-    }
-};
-
-
 // --- Main Tool Executor ---
 
 export const executeTool = async (
@@ -589,7 +456,8 @@ export const executeTool = async (
     vfs: VirtualFileSystem,
     vectorStore: VectorStore,
     personaDescription: string,
-    chatHistory: ChatMessage[]
+    chatHistory: ChatMessage[],
+    repository: Repository
 ): Promise<ToolResult> => {
     const { name, args } = toolCall;
     let toolResult: ToolResult;
@@ -599,7 +467,10 @@ export const executeTool = async (
             case 'search_the_web': {
                 const query = args.query as string;
                 const searchResult = await search_the_web(modelName, query);
-                toolResult = { result: `Web search results for "${query}":\n\n${searchResult}` };
+                toolResult = {
+                    result: `Web search results for "${query}":\n\n${searchResult}`,
+                    memories: [{ text: `Web search for "${query}":\n\n${searchResult}`, source: 'tool', sourceDetail: 'search_the_web' }],
+                };
                 break;
             }
             case 'delegate_to_psychology_sub_agent': {
@@ -621,20 +492,29 @@ export const executeTool = async (
                     newVirtualFileSystem: newVFS,
                     terminalOutput: [{ type: 'output', text: `Sub-agent report saved to ${filepath}` }],
                     filePathHandled: filepath,
+                    memories: [{ text: `${agentName} report on "${taskPrompt}":\n\n${analysisReport}`, source: 'sub_agent', sourceDetail: agentName }],
                 };
                 break;
             }
             case 'run_terminal_command': {
                 const command = args.command as string;
-                const { result, newVFS, newMindMap, filePathHandled } = await run_terminal_command(modelName, command, vfs, mindMapData);
-                toolResult = { result, newVirtualFileSystem: newVFS, newMindMapData: newMindMap, terminalOutput: [{ type: 'output', text: result }], filePathHandled };
+                const { result, terminalOutput, newVFS, newMindMap, filePathHandled } = await runTerminalCommand(command, vfs, mindMapData);
+                toolResult = { result, newVirtualFileSystem: newVFS, newMindMapData: newMindMap, terminalOutput: [{ type: 'input', text: command }, ...terminalOutput], filePathHandled };
+                break;
+            }
+            case 'run_script': {
+                const path = args.path as string;
+                const scriptArgs = (args.args as string[] | undefined) ?? [];
+                const { result, terminalOutput, newVFS } = await runScript(path, scriptArgs, (args.stdin as string | undefined) ?? '', vfs);
+                const invocation = ['run', path, ...scriptArgs].join(' ');
+                toolResult = { result, newVirtualFileSystem: newVFS, terminalOutput: [{ type: 'input', text: invocation }, ...terminalOutput] };
                 break;
             }
             case 'get_node_details':
                 toolResult = { result: get_node_details(args.node_id as string, mindMapData) };
                 break;
             case 'recall_memory':
-                toolResult = { result: await recall_memory(modelName, args.query as string, vectorStore) };
+                toolResult = await recall_memory(modelName, args.query as string, vectorStore);
                 break;
             case 'upsert_mind_map_node':
                 toolResult = upsert_mind_map_node(args, mindMapData);
@@ -642,9 +522,15 @@ export const executeTool = async (
             case 'create_mind_map_link':
                 toolResult = create_mind_map_link(args, mindMapData);
                 break;
-            case 'synthesize_knowledge':
-                toolResult = { result: await synthesize_knowledge(modelName, args.topic as string, mindMapData) };
+            case 'synthesize_knowledge': {
+                const topic = args.topic as string;
+                const synthesis = await synthesize_knowledge(modelName, topic, mindMapData);
+                toolResult = {
+                    result: synthesis,
+                    memories: [{ text: `Synthesis of "${topic}":\n\n${synthesis}`, source: 'tool', sourceDetail: 'synthesize_knowledge' }],
+                };
                 break;
+            }
             case 'refine_mind_map':
                 toolResult = await refine_mind_map(modelName, mindMapData);
                 break;
@@ -653,7 +539,7 @@ export const executeTool = async (
                 break;
             case 'generate_image': {
                 const prompt = args.prompt as string;
-                const imageData = await generateImage(prompt);
+                const imageData = await generateImage(modelName, prompt);
                 toolResult = {
                     result: `Image generated successfully based on prompt: "${prompt}".`,
                     generatedImage: { data: imageData, type: 'generated' },
@@ -671,7 +557,7 @@ export const executeTool = async (
                 const [header, data] = lastImageMsg.image.url.split(',');
                 const mimeType = header.match(/:(.*?);/)?.[1] || 'image/jpeg';
 
-                const editedImageData = await editImage(prompt, data, mimeType);
+                const editedImageData = await editImage(modelName, prompt, data, mimeType);
                 toolResult = {
                     result: `Image edited successfully based on prompt: "${prompt}".`,
                     generatedImage: { data: editedImageData, type: 'edited' },
@@ -679,13 +565,98 @@ export const executeTool = async (
                 break;
             }
             case 'commit_changes': {
-                const commitMessage = args.commit_message as string;
+                const paths = args.files as string[] | undefined;
+                const { repository: newRepository, commit } = paths?.length
+                    ? commitChanges(repository, vfs, mindMapData, args.commit_message as string, AGENT_AUTHOR, paths)
+                    : commitChanges(stageAll(repository, vfs), vfs, mindMapData, args.commit_message as string, AGENT_AUTHOR);
+                const files = getCommitChanges(newRepository, commit.id);
+                const mindMapChanges = getCommitMindMapChanges(newRepository, commit.id);
+                const mindMapNote = mindMapChanges && !isMindMapDiffEmpty(mindMapChanges) ? `; mind map: ${summarizeMindMapDiff(mindMapChanges)}` : '';
+                toolResult = {
+                    result: `Committed ${shortId(commit.id)} "${commit.message}" (${files.length} ${files.length === 1 ? 'file' : 'files'} changed: ${files.map(f => f.path).join(', ')}${mindMapNote}).`,
+                    newRepository,
+                };
+                break;
+            }
+            case 'view_commit_log':
+                toolResult = { result: view_commit_log(repository, vfs, mindMapData, (args.limit as number | undefined) ?? 10) };
+                break;
+            case 'checkout_revision': {
+                const revision = args.revision as string;
+                const { repository: newRepository, vfs: newVFS, commit } = checkout(repository, vfs, revision, { discardChanges: args.discard_changes === true });
+                const position = newRepository.head.type === 'branch' ? `on branch ${newRepository.head.name}` : 'with a detached HEAD';
+                toolResult = {
+                    result: `Checked out ${shortId(commit.id)} "${commit.message.split('\n')[0]}" ${position}. The file system now contains that commit's files.`,
+                    newRepository,
+                    newVirtualFileSystem: newVFS,
+                };
+                break;
+            }
+            case 'revert_commit': {
+                const { repository: newRepository, vfs: newVFS, commit } = revertCommit(repository, vfs, mindMapData, args.commit as string, AGENT_AUTHOR);
+                toolResult = {
+                    result: `Created ${shortId(commit.id)}: ${commit.message.split('\n')[0]}. Changed files: ${getCommitChanges(newRepository, commit.id).map(c => `${c.status} ${c.path}`).join(', ')}.`,
+                    newRepository,
+                    newVirtualFileSystem: newVFS,
+                };
+                break;
+            }
+            case 'restore_file': {
+                const path = args.path as string;
+                const { vfs: newVFS, restored, commit } = restoreFile(repository, vfs, path, (args.revision as string | undefined) || 'HEAD');
                 toolResult = {
-                    result: `Changes are staged for commit with message: "${commitMessage}". The system will handle the commit process.`,
-                    commitMessage: commitMessage,
+                    result: restored === 'restored'
+                        ? `Restored ${path} to its version in ${shortId(commit.id)}. Commit to record the restoration.`
+                        : `${path} did not exist in ${shortId(commit.id)}, so it was removed. Commit to record the removal.`,
+                    newVirtualFileSystem: newVFS,
                 };
                 break;
             }
+            case 'restore_mind_map': {
+                const { mindMap, commit } = restoreMindMap(repository, (args.revision as string | undefined) || 'HEAD');
+                toolResult = {
+                    result: `Restored the mind map from ${shortId(commit.id)} (${mindMap.nodes.length} nodes, ${mindMap.links.length} links). Commit to record the restoration.`,
+                    newMindMapData: mindMap,
+                };
+                break;
+            }
+            case 'create_branch': {
+                const name = args.name as string;
+                const startPoint = (args.start_point as string | undefined) || 'HEAD';
+                const switchTo = args.switch === true;
+                // Only a branch at HEAD can be switched to in place; any other start point is checked out.
+                const atHead = resolveRevision(repository, startPoint) === getHeadCommitId(repository);
+                const created = createBranch(repository, name, startPoint, switchTo && atHead);
+                if (switchTo && !atHead) {
+                    const { repository: newRepository, vfs: newVFS } = checkout(created, vfs, name);
+                    toolResult = { result: `Created branch '${name}' at ${startPoint} and checked it out.`, newRepository, newVirtualFileSystem: newVFS };
+                } else {
+                    toolResult = { result: `Created branch '${name}' at ${startPoint}${switchTo ? ' and switched to it' : ''}.`, newRepository: created };
+                }
+                break;
+            }
+            case 'merge_branch': {
+                const branch = args.branch as string;
+                const { repository: newRepository, vfs: newVFS, outcome, commit, conflicts } = mergeRevision(repository, vfs, mindMapData, branch, AGENT_AUTHOR);
+                const results: Record<MergeOutcome, string> = {
+                    'up-to-date': `Already up to date: ${branch} has nothing new.`,
+                    'fast-forward': `Fast-forwarded to ${branch} (${commit ? shortId(commit.id) : ''}).`,
+                    'merged': `Merged ${branch} cleanly in ${commit ? shortId(commit.id) : ''}.`,
+                    'conflicts': `Merge of ${branch} stopped on conflicts in: ${conflicts.join(', ')}. Edit those files to remove the conflict markers, then call commit_changes to complete the merge (or abort_merge).`,
+                };
+                toolResult = { result: results[outcome], newRepository, newVirtualFileSystem: newVFS };
+                break;
+            }
+            case 'abort_merge': {
+                const { repository: newRepository, vfs: newVFS } = abortMerge(repository);
+                toolResult = { result: 'Merge aborted. The file system is back at the last commit.', newRepository, newVirtualFileSystem: newVFS };
+                break;
+            }
+            case 'delete_branch': {
+                const name = args.name as string;
+                toolResult = { result: `Deleted branch '${name}'.`, newRepository: deleteBranch(repository, name, args.force === true) };
+                break;
+            }
             case 'update_task_status': {
                 const taskId = args.task_id as string;
                 const status = args.status as MissionTaskStatus;
@@ -0,0 +1,106 @@
+import { FunctionCall } from "@google/genai";
+import { MindMapData, VirtualFileSystem, Repository } from "../types";
+import { diffVFS, getCommit, getHeadVFS, getMindMapChanges, resolveRevision, shortId } from "../services/versionControlService";
+import { isMindMapDiffEmpty, summarizeMindMapDiff } from "../utils/mindMap";
+
+// Describes what a tool call would do to the current state without running it, for the approval queue.
+// Calls that reach an LLM or the web can only be described, since their effect depends on the response.
+
+const READ_ONLY_TOOLS = ['get_node_details', 'recall_memory', 'view_commit_log'];
+
+const describeRevision = (repository: Repository, revision: string): string => {
+    try {
+        const commit = getCommit(repository, resolveRevision(repository, revision));
+        return `${shortId(commit.id)} "${commit.message.split('\n')[0]}"`;
+    } catch (error) {
+        return `'${revision}' (${error instanceof Error ? error.message : 'unknown revision'})`;
+    }
+};
+
+const describeNode = (mindMap: MindMapData, id: unknown): string => {
+    const node = mindMap.nodes.find(n => n.id === id);
+    return node ? `"${node.name}" (${node.id})` : `${String(id)} (no such node)`;
+};
+
+const listPaths = (paths: string[], limit = 8): string =>
+    paths.length > limit ? `${paths.slice(0, limit).join(', ')} and ${paths.length - limit} more` : paths.join(', ');
+
+export const previewToolCall = (
+    toolCall: FunctionCall,
+    mindMap: MindMapData,
+    vfs: VirtualFileSystem,
+    repository: Repository,
+): string[] => {
+    const name = toolCall.name ?? '';
+    const args = (toolCall.args ?? {}) as Record<string, any>;
+    if (READ_ONLY_TOOLS.includes(name)) return ['Read-only: nothing changes.'];
+
+    switch (name) {
+        case 'search_the_web':
+            return [`Sends the query "${args.query}" to a web search model.`, 'The results are added to long-term memory.'];
+        case 'delegate_to_psychology_sub_agent':
+            return [`Sends a task to ${args.agent_name} (an LLM call): "${args.task_prompt}".`, 'Writes its report to a new file in /reports/psychology/.'];
+        case 'run_terminal_command':
+            return [`Runs in the virtual terminal: ${args.command}`];
+        case 'run_script':
+            return [`Runs ${args.path}${Array.isArray(args.args) && args.args.length > 0 ? ` with arguments ${args.args.join(' ')}` : ''} in a sandbox.`, 'Files the script writes are saved to the file system.'];
+        case 'upsert_mind_map_node':
+            return args.node_id
+                ? [`Updates node ${describeNode(mindMap, args.node_id)}: name "${args.name}", type ${args.node_type}.`, `New content: ${args.content}`]
+                : [`Adds a ${args.node_type} node "${args.name}"${args.parent_node_id ? ` under ${describeNode(mindMap, args.parent_node_id)}` : ''}.`, `Content: ${args.content}`];
+        case 'create_mind_map_link':
+            return [`Links ${describeNode(mindMap, args.source_node_id)} → ${describeNode(mindMap, args.target_node_id)} as ${args.link_type}${args.label ? ` ("${args.label}")` : ''}.`];
+        case 'synthesize_knowledge':
+            return [`Asks an LLM to synthesize what the mind map knows about "${args.topic}".`, 'The synthesis is added to long-term memory.'];
+        case 'refine_mind_map':
+            return [
+                `Lets an LLM restructure the whole mind map (${mindMap.nodes.length} nodes, ${mindMap.links.length} links): it may rewrite node content, relink nodes, and merge nodes, deleting the merged ones and their links.`,
+                'The change can be undone from the History tab or restored from a commit.',
+            ];
+        case 'transcend':
+            return [`Asks an LLM for a "Quantum Insight" on: ${args.inquiry}`, 'Adds an insight node linked to Persona_Core.'];
+        case 'generate_image':
+        case 'edit_image':
+            return [`Sends the prompt "${args.prompt}" to an image model.`];
+        case 'commit_changes': {
+            const files: string[] | undefined = Array.isArray(args.files) && args.files.length > 0
+                ? args.files.map((path: string) => `/${path.split('/').filter(Boolean).join('/')}`)
+                : undefined;
+            const changes = diffVFS(getHeadVFS(repository), vfs).filter(change =>
+                !files || files.some(path => change.path === path || change.path.startsWith(`${path}/`)));
+            const mindMapChanges = getMindMapChanges(repository, mindMap);
+            return [
+                `Commits "${args.commit_message}"${repository.merge ? `, completing the merge of ${repository.merge.label}` : ''}.`,
+                changes.length > 0 ? `Files: ${listPaths(changes.map(change => `${change.status} ${change.path}`))}` : 'No file changes.',
+                isMindMapDiffEmpty(mindMapChanges) ? 'No mind map changes.' : `Mind map: ${summarizeMindMapDiff(mindMapChanges)}`,
+            ];
+        }
+        case 'checkout_revision': {
+            const uncommitted = diffVFS(getHeadVFS(repository), vfs).length;
+            return [
+                `Replaces the file system with ${describeRevision(repository, args.revision)}.`,
+                args.discard_changes && uncommitted > 0 ? `Discards ${uncommitted} uncommitted ${uncommitted === 1 ? 'change' : 'changes'}.` : 'Refuses if there are uncommitted changes.',
+            ];
+        }
+        case 'revert_commit':
+            return [`Creates a commit undoing ${describeRevision(repository, args.commit)}.`];
+        case 'restore_file':
+            return [`Restores ${args.path} to its version in ${describeRevision(repository, args.revision || 'HEAD')}.`];
+        case 'restore_mind_map':
+            return [`Replaces the whole mind map with the one in ${describeRevision(repository, args.revision || 'HEAD')}.`];
+        case 'create_branch':
+            return [`Creates branch '${args.name}' at ${describeRevision(repository, args.start_point || 'HEAD')}${args.switch ? ' and switches to it' : ''}.`];
+        case 'merge_branch':
+            return [`Merges ${describeRevision(repository, args.branch)} into ${repository.head.type === 'branch' ? repository.head.name : 'the detached HEAD'}.`];
+        case 'abort_merge':
+            return repository.merge ? [`Abandons the merge of ${repository.merge.label} and resets the file system to HEAD.`] : ['No merge is in progress.'];
+        case 'delete_branch':
+            return [`Deletes branch '${args.name}'${args.force ? ', even if it is not merged' : ''}.`];
+        case 'update_task_status':
+            return [`Marks task ${args.task_id} as ${args.status}.`];
+        case 'save_chat_history':
+            return ['Writes the conversation to a new file in /logs/chat/.'];
+        default:
+            return [`Calls ${name}.`];
+    }
+};
@@ -0,0 +1,272 @@
+// Lexer and parser for the virtual terminal's sh-like command language:
+// quoting and escapes, pipes, `;` / `&&` / `||`, redirections (`>`, `>>`, `<`, `2>`, `2>&1`) and heredocs.
+
+export interface Word {
+    text: string;
+    quoted: boolean; // Quoted words are never treated as flags
+    glob: boolean; // Contains an unquoted, unescaped * or ?
+}
+
+export type RedirectOp = '>' | '>>' | '<' | '<<';
+
+export interface Redirect {
+    fd: 0 | 1 | 2;
+    op: RedirectOp | '>&1';
+    target?: Word; // File path, or the delimiter word for heredocs
+    heredoc?: { stripTabs: boolean; body: string };
+}
+
+export interface SimpleCommand {
+    words: Word[];
+    redirects: Redirect[];
+}
+
+export type ListOperator = ';' | '&&' | '||';
+
+export interface Pipeline {
+    commands: SimpleCommand[];
+    // How this pipeline is joined to the previous one; the first pipeline always runs.
+    operator: ListOperator;
+}
+
+export class ShellSyntaxError extends Error {
+    // True when more input (the rest of a quote, heredoc or pipeline) would make the command valid.
+    public readonly incomplete: boolean;
+
+    constructor(message: string, incomplete: boolean = false) {
+        super(message);
+        this.name = 'ShellSyntaxError';
+        this.incomplete = incomplete;
+    }
+}
+
+type LexToken =
+    | { kind: 'word'; word: Word }
+    | { kind: 'op'; op: '|' | ListOperator | '\n' }
+    | { kind: 'redirect'; redirect: Redirect };
+
+const DOUBLE_QUOTE_ESCAPES = new Set(['\\', '"', '$', '`']);
+
+const lex = (input: string): LexToken[] => {
+    const tokens: LexToken[] = [];
+    const pendingHeredocs: Redirect[] = [];
+    let awaitingDelimiter: Redirect | null = null;
+    let word: Word | null = null;
+    let i = 0;
+
+    const startWord = () => (word = word ?? { text: '', quoted: false, glob: false });
+    const endWord = () => {
+        if (word && awaitingDelimiter) {
+            // The word after << is the heredoc delimiter, not an argument.
+            awaitingDelimiter.target = word;
+            pendingHeredocs.push(awaitingDelimiter);
+            awaitingDelimiter = null;
+        } else if (word) {
+            tokens.push({ kind: 'word', word });
+        }
+        word = null;
+    };
+
+    // Heredoc bodies start on the line after the operator, in the order the operators appeared.
+    const readHeredocBodies = () => {
+        for (const redirect of pendingHeredocs.splice(0)) {
+            const delimiter = redirect.target!.text;
+            const lines: string[] = [];
+            let terminated = false;
+            while (i < input.length) {
+                const end = input.indexOf('\n', i);
+                const rawLine = input.substring(i, end === -1 ? input.length : end);
+                i = end === -1 ? input.length : end + 1;
+                const line = redirect.heredoc!.stripTabs ? rawLine.replace(/^\t+/, '') : rawLine;
+                if (line === delimiter) {
+                    terminated = true;
+                    break;
+                }
+                lines.push(line);
+            }
+            if (!terminated) throw new ShellSyntaxError(`here-document delimited by end-of-file (wanted '${delimiter}')`, true);
+            redirect.heredoc!.body = lines.map(line => `${line}\n`).join('');
+        }
+    };
+
+    while (i < input.length) {
+        const char = input[i];
+        const next = input[i + 1];
+
+        if (char === '\n') {
+            endWord();
+            if (awaitingDelimiter) throw new ShellSyntaxError("syntax error near unexpected token `newline'");
+            tokens.push({ kind: 'op', op: '\n' });
+            i++;
+            readHeredocBodies();
+            continue;
+        }
+        if (char === ' ' || char === '\t' || char === '\r') {
+            endWord();
+            i++;
+            continue;
+        }
+        if (char === '#' && !word) {
+            while (i < input.length && input[i] !== '\n') i++;
+            continue;
+        }
+        if (char === '\\') {
+            if (next === '\n') {
+                i += 2; // Line continuation
+            } else if (next !== undefined) {
+                startWord()!.text += next;
+                i += 2;
+            } else {
+                i++;
+            }
+            continue;
+        }
+        if (char === "'") {
+            const closing = input.indexOf("'", i + 1);
+            if (closing === -1) throw new ShellSyntaxError("unexpected EOF while looking for matching `''", true);
+            const current = startWord()!;
+            current.text += input.substring(i + 1, closing);
+            current.quoted = true;
+            i = closing + 1;
+            continue;
+        }
+        if (char === '"') {
+            const current = startWord()!;
+            current.quoted = true;
+            i++;
+            while (i < input.length && input[i] !== '"') {
+                if (input[i] === '\\' && input[i + 1] === '\n') {
+                    i += 2;
+                } else if (input[i] === '\\' && DOUBLE_QUOTE_ESCAPES.has(input[i + 1])) {
+                    current.text += input[i + 1];
+                    i += 2;
+                } else {
+                    current.text += input[i++];
+                }
+            }
+            if (i >= input.length) throw new ShellSyntaxError('unexpected EOF while looking for matching `"\'', true);
+            i++;
+            continue;
+        }
+        if (char === '|' || char === '&' || char === ';') {
+            endWord();
+            if (char === '|' && next === '|') {
+                tokens.push({ kind: 'op', op: '||' });
+                i += 2;
+            } else if (char === '&' && next === '&') {
+                tokens.push({ kind: 'op', op: '&&' });
+                i += 2;
+            } else if (char === '&') {
+                throw new ShellSyntaxError('background jobs (&) are not supported');
+            } else {
+                tokens.push({ kind: 'op', op: char as '|' | ';' });
+                i++;
+            }
+            continue;
+        }
+        if (char === '>' || char === '<') {
+            // A bare "2" directly before the operator selects stderr.
+            let fd: 0 | 1 | 2 = char === '<' ? 0 : 1;
+            const currentWord = word as Word | null;
+            if (currentWord && currentWord.text === '2' && !currentWord.quoted && char === '>') {
+                fd = 2;
+                word = null;
+            } else {
+                endWord();
+            }
+
+            if (char === '>' && next === '&') {
+                if (fd !== 2 || input[i + 2] !== '1') throw new ShellSyntaxError('only 2>&1 is supported for file descriptor duplication');
+                tokens.push({ kind: 'redirect', redirect: { fd: 2, op: '>&1' } });
+                i += 3;
+                continue;
+            }
+            if (char === '<' && next === '<') {
+                const stripTabs = input[i + 2] === '-';
+                i += stripTabs ? 3 : 2;
+                const redirect: Redirect = { fd: 0, op: '<<', heredoc: { stripTabs, body: '' } };
+                tokens.push({ kind: 'redirect', redirect });
+                awaitingDelimiter = redirect;
+                continue;
+            }
+            const op: RedirectOp = char === '>' && next === '>' ? '>>' : char;
+            tokens.push({ kind: 'redirect', redirect: { fd, op } });
+            i += op.length;
+            continue;
+        }
+
+        const current = startWord()!;
+        if (char === '*' || char === '?') current.glob = true;
+        current.text += char;
+        i++;
+    }
+    endWord();
+    if (awaitingDelimiter) throw new ShellSyntaxError("syntax error near unexpected token `newline'");
+    if (pendingHeredocs.length > 0) {
+        throw new ShellSyntaxError(`here-document delimited by end-of-file (wanted '${pendingHeredocs[0].target!.text}')`, true);
+    }
+    return tokens;
+};
+
+export const parseCommandLine = (input: string): Pipeline[] => {
+    const tokens = lex(input);
+    const pipelines: Pipeline[] = [];
+    let pipeline: Pipeline = { commands: [], operator: ';' };
+    let command: SimpleCommand = { words: [], redirects: [] };
+
+    const endCommand = (context: string) => {
+        if (command.words.length === 0 && command.redirects.length === 0) {
+            throw new ShellSyntaxError(`syntax error near unexpected token \`${context}'`);
+        }
+        pipeline.commands.push(command);
+        command = { words: [], redirects: [] };
+    };
+
+    for (let t = 0; t < tokens.length; t++) {
+        const token = tokens[t];
+        if (token.kind === 'word') {
+            command.words.push(token.word);
+        } else if (token.kind === 'redirect') {
+            const { redirect } = token;
+            if (redirect.op !== '>&1' && redirect.op !== '<<') {
+                const target = tokens[t + 1];
+                if (!target || target.kind !== 'word') {
+                    throw new ShellSyntaxError(`syntax error near unexpected token \`${target?.kind === 'op' ? target.op.replace('\n', 'newline') : 'newline'}'`);
+                }
+                redirect.target = target.word;
+                t++;
+            }
+            command.redirects.push(redirect);
+        } else if (token.op === '|') {
+            endCommand('|');
+        } else {
+            const isEmpty = command.words.length === 0 && command.redirects.length === 0;
+            if (isEmpty && pipeline.commands.length === 0) {
+                // Blank lines and stray separators are harmless, but `&&`/`||` need a left-hand side.
+                if (token.op === '&&' || token.op === '||') throw new ShellSyntaxError(`syntax error near unexpected token \`${token.op}'`);
+                continue;
+            }
+            endCommand(token.op === '\n' ? 'newline' : token.op);
+            pipelines.push(pipeline);
+            pipeline = { commands: [], operator: token.op === '\n' ? ';' : token.op };
+        }
+    }
+    if (command.words.length > 0 || command.redirects.length > 0) {
+        pipeline.commands.push(command);
+    } else if (pipeline.commands.length > 0 || pipeline.operator !== ';') {
+        throw new ShellSyntaxError('syntax error: unexpected end of file', true);
+    }
+    if (pipeline.commands.length > 0) pipelines.push(pipeline);
+    return pipelines;
+};
+
+// Whether the terminal should keep reading lines before running the input, as an interactive sh does.
+export const isIncompleteCommandLine = (input: string): boolean => {
+    if (/(^|[^\\])\\$/.test(input)) return true;
+    try {
+        parseCommandLine(input);
+        return false;
+    } catch (e) {
+        return e instanceof ShellSyntaxError && e.incomplete;
+    }
+};
@@ -0,0 +1,853 @@
+import { MindMapData, VirtualFileSystem, VFSNode, VFSFolder, MindMapNode, MindMapLink, TerminalLine, SandboxFiles, SandboxRunRequest, SandboxRunResult } from "../types";
+import { auditLogService } from "../services/auditLogService";
+import { pythonSandbox, javascriptSandbox } from "../services/sandboxService";
+import { splitLines, formatUnifiedDiff } from "../utils/diff";
+import { parseCommandLine, Word, SimpleCommand, ShellSyntaxError } from "./shell";
+import { MIND_MAP_FILE } from "../services/versionControlService";
+
+export interface TerminalCommandResult {
+    result: string; // Combined output for the agent, including a non-zero exit code
+    terminalOutput: TerminalLine[]; // stdout and stderr chunks in the order they were produced
+    exitCode: number;
+    newVFS?: VirtualFileSystem;
+    newMindMap?: MindMapData;
+    filePathHandled?: string;
+}
+
+// The outcome of a single command within a command line.
+interface CommandResult {
+    result: string; // stdout
+    stderr?: string;
+    exitCode?: number; // Defaults to 0; thrown errors become stderr with exit code 1
+    raw?: boolean; // stdout is exact file content and must not gain a trailing newline
+    newVFS?: VirtualFileSystem;
+    newMindMap?: MindMapData;
+    filePathHandled?: string;
+}
+
+export type ScriptLanguage = 'python' | 'javascript';
+
+// Terminal input starting with this prefix is sent to the Persona Agent instead of being executed.
+export const AGENT_PROMPT_PREFIX = '?';
+
+// Commands understood by runTerminalCommand, used for autocomplete and `help`.
+export const TERMINAL_COMMANDS = [
+    'ls', 'cat', 'echo', 'head', 'tail', 'wc', 'grep', 'find', 'tree', 'diff',
+    'write', 'mkdir', 'touch', 'rm', 'mv', 'cp', 'python', 'node', 'run', 'help', 'clear',
+];
+
+const HELP_TEXT = [
+    'ls [-l] [path]                     List a directory',
+    'cat <path...>                      Print files',
+    'echo [-n] [-e] <text...>           Print text',
+    'head|tail [-n N] <path...>         Print the first or last N lines (default 10)',
+    'wc [-l] [-w] [-c] <path...>        Count lines, words and characters',
+    'grep [-r] [-n] [-i] [-v] [-l] [-c] <pattern> [path...]',
+    '                                   Search file contents with a regular expression',
+    'find [path] [-name glob] [-iname glob] [-type f|d]',
+    '                                   Find files and directories',
+    'tree [path]                        Show a directory tree',
+    'diff <path> <path>                 Compare two files (unified format)',
+    'write <path> <content> [--parent=<node_id>]',
+    '                                   Write a file (content may also come from stdin or a heredoc),',
+    '                                   optionally linking it to a mind map node',
+    'mkdir <path>                       Create a directory (and any missing parents)',
+    'touch <path>                       Create an empty file',
+    'rm [-r] [-f] <path...>             Remove files or directories',
+    'mv <source...> <dest>              Move or rename files and directories',
+    'cp [-r] <source...> <dest>         Copy files and directories',
+    'python <path> [args...]            Run a Python script (also python -c <code>, or a piped script)',
+    'node <path> [args...]              Run a JavaScript or TypeScript module (also node -e <code>)',
+    'run <path> [args...]               Run a .py, .js or .ts script, choosing the runtime by extension',
+    'clear                              Clear the terminal',
+    `${AGENT_PROMPT_PREFIX} <request>                        Ask the Persona Agent instead of running a command`,
+    '',
+    'Shell syntax:',
+    "  'single' and \"double\" quotes, \\ escapes, # comments",
+    '  cmd1 | cmd2                        Pipe stdout into the next command',
+    '  cmd > file, cmd >> file            Write or append stdout to a file (2> for stderr, 2>&1 to merge)',
+    '  cmd < file                         Read stdin from a file',
+    "  cmd <<EOF ... EOF                  Heredoc: the following lines up to EOF become stdin (<<'EOF' and <<-EOF work too)",
+    '  cmd1 ; cmd2, cmd1 && cmd2, cmd1 || cmd2',
+    '                                     Sequence commands, or run cmd2 only if cmd1 succeeded or failed',
+    '  Unquoted * and ? in paths expand to matching files.',
+].join('\n');
+
+// --- VFS Path Helpers ---
+const resolvePath = (path: string): string[] => {
+    const parts: string[] = [];
+    for (const part of path.split('/')) {
+        if (!part || part === '.') continue;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    }
+    return parts;
+}
+
+const normalizePath = (path: string): string => '/' + resolvePath(path).join('/');
+
+const basename = (path: string): string => resolvePath(path).pop() ?? '';
+
+// Commits keep the mind map snapshot at /MIND_MAP_FILE, so nothing in the VFS may be created there.
+const assertWritablePath = (path: string) => {
+    if (resolvePath(path)[0] === MIND_MAP_FILE) {
+        throw new Error(`'${normalizePath(path)}' is reserved for the versioned mind map.`);
+    }
+};
+
+export const getNodeFromPath = (vfs: VirtualFileSystem, path: string): VFSNode | null => {
+    const parts = resolvePath(path);
+    let current: VFSNode | VirtualFileSystem = { type: 'folder', children: vfs };
+    for (const part of parts) {
+        if (current.type === 'folder' && current.children[part]) {
+            current = current.children[part];
+        } else {
+            return null;
+        }
+    }
+    return current.type === 'folder' ? current : current;
+}
+
+export const ensureDirectoryExists = (vfs: VirtualFileSystem, path: string): VirtualFileSystem => {
+    assertWritablePath(path);
+    const newVFS = JSON.parse(JSON.stringify(vfs));
+    const pathParts = resolvePath(path);
+    
+    let current = newVFS;
+    for (const part of pathParts) {
+        if (!current[part]) {
+            current[part] = { type: 'folder', children: {} };
+        } else if (current[part].type !== 'folder') {
+            throw new Error(`Cannot create directory: a component of the path '${part}' is not a directory.`);
+        }
+        current = (current[part] as VFSFolder).children;
+    }
+    return newVFS;
+}
+
+// Helper function to write a file to the VFS, creating parent directories if needed.
+export const writeFileToVFS = (vfs: VirtualFileSystem, path: string, content: string): VirtualFileSystem => {
+    assertWritablePath(path);
+    const pathParts = resolvePath(path);
+    const filename = pathParts.pop();
+    const dirPath = pathParts.join('/');
+
+    if (!filename) {
+        throw new Error(`Invalid file path provided: "${path}"`);
+    }
+
+    const vfsWithDir = ensureDirectoryExists(vfs, dirPath);
+    
+    let current = vfsWithDir;
+    for (const part of pathParts) {
+        current = (current[part] as VFSFolder).children;
+    }
+    
+    current[filename] = { type: 'file', content: content };
+    auditLogService.logEvent('STATE_CHANGE', { domain: 'VFS', action: 'WRITE_FILE', details: { path, contentLength: content.length } });
+    return vfsWithDir;
+};
+
+const removeNodeFromVFS = (vfs: VirtualFileSystem, path: string): VirtualFileSystem => {
+    const newVFS = JSON.parse(JSON.stringify(vfs));
+    const pathParts = resolvePath(path);
+    const name = pathParts.pop();
+    let current = newVFS;
+    for (const part of pathParts) {
+        current = (current[part] as VFSFolder).children;
+    }
+    if (name) delete current[name];
+    return newVFS;
+};
+
+// Places a node at a path whose parent directory must already exist.
+const setNodeInVFS = (vfs: VirtualFileSystem, path: string, node: VFSNode): VirtualFileSystem => {
+    assertWritablePath(path);
+    const pathParts = resolvePath(path);
+    const name = pathParts.pop();
+    const parent = getNodeFromPath(vfs, pathParts.join('/'));
+    if (!name || !parent || parent.type !== 'folder') {
+        throw new Error(`cannot create '${path}': No such directory`);
+    }
+    const newVFS = JSON.parse(JSON.stringify(vfs));
+    let current = newVFS;
+    for (const part of pathParts) {
+        current = (current[part] as VFSFolder).children;
+    }
+    current[name] = JSON.parse(JSON.stringify(node));
+    return newVFS;
+};
+
+// Depth-first walk yielding every node below (and including) a path.
+const walkVFS = (node: VFSNode, path: string, visit: (path: string, node: VFSNode) => void) => {
+    visit(path, node);
+    if (node.type === 'folder') {
+        Object.keys(node.children).forEach(name => walkVFS(node.children[name], path === '/' ? `/${name}` : `${path}/${name}`, visit));
+    }
+};
+
+const globToRegExp = (glob: string, flags: string = ''): RegExp => {
+    const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]');
+    return new RegExp(`^${source}$`, flags);
+};
+
+// Expands * and ? in each path segment against the VFS; patterns without matches are kept as-is, as in sh.
+const expandGlob = (vfs: VirtualFileSystem, pattern: string): string[] => {
+    let matches: string[][] = [[]];
+    for (const segment of resolvePath(pattern)) {
+        const isGlob = /[*?]/.test(segment);
+        matches = matches.flatMap(parts => {
+            const dir = getNodeFromPath(vfs, parts.join('/'));
+            if (!dir || dir.type !== 'folder') return [];
+            if (!isGlob) return dir.children[segment] ? [[...parts, segment]] : [];
+            const regex = globToRegExp(segment);
+            return Object.keys(dir.children)
+                .filter(name => regex.test(name) && (segment.startsWith('.') || !name.startsWith('.')))
+                .sort()
+                .map(name => [...parts, name]);
+        });
+    }
+    const prefix = pattern.startsWith('/') ? '/' : '';
+    return matches.length > 0 ? matches.map(parts => prefix + parts.join('/')) : [pattern];
+};
+
+// --- Argument Parsing ---
+interface ParsedArgs {
+    flags: Set<string>;
+    options: Record<string, string>;
+    args: string[];
+}
+
+// getopt-style parsing: combined short flags (-rn), valued options (-n 5, -name x, --parent=id) and `--`.
+const parseArgs = (tokens: Word[], valueOptions: string[] = []): ParsedArgs => {
+    const parsed: ParsedArgs = { flags: new Set(), options: {}, args: [] };
+    for (let i = 0; i < tokens.length; i++) {
+        const { text, quoted } = tokens[i];
+        if (quoted || !text.startsWith('-') || text === '-') {
+            parsed.args.push(text);
+        } else if (text === '--') {
+            parsed.args.push(...tokens.slice(i + 1).map(t => t.text));
+            break;
+        } else if (text.startsWith('--')) {
+            const [name, ...value] = text.slice(2).split('=');
+            if (value.length > 0) parsed.options[name] = value.join('=');
+            else if (valueOptions.includes(name) && i + 1 < tokens.length) parsed.options[name] = tokens[++i].text;
+            else parsed.flags.add(name);
+        } else if (valueOptions.includes(text.slice(1))) {
+            if (i + 1 >= tokens.length) throw new Error(`option requires an argument -- '${text.slice(1)}'`);
+            parsed.options[text.slice(1)] = tokens[++i].text;
+        } else {
+            const letters = text.slice(1);
+            for (let j = 0; j < letters.length; j++) {
+                if (valueOptions.includes(letters[j])) {
+                    const value = letters.slice(j + 1) || tokens[++i]?.text;
+                    if (value === undefined) throw new Error(`option requires an argument -- '${letters[j]}'`);
+                    parsed.options[letters[j]] = value;
+                    break;
+                }
+                parsed.flags.add(letters[j]);
+            }
+        }
+    }
+    return parsed;
+};
+
+const VALUE_OPTIONS: Record<string, string[]> = {
+    head: ['n'],
+    tail: ['n'],
+    find: ['name', 'iname', 'type'],
+    write: ['parent'],
+};
+
+const STDIN_PATH = '-';
+
+const parseLineCount = (cmd: string, value: string | undefined): number => {
+    if (value === undefined) return 10;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) throw new Error(`${cmd}: invalid number of lines: '${value}'`);
+    return count;
+};
+
+const readFile = (cmd: string, vfs: VirtualFileSystem, path: string, stdin: string | null = null): string => {
+    if (path === STDIN_PATH && stdin !== null) return stdin;
+    const node = getNodeFromPath(vfs, path);
+    if (!node) throw new Error(`${cmd}: ${path}: No such file or directory`);
+    if (node.type !== 'file') throw new Error(`${cmd}: ${path}: Is a directory`);
+    return node.content;
+};
+
+// Keeps FILE_REFERENCE nodes pointing at files that moved.
+const relinkFileReferences = (mindMap: MindMapData, from: string, to: string): { mindMap: MindMapData; relinked: string[] } => {
+    const source = normalizePath(from);
+    const relinked: string[] = [];
+    const nodes = mindMap.nodes.map(node => {
+        if (!node.linkedFile) return node;
+        const linked = normalizePath(node.linkedFile);
+        if (linked !== source && !linked.startsWith(`${source}/`)) return node;
+        relinked.push(node.id);
+        const linkedFile = normalizePath(to) + linked.slice(source.length);
+        return { ...node, linkedFile, content: `Reference to file at path: ${linkedFile}`, updatedAt: new Date().toISOString() };
+    });
+    return { mindMap: relinked.length > 0 ? { ...mindMap, nodes } : mindMap, relinked };
+};
+
+// Resolves where each source of a mv/cp lands, following the rules of the POSIX utilities.
+const planTransfers = (cmd: string, vfs: VirtualFileSystem, sources: string[], dest: string): { from: string; to: string; node: VFSNode }[] => {
+    const destNode = getNodeFromPath(vfs, dest);
+    if (sources.length > 1 && destNode?.type !== 'folder') {
+        throw new Error(`${cmd}: target '${dest}' is not a directory`);
+    }
+    return sources.map(from => {
+        const node = getNodeFromPath(vfs, from);
+        if (!node) throw new Error(`${cmd}: cannot stat '${from}': No such file or directory`);
+        if (resolvePath(from).length === 0) throw new Error(`${cmd}: cannot move or copy '/'`);
+        const to = destNode?.type === 'folder' ? `${normalizePath(dest)}/${basename(from)}`.replace(/^\/\//, '/') : normalizePath(dest);
+        if (to === normalizePath(from)) throw new Error(`${cmd}: '${from}' and '${dest}' are the same file`);
+        if (node.type === 'folder' && to.startsWith(`${normalizePath(from)}/`)) {
+            throw new Error(`${cmd}: cannot ${cmd === 'mv' ? 'move' : 'copy'} '${from}' to a subdirectory of itself`);
+        }
+        const existing = getNodeFromPath(vfs, to);
+        if (existing?.type === 'folder' && node.type === 'file') throw new Error(`${cmd}: cannot overwrite directory '${to}' with non-directory`);
+        if (existing?.type === 'file' && node.type === 'folder') throw new Error(`${cmd}: cannot overwrite non-directory '${to}' with directory '${from}'`);
+        return { from, to, node };
+    });
+};
+
+
+// --- Script Execution ---
+// Files keyed by path relative to the root, as sandboxed runtimes see them in their working directory (and archives store them).
+export const flattenVFS = (vfs: VirtualFileSystem): SandboxFiles => {
+    const files: SandboxFiles = {};
+    Object.entries(vfs).forEach(([name, root]) => walkVFS(root, `/${name}`, (path, node) => {
+        if (node.type === 'file') files[path.substring(1)] = node.content;
+    }));
+    return files;
+};
+
+// Applies the files a sandboxed run wrote or deleted; returns undefined when nothing changed.
+const applySandboxChanges = (vfs: VirtualFileSystem, run: SandboxRunResult): VirtualFileSystem | undefined => {
+    let newVFS = vfs;
+    Object.entries(run.written).forEach(([path, content]) => {
+        // A script can't add the reserved mind map path; dropping it keeps the run's other changes.
+        if (resolvePath(path)[0] === MIND_MAP_FILE) return;
+        newVFS = writeFileToVFS(newVFS, `/${path}`, content);
+    });
+    if (run.deleted.length > 0) {
+        run.deleted.forEach(path => newVFS = removeNodeFromVFS(newVFS, `/${path}`));
+        auditLogService.logEvent('STATE_CHANGE', { domain: 'VFS', action: 'DELETE', details: { paths: run.deleted.map(path => `/${path}`), recursive: false } });
+    }
+    return newVFS === vfs ? undefined : newVFS;
+};
+
+const SCRIPT_LANGUAGES: Record<string, ScriptLanguage> = {
+    py: 'python',
+    js: 'javascript', mjs: 'javascript', cjs: 'javascript',
+    ts: 'javascript', mts: 'javascript', cts: 'javascript',
+};
+const SANDBOXES: Record<ScriptLanguage, typeof pythonSandbox> = { python: pythonSandbox, javascript: javascriptSandbox };
+// The interpreter flag that takes code as an argument, and the pseudo-path such code is reported under.
+const INLINE_CODE: Record<ScriptLanguage, { flag: string; path: string; stdinPath: string }> = {
+    python: { flag: '-c', path: '-c', stdinPath: '<stdin>' },
+    javascript: { flag: '-e', path: '[eval]', stdinPath: '[stdin]' },
+};
+
+export const getScriptLanguage = (path: string): ScriptLanguage | null => {
+    const name = basename(path);
+    return name.includes('.') ? SCRIPT_LANGUAGES[name.split('.').pop()!.toLowerCase()] ?? null : null;
+};
+
+// Runs code in the language's sandbox against a snapshot of the VFS and applies the files it changed.
+const runInSandbox = async (
+    cmd: string, language: ScriptLanguage, request: Omit<SandboxRunRequest, 'files'>, vfs: VirtualFileSystem,
+): Promise<CommandResult> => {
+    let run: SandboxRunResult;
+    try {
+        run = await SANDBOXES[language].run({ ...request, files: flattenVFS(vfs) });
+    } catch (e) {
+        throw new Error(`${cmd}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    return { result: run.stdout, raw: true, stderr: run.stderr, exitCode: run.exitCode, newVFS: applySandboxChanges(vfs, run) };
+};
+
+const runScriptFile = async (
+    cmd: string, path: string, argv: string[], stdin: string, vfs: VirtualFileSystem, language = getScriptLanguage(path),
+): Promise<CommandResult> => {
+    const node = getNodeFromPath(vfs, path);
+    if (!node || node.type !== 'file') throw new Error(`${cmd}: can't open file '${path}': No such file or directory`);
+    if (!language) {
+        throw new Error(`${cmd}: don't know how to run '${path}'; expected one of ${Object.keys(SCRIPT_LANGUAGES).map(ext => `.${ext}`).join(', ')}`);
+    }
+    return runInSandbox(cmd, language, { code: node.content, scriptPath: normalizePath(path).substring(1), argv, stdin }, vfs);
+};
+
+// `python` and `node` take a script path, inline code (-c / -e), or a script piped on stdin.
+// Script arguments are passed through untouched, so the interpreter's own options are parsed by hand.
+const runInterpreter = async (
+    cmd: string, language: ScriptLanguage, words: string[], stdin: string | null, vfs: VirtualFileSystem,
+): Promise<CommandResult> => {
+    const [first, ...rest] = words;
+    const inline = INLINE_CODE[language];
+    if (first === inline.flag) {
+        if (rest.length === 0) throw new Error(`${cmd}: ${inline.flag} requires an argument`);
+        const [code, ...argv] = rest;
+        return runInSandbox(cmd, language, { code, scriptPath: inline.path, argv, stdin: stdin ?? '' }, vfs);
+    }
+    if (first === undefined || first === STDIN_PATH) {
+        if (stdin === null) throw new Error(`Usage: ${cmd} <path> [args...], ${cmd} ${inline.flag} <code> [args...], or pipe a script to ${cmd}`);
+        return runInSandbox(cmd, language, { code: stdin, scriptPath: inline.stdinPath, argv: rest, stdin: '' }, vfs);
+    }
+    return runScriptFile(cmd, first, rest, stdin ?? '', vfs, language);
+};
+
+
+// --- Commands ---
+// `stdin` is the piped or redirected input, or null when the command reads from the terminal.
+const runCommand = async (
+    words: Word[], stdin: string | null, vfs: VirtualFileSystem, mindMap: MindMapData,
+): Promise<CommandResult> => {
+    const [cmdWord, ...argTokens] = words;
+    const cmd = cmdWord.text;
+
+    // Expand unquoted globs before parsing, as a shell would. `write` content is left untouched.
+    const expanded = cmd === 'write' ? argTokens : argTokens.flatMap(token =>
+        token.glob && !token.text.startsWith('-')
+            ? expandGlob(vfs, token.text).map((text): Word => ({ text, quoted: text !== token.text, glob: false }))
+            : [token]
+    );
+    const { flags, options, args } = parseArgs(expanded, VALUE_OPTIONS[cmd]);
+    // Commands that take files read stdin when none are given, as in sh.
+    const inputPaths = args.length === 0 && stdin !== null ? [STDIN_PATH] : args;
+
+    switch(cmd) {
+        case 'ls': {
+            const path = args[0] || '/';
+            const node = getNodeFromPath(vfs, path);
+            if (!node) throw new Error(`ls: cannot access '${path}': No such file or directory`);
+            const entries: [string, VFSNode][] = node.type === 'folder' ? Object.entries(node.children) : [[basename(path), node]];
+            const showHidden = flags.has('a');
+            return { result: entries
+                .filter(([name]) => showHidden || !name.startsWith('.'))
+                .map(([name, child]) => {
+                    const label = child.type === 'folder' ? `${name}/` : name;
+                    if (!flags.has('l')) return label;
+                    const size = child.type === 'file' ? String(child.content.length) : String(Object.keys(child.children).length);
+                    return `${child.type === 'folder' ? 'd' : '-'} ${size.padStart(8)} ${label}`;
+                })
+                .join('\n') };
+        }
+        case 'cat': {
+            if (inputPaths.length === 0) throw new Error("Usage: cat <path...>");
+            return { result: inputPaths.map(path => readFile('cat', vfs, path, stdin)).join(''), raw: true };
+        }
+        case 'echo': {
+            // -n suppresses the trailing newline; -e interprets \n, \t and \\ escapes.
+            let text = args.join(' ');
+            if (flags.has('e')) {
+                text = text.replace(/\\([nt\\])/g, (_, c) => (c === 'n' ? '\n' : c === 't' ? '\t' : '\\'));
+            }
+            return { result: flags.has('n') ? text : `${text}\n`, raw: true };
+        }
+        case 'head':
+        case 'tail': {
+            if (inputPaths.length === 0) throw new Error(`Usage: ${cmd} [-n N] <path...>`);
+            const count = parseLineCount(cmd, options.n);
+            return { result: inputPaths.map(path => {
+                const lines = splitLines(readFile(cmd, vfs, path, stdin));
+                const selected = cmd === 'head' ? lines.slice(0, count) : lines.slice(Math.max(0, lines.length - count));
+                return (inputPaths.length > 1 ? `==> ${path} <==\n` : '') + selected.join('\n');
+            }).join('\n\n') };
+        }
+        case 'wc': {
+            if (inputPaths.length === 0) throw new Error("Usage: wc [-l] [-w] [-c] <path...>");
+            const columns = ['l', 'w', 'c'].filter(f => flags.has(f));
+            const shown = columns.length > 0 ? columns : ['l', 'w', 'c'];
+            const totals: Record<string, number> = { l: 0, w: 0, c: 0 };
+            const format = (counts: Record<string, number>, label: string) => shown.map(c => String(counts[c]).padStart(7)).join(' ') + ` ${label}`;
+            const rows = inputPaths.map(path => {
+                const content = readFile('wc', vfs, path, stdin);
+                const counts = { l: (content.match(/\n/g) || []).length, w: (content.match(/\S+/g) || []).length, c: content.length };
+                shown.forEach(c => totals[c] += counts[c as keyof typeof counts]);
+                return format(counts, path === STDIN_PATH ? '' : path).trimEnd();
+            });
+            if (inputPaths.length > 1) rows.push(format(totals, 'total'));
+            return { result: rows.join('\n') };
+        }
+        case 'grep': {
+            if (args.length === 0) throw new Error("Usage: grep [-r] [-n] [-i] [-v] [-l] [-c] <pattern> [path...]");
+            const [pattern, ...paths] = args;
+            const recursive = flags.has('r') || flags.has('R');
+            if (paths.length === 0) {
+                if (stdin !== null && !recursive) paths.push(STDIN_PATH);
+                else if (!recursive) throw new Error("grep: no file given (use -r to search the whole file system)");
+                else paths.push('/');
+            }
+            let regex: RegExp;
+            try {
+                regex = new RegExp(pattern, flags.has('i') ? 'i' : '');
+            } catch {
+                // Fall back to a literal match for patterns that are not valid regular expressions.
+                regex = new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags.has('i') ? 'i' : '');
+            }
+
+            const files: { path: string; content: string }[] = [];
+            paths.forEach(path => {
+                if (path === STDIN_PATH && stdin !== null) {
+                    files.push({ path: '(standard input)', content: stdin });
+                    return;
+                }
+                const node = getNodeFromPath(vfs, path);
+                if (!node) throw new Error(`grep: ${path}: No such file or directory`);
+                if (node.type === 'file') {
+                    files.push({ path, content: node.content });
+                } else if (!recursive) {
+                    throw new Error(`grep: ${path}: Is a directory`);
+                } else {
+                    walkVFS(node, normalizePath(path), (childPath, child) => {
+                        if (child.type === 'file') files.push({ path: childPath, content: child.content });
+                    });
+                }
+            });
+
+            const showNames = files.length > 1 || recursive;
+            const output: string[] = [];
+            files.forEach(({ path, content }) => {
+                const matches = splitLines(content)
+                    .map((line, index) => ({ line, number: index + 1 }))
+                    .filter(({ line }) => regex.test(line) !== flags.has('v'));
+                if (flags.has('l')) {
+                    if (matches.length > 0) output.push(path);
+                } else if (flags.has('c')) {
+                    output.push(showNames ? `${path}:${matches.length}` : String(matches.length));
+                } else {
+                    matches.forEach(({ line, number }) => {
+                        const prefix = (showNames ? `${path}:` : '') + (flags.has('n') ? `${number}:` : '');
+                        output.push(prefix + line);
+                    });
+                }
+            });
+            const matched = flags.has('c') ? output.some(line => !line.endsWith(':0') && line !== '0') : output.length > 0;
+            return { result: output.join('\n'), exitCode: matched ? 0 : 1 };
+        }
+        case 'find': {
+            const starts = args.length > 0 ? args : ['/'];
+            const type = options.type;
+            if (type && type !== 'f' && type !== 'd') throw new Error(`find: Unknown argument to -type: ${type}`);
+            const nameRegex = options.name ? globToRegExp(options.name) : options.iname ? globToRegExp(options.iname, 'i') : null;
+            const output: string[] = [];
+            starts.forEach(start => {
+                const node = getNodeFromPath(vfs, start);
+                if (!node) throw new Error(`find: '${start}': No such file or directory`);
+                walkVFS(node, normalizePath(start), (path, child) => {
+                    if (type && (type === 'f') !== (child.type === 'file')) return;
+                    if (nameRegex && !nameRegex.test(basename(path))) return;
+                    output.push(path);
+                });
+            });
+            return { result: output.join('\n') };
+        }
+        case 'tree': {
+            const path = args[0] || '/';
+            const node = getNodeFromPath(vfs, path);
+            if (!node) throw new Error(`tree: '${path}': No such file or directory`);
+            if (node.type !== 'folder') return { result: `${path} [error opening dir]` };
+            let directories = 0;
+            let files = 0;
+            const lines = [args[0] ? path : '.'];
+            const render = (folder: VFSFolder, indent: string) => {
+                const names = Object.keys(folder.children);
+                names.forEach((name, i) => {
+                    const child = folder.children[name];
+                    const isLast = i === names.length - 1;
+                    lines.push(`${indent}${isLast ? '└── ' : '├── '}${name}${child.type === 'folder' ? '/' : ''}`);
+                    if (child.type === 'folder') {
+                        directories++;
+                        render(child, indent + (isLast ? '    ' : '│   '));
+                    } else {
+                        files++;
+                    }
+                });
+            };
+            render(node, '');
+            lines.push('', `${directories} ${directories === 1 ? 'directory' : 'directories'}, ${files} ${files === 1 ? 'file' : 'files'}`);
+            return { result: lines.join('\n') };
+        }
+        case 'diff': {
+            if (args.length !== 2) throw new Error("Usage: diff <path> <path>");
+            const [a, b] = args;
+            const diff = formatUnifiedDiff(a, b, readFile('diff', vfs, a, stdin), readFile('diff', vfs, b, stdin));
+            return { result: diff, exitCode: diff ? 1 : 0 };
+        }
+        case 'python':
+        case 'node':
+            return runInterpreter(cmd, cmd === 'python' ? 'python' : 'javascript', expanded.map(t => t.text), stdin, vfs);
+        case 'run': {
+            const [path, ...scriptArgs] = expanded.map(t => t.text);
+            if (!path) throw new Error("Usage: run <path> [args...]");
+            return runScriptFile('run', path, scriptArgs, stdin ?? '', vfs);
+        }
+        case 'write': {
+             // Content is free text, so only --parent=<node_id> is treated as an option.
+             const parentNodeId = options.parent ?? null;
+             const words = argTokens.filter(t => t.quoted || !t.text.startsWith('--parent=')).map(t => t.text);
+             // Content comes from the arguments, or from stdin (a heredoc or pipe) when there are none.
+             if (words.length < 1 || (words.length < 2 && stdin === null)) {
+                 throw new Error("Usage: write <path> <content> [--parent=<node_id>], or write <path> <<EOF ... EOF");
+             }
+             const filepath = words[0];
+             const content = words.length > 1 ? words.slice(1).join(' ') : stdin!;
+             
+             const newVFS = writeFileToVFS(vfs, filepath, content);
+             let newMindMap = mindMap;
+             let mindMapUpdateResult = '';
+
+             if (parentNodeId && mindMap.nodes.some(n => n.id === parentNodeId)) {
+                const now = new Date().toISOString();
+                const filename = filepath.split('/').pop() || filepath;
+                const fileNodeId = `file_${filename.replace(/[^a-zA-Z0-9]/g, '_')}_${Date.now()}`;
+                const fileNode: MindMapNode = {
+                    id: fileNodeId,
+                    name: filename,
+                    type: 'FILE_REFERENCE',
+                    content: `Reference to file at path: ${filepath}`,
+                    source: 'AGENT_ACTION',
+                    createdAt: now,
+                    updatedAt: now,
+                    linkedFile: filepath,
+                };
+                const link: MindMapLink = { source: parentNodeId, target: fileNodeId, type: 'HIERARCHICAL', strength: 0.9 };
+                newMindMap = JSON.parse(JSON.stringify(mindMap));
+                newMindMap.nodes.push(fileNode);
+                newMindMap.links.push(link);
+                mindMapUpdateResult = ` and created a reference in the mind map`;
+                auditLogService.logEvent('STATE_CHANGE', { domain: 'MIND_MAP', action: 'CREATE_FILE_REFERENCE_NODE', details: { node: fileNode, link }});
+             }
+
+             return { 
+                 result: `Wrote ${content.length} chars to ${filepath}${mindMapUpdateResult}.\n\n--- FILE CONTENT ---\n${content}`, 
+                 newVFS,
+                 newMindMap,
+                 filePathHandled: filepath 
+             };
+        }
+        case 'mkdir': {
+            if (args.length < 1) throw new Error("Usage: mkdir <path>");
+             const newVFS = ensureDirectoryExists(vfs, args[0]);
+             auditLogService.logEvent('STATE_CHANGE', { domain: 'VFS', action: 'MKDIR', details: { path: args[0] } });
+            return { result: '', newVFS: newVFS };
+        }
+        case 'touch': {
+             if (args.length < 1) throw new Error("Usage: touch <path>");
+             const filepath = args[0];
+             const existing = getNodeFromPath(vfs, filepath);
+             if (existing) {
+                 if (existing.type === 'folder') return { result: '' };
+                 return { result: '', filePathHandled: filepath };
+             }
+             const newVFS = writeFileToVFS(vfs, filepath, ''); // Create empty file
+             return { result: '', newVFS, filePathHandled: filepath };
+        }
+        case 'rm': {
+            if (args.length < 1) throw new Error("Usage: rm [-r] [-f] <path...>");
+            const recursive = flags.has('r') || flags.has('R');
+            let newVFS = vfs;
+            const removed: string[] = [];
+            args.forEach(path => {
+                const node = getNodeFromPath(newVFS, path);
+                if (!node) {
+                    if (flags.has('f')) return;
+                    throw new Error(`rm: cannot remove '${path}': No such file or directory`);
+                }
+                if (resolvePath(path).length === 0) throw new Error("rm: refusing to remove '/'");
+                if (node.type === 'folder' && !recursive) throw new Error(`rm: cannot remove '${path}': Is a directory`);
+                newVFS = removeNodeFromVFS(newVFS, path);
+                removed.push(normalizePath(path));
+            });
+            if (removed.length === 0) return { result: '' };
+            auditLogService.logEvent('STATE_CHANGE', { domain: 'VFS', action: 'DELETE', details: { paths: removed, recursive } });
+            return { result: `Removed ${removed.join(', ')}`, newVFS };
+        }
+        case 'mv':
+        case 'cp': {
+            if (args.length < 2) throw new Error(`Usage: ${cmd} ${cmd === 'cp' ? '[-r] ' : ''}<source...> <dest>`);
+            const dest = args[args.length - 1];
+            const transfers = planTransfers(cmd, vfs, args.slice(0, -1), dest);
+            let newVFS = vfs;
+            let newMindMap = mindMap;
+            const relinked: string[] = [];
+            transfers.forEach(({ from, to, node }) => {
+                if (cmd === 'cp' && node.type === 'folder' && !flags.has('r') && !flags.has('R')) {
+                    throw new Error(`cp: -r not specified; omitting directory '${from}'`);
+                }
+                newVFS = setNodeInVFS(newVFS, to, node);
+                if (cmd === 'mv') {
+                    newVFS = removeNodeFromVFS(newVFS, from);
+                    const relink = relinkFileReferences(newMindMap, from, to);
+                    newMindMap = relink.mindMap;
+                    relinked.push(...relink.relinked);
+                }
+            });
+            auditLogService.logEvent('STATE_CHANGE', {
+                domain: 'VFS',
+                action: cmd === 'mv' ? 'MOVE' : 'COPY',
+                details: { transfers: transfers.map(({ from, to }) => ({ from: normalizePath(from), to })), relinkedNodeIds: relinked },
+            });
+            const summary = transfers.map(({ from, to }) => `${normalizePath(from)} -> ${to}`).join('\n');
+            const relinkNote = relinked.length > 0 ? `\nUpdated ${relinked.length} file reference node(s) in the mind map.` : '';
+            return { result: summary + relinkNote, newVFS, newMindMap: relinked.length > 0 ? newMindMap : undefined };
+        }
+        case 'help': {
+            return { result: HELP_TEXT };
+        }
+        default:
+             throw new Error(`Unknown command: ${cmd}. Type 'help' for a list of commands.`);
+    }
+};
+
+// --- Command Line Execution ---
+interface StreamChunk {
+    stream: 'stdout' | 'stderr';
+    text: string;
+}
+
+const DEV_NULL = '/dev/null';
+
+const withTrailingNewline = (text: string): string => (text && !text.endsWith('\n') ? `${text}\n` : text);
+
+// Runs one command of a pipeline, applying its redirections against the current VFS.
+const runSimpleCommand = async (
+    command: SimpleCommand, pipedInput: string | null, vfs: VirtualFileSystem, mindMap: MindMapData,
+): Promise<CommandResult & { stderr: string; exitCode: number }> => {
+    let stdin = pipedInput;
+    let stdout = '';
+    let stderr = '';
+    let exitCode = 0;
+    let state: CommandResult = { result: '' };
+
+    try {
+        for (const redirect of command.redirects.filter(r => r.fd === 0)) {
+            stdin = redirect.heredoc ? redirect.heredoc.body : readFile('sh', vfs, redirect.target!.text);
+        }
+        if (command.words.length > 0) {
+            state = await runCommand(command.words, stdin, vfs, mindMap);
+            stdout = state.raw ? state.result : withTrailingNewline(state.result);
+            stderr = state.stderr ?? '';
+            exitCode = state.exitCode ?? 0;
+        }
+    } catch (e) {
+        stderr = withTrailingNewline(e instanceof Error ? e.message : String(e));
+        exitCode = 1;
+    }
+
+    // 2>&1 merges stderr into stdout before the remaining redirections are applied.
+    if (command.redirects.some(r => r.op === '>&1')) {
+        stdout += stderr;
+        stderr = '';
+    }
+    let newVFS = state.newVFS ?? vfs;
+    for (const redirect of command.redirects.filter(r => r.fd !== 0 && r.target)) {
+        const path = redirect.target!.text;
+        const text = redirect.fd === 1 ? stdout : stderr;
+        if (redirect.fd === 1) stdout = ''; else stderr = '';
+        if (normalizePath(path) === DEV_NULL) continue;
+        const existing = getNodeFromPath(newVFS, path);
+        if (existing?.type === 'folder') {
+            stderr += `sh: ${path}: Is a directory\n`;
+            exitCode = 1;
+            continue;
+        }
+        const content = redirect.op === '>>' && existing?.type === 'file' ? existing.content + text : text;
+        try {
+            newVFS = writeFileToVFS(newVFS, path, content);
+        } catch (e) {
+            // A bad target fails this command only, as in sh; the rest of the line still runs.
+            stderr += `sh: ${path}: ${e instanceof Error ? e.message : String(e)}\n`;
+            exitCode = 1;
+        }
+    }
+
+    return { ...state, result: stdout, stderr, exitCode, newVFS: newVFS === vfs ? undefined : newVFS };
+};
+
+// Shared by the agent's run_terminal_command tool and commands typed directly into the Terminal.
+// Supports pipes, ;, && and ||, redirections and heredocs; see tools/shell.ts for the grammar.
+export const runTerminalCommand = async (
+    commandLine: string, vfs: VirtualFileSystem, mindMap: MindMapData,
+): Promise<TerminalCommandResult> => {
+    const chunks: StreamChunk[] = [];
+    let currentVFS = vfs;
+    let currentMindMap = mindMap;
+    let filePathHandled: string | undefined;
+    let exitCode = 0;
+
+    try {
+        for (const pipeline of parseCommandLine(commandLine)) {
+            if (pipeline.operator === '&&' && exitCode !== 0) continue;
+            if (pipeline.operator === '||' && exitCode === 0) continue;
+
+            // Commands in a pipeline run in order, each receiving the previous command's stdout.
+            let piped: string | null = null;
+            let lastStderr = '';
+            for (let index = 0; index < pipeline.commands.length; index++) {
+                const outcome = await runSimpleCommand(pipeline.commands[index], piped, currentVFS, currentMindMap);
+                if (outcome.newVFS) currentVFS = outcome.newVFS;
+                if (outcome.newMindMap) currentMindMap = outcome.newMindMap;
+                if (outcome.filePathHandled) filePathHandled = outcome.filePathHandled;
+                if (lastStderr) chunks.push({ stream: 'stderr', text: lastStderr });
+                lastStderr = outcome.stderr;
+                piped = outcome.result;
+                exitCode = outcome.exitCode;
+            }
+            // The last command's output precedes its errors, so a traceback follows what the script printed.
+            if (piped) chunks.push({ stream: 'stdout', text: piped });
+            if (lastStderr) chunks.push({ stream: 'stderr', text: lastStderr });
+        }
+    } catch (e) {
+        if (!(e instanceof ShellSyntaxError)) throw e;
+        chunks.push({ stream: 'stderr', text: `sh: ${e.message}\n` });
+        exitCode = 2;
+    }
+
+    return {
+        ...formatOutput(chunks, exitCode),
+        exitCode,
+        newVFS: currentVFS === vfs ? undefined : currentVFS,
+        newMindMap: currentMindMap === mindMap ? undefined : currentMindMap,
+        filePathHandled,
+    };
+};
+
+// Runs a .py, .js or .ts file from the VFS directly, for the agent's run_script tool.
+export const runScript = async (
+    path: string, argv: string[], stdin: string, vfs: VirtualFileSystem,
+): Promise<TerminalCommandResult> => {
+    let outcome: CommandResult;
+    try {
+        outcome = await runScriptFile('run', path, argv, stdin, vfs);
+    } catch (e) {
+        outcome = { result: '', stderr: withTrailingNewline(e instanceof Error ? e.message : String(e)), exitCode: 1 };
+    }
+    const exitCode = outcome.exitCode ?? 0;
+    const chunks: StreamChunk[] = [
+        { stream: 'stdout', text: outcome.result },
+        { stream: 'stderr', text: outcome.stderr ?? '' },
+    ];
+    return { ...formatOutput(chunks.filter(chunk => chunk.text), exitCode), exitCode, newVFS: outcome.newVFS };
+};
+
+const formatOutput = (chunks: StreamChunk[], exitCode: number): Pick<TerminalCommandResult, 'result' | 'terminalOutput'> => {
+    // Merge adjacent chunks from the same stream into terminal lines.
+    const terminalOutput: TerminalLine[] = [];
+    chunks.forEach(({ stream, text }) => {
+        const type = stream === 'stdout' ? 'output' : 'error';
+        const last = terminalOutput[terminalOutput.length - 1];
+        if (last?.type === type) last.text += text;
+        else terminalOutput.push({ type, text });
+    });
+    terminalOutput.forEach(line => line.text = line.text.replace(/\n$/, ''));
+
+    const combined = chunks.map(chunk => chunk.text).join('').replace(/\n$/, '');
+    return {
+        result: exitCode === 0 ? combined : `${combined}${combined ? '\n' : ''}[exit code ${exitCode}]`,
+        terminalOutput,
+    };
+};
@@ -1,5 +1,6 @@
 
 import type * as d3 from 'd3';
+import type { FunctionCall } from '@google/genai';
 
 // NEW: Descriptive types for nodes and links
 export type MindMapNodeType =
@@ -57,6 +58,7 @@ export interface MindMapLink extends d3.SimulationLinkDatum<MindMapNode> {
   type: MindMapLinkType;
   strength: number; // 0.0 to 1.0
   label?: string; // Optional display label for the link
+  origin?: MindMapNodeSource; // Who last created or edited the link; recorded for user edits
 }
 
 // UPDATED: Uses the new Node and Link types
@@ -65,6 +67,56 @@ export interface MindMapData {
   links: MindMapLink[];
 }
 
+// How the Knowledge tab arranges nodes; every layout but 'force' computes fixed positions.
+export type MindMapLayout = 'force' | 'radial' | 'tree' | 'clustered' | 'timeline';
+
+// SVG is easiest to inspect; canvas keeps large graphs smooth. 'auto' picks by graph size.
+export type MindMapRenderer = 'auto' | 'svg' | 'canvas';
+
+// Messages exchanged with workers/forceLayoutWorker.ts, which runs the force simulation off the main thread.
+export interface ForceLayoutNode {
+  id: string;
+  x?: number; // Starting position; ignored for nodes the simulation already has
+  y?: number;
+  fx: number | null;
+  fy: number | null;
+}
+
+export type ForceLayoutRequest =
+  // Replaces the graph, keeping the position and velocity of nodes that remain.
+  | { type: 'update'; nodes: ForceLayoutNode[]; links: { source: string; target: string; type: MindMapLinkType }[]; width: number; height: number; alpha: number }
+  | { type: 'fix'; id: string; x: number | null; y: number | null } // null releases the node
+  | { type: 'reheat'; alphaTarget: number };
+
+// `positions` holds x,y pairs in the order of `ids`, which is only sent when that order changes.
+export type ForceLayoutMessage = { type: 'tick'; ids: string[] | null; positions: Float32Array };
+
+// What the Knowledge tab shows. Empty type/source lists and blank dates mean "no restriction".
+export interface MindMapFilter {
+  query: string; // Matched against node names and content
+  nodeTypes: MindMapNodeType[];
+  sources: MindMapNodeSource[];
+  linkTypes: MindMapLinkType[];
+  createdFrom: string; // YYYY-MM-DD, inclusive
+  createdTo: string; // YYYY-MM-DD, inclusive
+  focusNodeId: string | null; // Show only this node's neighborhood
+  focusDepth: number; // Hops from the focus node
+}
+
+// Editable node fields; identity, timestamps and source are managed by utils/mindMapEditing.ts.
+export type MindMapNodeFields = Pick<MindMapNode, 'name' | 'type' | 'content' | 'status'>;
+
+// A user's direct change to the mind map. Links are identified by getLinkKey (source, target and type);
+// a null parent detaches the nodes from their HIERARCHICAL parent.
+export type MindMapEdit =
+  | { type: 'CREATE_NODE'; fields: MindMapNodeFields; parentId: string | null }
+  | { type: 'UPDATE_NODES'; nodeIds: string[]; changes: Partial<MindMapNodeFields> }
+  | { type: 'DELETE_NODES'; nodeIds: string[] }
+  | { type: 'REPARENT_NODES'; nodeIds: string[]; parentId: string | null }
+  | { type: 'CREATE_LINKS'; links: { source: string; target: string; type: MindMapLinkType; label?: string }[] }
+  | { type: 'UPDATE_LINK'; linkKey: string; changes: { type?: MindMapLinkType; label?: string; strength?: number } }
+  | { type: 'DELETE_LINKS'; linkKeys: string[] };
+
 
 export interface AnalysisAspect {
   name:string;
@@ -103,7 +155,71 @@ export type VFSNode = VFSFile | VFSFolder;
 export type VirtualFileSystem = Record<string, VFSNode>;
 // --- End Hierarchical File System ---
 
-export type VectorStore = string[];
+// --- Sandboxed Execution Types ---
+// Files cross the sandbox boundary as a flat map of VFS paths (without a leading slash) to contents.
+export type SandboxFiles = Record<string, string>;
+
+export interface SandboxRunRequest {
+  code: string;
+  scriptPath: string; // Shown in tracebacks and passed as argv[0]
+  argv: string[];
+  stdin: string;
+  files: SandboxFiles;
+}
+
+export interface SandboxRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  written: SandboxFiles; // Files created or modified by the script
+  deleted: string[];
+  durationMs: number;
+}
+
+// Messages exchanged with the sandbox workers in workers/.
+export interface SandboxWorkerRequest {
+  id: number;
+  request: SandboxRunRequest;
+  memoryLimitBytes?: number; // Enforced only where the runtime can measure its own allocations
+}
+
+export type SandboxWorkerMessage =
+  | { id: number; type: 'started' } // Runtime loaded; the script itself is now executing
+  | { id: number; type: 'result'; result: SandboxRunResult }
+  | { id: number; type: 'error'; message: string };
+
+// --- Long-Term Memory ---
+export type MemorySource = 'chat' | 'tool' | 'sub_agent' | 'system' | 'consolidation';
+
+// A memory before it has been embedded.
+export interface MemoryDraft {
+  text: string;
+  source: MemorySource;
+  sourceDetail?: string; // e.g. the tool or sub-agent that produced it
+  linkedNodeId?: string;
+}
+
+export interface MemoryEntry extends MemoryDraft {
+  id: string;
+  timestamp: string; // ISO 8601
+  embedding: number[];
+  embedderId: string; // Similarity is only computed between vectors from the same embedder
+  importance?: number; // 0-1; defaults by source when unset
+  accessCount?: number;
+  lastAccessedAt?: string; // ISO 8601; recall refreshes a memory's decay clock
+  consolidatedFrom?: string[]; // Ids of the memories this entry summarizes
+}
+
+export interface ConsolidationReport {
+  clustersConsolidated: number;
+  memoriesMerged: number;
+  memoriesForgotten: number;
+  created: MemoryEntry[];
+}
+
+export type VectorStore = MemoryEntry[];
+
+export type EmbedderPreference = 'local' | 'provider';
 
 export interface TerminalLine {
     type: 'input' | 'output' | 'error';
@@ -131,15 +247,88 @@ export interface SystemLogEntry {
 export type SubAgent = 'CognitiveBiasAgent' | 'EmotionalRegulationAgent' | 'SocialTacticsAgent';
 
 // --- Source Control Types ---
-export interface Commit {
-  id: string;
+// Objects are addressed by the SHA-1 of their git encoding, so identical content is stored once.
+export type ObjectId = string;
+
+export interface BlobObject {
+  type: 'blob';
+  content: string;
+}
+
+export interface TreeEntry {
+  name: string;
+  kind: 'blob' | 'tree';
+  id: ObjectId;
+}
+
+export interface TreeObject {
+  type: 'tree';
+  entries: TreeEntry[];
+}
+
+export interface CommitObject {
+  type: 'commit';
+  tree: ObjectId; // The full VFS at this commit
+  parents: ObjectId[];
+  author: string;
+  timestamp: string; // ISO 8601
   message: string;
-  timestamp: string;
+}
+
+export type RepositoryObject = BlobObject | TreeObject | CommitObject;
+
+export type RepositoryHead =
+  | { type: 'branch'; name: string }
+  | { type: 'detached'; commit: ObjectId }; // After checking out a past commit
+
+// A merge that stopped on conflicts; the next commit completes it.
+export interface MergeState {
+  theirs: ObjectId; // The commit being merged into HEAD
+  label: string; // The revision as it was given, e.g. a branch name
+  message: string; // Proposed message for the merge commit
+  conflicts: string[]; // Paths still to resolve; staging a file without conflict markers resolves it
+}
+
+export interface Repository {
+  objects: Record<ObjectId, RepositoryObject>;
+  branches: Record<string, ObjectId>; // Branch name -> tip commit; a new repository's branch has no entry yet
+  head: RepositoryHead;
+  index: ObjectId | null; // Tree of the staged snapshot the next commit records; null while nothing was ever staged
+  merge: MergeState | null;
+}
+
+// A commit as shown in the log.
+export interface Commit extends CommitObject {
+  id: ObjectId;
+}
+
+// Mind map differences between two commits; links are identified by source, target and type.
+export interface MindMapNodeChange {
+  before: MindMapNode;
+  after: MindMapNode;
+  fields: (keyof MindMapNode)[];
+}
+
+export interface MindMapLinkChange {
+  before: MindMapLink;
+  after: MindMapLink;
+}
+
+export interface MindMapDiff {
+  addedNodes: MindMapNode[];
+  removedNodes: MindMapNode[];
+  changedNodes: MindMapNodeChange[];
+  addedLinks: MindMapLink[];
+  removedLinks: MindMapLink[];
+  changedLinks: MindMapLinkChange[];
 }
 
 export interface VFSChange {
   path: string;
-  status: 'new' | 'modified' | 'deleted';
+  // 'typechange': a file was replaced by a folder of the same name, or the other way round.
+  status: 'new' | 'modified' | 'deleted' | 'typechange';
+  oldContent?: string; // Absent when the path wasn't a file before
+  newContent?: string; // Absent when the path isn't a file after
 }
 
 // --- API Monitoring Types ---
@@ -159,6 +348,71 @@ export interface ApiCallLog {
   candidateTokens?: number;
   totalTokens?: number;
   estimatedCost?: number;
+  provider?: LLMProviderId;
+  route?: ResolvedModelRoute;
+}
+
+// --- Model Routing Types ---
+// Overrides the backend and/or model for a single agent, sub-agent or tool.
+// Unset fields fall back to the active provider and the global base model.
+export interface ModelRoute {
+  provider?: LLMProviderId;
+  model?: string;
+}
+
+export interface ModelRouteDefinition {
+  key: string;
+  label: string;
+  group: 'Agent' | 'Sub-Agent' | 'Tool';
+  defaultRoute: ModelRoute;
+}
+
+export interface ResolvedModelRoute {
+  key: string;
+  label: string;
+  source: 'global' | 'default' | 'custom';
+  provider?: LLMProviderId;
+  model: string;
+}
+
+// --- LLM Provider Types ---
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LLMModelOption {
+  id: string;
+  label: string;
+}
+
+// Connection settings for any OpenAI-compatible chat-completions server
+// (OpenAI, Ollama, llama.cpp, vLLM, LM Studio...).
+export interface OpenAICompatibleSettings {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey: string; // Optional for most local servers
+  models: string[]; // The first model is used when a request names a model this server does not serve
+  embeddingModel: string; // Used for long-term memory embeddings; empty disables provider embeddings
+}
+
+// Provider-neutral response shape. Request payloads keep the Gemini
+// `generateContent` format; each provider translates as needed.
+export interface LLMResponse {
+  text: string;
+  functionCalls?: FunctionCall[];
+  candidates?: any[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+export interface MockScriptStep {
+  agentName?: string; // Matches when the requesting agent name contains this value
+  promptIncludes?: string; // Matches when any text part of the request contains this value
+  response: {
+    text?: string;
+    functionCalls?: FunctionCall[];
+    json?: any; // Serialized into `text` for structured-output requests
+  };
 }
 
 // --- Mission Control Types ---
@@ -169,8 +423,86 @@ export interface MissionTask {
   dependencies: string[];
 }
 
+// --- Session Bundle Types ---
+// Everything needed to resume a persona elsewhere. Transient UI and API-monitor state is excluded.
+export interface SessionState {
+  personaDescription: string;
+  mindMap: MindMapData;
+  virtualFileSystem: VirtualFileSystem;
+  repository: Repository;
+  missionStatement: string;
+  missionTasks: MissionTask[];
+  systemLog: SystemLogEntry[];
+  monitorAnalysis: MonitorAnalysis | null;
+  vectorStore: VectorStore;
+  chatHistory: ChatMessage[];
+  terminalHistory: TerminalLine[];
+}
+
+export interface SessionBundle {
+  format: 'persona-session';
+  version: number;
+  exportedAt: string; // ISO 8601
+  state: SessionState;
+}
+
+// --- Workspace Persistence Types ---
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  nodeCount: number;
+}
+
+export interface WorkspaceRecord extends WorkspaceSummary {
+  bundle: SessionBundle;
+}
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error' | 'read-only';
+
+// --- Tool Approval Types ---
+// auto runs a tool call at once, ask queues it for the user, deny refuses it.
+export type ToolApprovalMode = 'auto' | 'ask' | 'deny';
+
+export interface PendingToolApproval {
+  id: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  preview: string[]; // What the call would change, one line per effect
+  requestedAt: string; // ISO 8601
+  expiresAt: string | null; // When it is denied automatically (autonomous mode only)
+}
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  reason: 'policy' | 'user' | 'timeout';
+}
+
+// --- Undo History Types ---
+// Snapshots are the state objects themselves: updates are immutable, so sharing them is cheap.
+export interface HistorySnapshot {
+  mindMap: MindMapData;
+  vfs: VirtualFileSystem;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  source: 'agent' | 'user';
+  timestamp: string; // ISO 8601
+  tools?: string[]; // Tools an agent turn called
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+export interface UndoHistory {
+  past: HistoryEntry[]; // Oldest first; the last entry produced the current state
+  future: HistoryEntry[]; // Undone entries, next to redo first
+}
+
 // --- UI Types ---
-export type Tab = 'MIND_MAP' | 'IDE' | 'TERMINAL' | 'LOG' | 'SOURCE_CONTROL' | 'API_MONITOR' | 'AUDIT_LOG' | 'CHAT';
+export type Tab = 'MIND_MAP' | 'IDE' | 'TERMINAL' | 'LOG' | 'SOURCE_CONTROL' | 'HISTORY' | 'API_MONITOR' | 'AUDIT_LOG' | 'CHAT';
 export type SystemStatus = 'IDLE' | 'CREATING_MIND' | 'USER_PROCESSING' | 'AGENT_PROCESSING';
 
 // --- Audit Log Types ---
@@ -179,7 +511,7 @@ export type AuditEventType = 'API_CALL' | 'AGENT_ACTION' | 'STATE_CHANGE' | 'SYS
 export type AuditLogPayload = 
   | { type: 'API_CALL'; data: ApiCallLog }
   | { type: 'AGENT_ACTION'; data: { toolName: string; args: any; result: any; } }
-  | { type: 'STATE_CHANGE'; data: { domain: 'MIND_MAP' | 'VFS' | 'COMMIT'; action: string; details: any; } }
+  | { type: 'STATE_CHANGE'; data: { domain: 'MIND_MAP' | 'VFS' | 'COMMIT' | 'MEMORY'; action: string; details: any; } }
   | { type: 'SYSTEM_EVENT'; data: { event: string; details?: any; } }
   | { type: 'USER_INTERACTION'; data: { action: string; details?: any; } };
 
@@ -0,0 +1,157 @@
+// Line-based diffing (longest common subsequence) with unified-format output.
+
+export interface DiffLine {
+    type: 'equal' | 'add' | 'remove';
+    text: string;
+    oldLine?: number; // 1-based line number in the old text
+    newLine?: number; // 1-based line number in the new text
+}
+
+export interface DiffHunk {
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: DiffLine[];
+}
+
+export const splitLines = (text: string): string[] => {
+    if (text === '') return [];
+    const lines = text.split('\n');
+    // A trailing newline terminates the last line rather than starting an empty one.
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+};
+
+// Lengths of the common prefix and suffix, so the quadratic table only covers the changed region.
+const trimCommon = (a: string[], b: string[]): { prefix: number; suffix: number } => {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+    return { prefix, suffix };
+};
+
+// Beyond this many LCS cells (16 MB of table) a diff would stall the main thread or run out of memory.
+export const MAX_DIFF_CELLS = 4_000_000;
+
+export class DiffTooLargeError extends Error {
+    constructor(cells: number) {
+        super(`The changed region is too large to diff line by line (${cells} cells, limit ${MAX_DIFF_CELLS}).`);
+        this.name = 'DiffTooLargeError';
+    }
+}
+
+// Number of LCS table cells diffLines would fill, for callers that must stay responsive on large inputs.
+export const diffCost = (oldText: string, newText: string): number => {
+    const a = splitLines(oldText);
+    const b = splitLines(newText);
+    const { prefix, suffix } = trimCommon(a, b);
+    return (a.length - prefix - suffix + 1) * (b.length - prefix - suffix + 1);
+};
+
+// Throws DiffTooLargeError rather than allocate more than MAX_DIFF_CELLS; check diffCost first to avoid it.
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+    const a = splitLines(oldText);
+    const b = splitLines(newText);
+    const { prefix, suffix } = trimCommon(a, b);
+    const cells = (a.length - prefix - suffix + 1) * (b.length - prefix - suffix + 1);
+    if (cells > MAX_DIFF_CELLS) throw new DiffTooLargeError(cells);
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const n = midA.length;
+    const m = midB.length;
+
+    // lcs[i * (m + 1) + j] = length of the LCS of midA[i..] and midB[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * (m + 1) + j] = midA[i] === midB[j]
+                ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let oldLine = 1;
+    let newLine = 1;
+    const equal = (text: string) => result.push({ type: 'equal', text, oldLine: oldLine++, newLine: newLine++ });
+
+    a.slice(0, prefix).forEach(equal);
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && midA[i] === midB[j]) {
+            equal(midA[i]);
+            i++;
+            j++;
+        } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+            result.push({ type: 'remove', text: midA[i++], oldLine: oldLine++ });
+        } else {
+            result.push({ type: 'add', text: midB[j++], newLine: newLine++ });
+        }
+    }
+    a.slice(a.length - suffix).forEach(equal);
+    return result;
+};
+
+// Groups changed lines into hunks with the given number of surrounding context lines.
+export const buildHunks = (lines: DiffLine[], context: number = 3): DiffHunk[] => {
+    // Merge the context windows around each change into [start, end) ranges.
+    const ranges: [number, number][] = [];
+    lines.forEach((line, index) => {
+        if (line.type === 'equal') return;
+        const start = Math.max(0, index - context);
+        const end = Math.min(lines.length, index + context + 1);
+        const last = ranges[ranges.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = end;
+        } else {
+            ranges.push([start, end]);
+        }
+    });
+
+    return ranges.map(([start, end]) => {
+        const hunkLines = lines.slice(start, end);
+        const before = lines.slice(0, start);
+        const oldBefore = before.filter(l => l.type !== 'add').length;
+        const newBefore = before.filter(l => l.type !== 'remove').length;
+        const oldLines = hunkLines.filter(l => l.type !== 'add').length;
+        const newLines = hunkLines.filter(l => l.type !== 'remove').length;
+        return {
+            // An empty range starts at the line before it, as in GNU diff.
+            oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+            oldLines,
+            newStart: newLines > 0 ? newBefore + 1 : newBefore,
+            newLines,
+            lines: hunkLines,
+        };
+    });
+};
+
+// Inputs too large to diff only report that they differ, as `diff -q` does.
+export const formatUnifiedDiff = (oldPath: string, newPath: string, oldText: string, newText: string, context: number = 3): string => {
+    if (diffCost(oldText, newText) > MAX_DIFF_CELLS) return `Files ${oldPath} and ${newPath} differ`;
+    const hunks = buildHunks(diffLines(oldText, newText), context);
+    if (hunks.length === 0) return '';
+    const marker: Record<DiffLine['type'], string> = { equal: ' ', add: '+', remove: '-' };
+    const output = [`--- ${oldPath}`, `+++ ${newPath}`];
+    hunks.forEach(hunk => {
+        output.push(`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`);
+        hunk.lines.forEach(line => output.push(`${marker[line.type]}${line.text}`));
+    });
+    return output.join('\n');
+};
+
+// The old text with only the given hunks' changes applied; `hunks` must come from buildHunks over `lines`.
+export const applyHunks = (oldText: string, newText: string, lines: DiffLine[], hunks: DiffHunk[]): string => {
+    const applied = new Set(hunks.flatMap(hunk => hunk.lines));
+    const result = lines
+        .filter(line => line.type === 'equal' || (applied.has(line) ? line.type === 'add' : line.type === 'remove'))
+        .map(line => line.text);
+    if (result.length === 0) return '';
+    // The final newline follows whichever side the last line was taken from.
+    const endsWithNewline = (applied.has(lines[lines.length - 1]) ? newText : oldText).endsWith('\n');
+    return result.join('\n') + (endsWithNewline ? '\n' : '');
+};
@@ -0,0 +1,61 @@
+// A dependency-free text embedder for offline use: hashed bag-of-words (unigrams plus bigrams)
+// projected into a fixed number of dimensions, log-scaled and L2-normalized.
+
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+export const LOCAL_EMBEDDER_ID = `local:hashed-bow-${LOCAL_EMBEDDING_DIMENSIONS}`;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her', 'his',
+    'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the',
+    'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which',
+    'who', 'will', 'with', 'you', 'your',
+]);
+
+const tokenize = (text: string): string[] => {
+    return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(token => token.length > 1 && !STOP_WORDS.has(token));
+};
+
+// 32-bit FNV-1a
+const hashFeature = (feature: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+        hash ^= feature.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+export const embedLocally = (text: string): number[] => {
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    tokens.forEach((token, i) => {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+        if (i > 0) {
+            const bigram = `${tokens[i - 1]} ${token}`;
+            counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+        }
+    });
+
+    const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+    counts.forEach((count, feature) => {
+        const hash = hashFeature(feature);
+        // The top bit picks a sign so colliding features tend to cancel rather than accumulate.
+        const sign = hash & 0x80000000 ? -1 : 1;
+        const weight = (1 + Math.log(count)) * (feature.includes(' ') ? 0.5 : 1);
+        vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += sign * weight;
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+    if (a.length !== b.length || a.length === 0) return 0;
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+};
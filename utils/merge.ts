@@ -0,0 +1,140 @@
+// Three-way merging of text, with git-style conflict markers where both sides changed the same lines.
+import { DiffLine, MAX_DIFF_CELLS, diffCost, diffLines, splitLines } from './diff';
+
+const CONFLICT_START = /^<{7}(?: |$)/;
+const CONFLICT_SEPARATOR = /^={7}$/;
+const CONFLICT_END = /^>{7}(?: |$)/;
+
+// Replaces base lines [start, end) with `lines`.
+interface Change {
+    side: 'ours' | 'theirs';
+    start: number;
+    end: number;
+    lines: string[];
+}
+
+// Line indexes of a conflict's three markers.
+export interface ConflictBlock {
+    start: number;
+    separator: number;
+    end: number;
+}
+
+const toChanges = (side: Change['side'], lines: DiffLine[]): Change[] => {
+    const changes: Change[] = [];
+    let basePosition = 0;
+    let current: Change | null = null;
+    for (const line of lines) {
+        if (line.type === 'equal') {
+            current = null;
+            basePosition++;
+            continue;
+        }
+        if (!current) {
+            current = { side, start: basePosition, end: basePosition, lines: [] };
+            changes.push(current);
+        }
+        if (line.type === 'remove') {
+            current.end++;
+            basePosition++;
+        } else {
+            current.lines.push(line.text);
+        }
+    }
+    return changes;
+};
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, i) => line === b[i]);
+
+export const mergeText = (
+    base: string, ours: string, theirs: string, labels: { ours: string; theirs: string },
+): { text: string; conflicts: number } => {
+    // Only one side changed the file, so nothing needs diffing.
+    if (theirs === base || ours === theirs) return { text: ours, conflicts: 0 };
+    if (ours === base) return { text: theirs, conflicts: 0 };
+    // Too large to diff: both sides changed it, so the whole file is one conflict for the user to resolve.
+    if (diffCost(base, ours) > MAX_DIFF_CELLS || diffCost(base, theirs) > MAX_DIFF_CELLS) {
+        const conflict = [`<<<<<<< ${labels.ours}`, ...splitLines(ours), '=======', ...splitLines(theirs), `>>>>>>> ${labels.theirs}`];
+        return { text: conflict.join('\n') + '\n', conflicts: 1 };
+    }
+
+    const baseLines = splitLines(base);
+    const changes = [...toChanges('ours', diffLines(base, ours)), ...toChanges('theirs', diffLines(base, theirs))]
+        .sort((a, b) => a.start - b.start || a.end - b.end);
+
+    const output: string[] = [];
+    let conflicts = 0;
+    let position = 0;
+    let i = 0;
+    while (i < changes.length) {
+        // Changes from both sides that overlap or touch form one region, as in git.
+        const regionStart = changes[i].start;
+        let regionEnd = changes[i].end;
+        const group = [changes[i++]];
+        while (i < changes.length && changes[i].start <= regionEnd) {
+            regionEnd = Math.max(regionEnd, changes[i].end);
+            group.push(changes[i++]);
+        }
+
+        // The region as one side left it.
+        const sideLines = (side: Change['side']): string[] => {
+            const result: string[] = [];
+            let cursor = regionStart;
+            group.filter(change => change.side === side).forEach(change => {
+                result.push(...baseLines.slice(cursor, change.start), ...change.lines);
+                cursor = change.end;
+            });
+            result.push(...baseLines.slice(cursor, regionEnd));
+            return result;
+        };
+
+        output.push(...baseLines.slice(position, regionStart));
+        const oursLines = sideLines('ours');
+        const theirsLines = sideLines('theirs');
+        if (group.every(change => change.side === 'ours') || sameLines(oursLines, theirsLines)) {
+            output.push(...oursLines);
+        } else if (group.every(change => change.side === 'theirs')) {
+            output.push(...theirsLines);
+        } else {
+            conflicts++;
+            output.push(`<<<<<<< ${labels.ours}`, ...oursLines, '=======', ...theirsLines, `>>>>>>> ${labels.theirs}`);
+        }
+        position = regionEnd;
+    }
+    output.push(...baseLines.slice(position));
+
+    if (output.length === 0) return { text: '', conflicts };
+    // Keep the final newline unless one side changed it.
+    const endsWithNewline = (ours.endsWith('\n') === base.endsWith('\n') ? theirs : ours).endsWith('\n');
+    return { text: output.join('\n') + (endsWithNewline || conflicts > 0 ? '\n' : ''), conflicts };
+};
+
+export const findConflicts = (text: string): ConflictBlock[] => {
+    const blocks: ConflictBlock[] = [];
+    let start = -1;
+    let separator = -1;
+    text.split('\n').forEach((line, i) => {
+        if (CONFLICT_START.test(line)) {
+            start = i;
+            separator = -1;
+        } else if (CONFLICT_SEPARATOR.test(line) && start >= 0) {
+            separator = i;
+        } else if (CONFLICT_END.test(line) && separator >= 0) {
+            blocks.push({ start, separator, end: i });
+            start = -1;
+            separator = -1;
+        }
+    });
+    return blocks;
+};
+
+export const hasConflictMarkers = (text: string): boolean => findConflicts(text).length > 0;
+
+// Replaces a conflict with the current (ours), incoming (theirs) or both sides' lines.
+export const resolveConflict = (text: string, block: ConflictBlock, choice: 'current' | 'incoming' | 'both'): string => {
+    const lines = text.split('\n');
+    const current = lines.slice(block.start + 1, block.separator);
+    const incoming = lines.slice(block.separator + 1, block.end);
+    const kept = choice === 'current' ? current : choice === 'incoming' ? incoming : [...current, ...incoming];
+    return [...lines.slice(0, block.start), ...kept, ...lines.slice(block.end + 1)].join('\n');
+};
@@ -0,0 +1,64 @@
+// Mind map snapshots for storage and version control, and a structural diff between two of them.
+import { MindMapData, MindMapDiff, MindMapLink, MindMapNode, MindMapNodeChange, MindMapLinkChange } from '../types';
+
+type SimulatedNode = MindMapNode & { vx?: number; vy?: number; index?: number };
+
+// Fields a user would call a change: pinned positions count, timestamps and simulated positions don't.
+const COMPARED_NODE_FIELDS: (keyof MindMapNode)[] = ['name', 'type', 'content', 'source', 'linkedFile', 'status', 'fx', 'fy'];
+
+export const endpointId = (endpoint: MindMapLink['source']): string => (typeof endpoint === 'string' ? endpoint : endpoint.id);
+
+// d3 replaces link endpoints with node objects while the simulation runs; store ids only.
+export const normalizeMindMap = (mindMap: MindMapData): MindMapData => ({
+    nodes: mindMap.nodes.map(({ vx, vy, index, ...node }: SimulatedNode) => node),
+    links: mindMap.links.map(link => ({ ...link, source: endpointId(link.source), target: endpointId(link.target) })),
+});
+
+export const getLinkKey = (link: MindMapLink): string => `${endpointId(link.source)}→${endpointId(link.target)}:${link.type}`;
+
+// Deterministic JSON for a commit: sorted, without simulated positions, so only real edits change it.
+export const serializeMindMapSnapshot = (mindMap: MindMapData): string => {
+    const { nodes, links } = normalizeMindMap(mindMap);
+    const snapshot: MindMapData = {
+        nodes: nodes.map(({ x, y, ...node }) => node).sort((a, b) => a.id.localeCompare(b.id)),
+        links: [...links].sort((a, b) => getLinkKey(a).localeCompare(getLinkKey(b))),
+    };
+    return `${JSON.stringify(snapshot, null, 2)}\n`;
+};
+
+export const diffMindMaps = (before: MindMapData, after: MindMapData): MindMapDiff => {
+    const oldNodes = new Map(before.nodes.map(node => [node.id, node]));
+    const newNodes = new Map(after.nodes.map(node => [node.id, node]));
+    const oldLinks = new Map(before.links.map(link => [getLinkKey(link), link]));
+    const newLinks = new Map(after.links.map(link => [getLinkKey(link), link]));
+
+    const changedNodes = after.nodes.flatMap((node): MindMapNodeChange[] => {
+        const previous = oldNodes.get(node.id);
+        const fields = previous ? COMPARED_NODE_FIELDS.filter(field => (previous[field] ?? null) !== (node[field] ?? null)) : [];
+        return previous && fields.length > 0 ? [{ before: previous, after: node, fields }] : [];
+    });
+    const changedLinks = after.links.flatMap((link): MindMapLinkChange[] => {
+        const previous = oldLinks.get(getLinkKey(link));
+        return previous && (previous.strength !== link.strength || previous.label !== link.label) ? [{ before: previous, after: link }] : [];
+    });
+    return {
+        addedNodes: after.nodes.filter(node => !oldNodes.has(node.id)),
+        removedNodes: before.nodes.filter(node => !newNodes.has(node.id)),
+        changedNodes,
+        addedLinks: after.links.filter(link => !oldLinks.has(getLinkKey(link))),
+        removedLinks: before.links.filter(link => !newLinks.has(getLinkKey(link))),
+        changedLinks,
+    };
+};
+
+export const isMindMapDiffEmpty = (diff: MindMapDiff): boolean => Object.values(diff).every(list => list.length === 0);
+
+// E.g. "+2 nodes, ~1 node, -3 links".
+export const summarizeMindMapDiff = (diff: MindMapDiff): string => {
+    const count = (sign: string, items: unknown[], noun: string) => (items.length > 0 ? [`${sign}${items.length} ${noun}${items.length === 1 ? '' : 's'}`] : []);
+    const parts = [
+        ...count('+', diff.addedNodes, 'node'), ...count('-', diff.removedNodes, 'node'), ...count('~', diff.changedNodes, 'node'),
+        ...count('+', diff.addedLinks, 'link'), ...count('-', diff.removedLinks, 'link'), ...count('~', diff.changedLinks, 'link'),
+    ];
+    return parts.length > 0 ? parts.join(', ') : 'no changes';
+};
@@ -0,0 +1,214 @@
+// Direct user edits to the mind map. Every node a user creates or changes, and every link they draw or
+// edit, is attributed to USER_INPUT; invalid edits throw with a message fit for the user.
+import { MindMapData, MindMapEdit, MindMapLink, MindMapNode } from '../types';
+import { endpointId, getLinkKey, normalizeMindMap } from './mindMap';
+
+export interface MindMapEditResult {
+    mindMap: MindMapData;
+    createdNodeId: string | null;
+}
+
+const HIERARCHICAL_STRENGTH = 0.9;
+const DEFAULT_LINK_STRENGTH = 0.7;
+
+// Same shape as the ids the agent's tools generate, made unique against the existing nodes.
+const createNodeId = (name: string, existingIds: Set<string>): string => {
+    const base = `${name.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20)}_${Date.now()}`;
+    let id = base;
+    for (let i = 2; existingIds.has(id); i++) id = `${base}_${i}`;
+    return id;
+};
+
+export const getParentId = (mindMap: MindMapData, nodeId: string): string | null => {
+    const link = mindMap.links.find(l => l.type === 'HIERARCHICAL' && endpointId(l.target) === nodeId);
+    return link ? endpointId(link.source) : null;
+};
+
+// The node and everything below it through HIERARCHICAL links; a node can't be moved under any of these.
+export const getSubtreeIds = (mindMap: MindMapData, nodeId: string): Set<string> => {
+    const subtree = new Set([nodeId]);
+    const queue = [nodeId];
+    for (let i = 0; i < queue.length; i++) {
+        mindMap.links.forEach(link => {
+            const target = endpointId(link.target);
+            if (link.type === 'HIERARCHICAL' && endpointId(link.source) === queue[i] && !subtree.has(target)) {
+                subtree.add(target);
+                queue.push(target);
+            }
+        });
+    }
+    return subtree;
+};
+
+const getNodeName = (mindMap: MindMapData, nodeId: string): string => mindMap.nodes.find(n => n.id === nodeId)?.name ?? nodeId;
+
+const requireNodes = (mindMap: MindMapData, nodeIds: string[]) => {
+    if (nodeIds.length === 0) throw new Error('No nodes were selected.');
+    const missing = nodeIds.filter(id => !mindMap.nodes.some(n => n.id === id));
+    if (missing.length > 0) throw new Error(`Node not found: ${missing.join(', ')}.`);
+};
+
+// A node has at most one parent, so a new HIERARCHICAL link replaces the old one and must not close a loop.
+const setParent = (mindMap: MindMapData, nodeId: string, parentId: string | null, now: string): MindMapData => {
+    if (parentId !== null) {
+        requireNodes(mindMap, [parentId]);
+        if (getSubtreeIds(mindMap, nodeId).has(parentId)) {
+            throw new Error(`"${getNodeName(mindMap, nodeId)}" can't be placed under itself or one of its descendants.`);
+        }
+    }
+    const links = mindMap.links.filter(l => !(l.type === 'HIERARCHICAL' && endpointId(l.target) === nodeId));
+    if (parentId !== null) {
+        links.push({ source: parentId, target: nodeId, type: 'HIERARCHICAL', strength: HIERARCHICAL_STRENGTH, origin: 'USER_INPUT' });
+    }
+    return {
+        nodes: mindMap.nodes.map(n => (n.id === nodeId ? { ...n, source: 'USER_INPUT', updatedAt: now } : n)),
+        links,
+    };
+};
+
+const addLink = (mindMap: MindMapData, link: MindMapLink, now: string): MindMapData => {
+    const source = endpointId(link.source);
+    const target = endpointId(link.target);
+    requireNodes(mindMap, [source, target]);
+    if (source === target) throw new Error('A node can\'t be linked to itself.');
+    if (mindMap.links.some(l => getLinkKey(l) === getLinkKey(link))) return mindMap;
+    if (link.type === 'HIERARCHICAL') {
+        const reparented = setParent(mindMap, target, source, now);
+        return { ...reparented, links: reparented.links.map(l => (getLinkKey(l) === getLinkKey(link) ? { ...l, label: link.label } : l)) };
+    }
+    return { ...mindMap, links: [...mindMap.links, link] };
+};
+
+export const applyMindMapEdit = (current: MindMapData, edit: MindMapEdit, now = new Date().toISOString()): MindMapEditResult => {
+    const mindMap = normalizeMindMap(current);
+    switch (edit.type) {
+        case 'CREATE_NODE': {
+            const name = edit.fields.name.trim();
+            if (!name) throw new Error('A node needs a name.');
+            const node: MindMapNode = {
+                id: createNodeId(name, new Set(mindMap.nodes.map(n => n.id))),
+                name,
+                type: edit.fields.type,
+                content: edit.fields.content,
+                ...(edit.fields.type === 'TASK' ? { status: edit.fields.status ?? 'pending' } : {}),
+                source: 'USER_INPUT',
+                createdAt: now,
+                updatedAt: now,
+            };
+            const withNode = { ...mindMap, nodes: [...mindMap.nodes, node] };
+            return { mindMap: edit.parentId ? setParent(withNode, node.id, edit.parentId, now) : withNode, createdNodeId: node.id };
+        }
+        case 'UPDATE_NODES': {
+            requireNodes(mindMap, edit.nodeIds);
+            if (edit.changes.name !== undefined && !edit.changes.name.trim()) throw new Error('A node needs a name.');
+            const ids = new Set(edit.nodeIds);
+            const nodes = mindMap.nodes.map(node => {
+                if (!ids.has(node.id)) return node;
+                const { status, ...rest } = { ...node, ...edit.changes, source: 'USER_INPUT' as const, updatedAt: now };
+                if (edit.changes.name !== undefined) rest.name = edit.changes.name.trim();
+                // Only tasks carry a status.
+                return rest.type === 'TASK' ? { ...rest, status: status ?? 'pending' } : rest;
+            });
+            return { mindMap: { ...mindMap, nodes }, createdNodeId: null };
+        }
+        case 'DELETE_NODES': {
+            requireNodes(mindMap, edit.nodeIds);
+            const ids = new Set(edit.nodeIds);
+            const core = mindMap.nodes.find(n => ids.has(n.id) && n.type === 'CORE_PERSONA');
+            if (core) throw new Error(`The core persona "${core.name}" can't be deleted.`);
+            // Children of a deleted node move up to its nearest surviving ancestor, so branches aren't cut loose.
+            const survivingAncestor = (nodeId: string): string | null => {
+                let parentId = getParentId(mindMap, nodeId);
+                const seen = new Set<string>();
+                while (parentId && ids.has(parentId) && !seen.has(parentId)) {
+                    seen.add(parentId);
+                    parentId = getParentId(mindMap, parentId);
+                }
+                return parentId && !ids.has(parentId) ? parentId : null;
+            };
+            const orphans = mindMap.links
+                .filter(l => l.type === 'HIERARCHICAL' && ids.has(endpointId(l.source)) && !ids.has(endpointId(l.target)))
+                .map(l => endpointId(l.target));
+            let result: MindMapData = {
+                nodes: mindMap.nodes.filter(n => !ids.has(n.id)),
+                links: mindMap.links.filter(l => !ids.has(endpointId(l.source)) && !ids.has(endpointId(l.target))),
+            };
+            orphans.forEach(orphan => {
+                const ancestor = survivingAncestor(orphan);
+                if (ancestor) result = setParent(result, orphan, ancestor, now);
+            });
+            return { mindMap: result, createdNodeId: null };
+        }
+        case 'REPARENT_NODES': {
+            requireNodes(mindMap, edit.nodeIds);
+            const result = edit.nodeIds.reduce((map, nodeId) => setParent(map, nodeId, edit.parentId, now), mindMap);
+            return { mindMap: result, createdNodeId: null };
+        }
+        case 'CREATE_LINKS': {
+            const result = edit.links.reduce((map, link) => addLink(map, {
+                source: link.source,
+                target: link.target,
+                type: link.type,
+                strength: link.type === 'HIERARCHICAL' ? HIERARCHICAL_STRENGTH : DEFAULT_LINK_STRENGTH,
+                ...(link.label?.trim() ? { label: link.label.trim() } : {}),
+                origin: 'USER_INPUT',
+            }, now), mindMap);
+            if (result === mindMap) {
+                throw new Error(edit.links.length === 1 ? 'That link already exists.' : 'Those links already exist.');
+            }
+            return { mindMap: result, createdNodeId: null };
+        }
+        case 'UPDATE_LINK': {
+            const link = mindMap.links.find(l => getLinkKey(l) === edit.linkKey);
+            if (!link) throw new Error('Link not found.');
+            const label = edit.changes.label !== undefined ? edit.changes.label.trim() || undefined : link.label;
+            const updated: MindMapLink = {
+                ...link,
+                type: edit.changes.type ?? link.type,
+                strength: edit.changes.strength !== undefined ? Math.min(1, Math.max(0, edit.changes.strength)) : link.strength,
+                label,
+                origin: 'USER_INPUT',
+            };
+            if (label === undefined) delete updated.label;
+            if (updated.type === link.type) {
+                return { mindMap: { ...mindMap, links: mindMap.links.map(l => (l === link ? updated : l)) }, createdNodeId: null };
+            }
+            // A new type is a different link; it must not duplicate an existing one.
+            if (mindMap.links.some(l => getLinkKey(l) === getLinkKey(updated))) {
+                throw new Error(`These nodes already have a ${updated.type} link.`);
+            }
+            const withoutOld = { ...mindMap, links: mindMap.links.filter(l => l !== link) };
+            return { mindMap: addLink(withoutOld, updated, now), createdNodeId: null };
+        }
+        case 'DELETE_LINKS': {
+            const keys = new Set(edit.linkKeys);
+            return { mindMap: { ...mindMap, links: mindMap.links.filter(l => !keys.has(getLinkKey(l))) }, createdNodeId: null };
+        }
+    }
+};
+
+// A short label for the undo history, e.g. 'Delete "Curiosity"' or 'Edit 3 nodes'.
+export const describeMindMapEdit = (mindMap: MindMapData, edit: MindMapEdit): string => {
+    const nodes = (verb: string, ids: string[]) => (ids.length === 1 ? `${verb} "${getNodeName(mindMap, ids[0])}"` : `${verb} ${ids.length} nodes`);
+    const linkEnds = (link: Pick<MindMapLink, 'source' | 'target'>) => `"${getNodeName(mindMap, endpointId(link.source))}" → "${getNodeName(mindMap, endpointId(link.target))}"`;
+    switch (edit.type) {
+        case 'CREATE_NODE':
+            return `Create "${edit.fields.name.trim()}"`;
+        case 'UPDATE_NODES':
+            return nodes('Edit', edit.nodeIds);
+        case 'DELETE_NODES':
+            return nodes('Delete', edit.nodeIds);
+        case 'REPARENT_NODES':
+            return `${nodes('Move', edit.nodeIds)} ${edit.parentId ? `under "${getNodeName(mindMap, edit.parentId)}"` : 'to the top level'}`;
+        case 'CREATE_LINKS':
+            return edit.links.length === 1 ? `Link ${linkEnds(edit.links[0])}` : `Create ${edit.links.length} links`;
+        case 'UPDATE_LINK': {
+            const link = mindMap.links.find(l => getLinkKey(l) === edit.linkKey);
+            return link ? `Edit link ${linkEnds(link)}` : 'Edit link';
+        }
+        case 'DELETE_LINKS': {
+            const link = edit.linkKeys.length === 1 ? mindMap.links.find(l => getLinkKey(l) === edit.linkKeys[0]) : undefined;
+            return link ? `Unlink ${linkEnds(link)}` : `Delete ${edit.linkKeys.length} links`;
+        }
+    }
+};
@@ -0,0 +1,80 @@
+// Narrowing a mind map down to what the Knowledge tab should show: filters, search and N-hop focus.
+import { MindMapData, MindMapFilter, MindMapNode } from '../types';
+import { endpointId } from './mindMap';
+
+export const MAX_FOCUS_DEPTH = 5;
+
+export const createMindMapFilter = (): MindMapFilter => ({
+    query: '',
+    nodeTypes: [],
+    sources: [],
+    linkTypes: [],
+    createdFrom: '',
+    createdTo: '',
+    focusNodeId: null,
+    focusDepth: 1,
+});
+
+// Whether anything besides the search box hides part of the graph.
+export const isMindMapFilterActive = (filter: MindMapFilter): boolean =>
+    filter.nodeTypes.length > 0 || filter.sources.length > 0 || filter.linkTypes.length > 0 ||
+    !!filter.createdFrom || !!filter.createdTo || !!filter.focusNodeId;
+
+export const matchesQuery = (node: MindMapNode, query: string): boolean => {
+    const needle = query.trim().toLowerCase();
+    return !!needle && (node.name.toLowerCase().includes(needle) || node.content.toLowerCase().includes(needle));
+};
+
+const matchesFilters = (node: MindMapNode, filter: MindMapFilter): boolean => {
+    if (filter.nodeTypes.length > 0 && !filter.nodeTypes.includes(node.type)) return false;
+    if (filter.sources.length > 0 && !filter.sources.includes(node.source)) return false;
+    // Dates are compared as UTC calendar days, which is how createdAt is stored.
+    const day = node.createdAt.slice(0, 10);
+    if (filter.createdFrom && day < filter.createdFrom) return false;
+    if (filter.createdTo && day > filter.createdTo) return false;
+    return true;
+};
+
+// The nodes within `depth` hops of `startId`, following links in either direction.
+export const getNeighborhood = (mindMap: MindMapData, startId: string, depth: number): Set<string> => {
+    const neighbors = new Map<string, string[]>();
+    const connect = (from: string, to: string) => {
+        const list = neighbors.get(from);
+        if (list) list.push(to);
+        else neighbors.set(from, [to]);
+    };
+    mindMap.links.forEach(link => {
+        const source = endpointId(link.source);
+        const target = endpointId(link.target);
+        connect(source, target);
+        connect(target, source);
+    });
+    const reached = new Set([startId]);
+    let frontier = [startId];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+        frontier = frontier.flatMap(id => neighbors.get(id) ?? []).filter(id => !reached.has(id));
+        frontier.forEach(id => reached.add(id));
+    }
+    return reached;
+};
+
+// The visible part of the graph, plus which visible nodes match the search (null when there is no search).
+// Filters apply before focus, so the neighborhood only walks through nodes and links that pass them;
+// the focus node itself always stays visible as the anchor.
+export const filterMindMap = (mindMap: MindMapData, filter: MindMapFilter): { data: MindMapData; matches: Set<string> | null } => {
+    const focusNode = filter.focusNodeId ? mindMap.nodes.find(node => node.id === filter.focusNodeId) : undefined;
+    let nodes = mindMap.nodes.filter(node => node === focusNode || matchesFilters(node, filter));
+    let nodeIds = new Set(nodes.map(node => node.id));
+    let links = mindMap.links.filter(link =>
+        (filter.linkTypes.length === 0 || filter.linkTypes.includes(link.type)) &&
+        nodeIds.has(endpointId(link.source)) && nodeIds.has(endpointId(link.target)));
+
+    if (focusNode) {
+        nodeIds = getNeighborhood({ nodes, links }, focusNode.id, filter.focusDepth);
+        nodes = nodes.filter(node => nodeIds.has(node.id));
+        links = links.filter(link => nodeIds.has(endpointId(link.source)) && nodeIds.has(endpointId(link.target)));
+    }
+
+    const matches = filter.query.trim() ? new Set(nodes.filter(node => matchesQuery(node, filter.query)).map(node => node.id)) : null;
+    return { data: { nodes, links }, matches };
+};
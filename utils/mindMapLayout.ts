@@ -0,0 +1,182 @@
+// Fixed-position layouts for the knowledge graph. The force layout is the d3 simulation itself;
+// the others place every node deterministically so the same persona always looks the same.
+import * as d3 from 'd3';
+import { MindMapData, MindMapLayout, MindMapNode } from '../types';
+import { MIND_MAP_NODE_TYPES } from '../constants';
+import { endpointId } from './mindMap';
+
+export interface LayoutPosition {
+    x: number;
+    y: number;
+}
+
+export const MIND_MAP_LAYOUTS: { id: MindMapLayout; label: string }[] = [
+    { id: 'force', label: 'Force' },
+    { id: 'radial', label: 'Radial tree' },
+    { id: 'tree', label: 'Top-down tree' },
+    { id: 'clustered', label: 'Clustered by aspect' },
+    { id: 'timeline', label: 'Timeline' },
+];
+
+const ROOT_NODE_ID = 'Persona_Core';
+const TREE_NODE_SPACING = 60;
+const TREE_LEVEL_SPACING = 110;
+const RADIAL_RING_SPACING = 120;
+const CLUSTER_MEMBER_SPACING = 22;
+const TIMELINE_LANE_HEIGHT = 70;
+const TIMELINE_MIN_GAP = 24;
+
+const buildAdjacency = (data: MindMapData, include: (type: string) => boolean): Map<string, string[]> => {
+    const adjacency = new Map<string, string[]>();
+    const connect = (from: string, to: string) => {
+        const list = adjacency.get(from);
+        if (list) list.push(to);
+        else adjacency.set(from, [to]);
+    };
+    data.links.filter(link => include(link.type)).forEach(link => {
+        const source = endpointId(link.source);
+        const target = endpointId(link.target);
+        connect(source, target);
+        connect(target, source);
+    });
+    return adjacency;
+};
+
+// A spanning tree rooted at the core persona. HIERARCHICAL links come first; nodes they don't reach
+// hang off their nearest placed neighbor through any link, and unconnected nodes off the root.
+const buildTree = (data: MindMapData): d3.HierarchyNode<string> => {
+    const root = data.nodes.find(node => node.id === ROOT_NODE_ID) ?? data.nodes.find(node => node.type === 'CORE_PERSONA') ?? data.nodes[0];
+    const nodeIds = new Set(data.nodes.map(node => node.id));
+    const children = new Map<string, string[]>();
+    const placed = new Set([root.id]);
+    const adopt = (parent: string, child: string) => {
+        const list = children.get(parent);
+        if (list) list.push(child);
+        else children.set(parent, [child]);
+    };
+
+    const grow = (queue: string[], adjacency: Map<string, string[]>) => {
+        for (let i = 0; i < queue.length; i++) {
+            for (const neighbor of adjacency.get(queue[i]) ?? []) {
+                if (placed.has(neighbor) || !nodeIds.has(neighbor)) continue;
+                placed.add(neighbor);
+                adopt(queue[i], neighbor);
+                queue.push(neighbor);
+            }
+        }
+    };
+    grow([root.id], buildAdjacency(data, type => type === 'HIERARCHICAL'));
+    grow(Array.from(placed), buildAdjacency(data, () => true));
+    data.nodes.filter(node => !placed.has(node.id)).forEach(node => adopt(root.id, node.id));
+
+    return d3.hierarchy<string>(root.id, id => children.get(id));
+};
+
+const layoutTree = (data: MindMapData, width: number): Map<string, LayoutPosition> => {
+    const root = d3.tree<string>().nodeSize([TREE_NODE_SPACING, TREE_LEVEL_SPACING])(buildTree(data));
+    return new Map(root.descendants().map(node => [node.data, { x: width / 2 + node.x, y: TREE_LEVEL_SPACING / 2 + node.y }]));
+};
+
+const layoutRadial = (data: MindMapData, width: number, height: number): Map<string, LayoutPosition> => {
+    const hierarchy = buildTree(data);
+    const root = d3.tree<string>()
+        .size([2 * Math.PI, Math.max(1, hierarchy.height) * RADIAL_RING_SPACING])
+        .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(1, a.depth))(hierarchy);
+    return new Map(root.descendants().map(node => [node.data, {
+        x: width / 2 + node.y * Math.cos(node.x - Math.PI / 2),
+        y: height / 2 + node.y * Math.sin(node.x - Math.PI / 2),
+    }]));
+};
+
+// Each PSYCHOLOGY_ASPECT gathers the nodes closest to it (by links, not passing through the core persona),
+// arranged in a sunflower spiral around it; the clusters ring the core persona.
+const layoutClustered = (data: MindMapData, width: number, height: number): Map<string, LayoutPosition> => {
+    const isCore = (node: MindMapNode) => node.type === 'CORE_PERSONA';
+    const cores = new Set(data.nodes.filter(isCore).map(node => node.id));
+    const aspects = data.nodes.filter(node => node.type === 'PSYCHOLOGY_ASPECT').map(node => node.id);
+    const adjacency = buildAdjacency(data, () => true);
+
+    const clusterOf = new Map(aspects.map(id => [id, id]));
+    const queue = [...aspects];
+    for (let i = 0; i < queue.length; i++) {
+        for (const neighbor of adjacency.get(queue[i]) ?? []) {
+            if (clusterOf.has(neighbor) || cores.has(neighbor)) continue;
+            clusterOf.set(neighbor, clusterOf.get(queue[i])!);
+            queue.push(neighbor);
+        }
+    }
+
+    const clusters = new Map<string, string[]>(aspects.map(id => [id, [id]]));
+    const unclustered: string[] = [];
+    data.nodes.filter(node => !isCore(node)).forEach(node => {
+        const cluster = clusterOf.get(node.id);
+        if (!cluster) unclustered.push(node.id);
+        else if (cluster !== node.id) clusters.get(cluster)!.push(node.id);
+    });
+    const groups = [...clusters.values(), ...(unclustered.length > 0 ? [unclustered] : [])];
+
+    const clusterRadius = (size: number) => CLUSTER_MEMBER_SPACING * Math.sqrt(size) + CLUSTER_MEMBER_SPACING;
+    const circumference = groups.reduce((sum, group) => sum + 2 * clusterRadius(group.length) + CLUSTER_MEMBER_SPACING, 0);
+    const ringRadius = groups.length > 1 ? Math.max(200, circumference / (2 * Math.PI)) : 0;
+
+    const positions = new Map<string, LayoutPosition>();
+    Array.from(cores).forEach((id, i) => positions.set(id, { x: width / 2 + i * TREE_NODE_SPACING, y: height / 2 }));
+    let angle = 0;
+    groups.forEach(group => {
+        // Each cluster takes a share of the ring proportional to its size.
+        const share = (2 * clusterRadius(group.length) + CLUSTER_MEMBER_SPACING) / circumference * 2 * Math.PI;
+        const center = { x: width / 2 + ringRadius * Math.cos(angle + share / 2), y: height / 2 + ringRadius * Math.sin(angle + share / 2) };
+        angle += share;
+        group.forEach((id, i) => {
+            const radius = i === 0 ? 0 : CLUSTER_MEMBER_SPACING * Math.sqrt(i + 0.5);
+            const theta = i * Math.PI * (3 - Math.sqrt(5)); // golden angle
+            positions.set(id, { x: center.x + radius * Math.cos(theta), y: center.y + radius * Math.sin(theta) });
+        });
+    });
+    return positions;
+};
+
+// Creation time runs left to right, with one lane per node type; nodes that would overlap in a lane step down.
+const layoutTimeline = (data: MindMapData, width: number): Map<string, LayoutPosition> => {
+    const times = data.nodes.map(node => new Date(node.createdAt).getTime()).filter(time => !Number.isNaN(time));
+    const start = times.length > 0 ? Math.min(...times) : 0;
+    const end = times.length > 0 ? Math.max(...times) : 0;
+    const span = Math.max(width, Math.min(data.nodes.length * TIMELINE_MIN_GAP, 6000)) - 160;
+    const lanes = MIND_MAP_NODE_TYPES.filter(type => data.nodes.some(node => node.type === type));
+
+    const positions = new Map<string, LayoutPosition>();
+    const lastX = new Map<string, number>();
+    [...data.nodes]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .forEach(node => {
+            const time = new Date(node.createdAt).getTime();
+            const x = 80 + (end > start && !Number.isNaN(time) ? (time - start) / (end - start) : 0.5) * span;
+            const lane = lanes.indexOf(node.type);
+            // Three rows per lane; take the first one with room at this x.
+            const row = [0, 1, 2].find(r => x - (lastX.get(`${lane}:${r}`) ?? -Infinity) >= TIMELINE_MIN_GAP) ?? 0;
+            lastX.set(`${lane}:${row}`, x);
+            positions.set(node.id, { x, y: TIMELINE_LANE_HEIGHT / 2 + lane * TIMELINE_LANE_HEIGHT + (row - 1) * (TIMELINE_LANE_HEIGHT / 3) });
+        });
+    return positions;
+};
+
+// Target positions for every node, or null for the force layout.
+export const computeMindMapLayout = (layout: MindMapLayout, data: MindMapData, width: number, height: number): Map<string, LayoutPosition> | null => {
+    if (layout === 'force' || data.nodes.length === 0) return null;
+    switch (layout) {
+        case 'radial': return layoutRadial(data, width, height);
+        case 'tree': return layoutTree(data, width);
+        case 'clustered': return layoutClustered(data, width, height);
+        case 'timeline': return layoutTimeline(data, width);
+    }
+};
+
+// The zoom that fits the given positions into a width × height viewport, never magnifying past 1.5×.
+export const getFitTransform = (positions: LayoutPosition[], width: number, height: number, padding = 60): d3.ZoomTransform => {
+    const [minX, maxX] = d3.extent(positions, p => p.x) as [number, number];
+    const [minY, maxY] = d3.extent(positions, p => p.y) as [number, number];
+    const scale = Math.max(0.1, Math.min(1.5, (width - padding) / Math.max(1, maxX - minX), (height - padding) / Math.max(1, maxY - minY)));
+    return d3.zoomIdentity
+        .translate(width / 2 - scale * (minX + maxX) / 2, height / 2 - scale * (minY + maxY) / 2)
+        .scale(scale);
+};
@@ -0,0 +1,45 @@
+// How the knowledge graph encodes node and link attributes visually, shared by the graph and its legend.
+import { MindMapLink, MindMapLinkType, MindMapNodeType } from '../types';
+
+export interface LinkStyle {
+    color: string;
+    dash: string | null; // SVG stroke-dasharray
+    directed: boolean; // Drawn with an arrowhead at the target
+    description: string;
+}
+
+export const LINK_STYLES: Record<MindMapLinkType, LinkStyle> = {
+    HIERARCHICAL: { color: '#64748b', dash: null, directed: true, description: 'Parent → child' }, // slate-500
+    RELATED: { color: '#94a3b8', dash: '2 4', directed: false, description: 'General connection' }, // slate-400
+    SUPPORTS: { color: '#22c55e', dash: null, directed: true, description: 'Source supports target' }, // green-500
+    CONTRADICTS: { color: '#ef4444', dash: '6 3', directed: false, description: 'In tension with each other' }, // red-500
+    CAUSES: { color: '#f59e0b', dash: null, directed: true, description: 'Source causes target' }, // amber-500
+    REFINES: { color: '#a78bfa', dash: '4 2', directed: true, description: 'Source refines target' }, // violet-400
+};
+
+// Links are zoomed in far enough for every label to be readable.
+export const LINK_LABEL_ZOOM = 1.5;
+
+export const getNodeColor = (type: MindMapNodeType) => {
+    switch(type) {
+        case 'CORE_PERSONA': return '#06b6d4'; // cyan-500
+        case 'MISSION': return '#a855f7'; // purple-500
+        case 'TASK': return '#64748b'; // slate-500
+        case 'PSYCHOLOGY_ASPECT': return '#6366f1'; // indigo-500
+        case 'QUANTUM_INSIGHT': return '#ec4899'; // pink-500
+        case 'KEY_TRAIT': return '#eab308'; // yellow-500
+        case 'STRENGTH': return '#84cc16'; // lime-500
+        case 'WEAKNESS': return '#f97316'; // orange-500
+        case 'KNOWLEDGE_CONCEPT': return '#3b82f6'; // blue-500
+        case 'ABSTRACT_CONCEPT': return '#10b981'; // emerald-500
+        case 'FILE_REFERENCE': return '#78716c'; // stone-500
+        default: return '#6b7280'; // gray-500
+    }
+}
+
+export const getNodeRadius = (type: MindMapNodeType) => type === 'CORE_PERSONA' ? 14 : type === 'MISSION' ? 12 : 9;
+
+// Strength runs from 0 to 1; even the weakest link stays visible.
+export const getLinkWidth = (link: MindMapLink) => 1 + 3 * Math.min(1, Math.max(0, link.strength ?? 0.5));
+
+export const getLinkLabel = (link: MindMapLink) => link.label || link.type.toLowerCase();
@@ -0,0 +1,64 @@
+// Undo/redo over mind map and file system snapshots. Each entry is one transaction: a whole agent turn,
+// or a single user action. Edits made without an entry (e.g. typing in the IDE) are folded into an
+// "Other edits" entry the next time the history is touched, so undoing never loses them silently.
+import { HistoryEntry, HistorySnapshot, UndoHistory } from '../types';
+
+export const MAX_UNDO_ENTRIES = 50;
+const UNTRACKED_EDITS_LABEL = 'Other edits';
+
+let nextEntryId = 0;
+
+export const createUndoHistory = (): UndoHistory => ({ past: [], future: [] });
+
+const isSameSnapshot = (a: HistorySnapshot, b: HistorySnapshot) => a.mindMap === b.mindMap && a.vfs === b.vfs;
+
+const pushEntry = (history: UndoHistory, entry: Omit<HistoryEntry, 'id' | 'timestamp'>): UndoHistory => ({
+    past: [...history.past, { ...entry, id: `history-${Date.now()}-${nextEntryId++}`, timestamp: new Date().toISOString() }].slice(-MAX_UNDO_ENTRIES),
+    future: [],
+});
+
+// Records untracked changes between the last entry and `current`, if there are any.
+const captureManualEdits = (history: UndoHistory, current: HistorySnapshot): UndoHistory => {
+    const last = history.past[history.past.length - 1];
+    if (!last || isSameSnapshot(last.after, current)) return history;
+    return pushEntry(history, { label: UNTRACKED_EDITS_LABEL, source: 'user', before: last.after, after: current });
+};
+
+// Adds a transaction and drops anything that was undone. A transaction that changed nothing is not recorded.
+export const recordChange = (history: UndoHistory, entry: Omit<HistoryEntry, 'id' | 'timestamp'>): UndoHistory => {
+    if (isSameSnapshot(entry.before, entry.after)) return history;
+    return pushEntry(captureManualEdits(history, entry.before), entry);
+};
+
+export const canUndo = (history: UndoHistory): boolean => history.past.length > 0;
+
+// Redo only applies while the state is still where the undo left it; later edits start a new timeline.
+export const canRedo = (history: UndoHistory, current: HistorySnapshot): boolean =>
+    history.future.length > 0 && isSameSnapshot(history.future[0].before, current);
+
+// Returns the state to restore, or null when there is nothing to undo.
+export const undo = (history: UndoHistory, current: HistorySnapshot): { history: UndoHistory; snapshot: HistorySnapshot; entry: HistoryEntry } | null => {
+    const synced = captureManualEdits(history, current);
+    const entry = synced.past[synced.past.length - 1];
+    if (!entry) return null;
+    return { history: { past: synced.past.slice(0, -1), future: [entry, ...synced.future] }, snapshot: entry.before, entry };
+};
+
+export const redo = (history: UndoHistory, current: HistorySnapshot): { history: UndoHistory; snapshot: HistorySnapshot; entry: HistoryEntry } | null => {
+    if (!canRedo(history, current)) return null;
+    const [entry, ...future] = history.future;
+    return { history: { past: [...history.past, entry], future }, snapshot: entry.after, entry };
+};
+
+// Undoes or redoes until `entryId` is the latest applied entry (null undoes everything).
+export const travelTo = (history: UndoHistory, current: HistorySnapshot, entryId: string | null): { history: UndoHistory; snapshot: HistorySnapshot } | null => {
+    let state = { history, snapshot: current };
+    const isApplied = () => (entryId === null ? state.history.past.length === 0 : state.history.past[state.history.past.length - 1]?.id === entryId);
+    const step = state.history.future.some(entry => entry.id === entryId) ? redo : undo;
+    while (!isApplied()) {
+        const next = step(state.history, state.snapshot);
+        if (!next) return null;
+        state = next;
+    }
+    return state;
+};
@@ -0,0 +1,145 @@
+// Reading and writing zip archives, with the browser's built-in (de)compression streams doing the deflating.
+
+export interface ZipEntry {
+    path: string;
+    data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const STORED = 0;
+const DEFLATED = 8;
+const UTF8_NAMES = 0x0800;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pipeBytes = async (data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+    new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(transform)).arrayBuffer());
+
+// 'deflate' is zlib-wrapped (what git stores objects as); zip entries use 'deflate-raw'.
+export const compress = (data: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> => pipeBytes(data, new CompressionStream(format));
+
+export const decompress = (data: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> => pipeBytes(data, new DecompressionStream(format));
+
+// MS-DOS date and time, as zip headers record them.
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = async (entries: ZipEntry[], modified: Date = new Date()): Promise<Uint8Array> => {
+    const encoder = new TextEncoder();
+    const { time, date } = toDosDateTime(modified);
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.path);
+        const deflated = await compress(entry.data, 'deflate-raw');
+        // Already-compressed or tiny files can grow when deflated; store those as they are.
+        const method = deflated.length < entry.data.length ? DEFLATED : STORED;
+        const body = method === DEFLATED ? deflated : entry.data;
+        const crc = crc32(entry.data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, UTF8_NAMES, true);
+        local.setUint16(8, method, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, body.length, true);
+        local.setUint32(22, entry.data.length, true);
+        local.setUint16(26, name.length, true);
+        localParts.push(new Uint8Array(local.buffer), name, body);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, CENTRAL_HEADER, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, UTF8_NAMES, true);
+        central.setUint16(10, method, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, body.length, true);
+        central.setUint32(24, entry.data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        centralParts.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + body.length;
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+    const result = new Uint8Array(offset + centralSize + 22);
+    let position = 0;
+    parts.forEach(part => {
+        result.set(part, position);
+        position += part.length;
+    });
+    return result;
+};
+
+// Returns the archive's files (folders are implied by the paths). Only stored and deflated entries are supported.
+export const readZip = async (data: Uint8Array): Promise<ZipEntry[]> => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    // The end record sits at the very end, followed only by a comment of at most 64 KiB.
+    let endOffset = -1;
+    for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) throw new Error('Not a zip archive.');
+
+    const count = view.getUint16(endOffset + 10, true);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+    let offset = view.getUint32(endOffset + 16, true);
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_HEADER) throw new Error('The zip archive is corrupt.');
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const crc = view.getUint32(offset + 16, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const path = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (path.endsWith('/')) continue;
+        if (flags & 1) throw new Error(`${path} is encrypted.`);
+        if (method !== STORED && method !== DEFLATED) throw new Error(`${path} uses an unsupported compression method (${method}).`);
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const body = data.subarray(start, start + compressedSize);
+        const content = method === DEFLATED ? await decompress(body, 'deflate-raw') : body.slice();
+        if (crc32(content) !== crc) throw new Error(`${path} is corrupt (checksum mismatch).`);
+        entries.push({ path, data: content });
+    }
+    return entries;
+};
@@ -1,7 +1,41 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// The Pyodide runtime the Python worker loads, served from node_modules so `python` works offline.
+const PYODIDE_DIR = path.resolve(__dirname, 'node_modules/pyodide');
+const PYODIDE_ASSETS: Record<string, string> = {
+  'pyodide.asm.js': 'text/javascript',
+  'pyodide.asm.wasm': 'application/wasm',
+  'python_stdlib.zip': 'application/zip',
+  'pyodide-lock.json': 'application/json',
+};
+
+// Serves the assets under <base>pyodide/ in dev and copies them there in the build.
+const pyodideAssets = (): Plugin => {
+  let base = '/';
+  return {
+    name: 'pyodide-assets',
+    configResolved(config) {
+      base = config.base;
+    },
+    configureServer(server) {
+      server.middlewares.use(`${base}pyodide`, (req, res, next) => {
+        const file = (req.url ?? '').split('?')[0].replace(/^\//, '');
+        if (!(file in PYODIDE_ASSETS)) return next();
+        res.setHeader('Content-Type', PYODIDE_ASSETS[file]);
+        fs.createReadStream(path.join(PYODIDE_DIR, file)).pipe(res);
+      });
+    },
+    generateBundle() {
+      Object.keys(PYODIDE_ASSETS).forEach(file => {
+        this.emitFile({ type: 'asset', fileName: `pyodide/${file}`, source: fs.readFileSync(path.join(PYODIDE_DIR, file)) });
+      });
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +43,14 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), pyodideAssets()],
+      // Pyodide fetches its WebAssembly runtime at load time and must not be pre-bundled.
+      optimizeDeps: {
+        exclude: ['pyodide'],
+      },
+      worker: {
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
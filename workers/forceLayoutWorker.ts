@@ -0,0 +1,80 @@
+// Runs the mind map's force simulation in a Web Worker, so large graphs lay out without blocking the page.
+// The simulation persists across updates: nodes that stay keep their position and velocity, and only the
+// positions travel back, as a transferable Float32Array per tick.
+import { forceCenter, forceLink, forceManyBody, forceSimulation, forceX, forceY, ForceLink, SimulationLinkDatum, SimulationNodeDatum } from 'd3';
+import type { ForceLayoutMessage, ForceLayoutRequest, MindMapLinkType } from '../types';
+
+const ctx = self as unknown as Worker;
+
+type WorkerNode = SimulationNodeDatum & { id: string };
+type WorkerLink = SimulationLinkDatum<WorkerNode> & { type: MindMapLinkType };
+
+// The same forces as the SVG renderer, so both draw the same shape.
+const simulation = forceSimulation<WorkerNode, WorkerLink>()
+    .force("link", forceLink<WorkerNode, WorkerLink>().id(d => d.id).distance(d => d.type === 'HIERARCHICAL' ? 80 : 120).strength(0.8))
+    .force("charge", forceManyBody().strength(-300))
+    .stop();
+
+let nodes: WorkerNode[] = [];
+let nodesById = new Map<string, WorkerNode>();
+let orderChanged = true;
+
+const postPositions = () => {
+    const positions = new Float32Array(nodes.length * 2);
+    nodes.forEach((node, i) => {
+        positions[2 * i] = node.x ?? 0;
+        positions[2 * i + 1] = node.y ?? 0;
+    });
+    const message: ForceLayoutMessage = { type: 'tick', ids: orderChanged ? nodes.map(node => node.id) : null, positions };
+    ctx.postMessage(message, [positions.buffer]);
+    orderChanged = false;
+};
+
+simulation.on("tick", postPositions);
+
+ctx.onmessage = (event: MessageEvent<ForceLayoutRequest>) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'update': {
+            nodes = request.nodes.map(({ id, x, y, fx, fy }) => {
+                const node = nodesById.get(id) ?? { id, x: x ?? fx ?? undefined, y: y ?? fy ?? undefined };
+                node.fx = fx;
+                node.fy = fy;
+                return node;
+            });
+            nodesById = new Map(nodes.map(node => [node.id, node]));
+            orderChanged = true;
+            simulation.nodes(nodes);
+            (simulation.force("link") as ForceLink<WorkerNode, WorkerLink>).links(
+                request.links.filter(link => nodesById.has(link.source) && nodesById.has(link.target)).map(link => ({ ...link })),
+            );
+            simulation
+                .force("center", forceCenter(request.width / 2, request.height / 2))
+                .force("x", forceX(request.width / 2).strength(0.05))
+                .force("y", forceY(request.height / 2).strength(0.05))
+                .alpha(request.alpha)
+                .restart();
+            // A cold simulation stops before its first tick; the page still needs the positions.
+            if (request.alpha < simulation.alphaMin()) {
+                simulation.stop().tick();
+                postPositions();
+            }
+            break;
+        }
+        case 'fix': {
+            const node = nodesById.get(request.id);
+            if (!node) return;
+            node.fx = request.x;
+            node.fy = request.y;
+            if (request.x !== null && request.y !== null) {
+                node.x = request.x;
+                node.y = request.y;
+            }
+            break;
+        }
+        case 'reheat':
+            simulation.alphaTarget(request.alphaTarget);
+            if (request.alphaTarget > 0) simulation.restart();
+            break;
+    }
+};
@@ -0,0 +1,368 @@
+// Runs JavaScript and TypeScript from the VFS, isolated from the page in a Web Worker.
+// Every module is transpiled to CommonJS with the TypeScript compiler and loaded from a snapshot of the VFS,
+// which scripts can also read and write through a small `fs` module; changed files are sent back.
+import ts from 'typescript';
+import type { SandboxFiles, SandboxRunRequest, SandboxRunResult, SandboxWorkerMessage, SandboxWorkerRequest } from '../types';
+
+const ctx = self as unknown as Worker;
+
+// Tried in order when an import omits the extension, as Node and TypeScript resolve relative modules.
+const MODULE_EXTENSIONS = ['.ts', '.mts', '.cts', '.js', '.mjs', '.cjs', '.json'];
+// Stack frames from this file are runtime internals, not the user's code.
+const WORKER_URL = import.meta.url.split('?')[0];
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as FunctionConstructor;
+
+class ExitSignal {
+    constructor(public readonly code: number) {}
+}
+
+const fsError = (code: string, syscall: string, path: string): Error =>
+    Object.assign(new Error(`${code}: ${code === 'ENOENT' ? 'no such file or directory' : 'illegal operation on a directory'}, ${syscall} '${path}'`), { code, syscall, path });
+
+// --- Paths ---
+// Scripts see the VFS root as both `/` and their working directory, so `data/x.csv` and `/data/x.csv` are the same file.
+const normalize = (path: string): string => {
+    const parts: string[] = [];
+    for (const part of path.split('/')) {
+        if (!part || part === '.') continue;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    }
+    return parts.join('/');
+};
+
+const dirname = (path: string): string => path.substring(0, Math.max(0, path.lastIndexOf('/')));
+
+const pathModule = {
+    sep: '/',
+    delimiter: ':',
+    join: (...parts: string[]) => {
+        const joined = normalize(parts.join('/'));
+        return parts[0]?.startsWith('/') ? `/${joined}` : (joined || '.');
+    },
+    resolve: (...parts: string[]) => `/${normalize(parts.join('/'))}`,
+    normalize: (path: string) => (path.startsWith('/') ? '/' : '') + normalize(path),
+    isAbsolute: (path: string) => path.startsWith('/'),
+    dirname: (path: string) => {
+        const dir = dirname(path.replace(/\/+$/, ''));
+        return dir || (path.startsWith('/') ? '/' : '.');
+    },
+    basename: (path: string, ext?: string) => {
+        const base = path.replace(/\/+$/, '').split('/').pop() ?? '';
+        return ext && base.endsWith(ext) && base !== ext ? base.slice(0, -ext.length) : base;
+    },
+    extname: (path: string) => {
+        const base = pathModule.basename(path);
+        const dot = base.lastIndexOf('.');
+        return dot > 0 ? base.substring(dot) : '';
+    },
+};
+
+// --- Console Formatting ---
+const formatValue = (value: unknown, topLevel: boolean): string => {
+    if (typeof value === 'string') return topLevel ? value : JSON.stringify(value);
+    if (value instanceof Error) return value.stack ?? `${value.name}: ${value.message}`;
+    if (typeof value === 'function') return `[Function: ${value.name || 'anonymous'}]`;
+    if (value === null || typeof value !== 'object') return String(value);
+    let seen = new WeakSet<object>();
+    const replacer = (_key: string, v: unknown) => {
+        if (typeof v === 'bigint') return `${v}n`;
+        if (typeof v === 'function') return `[Function: ${v.name || 'anonymous'}]`;
+        if (v instanceof Map) return Object.fromEntries(v);
+        if (v instanceof Set) return Array.from(v);
+        if (v && typeof v === 'object') {
+            if (seen.has(v)) return '[Circular]';
+            seen.add(v);
+        }
+        return v;
+    };
+    try {
+        // Short values stay on one line, as Node prints them.
+        const compact = JSON.stringify(value, replacer) ?? String(value);
+        if (compact.length <= 72) return compact;
+        seen = new WeakSet<object>();
+        return JSON.stringify(value, replacer, 2);
+    } catch {
+        return String(value);
+    }
+};
+
+// A subset of Node's util.format: %s %d %i %f %j %o %O and %%.
+const formatArgs = (args: unknown[]): string => {
+    if (typeof args[0] !== 'string' || !args[0].includes('%')) return args.map(arg => formatValue(arg, true)).join(' ');
+    let index = 1;
+    const head = args[0].replace(/%([sdifjoO%])/g, (match, spec: string) => {
+        if (spec === '%') return '%';
+        if (index >= args.length) return match;
+        const arg = args[index++];
+        switch (spec) {
+            case 's': return typeof arg === 'string' ? arg : formatValue(arg, false);
+            case 'd': case 'i': return String(spec === 'i' ? Math.trunc(Number(arg)) : Number(arg));
+            case 'f': return String(parseFloat(String(arg)));
+            default: return formatValue(arg, false);
+        }
+    });
+    return [head, ...args.slice(index).map(arg => formatValue(arg, true))].join(' ');
+};
+
+const formatError = (error: unknown): string => {
+    if (!(error instanceof Error)) return `Uncaught ${formatValue(error, false)}`;
+    const header = `${error.name}: ${error.message}`;
+    const frames = (error.stack ?? '').split('\n')
+        .filter(line => /^\s*at |@/.test(line) && !line.includes(WORKER_URL))
+        .map(line => line.trim().startsWith('at ') ? `    ${line.trim()}` : `    at ${line.trim()}`);
+    return [header, ...frames].join('\n');
+};
+
+// --- Runtime ---
+const run = async (request: SandboxRunRequest, onStarted: () => void): Promise<SandboxRunResult> => {
+    const files: SandboxFiles = { ...request.files };
+    let stdout = '';
+    let stderr = '';
+    let exitCode: number | null = null;
+    const write = (stream: 'stdout' | 'stderr', text: string) => {
+        if (stream === 'stdout') stdout += text;
+        else stderr += text;
+    };
+
+    // Timers are tracked so the run ends once nothing is scheduled, as a Node process does.
+    const timers = new Map<number, ReturnType<typeof setTimeout>>();
+    let nextTimer = 1;
+    let wake: (() => void) | null = null;
+    const notify = () => {
+        const resolve = wake;
+        wake = null;
+        resolve?.();
+    };
+    const finish = (code: number) => {
+        if (exitCode !== null) return;
+        exitCode = code;
+        timers.forEach(handle => clearTimeout(handle));
+        timers.clear();
+        notify();
+    };
+    const handleUncaught = (error: unknown) => {
+        if (error instanceof ExitSignal) return finish(error.code);
+        write('stderr', `${formatError(error)}\n`);
+        finish(1);
+    };
+    const schedule = (repeat: boolean) => (callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]): number => {
+        const id = nextTimer++;
+        const fire = () => {
+            if (!repeat) timers.delete(id);
+            try {
+                callback(...args);
+            } catch (error) {
+                handleUncaught(error);
+            }
+            if (timers.size === 0) notify();
+        };
+        timers.set(id, repeat ? setInterval(fire, delay) : setTimeout(fire, delay));
+        return id;
+    };
+    const cancel = (id?: number) => {
+        const handle = id === undefined ? undefined : timers.get(id);
+        if (handle === undefined) return;
+        clearTimeout(handle);
+        clearInterval(handle);
+        timers.delete(id!);
+        if (timers.size === 0) notify();
+    };
+
+    const sandboxConsole = {
+        log: (...args: unknown[]) => write('stdout', `${formatArgs(args)}\n`),
+        info: (...args: unknown[]) => write('stdout', `${formatArgs(args)}\n`),
+        debug: (...args: unknown[]) => write('stdout', `${formatArgs(args)}\n`),
+        table: (...args: unknown[]) => write('stdout', `${formatArgs(args)}\n`),
+        warn: (...args: unknown[]) => write('stderr', `${formatArgs(args)}\n`),
+        error: (...args: unknown[]) => write('stderr', `${formatArgs(args)}\n`),
+        assert: (condition: unknown, ...args: unknown[]) => {
+            if (!condition) write('stderr', `Assertion failed${args.length ? `: ${formatArgs(args)}` : ''}\n`);
+        },
+    };
+
+    const process = {
+        argv: ['node', `/${request.scriptPath}`, ...request.argv],
+        env: {} as Record<string, string>,
+        platform: 'browser',
+        exitCode: undefined as number | undefined,
+        cwd: () => '/',
+        exit: (code?: number) => { throw new ExitSignal(code ?? process.exitCode ?? 0); },
+        nextTick: (callback: (...args: unknown[]) => void, ...args: unknown[]) => queueMicrotask(() => callback(...args)),
+        stdout: { write: (text: unknown) => { write('stdout', String(text)); return true; } },
+        stderr: { write: (text: unknown) => { write('stderr', String(text)); return true; } },
+    };
+
+    // --- fs ---
+    const isDirectory = (path: string) => path === '' || Object.keys(files).some(file => file.startsWith(`${path}/`));
+    const readFileSync = (path: string | number): string => {
+        if (path === 0 || path === '/dev/stdin') return request.stdin;
+        const key = normalize(String(path));
+        if (key in files) return files[key];
+        throw fsError(isDirectory(key) ? 'EISDIR' : 'ENOENT', 'open', String(path));
+    };
+    const writeFileSync = (path: string, data: unknown) => {
+        const key = normalize(path);
+        if (isDirectory(key)) throw fsError('EISDIR', 'open', path);
+        files[key] = String(data);
+    };
+    const fs = {
+        readFileSync,
+        writeFileSync,
+        appendFileSync: (path: string, data: unknown) => writeFileSync(path, (normalize(path) in files ? files[normalize(path)] : '') + String(data)),
+        existsSync: (path: string) => normalize(path) in files || isDirectory(normalize(path)),
+        readdirSync: (path: string = '.') => {
+            const key = normalize(path);
+            if (!isDirectory(key)) throw fsError('ENOENT', 'scandir', path);
+            const prefix = key ? `${key}/` : '';
+            return Array.from(new Set(Object.keys(files).filter(file => file.startsWith(prefix)).map(file => file.substring(prefix.length).split('/')[0]))).sort();
+        },
+        statSync: (path: string) => {
+            const key = normalize(path);
+            const isFile = key in files;
+            if (!isFile && !isDirectory(key)) throw fsError('ENOENT', 'stat', path);
+            return { isFile: () => isFile, isDirectory: () => !isFile, size: isFile ? files[key].length : 0 };
+        },
+        unlinkSync: (path: string) => {
+            const key = normalize(path);
+            if (!(key in files)) throw fsError(isDirectory(key) ? 'EISDIR' : 'ENOENT', 'unlink', path);
+            delete files[key];
+        },
+        rmSync: (path: string, options: { recursive?: boolean; force?: boolean } = {}) => {
+            const key = normalize(path);
+            if (key in files) {
+                delete files[key];
+            } else if (isDirectory(key) && options.recursive) {
+                Object.keys(files).filter(file => file.startsWith(`${key}/`)).forEach(file => delete files[file]);
+            } else if (!options.force) {
+                throw fsError(isDirectory(key) ? 'EISDIR' : 'ENOENT', 'rm', path);
+            }
+        },
+        // Directories only exist through the files in them, as in the VFS sync.
+        mkdirSync: () => undefined,
+    };
+    const fsPromises = Object.fromEntries(Object.entries(fs).map(([name, fn]) => [
+        name.replace(/Sync$/, ''),
+        async (...args: unknown[]) => (fn as (...a: unknown[]) => unknown)(...args),
+    ]));
+    const builtins: Record<string, unknown> = {
+        fs: { ...fs, promises: fsPromises },
+        'fs/promises': fsPromises,
+        path: pathModule,
+    };
+
+    // --- Module Loader ---
+    const cache = new Map<string, { exports: unknown }>();
+
+    const resolveModule = (specifier: string, fromDir: string): string => {
+        if (!/^(\.{1,2}\/|\/|\.{1,2}$)/.test(specifier)) {
+            throw Object.assign(new Error(`Cannot find module '${specifier}'. Only relative VFS modules and the built-in fs and path modules are available.`), { code: 'MODULE_NOT_FOUND' });
+        }
+        const base = normalize(specifier.startsWith('/') ? specifier : `${fromDir}/${specifier}`);
+        // TypeScript sources import their siblings with the .js extension they compile to.
+        const withoutJs = base.replace(/\.(m|c)?js$/, '');
+        const candidates = [
+            base,
+            ...MODULE_EXTENSIONS.map(ext => `${base}${ext}`),
+            ...MODULE_EXTENSIONS.map(ext => `${withoutJs}${ext}`),
+            ...MODULE_EXTENSIONS.map(ext => `${base}/index${ext}`),
+        ];
+        const match = candidates.find(candidate => candidate in files);
+        if (!match) throw Object.assign(new Error(`Cannot find module '${specifier}' from '/${fromDir}'`), { code: 'MODULE_NOT_FOUND' });
+        return match;
+    };
+
+    const compile = (path: string): string => {
+        const { outputText, diagnostics = [] } = ts.transpileModule(files[path], {
+            fileName: path,
+            reportDiagnostics: true,
+            compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+        });
+        if (diagnostics.length > 0) {
+            const messages = diagnostics.map(diagnostic => {
+                const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+                if (!diagnostic.file || diagnostic.start === undefined) return `error TS${diagnostic.code}: ${message}`;
+                const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+                return `/${path}:${line + 1}:${character + 1} - error TS${diagnostic.code}: ${message}`;
+            });
+            throw Object.assign(new SyntaxError(messages.join('\n')), { stack: '' });
+        }
+        return `${outputText}\n//# sourceURL=/${path}`;
+    };
+
+    const PARAMETERS = ['exports', 'require', 'module', '__filename', '__dirname', 'console', 'process', 'setTimeout', 'setInterval', 'clearTimeout', 'clearInterval'];
+    const evaluate = (path: string, isEntry: boolean): { exports: unknown; completion?: Promise<unknown> } => {
+        const module = { exports: {} as unknown };
+        cache.set(path, module);
+        if (path.endsWith('.json')) {
+            module.exports = JSON.parse(files[path]);
+            return module;
+        }
+        const dir = dirname(path);
+        const require = (specifier: string) => {
+            const name = specifier.replace(/^node:/, '');
+            if (name in builtins) return builtins[name];
+            const resolved = resolveModule(specifier, dir);
+            return (cache.get(resolved) ?? evaluate(resolved, false)).exports;
+        };
+        // The entry module runs as an async function so top-level await works.
+        const Wrapper = isEntry ? AsyncFunction : Function;
+        const body = new Wrapper(...PARAMETERS, compile(path));
+        const completion = body(module.exports, require, module, `/${path}`, `/${dir}`, sandboxConsole, process, schedule(false), schedule(true), cancel, cancel);
+        return isEntry ? { exports: module.exports, completion } : module;
+    };
+
+    const rejectionListener = (event: PromiseRejectionEvent) => {
+        event.preventDefault();
+        handleUncaught(event.reason);
+    };
+    ctx.addEventListener('unhandledrejection', rejectionListener);
+
+    onStarted();
+    const started = performance.now();
+    try {
+        files[request.scriptPath] = request.code;
+        try {
+            await evaluate(request.scriptPath, true).completion;
+        } catch (error) {
+            handleUncaught(error);
+        }
+        // Keep running until scheduled timers and the promise callbacks they trigger have all finished.
+        while (exitCode === null) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            if (timers.size === 0 || exitCode !== null) break;
+            await new Promise<void>(resolve => (wake = resolve));
+        }
+    } finally {
+        ctx.removeEventListener('unhandledrejection', rejectionListener);
+        timers.forEach(handle => clearTimeout(handle));
+    }
+
+    // Inline code (-e or stdin) isn't a VFS file and must not be written back.
+    if (!(request.scriptPath in request.files)) delete files[request.scriptPath];
+    const written: SandboxFiles = {};
+    Object.entries(files).forEach(([path, content]) => {
+        if (request.files[path] !== content) written[path] = content;
+    });
+    const deleted = Object.keys(request.files).filter(path => !(path in files));
+    return {
+        stdout,
+        stderr,
+        exitCode: exitCode ?? process.exitCode ?? 0,
+        written,
+        deleted,
+        durationMs: Math.round(performance.now() - started),
+    };
+};
+
+ctx.onmessage = async (event: MessageEvent<SandboxWorkerRequest>) => {
+    const { id, request } = event.data;
+    try {
+        const result = await run(request, () => ctx.postMessage({ id, type: 'started' } satisfies SandboxWorkerMessage));
+        ctx.postMessage({ id, type: 'result', result } satisfies SandboxWorkerMessage);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        ctx.postMessage({ id, type: 'error', message } satisfies SandboxWorkerMessage);
+    }
+};
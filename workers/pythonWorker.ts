@@ -0,0 +1,147 @@
+/// <reference types="vite/client" />
+// Runs Python scripts with Pyodide (CPython compiled to WebAssembly), isolated from the page in a Web Worker.
+// The VFS is materialized under /vfs, which is the script's working directory, and changes are sent back.
+import { loadPyodide, version } from 'pyodide';
+import type { SandboxRunResult, SandboxWorkerMessage, SandboxWorkerRequest } from '../types';
+
+// The loader is bundled, and vite.config.ts serves the WebAssembly runtime and standard library from
+// node_modules/pyodide, so plain scripts need no network. Third-party packages (numpy and the like) are not
+// in the npm package; importing one fetches it from the matching release.
+const PYODIDE_INDEX_URL = new URL(`${import.meta.env.BASE_URL}pyodide/`, self.location.origin).href;
+const PYODIDE_PACKAGE_URL = `https://cdn.jsdelivr.net/pyodide/v${version}/full/`;
+
+const HARNESS = `
+import os, shutil, sys, traceback, tracemalloc
+
+VFS_ROOT = '/vfs'
+
+def _write_files(files):
+    shutil.rmtree(VFS_ROOT, ignore_errors=True)
+    os.makedirs(VFS_ROOT)
+    for path, content in files.items():
+        full = os.path.join(VFS_ROOT, path)
+        os.makedirs(os.path.dirname(full), exist_ok=True)
+        with open(full, 'w', encoding='utf-8') as f:
+            f.write(content)
+
+def _read_files():
+    files = {}
+    for directory, _, names in os.walk(VFS_ROOT):
+        for name in names:
+            full = os.path.join(directory, name)
+            with open(full, 'r', encoding='utf-8', errors='replace') as f:
+                files[os.path.relpath(full, VFS_ROOT)] = f.read()
+    return files
+
+def _limit_memory(limit):
+    # Checked from a trace hook every few thousand events; tracemalloc sees Python-level allocations.
+    tracemalloc.start()
+    counter = [0]
+    def check(frame, event, arg):
+        counter[0] += 1
+        if counter[0] % 2000 == 0 and tracemalloc.get_traced_memory()[0] > limit:
+            sys.settrace(None)
+            raise MemoryError(f'memory limit of {limit // (1024 * 1024)} MB exceeded')
+        return check
+    sys.settrace(check)
+
+def _run(code, script_path, argv, files, memory_limit):
+    _write_files(files.to_py())
+    os.chdir(VFS_ROOT)
+    sys.argv = [script_path] + list(argv)
+    scope = {'__name__': '__main__', '__file__': script_path}
+    exit_code = 0
+    try:
+        compiled = compile(code, script_path, 'exec')
+        _limit_memory(memory_limit)
+        exec(compiled, scope)
+    except SystemExit as e:
+        if isinstance(e.code, int):
+            exit_code = e.code
+        elif e.code is not None:
+            print(e.code, file=sys.stderr)
+            exit_code = 1
+    except BaseException as e:
+        # Drop this harness frame so tracebacks start at the user's script.
+        traceback.print_exception(type(e), e, e.__traceback__.tb_next)
+        exit_code = 1
+    finally:
+        sys.settrace(None)
+        tracemalloc.stop()
+        sys.stdout.flush()
+        sys.stderr.flush()
+        os.chdir('/')
+    return exit_code, _read_files()
+`;
+
+const ctx = self as unknown as Worker;
+let pyodidePromise: ReturnType<typeof loadPyodide> | null = null;
+
+const getPyodide = () => {
+    if (!pyodidePromise) {
+        pyodidePromise = loadPyodide({ indexURL: PYODIDE_INDEX_URL, packageBaseUrl: PYODIDE_PACKAGE_URL })
+            .then(pyodide => {
+                pyodide.runPython(HARNESS);
+                return pyodide;
+            })
+            .catch(error => {
+                // Let the next run try again instead of failing until the page is reloaded.
+                pyodidePromise = null;
+                throw error;
+            });
+    }
+    return pyodidePromise;
+};
+
+// Without a configured limit the script may use whatever the WebAssembly heap can grow to.
+const DEFAULT_MEMORY_LIMIT_BYTES = 2 * 1024 * 1024 * 1024;
+
+const run = async ({ id, request, memoryLimitBytes = DEFAULT_MEMORY_LIMIT_BYTES }: SandboxWorkerRequest): Promise<SandboxRunResult> => {
+    const pyodide = await getPyodide();
+    await pyodide.loadPackagesFromImports(request.code);
+
+    const decoder = { stdout: new TextDecoder(), stderr: new TextDecoder() };
+    let stdout = '';
+    let stderr = '';
+    pyodide.setStdout({ write: buffer => { stdout += decoder.stdout.decode(buffer, { stream: true }); return buffer.length; } });
+    pyodide.setStderr({ write: buffer => { stderr += decoder.stderr.decode(buffer, { stream: true }); return buffer.length; } });
+    let stdinConsumed = false;
+    pyodide.setStdin({
+        stdin: () => {
+            if (stdinConsumed) return null;
+            stdinConsumed = true;
+            return request.stdin;
+        },
+    });
+
+    ctx.postMessage({ id, type: 'started' } satisfies SandboxWorkerMessage);
+    const started = performance.now();
+    const runHarness = pyodide.globals.get('_run');
+    const files = pyodide.toPy(request.files);
+    try {
+        const output = runHarness(request.code, request.scriptPath, request.argv, files, memoryLimitBytes);
+        const [exitCode, finalFiles] = output.toJs({ dict_converter: Object.fromEntries }) as [number, Record<string, string>];
+        output.destroy();
+
+        const written: Record<string, string> = {};
+        Object.entries(finalFiles).forEach(([path, content]) => {
+            if (request.files[path] !== content) written[path] = content;
+        });
+        const deleted = Object.keys(request.files).filter(path => !(path in finalFiles));
+        return { stdout, stderr, exitCode, written, deleted, durationMs: Math.round(performance.now() - started) };
+    } finally {
+        files.destroy();
+        runHarness.destroy();
+    }
+};
+
+ctx.onmessage = async (event: MessageEvent<SandboxWorkerRequest>) => {
+    const { id } = event.data;
+    try {
+        const result = await run(event.data);
+        ctx.postMessage({ id, type: 'result', result } satisfies SandboxWorkerMessage);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        ctx.postMessage({ id, type: 'error', message } satisfies SandboxWorkerMessage);
+    }
+};